@@ -0,0 +1,121 @@
+/**
+ * Unit tests for services/announcements.ts
+ * Tests sending (validation, no broadcast), refetching on inserts and on reconnect, and acknowledgement counts
+ */
+import { flushPromises } from '../setup';
+
+type BroadcastHandler = (event: string, payload: Record<string, unknown>) => void;
+
+const mockRpc = jest.fn();
+const mockSendBroadcast = jest.fn();
+const mockSubscribeToTable = jest.fn();
+let mockBroadcastHandler: BroadcastHandler | null = null;
+let mockInsertHandler: (() => void) | null = null;
+let mockOnReconnected: (() => void) | undefined;
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+
+jest.mock('../../services/realtime', () => ({
+  sendBroadcast: (...args: unknown[]) => mockSendBroadcast(...args),
+  subscribeToTable: (spec: unknown, _options: unknown, handler: () => void) => {
+    mockSubscribeToTable(spec);
+    mockInsertHandler = handler;
+    return jest.fn();
+  },
+  subscribeToBroadcast: (
+    _spec: unknown,
+    options: { onReconnected?: () => void },
+    handler: BroadcastHandler
+  ) => {
+    mockOnReconnected = options.onReconnected;
+    mockBroadcastHandler = handler;
+    return jest.fn();
+  },
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => 'announcement-new',
+}));
+
+const record = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  event_id: 'event-1',
+  message: `Message ${id}`,
+  sender_id: 'user-1',
+  sender_name: 'Sam',
+  created_at: '2026-10-19T18:00:00Z',
+  ack_count: 0,
+  acknowledged: false,
+  ...overrides,
+});
+
+describe('services/announcements', () => {
+  let announcements: typeof import('../../services/announcements');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockBroadcastHandler = null;
+    mockInsertHandler = null;
+    mockOnReconnected = undefined;
+    mockSendBroadcast.mockResolvedValue(true);
+    announcements = require('../../services/announcements');
+  });
+
+  it('rejects empty and over-long messages without calling the server', async () => {
+    await expect(announcements.sendAnnouncement('event-1', '   ')).rejects.toThrow('Type a message');
+    await expect(announcements.sendAnnouncement('event-1', 'x'.repeat(201))).rejects.toThrow('under 200');
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('stores the announcement without relying on a broadcast to deliver it', async () => {
+    mockRpc.mockResolvedValue({ data: record('announcement-new', { message: 'VIP bus arriving' }), error: null });
+
+    const sent = await announcements.sendAnnouncement('event-1', '  VIP bus arriving ', 'Sam');
+
+    expect(mockRpc).toHaveBeenCalledWith('send_event_announcement', {
+      p_id: 'announcement-new',
+      p_event_id: 'event-1',
+      p_message: 'VIP bus arriving',
+      p_sender_name: 'Sam',
+    });
+    expect(sent.acknowledged).toBe(true);
+    expect(mockSendBroadcast).not.toHaveBeenCalled();
+  });
+
+  it('refetches through the RPC when an announcement is inserted for the event', async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null });
+    const stop = announcements.startAnnouncements('event-1');
+    await flushPromises();
+
+    expect(mockSubscribeToTable).toHaveBeenCalledWith({
+      table: 'event_announcements',
+      filter: { column: 'event_id', value: 'event-1' },
+      event: 'INSERT',
+    });
+
+    mockRpc.mockResolvedValue({ data: [record('a-2')], error: null });
+    mockInsertHandler?.();
+    await flushPromises();
+    expect(mockRpc).toHaveBeenLastCalledWith('get_event_announcements', { p_event_id: 'event-1' });
+    expect(announcements.getAnnouncements().map((item) => item.id)).toEqual(['a-2']);
+    stop();
+  });
+
+  it('catches up when the channel reconnects and applies acknowledgement counts', async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null });
+    const stop = announcements.startAnnouncements('event-1');
+    await flushPromises();
+
+    mockRpc.mockResolvedValue({ data: [record('a-1')], error: null });
+    mockOnReconnected?.();
+    await flushPromises();
+    expect(announcements.getAnnouncements().map((item) => item.id)).toEqual(['a-1']);
+
+    mockBroadcastHandler?.('ack', { id: 'a-1', ack_count: 3 });
+    expect(announcements.getAnnouncements()[0].ackCount).toBe(3);
+    stop();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for services/attendeeList.ts
+ * Tests that out-of-order realtime changes and reloads are dropped, and that pending offline operations and
+ * optimistic check-ins stay on top of server rows
+ */
+import { flushPromises } from '../setup';
+import type { Attendee, AttendeeChange } from '../../services/attendees';
+
+const mockGetPendingOperations = jest.fn();
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() => Promise.resolve({ isConnected: true, isInternetReachable: true })),
+}));
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+jest.mock('../../services/realtime', () => ({
+  subscribeToAttendees: jest.fn(),
+}));
+
+jest.mock('../../services/offlineQueue', () => ({
+  addOperationQueuedListener: jest.fn(() => jest.fn()),
+  getPendingOperations: (...args: unknown[]) => mockGetPendingOperations(...args),
+  hasPendingCheckIn: jest.fn(),
+  queueOperation: jest.fn(),
+}));
+
+jest.mock('../../services/syncManager', () => ({
+  addSyncListener: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('../../services/attendeeStore', () => ({}));
+
+const attendee = (id: string, rowVersion: number, overrides: Partial<Attendee> = {}): Attendee => ({
+  id,
+  eventId: 'event-1',
+  attendeeName: `Guest ${id}`,
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  checkedIn: false,
+  rowVersion,
+  ...overrides,
+});
+
+const update = (row: Attendee): AttendeeChange => ({
+  type: 'UPDATE',
+  attendee: row,
+  payload: {} as AttendeeChange['payload'],
+});
+
+describe('services/attendeeList', () => {
+  let attendeeList: typeof import('../../services/attendeeList');
+
+  const find = (id: string) => attendeeList.getAttendeeList().find((item) => item.id === id);
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockGetPendingOperations.mockResolvedValue([]);
+    attendeeList = require('../../services/attendeeList');
+  });
+
+  it('drops a realtime change older than the row it would replace', () => {
+    attendeeList.applyAttendeeSnapshot('event-1', [attendee('a-1', 1)], attendeeList.beginAttendeeSnapshot());
+
+    expect(attendeeList.applyAttendeeListChange('event-1', update(attendee('a-1', 3, { checkedIn: true })))).toBe(true);
+    expect(attendeeList.applyAttendeeListChange('event-1', update(attendee('a-1', 2)))).toBe(false);
+    expect(find('a-1')?.checkedIn).toBe(true);
+  });
+
+  it('keeps changes that arrived during a reload and drops a reload that finished after a newer one', () => {
+    attendeeList.applyAttendeeSnapshot('event-1', [attendee('a-1', 1)], attendeeList.beginAttendeeSnapshot());
+    const older = attendeeList.beginAttendeeSnapshot();
+    const newer = attendeeList.beginAttendeeSnapshot();
+
+    attendeeList.applyAttendeeListChange('event-1', update(attendee('a-2', 1)));
+    attendeeList.applyAttendeeListChange('event-1', update(attendee('a-1', 2, { checkedIn: true })));
+    attendeeList.applyAttendeeSnapshot('event-1', [attendee('a-1', 1)], newer);
+
+    expect(find('a-1')).toMatchObject({ rowVersion: 2, checkedIn: true });
+    expect(find('a-2')).toBeDefined();
+
+    attendeeList.applyAttendeeSnapshot('event-1', [], older);
+    expect(attendeeList.getAttendeeList()).toHaveLength(2);
+  });
+
+  it('keeps pending operations and optimistic check-ins on top until a newer server row arrives', async () => {
+    mockGetPendingOperations.mockResolvedValue([
+      { payload: { type: 'check_in', attendeeId: 'a-2', checkedIn: true }, occurredAt: Date.now() },
+    ]);
+    attendeeList.applyAttendeeSnapshot(
+      'event-1',
+      [attendee('a-1', 1), attendee('a-2', 1)],
+      attendeeList.beginAttendeeSnapshot()
+    );
+    await flushPromises();
+    attendeeList.applyOptimisticUpdate('event-1', ['a-1'], { checkedIn: true });
+
+    // A late copy of the version the check-in was made against doesn't undo it
+    attendeeList.applyAttendeeListChange('event-1', update(attendee('a-1', 1)));
+    attendeeList.applyAttendeeListChange('event-1', update(attendee('a-2', 2)));
+    expect(find('a-1')?.checkedIn).toBe(true);
+    expect(find('a-2')?.checkedIn).toBe(true);
+
+    // Another device undid it after
+    attendeeList.applyAttendeeListChange('event-1', update(attendee('a-1', 3)));
+    expect(find('a-1')?.checkedIn).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for services/attendees.ts
+ * Tests incremental attendee sync: full snapshot without a watermark, and merging changes and deletions
+ */
+import type { Attendee } from '../../services/attendees';
+
+const mockRpc = jest.fn();
+const mockGetCachedWatermark = jest.fn();
+const mockLoadCachedAttendees = jest.fn();
+const mockMergeCachedAttendees = jest.fn();
+const mockReplaceCachedAttendees = jest.fn();
+const mockGetPendingOperations = jest.fn();
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() => Promise.resolve({ isConnected: true, isInternetReachable: true })),
+}));
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+
+jest.mock('../../services/realtime', () => ({
+  subscribeToAttendees: jest.fn(),
+}));
+
+jest.mock('../../services/offlineQueue', () => ({
+  getPendingOperations: (...args: unknown[]) => mockGetPendingOperations(...args),
+  hasPendingCheckIn: jest.fn(),
+  queueOperation: jest.fn(),
+}));
+
+jest.mock('../../services/attendeeStore', () => ({
+  getCachedWatermark: (...args: unknown[]) => mockGetCachedWatermark(...args),
+  loadCachedAttendees: (...args: unknown[]) => mockLoadCachedAttendees(...args),
+  mergeCachedAttendees: (...args: unknown[]) => mockMergeCachedAttendees(...args),
+  replaceCachedAttendees: (...args: unknown[]) => mockReplaceCachedAttendees(...args),
+  removeCachedAttendee: jest.fn(),
+  setCachedCheckIn: jest.fn(),
+  setCachedCheckIns: jest.fn(),
+  upsertCachedAttendee: jest.fn(),
+}));
+
+const record = (id: string, name: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  event_id: 'event-1',
+  full_name: name,
+  group_name: null,
+  table_number: null,
+  ticket_type: null,
+  notes: null,
+  checked_in: false,
+  checked_in_at: null,
+  checked_in_by: null,
+  updated_at: '2026-10-19T18:00:00+00:00',
+  archived_at: null,
+  ...overrides,
+});
+
+const cachedAttendee = (id: string, name: string, overrides: Partial<Attendee> = {}): Attendee => ({
+  id,
+  eventId: 'event-1',
+  attendeeName: name,
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  notes: null,
+  checkedIn: false,
+  checkedInAt: null,
+  checkedInBy: null,
+  updatedAt: '2026-10-19T17:00:00+00:00',
+  externalId: null,
+  email: null,
+  isWalkIn: false,
+  ...overrides,
+});
+
+describe('services/attendees', () => {
+  let attendees: typeof import('../../services/attendees');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockGetPendingOperations.mockResolvedValue([]);
+    mockMergeCachedAttendees.mockResolvedValue(undefined);
+    mockReplaceCachedAttendees.mockResolvedValue(undefined);
+    attendees = require('../../services/attendees');
+  });
+
+  it('fetches a full snapshot and stores its server time when there is no watermark', async () => {
+    mockGetCachedWatermark.mockResolvedValue(null);
+    mockRpc.mockResolvedValue({
+      data: {
+        server_time: '2026-10-19T18:30:00+00:00',
+        reset: true,
+        attendees: [record('a-1', 'Ada Lovelace'), record('a-2', 'Grace Hopper')],
+        deleted_ids: [],
+      },
+      error: null,
+    });
+
+    const result = await attendees.fetchAttendees('event-1');
+
+    expect(mockRpc).toHaveBeenCalledWith('get_attendee_changes', { p_event_id: 'event-1', p_since: null });
+    expect(result.map((attendee) => attendee.id)).toEqual(['a-1', 'a-2']);
+    expect(mockReplaceCachedAttendees).toHaveBeenCalledWith('event-1', result, '2026-10-19T18:30:00+00:00');
+    expect(mockMergeCachedAttendees).not.toHaveBeenCalled();
+  });
+
+  it('merges changed, deleted and archived attendees into the cached roster', async () => {
+    mockGetCachedWatermark.mockResolvedValue('2026-10-19T18:30:00+00:00');
+    mockLoadCachedAttendees.mockResolvedValue([
+      cachedAttendee('a-1', 'Ada Lovelace'),
+      cachedAttendee('a-2', 'Grace Hopper'),
+      cachedAttendee('a-3', 'Alan Turing'),
+      cachedAttendee('a-4', 'Edsger Dijkstra'),
+      cachedAttendee('walkin-1', 'Katherine Johnson', { isWalkIn: true }),
+    ]);
+    mockRpc.mockResolvedValue({
+      data: {
+        server_time: '2026-10-19T18:35:00+00:00',
+        reset: false,
+        attendees: [
+          record('a-1', 'Ada Lovelace', { checked_in: true, checked_in_at: '2026-10-19T18:33:00+00:00' }),
+          record('a-4', 'Edsger Dijkstra', { archived_at: '2026-10-19T18:34:00+00:00' }),
+          record('a-5', 'Barbara Liskov'),
+        ],
+        deleted_ids: ['a-3'],
+      },
+      error: null,
+    });
+
+    const result = await attendees.fetchAttendees('event-1');
+
+    expect(mockRpc).toHaveBeenCalledWith('get_attendee_changes', {
+      p_event_id: 'event-1',
+      p_since: '2026-10-19T18:30:00+00:00',
+    });
+    expect(result.map((attendee) => attendee.attendeeName)).toEqual([
+      'Ada Lovelace',
+      'Barbara Liskov',
+      'Grace Hopper',
+    ]);
+    expect(result.find((attendee) => attendee.id === 'a-1')?.checkedIn).toBe(true);
+
+    const [eventId, changed, removedIds, watermark] = mockMergeCachedAttendees.mock.calls[0];
+    expect(eventId).toBe('event-1');
+    expect(changed.map((attendee: Attendee) => attendee.id)).toEqual(['a-1', 'a-5']);
+    // The synced walk-in placeholder goes too; the server row replaces it
+    expect(removedIds).toEqual(['a-3', 'a-4', 'walkin-1']);
+    expect(watermark).toBe('2026-10-19T18:35:00+00:00');
+    expect(mockReplaceCachedAttendees).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the cached roster when the delta request fails', async () => {
+    mockGetCachedWatermark.mockResolvedValue('2026-10-19T18:30:00+00:00');
+    mockLoadCachedAttendees.mockResolvedValue([cachedAttendee('a-1', 'Ada Lovelace')]);
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+
+    const result = await attendees.fetchAttendees('event-1');
+
+    expect(result.map((attendee) => attendee.id)).toEqual(['a-1']);
+    expect(mockMergeCachedAttendees).not.toHaveBeenCalled();
+  });
+});
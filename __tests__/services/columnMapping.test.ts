@@ -0,0 +1,130 @@
+/**
+ * Unit tests for services/columnMapping.ts
+ * Tests header synonym matching, preview issues for missing and duplicate match keys, and saved mappings whose
+ * headers are gone
+ */
+import type { CsvParseResult } from '../../services/csvParser';
+import type { ColumnMapping } from '../../services/columnMapping';
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+const makeParsed = (headers: string[], rows: string[][]): CsvParseResult => ({
+  headers,
+  rows: rows.map((fields, index) => ({
+    line: index + 2,
+    values: Object.fromEntries(headers.map((header, column) => [header, fields[column] ?? ''])),
+  })),
+  errors: [],
+  delimiter: ',',
+});
+
+const makeMapping = (overrides: Partial<ColumnMapping>): ColumnMapping => ({
+  name: '',
+  group: '',
+  table: '',
+  ticketType: '',
+  notes: '',
+  externalId: '',
+  email: '',
+  ...overrides,
+});
+
+describe('services/columnMapping', () => {
+  let columnMapping: typeof import('../../services/columnMapping');
+
+  beforeEach(() => {
+    jest.resetModules();
+    columnMapping = require('../../services/columnMapping');
+  });
+
+  describe('suggestColumnMapping', () => {
+    it('matches headers by synonym regardless of case and punctuation', () => {
+      const mapping = columnMapping.suggestColumnMapping([
+        'Guest Name',
+        'Company',
+        'Table No.',
+        'Admission Type',
+        'E-mail',
+        'Registration ID',
+      ]);
+
+      expect(mapping).toEqual(
+        makeMapping({
+          name: 'Guest Name',
+          group: 'Company',
+          table: 'Table No.',
+          ticketType: 'Admission Type',
+          email: 'E-mail',
+          externalId: 'Registration ID',
+        })
+      );
+    });
+
+    it('prefers exact matches over partial ones and uses each header once', () => {
+      const mapping = columnMapping.suggestColumnMapping(['Guest Full Name', 'Name', 'Table']);
+
+      expect(mapping.name).toBe('Name');
+      expect(mapping.table).toBe('Table');
+      expect(mapping.group).toBe('');
+    });
+
+    it('leaves fields unmapped when nothing matches', () => {
+      expect(columnMapping.suggestColumnMapping(['Column A', 'Column B'])).toEqual(makeMapping({}));
+    });
+  });
+
+  describe('buildImportPreview', () => {
+    it('flags rows with a missing name and duplicate match keys', () => {
+      const parsed = makeParsed(['Name', 'Table'], [['Ada', '1'], ['', '2'], ['  ada ', '3'], ['Brook', '4']]);
+
+      const preview = columnMapping.buildImportPreview(parsed, makeMapping({ name: 'Name', table: 'Table' }));
+
+      expect(preview.map((row) => [row.line, row.issues])).toEqual([
+        [2, []],
+        [3, ['Missing name (row will be skipped)']],
+        [4, ['Duplicate of line 2']],
+        [5, []],
+      ]);
+    });
+
+    it('reports a missing match key column and missing match key values', () => {
+      const parsed = makeParsed(['Name', 'Email'], [['Ada', 'ada@example.com'], ['Brook', '']]);
+
+      expect(columnMapping.buildImportPreview(parsed, makeMapping({ name: 'Name' }), 'email')[0].issues).toEqual([
+        'No column mapped to Email',
+      ]);
+      expect(
+        columnMapping
+          .buildImportPreview(parsed, makeMapping({ name: 'Name', email: 'Email' }), 'email')
+          .map((row) => row.issues)
+      ).toEqual([[], ['Missing email (row will be skipped)']]);
+    });
+
+    it('flags every row when no column is mapped to Name', () => {
+      const parsed = makeParsed(['Guest'], [['Ada']]);
+
+      expect(columnMapping.buildImportPreview(parsed, makeMapping({}))[0].issues).toEqual(['No column mapped to Name']);
+    });
+  });
+
+  describe('loadSavedColumnMapping', () => {
+    it('returns the saved mapping while its headers are still present', async () => {
+      const saved = makeMapping({ name: 'Guest', table: 'Seat' });
+      await columnMapping.saveColumnMapping('event-1', saved);
+
+      await expect(columnMapping.loadSavedColumnMapping('event-1', ['Guest', 'Seat', 'Extra'])).resolves.toEqual(saved);
+    });
+
+    it('discards a saved mapping when one of its headers is gone', async () => {
+      await columnMapping.saveColumnMapping('event-1', makeMapping({ name: 'Guest', table: 'Seat' }));
+
+      await expect(columnMapping.loadSavedColumnMapping('event-1', ['Guest', 'Table'])).resolves.toBeNull();
+    });
+
+    it('returns null when nothing was saved for the event', async () => {
+      await expect(columnMapping.loadSavedColumnMapping('event-2', ['Guest'])).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for services/csvParser.ts
+ * Tests RFC 4180 tokenizing, delimiter sniffing, and encoding detection
+ */
+
+describe('services/csvParser', () => {
+  let csvParser: typeof import('../../services/csvParser');
+
+  beforeEach(() => {
+    jest.resetModules();
+    csvParser = require('../../services/csvParser');
+  });
+
+  describe('parseCsvText', () => {
+    it('keeps commas and escaped quotes inside quoted fields', () => {
+      const result = csvParser.parseCsvText('name,notes\n"Smith, John","Said ""hi"""\n');
+
+      expect(result.rows).toEqual([
+        { line: 2, values: { name: 'Smith, John', notes: 'Said "hi"' } },
+      ]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('supports embedded newlines and reports the line each row starts on', () => {
+      const result = csvParser.parseCsvText('name,notes\r\nAda,"line one\r\nline two"\r\nBrook,ok\r\n');
+
+      expect(result.rows).toEqual([
+        { line: 2, values: { name: 'Ada', notes: 'line one\r\nline two' } },
+        { line: 4, values: { name: 'Brook', notes: 'ok' } },
+      ]);
+    });
+
+    it('skips blank lines without shifting line numbers', () => {
+      const result = csvParser.parseCsvText('name\n\nAda\n\n\nBrook');
+
+      expect(result.rows.map((row) => row.line)).toEqual([3, 6]);
+    });
+
+    it('strips a UTF-8 byte order mark from the first header', () => {
+      const result = csvParser.parseCsvText('\uFEFFname,table\nAda,4');
+
+      expect(result.headers).toEqual(['name', 'table']);
+    });
+
+    it('reports unterminated quotes and extra columns with line numbers', () => {
+      const result = csvParser.parseCsvText('name,table\nAda,1,extra\nBrook,"2\n');
+
+      expect(result.errors).toEqual([
+        { line: 2, message: 'Expected 2 columns but found 3' },
+        { line: 3, message: 'Unterminated quoted field' },
+      ]);
+    });
+
+    it('reports rows with missing columns and keeps them with empty values', () => {
+      const result = csvParser.parseCsvText('name,table,ticket\nAda,1\nBrook,2,VIP\n');
+
+      expect(result.errors).toEqual([{ line: 2, message: 'Expected 3 columns but found 2' }]);
+      expect(result.rows[0]).toEqual({ line: 2, values: { name: 'Ada', table: '1', ticket: '' } });
+    });
+  });
+
+  describe('CsvTokenizer', () => {
+    it('produces the same records regardless of how input is chunked', () => {
+      const input = 'a,"b\nc"\r\n"d""e",f\r\n';
+      const whole: string[][] = [];
+      const chunked: string[][] = [];
+
+      const tokenizer = new csvParser.CsvTokenizer(',', (record) => whole.push(record.fields));
+      tokenizer.push(input);
+      tokenizer.end();
+
+      const streaming = new csvParser.CsvTokenizer(',', (record) => chunked.push(record.fields));
+      for (const char of input) streaming.push(char);
+      streaming.end();
+
+      expect(chunked).toEqual(whole);
+      expect(whole).toEqual([
+        ['a', 'b\nc'],
+        ['d"e', 'f'],
+      ]);
+    });
+  });
+
+  describe('sniffDelimiter', () => {
+    it('detects semicolon and tab delimited exports', () => {
+      expect(csvParser.sniffDelimiter('name;table\n"Smith, John";4')).toBe(';');
+      expect(csvParser.sniffDelimiter('name\ttable\tgroup\nAda\t1\tStaff')).toBe('\t');
+    });
+
+    it('defaults to a comma for single-column files', () => {
+      expect(csvParser.sniffDelimiter('name\nAda\nBrook')).toBe(',');
+    });
+  });
+
+  describe('decodeCsvBytes', () => {
+    it('decodes UTF-8 with and without a BOM', () => {
+      const plain = new Uint8Array([0x4a, 0x6f, 0x73, 0xc3, 0xa9]);
+      const withBom = new Uint8Array([0xef, 0xbb, 0xbf, ...plain]);
+
+      expect(csvParser.decodeCsvBytes(plain)).toEqual({ text: 'José', encoding: 'utf-8' });
+      expect(csvParser.decodeCsvBytes(withBom)).toEqual({ text: 'José', encoding: 'utf-8' });
+    });
+
+    it('decodes UTF-16 little endian files', () => {
+      const bytes = new Uint8Array([0xff, 0xfe, 0x41, 0x00, 0x2c, 0x00, 0x42, 0x00]);
+
+      expect(csvParser.decodeCsvBytes(bytes)).toEqual({ text: 'A,B', encoding: 'utf-16le' });
+    });
+
+    it('falls back to Windows-1252 for invalid UTF-8', () => {
+      const bytes = new Uint8Array([0x4a, 0x6f, 0x73, 0xe9, 0x20, 0x80]);
+
+      expect(csvParser.decodeCsvBytes(bytes)).toEqual({ text: 'José €', encoding: 'windows-1252' });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for services/offlineEvents.ts
+ * Tests that caches with unsynced changes are kept, and which caches stale and retention eviction removes
+ */
+const mockRunAsync = jest.fn();
+const mockGetAllAsync = jest.fn();
+const mockGetCachedRosterStats = jest.fn();
+const mockClearCachedRoster = jest.fn();
+const mockGetQueueStats = jest.fn();
+const mockClearSyncConflicts = jest.fn();
+
+const mockDb = { runAsync: mockRunAsync, getAllAsync: mockGetAllAsync };
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() => Promise.resolve({ isConnected: true, isInternetReachable: true })),
+}));
+
+jest.mock('../../services/localStore', () => ({
+  readLocalStore: (fn: (db: unknown) => unknown) => fn(mockDb),
+  writeLocalStore: (fn: (db: unknown) => unknown) => fn(mockDb),
+}));
+
+jest.mock('../../services/attendeeStore', () => ({
+  getCachedRosterStats: (...args: unknown[]) => mockGetCachedRosterStats(...args),
+  clearCachedRoster: (...args: unknown[]) => mockClearCachedRoster(...args),
+}));
+
+jest.mock('../../services/attendees', () => ({
+  fetchAttendees: jest.fn(),
+}));
+
+jest.mock('../../services/sheetSync', () => ({
+  fetchSheetSyncConfig: jest.fn(),
+}));
+
+jest.mock('../../services/offlineQueue', () => ({
+  getQueueStats: (...args: unknown[]) => mockGetQueueStats(...args),
+}));
+
+jest.mock('../../services/syncConflicts', () => ({
+  clearSyncConflicts: (...args: unknown[]) => mockClearSyncConflicts(...args),
+}));
+
+jest.mock('../../services/settings', () => ({
+  getOfflineRetentionDays: jest.fn(() => Promise.resolve(7)),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const offlineRow = (eventId: string, pinned: number, endsAt: string | null = null) => ({
+  event_id: eventId,
+  event_name: `Event ${eventId}`,
+  org_id: 'org-1',
+  org_name: 'Org',
+  role: 'checker',
+  settings: null,
+  pinned,
+  downloaded_at: null,
+  ends_at: endsAt,
+});
+
+const rosterStats = (eventId: string, lastRefreshedAt: number | null) => ({
+  eventId,
+  attendeeCount: 10,
+  sizeBytes: 1000,
+  lastRefreshedAt,
+});
+
+describe('services/offlineEvents', () => {
+  let offlineEvents: typeof import('../../services/offlineEvents');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockRunAsync.mockResolvedValue(undefined);
+    mockClearCachedRoster.mockResolvedValue(undefined);
+    mockClearSyncConflicts.mockResolvedValue(undefined);
+    mockGetQueueStats.mockResolvedValue({ pending: 0, failed: 0 });
+    offlineEvents = require('../../services/offlineEvents');
+  });
+
+  it('refuses to remove an event with changes waiting to sync', async () => {
+    mockGetQueueStats.mockResolvedValue({ pending: 2, failed: 1 });
+
+    await expect(offlineEvents.removeOfflineEvent('event-1')).rejects.toThrow('3 changes waiting to sync');
+    expect(mockClearCachedRoster).not.toHaveBeenCalled();
+  });
+
+  it('evicts stale unpinned caches and events no longer accessible, keeping pinned and in-use ones', async () => {
+    const now = Date.now();
+    mockGetAllAsync.mockResolvedValue([offlineRow('pinned', 1), offlineRow('revoked', 1)]);
+    mockGetCachedRosterStats.mockResolvedValue([
+      rosterStats('pinned', now - 10 * DAY_MS),
+      rosterStats('revoked', now),
+      rosterStats('recent', now - DAY_MS),
+      rosterStats('stale', now - 5 * DAY_MS),
+      rosterStats('current', now - 5 * DAY_MS),
+      rosterStats('unsynced', now - 5 * DAY_MS),
+    ]);
+    mockGetQueueStats.mockImplementation((eventId: string) =>
+      Promise.resolve({ pending: eventId === 'unsynced' ? 1 : 0, failed: 0 })
+    );
+
+    const evicted = await offlineEvents.evictStaleEventCaches({
+      accessibleEventIds: ['pinned', 'recent', 'stale', 'current', 'unsynced'],
+      keepEventId: 'current',
+    });
+
+    expect(evicted).toBe(2);
+    expect(mockClearCachedRoster.mock.calls.map(([eventId]: unknown[]) => eventId)).toEqual(['revoked', 'stale']);
+    expect(mockRunAsync).toHaveBeenCalledWith('DELETE FROM offline_events WHERE event_id = ?', ['revoked']);
+  });
+
+  it('deletes events past the retention period after they end, even the one in use', async () => {
+    const now = Date.now();
+    mockGetAllAsync.mockResolvedValue([
+      offlineRow('ended', 1, new Date(now - 8 * DAY_MS).toISOString()),
+      offlineRow('recently-ended', 1, new Date(now - 2 * DAY_MS).toISOString()),
+      offlineRow('upcoming', 1, new Date(now + DAY_MS).toISOString()),
+    ]);
+    mockGetCachedRosterStats.mockResolvedValue([
+      rosterStats('ended', now),
+      rosterStats('recently-ended', now),
+      rosterStats('upcoming', now),
+    ]);
+
+    const evicted = await offlineEvents.evictStaleEventCaches({ keepEventId: 'ended' });
+
+    expect(evicted).toBe(1);
+    expect(mockClearCachedRoster).toHaveBeenCalledWith('ended');
+    expect(mockClearSyncConflicts).toHaveBeenCalledWith('ended');
+    expect(mockRunAsync).toHaveBeenCalledWith('DELETE FROM offline_events WHERE event_id = ?', ['ended']);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for services/realtime.ts
+ * Tests that dropped channels are rebuilt for the table and filter they were subscribed with, when
+ * onReconnected fires, and how status changes and message metrics reach status listeners
+ */
+type StatusCallback = (status: string) => void;
+
+const mockOn = jest.fn();
+const mockRemoveChannel = jest.fn();
+const mockStatusCallbacks: StatusCallback[] = [];
+
+const mockChannel = () => {
+  const channel = {
+    on: (...args: unknown[]) => {
+      mockOn(...args);
+      return channel;
+    },
+    subscribe: (callback: StatusCallback) => {
+      mockStatusCallbacks.push(callback);
+      return channel;
+    },
+  };
+  return channel;
+};
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: () => ({
+    channel: jest.fn(() => mockChannel()),
+    removeChannel: (...args: unknown[]) => mockRemoveChannel(...args),
+  }),
+}));
+
+const latestStatusCallback = () => mockStatusCallbacks[mockStatusCallbacks.length - 1];
+
+describe('services/realtime', () => {
+  let realtime: typeof import('../../services/realtime');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockStatusCallbacks.length = 0;
+    realtime = require('../../services/realtime');
+  });
+
+  afterEach(() => {
+    realtime.cleanupRealtimeConnections();
+    jest.useRealTimers();
+  });
+
+  it('reconnects a dropped channel to the same table and filter', () => {
+    realtime.subscribeToEvents({ orgId: 'org-1' }, jest.fn());
+    latestStatusCallback()('CHANNEL_ERROR');
+    jest.runOnlyPendingTimers();
+
+    expect(mockOn).toHaveBeenCalledTimes(2);
+    expect(mockOn.mock.calls[1][1]).toEqual({ event: '*', schema: 'public', table: 'events', filter: 'org_id=eq.org-1' });
+    expect(realtime.getRealtimeConnectionStatus('events-org-1')?.reconnectAttempts).toBe(1);
+  });
+
+  it('calls onReconnected when a channel comes back, not when it first connects', () => {
+    const onReconnected = jest.fn();
+    realtime.subscribeToTable(
+      { table: 'event_members', filter: { column: 'event_id', value: 'event-1' } },
+      { onReconnected },
+      jest.fn()
+    );
+
+    latestStatusCallback()('SUBSCRIBED');
+    expect(onReconnected).not.toHaveBeenCalled();
+
+    latestStatusCallback()('TIMED_OUT');
+    jest.runOnlyPendingTimers();
+    latestStatusCallback()('SUBSCRIBED');
+
+    expect(onReconnected).toHaveBeenCalledTimes(1);
+    expect(realtime.getRealtimeConnectionStatus('event_members-event-1')).toMatchObject({
+      isConnected: true,
+      reconnectAttempts: 0,
+    });
+  });
+
+  it('gives up after the channel policy runs out of attempts', () => {
+    const onError = jest.fn();
+    realtime.subscribeToTable(
+      { table: 'event_access_codes', filter: { column: 'event_id', value: 'event-1' } },
+      { onError, reconnect: { maxAttempts: 1 } },
+      jest.fn()
+    );
+
+    latestStatusCallback()('CHANNEL_ERROR');
+    jest.runOnlyPendingTimers();
+    latestStatusCallback()('CHANNEL_ERROR');
+
+    expect(onError).toHaveBeenCalledWith(new Error('Failed to reconnect after 1 attempts'));
+  });
+
+  it('pushes connection changes to status listeners and records reconnect history', () => {
+    const listener = jest.fn();
+    realtime.addRealtimeStatusListener(listener);
+    realtime.subscribeToEvents({ orgId: 'org-1' }, jest.fn());
+
+    latestStatusCallback()('SUBSCRIBED');
+    latestStatusCallback()('TIMED_OUT');
+    jest.runOnlyPendingTimers();
+    latestStatusCallback()('SUBSCRIBED');
+
+    const statuses: Map<string, import('../../services/realtime').RealtimeConnectionStatus> =
+      listener.mock.calls[listener.mock.calls.length - 1][0];
+    expect(statuses.get('events-org-1')?.isConnected).toBe(true);
+    expect(statuses.get('events-org-1')?.reconnectHistory.map((event) => event.kind)).toEqual([
+      'reconnected',
+      'dropped',
+    ]);
+  });
+
+  it('counts messages and batches their status emits', () => {
+    const listener = jest.fn();
+    realtime.subscribeToEvents({ orgId: 'org-1' }, jest.fn());
+    latestStatusCallback()('SUBSCRIBED');
+    realtime.addRealtimeStatusListener(listener);
+    listener.mockClear();
+
+    const onChange = mockOn.mock.calls[0][2];
+    onChange({ eventType: 'UPDATE', commit_timestamp: new Date().toISOString() });
+    onChange({ eventType: 'UPDATE', commit_timestamp: new Date().toISOString() });
+    expect(listener).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(realtime.getRealtimeConnectionStatus('events-org-1')).toMatchObject({
+      messageCount: 2,
+      deliveryLatencyMs: 0,
+    });
+  });
+});
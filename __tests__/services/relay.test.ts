@@ -0,0 +1,117 @@
+/**
+ * Unit tests for services/relay.ts
+ * Tests which queued operations are shared with the venue relay and in what form, and which relay addresses may
+ * use plain HTTP
+ */
+import type { QueuedOperation, QueuedOperationPayload } from '../../services/offlineQueue';
+
+jest.mock('../../services/offlineQueue', () => ({
+  addOperationQueuedListener: jest.fn(() => jest.fn()),
+  getPendingOperations: jest.fn(() => Promise.resolve([])),
+}));
+
+jest.mock('../../services/attendeeStore', () => ({
+  setCachedCheckIn: jest.fn(),
+  upsertCachedAttendee: jest.fn(),
+  removeCachedAttendee: jest.fn(),
+}));
+
+jest.mock('../../services/attendees', () => ({
+  fetchAttendee: jest.fn(),
+}));
+
+jest.mock('../../services/attendeeEvents', () => ({
+  emitRefreshAttendees: jest.fn(),
+}));
+
+jest.mock('../../services/secureStorage', () => ({
+  secureStorage: { getItem: jest.fn(), setItem: jest.fn(), removeItem: jest.fn() },
+}));
+
+const OCCURRED_AT = Date.UTC(2026, 9, 19, 18, 30);
+
+const makeOperation = (payload: QueuedOperationPayload): QueuedOperation => ({
+  id: 'queue-1',
+  seq: 1,
+  eventId: 'event-1',
+  operationId: 'op-1',
+  occurredAt: OCCURRED_AT,
+  queuedAt: OCCURRED_AT,
+  attempts: 0,
+  lastAttemptAt: null,
+  inFlightAt: null,
+  synced: false,
+  error: null,
+  payload,
+});
+
+describe('services/relay', () => {
+  let relay: typeof import('../../services/relay');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    relay = require('../../services/relay');
+  });
+
+  it('shares a check-in with its operation ID and event time', () => {
+    const checkIns = relay.toRelayCheckIns(
+      makeOperation({ type: 'check_in', attendeeId: 'attendee-1', checkedIn: false })
+    );
+
+    expect(checkIns).toEqual([
+      {
+        op_id: 'op-1',
+        event_id: 'event-1',
+        attendee_id: 'attendee-1',
+        checked: false,
+        occurred_at: new Date(OCCURRED_AT).toISOString(),
+      },
+    ]);
+  });
+
+  it('shares a group check-in as one check-in per attendee', () => {
+    const checkIns = relay.toRelayCheckIns(
+      makeOperation({
+        type: 'bulk_check_in',
+        scope: 'table',
+        label: '12',
+        checkedIn: true,
+        targets: [
+          { attendeeId: 'attendee-1', operationId: 'op-a' },
+          { attendeeId: 'attendee-2', operationId: 'op-b' },
+        ],
+      })
+    );
+
+    expect(checkIns.map(({ op_id, attendee_id, source }) => [op_id, attendee_id, source])).toEqual([
+      ['op-a', 'attendee-1', 'table'],
+      ['op-b', 'attendee-2', 'table'],
+    ]);
+  });
+
+  it('does not share walk-ins, edits or notes', () => {
+    expect(
+      relay.toRelayCheckIns(
+        makeOperation({ type: 'notes', attendeeId: 'attendee-1', expectedUpdatedAt: null, notes: 'VIP' })
+      )
+    ).toEqual([]);
+  });
+
+  it('only allows plain HTTP to private network addresses', () => {
+    expect(relay.isLocalNetworkUrl('http://192.168.1.20:8787')).toBe(true);
+    expect(relay.isLocalNetworkUrl('http://10.0.0.5:8787')).toBe(true);
+    expect(relay.isLocalNetworkUrl('http://172.20.1.2')).toBe(true);
+    expect(relay.isLocalNetworkUrl('http://door-laptop.local:8787')).toBe(true);
+    expect(relay.isLocalNetworkUrl('http://172.32.1.2')).toBe(false);
+    expect(relay.isLocalNetworkUrl('http://relay.example.com')).toBe(false);
+    expect(relay.isLocalNetworkUrl('http://8.8.8.8')).toBe(false);
+  });
+
+  it('refuses a plain HTTP relay outside the local network before contacting it', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    await expect(relay.connectRelay('relay.example.com:8787', 'door42')).rejects.toThrow('local network');
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for services/reporting.ts
+ * Tests attendance report aggregation, the arrival projection and CSV generation
+ */
+import type { Attendee } from '../../services/attendees';
+
+jest.mock('expo-file-system', () => ({
+  File: jest.fn(),
+  Paths: { cache: {} },
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(() => Promise.resolve(true)),
+  shareAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../../services/attendees', () => ({
+  fetchAttendees: jest.fn(),
+}));
+
+const makeAttendee = (overrides: Partial<Attendee>): Attendee => ({
+  id: overrides.id ?? Math.random().toString(36).slice(2),
+  eventId: 'event-1',
+  attendeeName: 'Guest',
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  notes: null,
+  checkedIn: false,
+  checkedInAt: null,
+  checkedInBy: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe('services/reporting', () => {
+  let reporting: typeof import('../../services/reporting');
+
+  beforeEach(() => {
+    jest.resetModules();
+    reporting = require('../../services/reporting');
+  });
+
+  const attendees: Attendee[] = [
+    makeAttendee({
+      attendeeName: 'Ada',
+      groupName: 'Sponsors',
+      tableNumber: '1',
+      ticketType: 'VIP',
+      checkedIn: true,
+      checkedInAt: '2026-10-19T18:01:00.000Z',
+    }),
+    makeAttendee({
+      attendeeName: 'Brook',
+      groupName: 'Sponsors',
+      tableNumber: '1',
+      ticketType: 'General',
+      checkedIn: true,
+      checkedInAt: '2026-10-19T18:40:00.000Z',
+    }),
+    makeAttendee({ attendeeName: 'Cyd', groupName: 'Staff', tableNumber: '2', ticketType: 'General' }),
+    makeAttendee({ attendeeName: 'Ash', groupName: '', tableNumber: '10', ticketType: 'General' }),
+  ];
+
+  describe('buildAttendanceReport', () => {
+    it('computes overall totals and rate', () => {
+      const report = reporting.buildAttendanceReport(attendees);
+
+      expect(report.total).toBe(4);
+      expect(report.checkedIn).toBe(2);
+      expect(report.pending).toBe(2);
+      expect(report.rate).toBe(0.5);
+    });
+
+    it('returns a zero rate for an empty roster', () => {
+      const report = reporting.buildAttendanceReport([]);
+
+      expect(report.rate).toBe(0);
+      expect(report.arrivals).toEqual([]);
+      expect(report.noShows).toEqual([]);
+    });
+
+    it('breaks down check-in rate by group with a placeholder for blanks', () => {
+      const report = reporting.buildAttendanceReport(attendees);
+
+      expect(report.byGroup).toEqual([
+        { label: '(none)', total: 1, checkedIn: 0, rate: 0 },
+        { label: 'Sponsors', total: 2, checkedIn: 2, rate: 1 },
+        { label: 'Staff', total: 1, checkedIn: 0, rate: 0 },
+      ]);
+    });
+
+    it('sorts table numbers numerically', () => {
+      const report = reporting.buildAttendanceReport(attendees);
+
+      expect(report.byTable.map((row) => row.label)).toEqual(['1', '2', '10']);
+    });
+
+    it('builds a gap-free 15-minute arrival histogram', () => {
+      const report = reporting.buildAttendanceReport(attendees);
+
+      expect(report.arrivals).toEqual([
+        { start: '2026-10-19T18:00:00.000Z', count: 1 },
+        { start: '2026-10-19T18:15:00.000Z', count: 0 },
+        { start: '2026-10-19T18:30:00.000Z', count: 1 },
+      ]);
+    });
+
+    it('lists no-shows alphabetically', () => {
+      const report = reporting.buildAttendanceReport(attendees);
+
+      expect(report.noShows.map((attendee) => attendee.attendeeName)).toEqual(['Ash', 'Cyd']);
+    });
+  });
+
+  describe('projectArrivals', () => {
+    it('projects the finish from the recent check-in rate', () => {
+      const projection = reporting.projectArrivals(attendees, { now: new Date('2026-10-19T18:45:00.000Z') });
+
+      expect(projection).toEqual({
+        ratePerHour: 2,
+        remaining: 2,
+        finishAt: '2026-10-19T19:45:00.000Z',
+        windowMinutes: 30,
+      });
+    });
+
+    it('has no finish time when nobody arrived in the window', () => {
+      const projection = reporting.projectArrivals(attendees, { now: new Date('2026-10-19T19:30:00.000Z') });
+
+      expect(projection.finishAt).toBeNull();
+      expect(projection.ratePerHour).toBe(0);
+    });
+
+    it('labels attendees without a value like the breakdown rows do', () => {
+      expect(reporting.getBreakdownLabel(attendees[3], 'group')).toBe('(none)');
+      expect(reporting.getBreakdownLabel(attendees[3], 'table')).toBe('10');
+    });
+  });
+
+  describe('CSV generation', () => {
+    it('escapes commas, quotes and newlines in attendee fields', () => {
+      const csv = reporting.buildAttendeeCsv([
+        makeAttendee({ attendeeName: 'Smith, John', notes: 'Said "hi"\nat door' }),
+      ]);
+
+      const [, row] = csv.split('\r\n');
+      expect(row).toBe('"Smith, John",,,,"Said ""hi""\nat door",No,,No');
+    });
+
+    it('includes overall, breakdown and no-show rows in the summary', () => {
+      const csv = reporting.buildSummaryCsv(reporting.buildAttendanceReport(attendees));
+
+      expect(csv).toContain('Overall,All attendees,4,2,50%');
+      expect(csv).toContain('Group,Sponsors,2,2,100%');
+      expect(csv).toContain('No-show,Cyd,Staff,2,General');
+    });
+
+    it('separates walk-ins from pre-registered attendees', () => {
+      const report = reporting.buildAttendanceReport([
+        ...attendees,
+        makeAttendee({ attendeeName: 'Dee', isWalkIn: true, checkedIn: true, checkedInAt: '2026-10-19T18:05:00.000Z' }),
+      ]);
+
+      expect(report.walkIns).toBe(1);
+      expect(report.byRegistration).toEqual([
+        { label: 'Pre-registered', total: 4, checkedIn: 2, rate: 0.5 },
+        { label: 'Walk-in', total: 1, checkedIn: 1, rate: 1 },
+      ]);
+      expect(reporting.buildSummaryCsv(report)).toContain('Registration,Walk-in,1,1,100%');
+    });
+  });
+});
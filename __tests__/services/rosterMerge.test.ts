@@ -0,0 +1,123 @@
+/**
+ * Unit tests for services/rosterMerge.ts
+ * Tests the dry-run merge diff between an import and existing attendees, including sources that map only some fields
+ */
+import type { IncomingAttendee, MergeCandidate } from '../../services/rosterMerge';
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+const makeCandidate = (overrides: Partial<MergeCandidate>): MergeCandidate => ({
+  id: overrides.id ?? Math.random().toString(36).slice(2),
+  attendeeName: 'Guest',
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  notes: null,
+  externalId: null,
+  email: null,
+  checkedIn: false,
+  archived: false,
+  ...overrides,
+});
+
+const makeIncoming = (line: number, overrides: Partial<IncomingAttendee>): IncomingAttendee => ({
+  line,
+  attendeeName: 'Guest',
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  notes: null,
+  externalId: null,
+  email: null,
+  ...overrides,
+});
+
+describe('services/rosterMerge', () => {
+  let rosterMerge: typeof import('../../services/rosterMerge');
+
+  beforeEach(() => {
+    jest.resetModules();
+    rosterMerge = require('../../services/rosterMerge');
+  });
+
+  describe('buildMergeDiff', () => {
+    it('classifies rows as added, updated, unchanged and missing', () => {
+      const existing = [
+        makeCandidate({ id: 'a', attendeeName: 'Ada Lovelace', tableNumber: '1' }),
+        makeCandidate({ id: 'b', attendeeName: 'Brook Lee', tableNumber: '2' }),
+        makeCandidate({ id: 'c', attendeeName: 'Cyd Charisse', checkedIn: true }),
+      ];
+      const incoming = [
+        makeIncoming(2, { attendeeName: 'ada  lovelace', tableNumber: '1' }),
+        makeIncoming(3, { attendeeName: 'Brook Lee', tableNumber: '5' }),
+        makeIncoming(4, { attendeeName: 'Dee Dee' }),
+      ];
+
+      const diff = rosterMerge.buildMergeDiff(existing, incoming, 'name');
+
+      expect(diff.added.map((row) => row.attendeeName)).toEqual(['Dee Dee']);
+      expect(diff.updated).toHaveLength(1);
+      expect(diff.updated[0].existing.id).toBe('b');
+      expect(diff.updated[0].changedFields).toEqual(['tableNumber']);
+      expect(diff.unchanged.map((update) => update.existing.id)).toEqual(['a']);
+      expect(diff.missing.map((candidate) => candidate.id)).toEqual(['c']);
+    });
+
+    it('matches by external ID so renamed guests are updated, not duplicated', () => {
+      const existing = [makeCandidate({ id: 'a', attendeeName: 'Jon Smith', externalId: 'T-100' })];
+      const incoming = [makeIncoming(2, { attendeeName: 'John Smith', externalId: 't-100' })];
+
+      const diff = rosterMerge.buildMergeDiff(existing, incoming, 'externalId');
+
+      expect(diff.added).toEqual([]);
+      expect(diff.updated[0].changedFields).toEqual(['attendeeName']);
+    });
+
+    it('reports rows without a key and duplicate keys with line numbers', () => {
+      const incoming = [
+        makeIncoming(2, { email: 'ada@example.com' }),
+        makeIncoming(3, { email: '' }),
+        makeIncoming(4, { email: 'ADA@example.com' }),
+      ];
+
+      const diff = rosterMerge.buildMergeDiff([], incoming, 'email');
+
+      expect(diff.added).toHaveLength(1);
+      expect(diff.errors).toEqual(['Line 3: Missing email', 'Line 4: Duplicate of line 2']);
+    });
+
+    it('does not erase stored emails when the import leaves them blank', () => {
+      const existing = [makeCandidate({ id: 'a', attendeeName: 'Ada', email: 'ada@example.com' })];
+      const incoming = [makeIncoming(2, { attendeeName: 'Ada', email: null })];
+
+      const diff = rosterMerge.buildMergeDiff(existing, incoming, 'name');
+
+      expect(diff.unchanged).toHaveLength(1);
+    });
+
+    it('ignores fields the source does not map', () => {
+      const existing = [makeCandidate({ id: 'a', attendeeName: 'Ada', tableNumber: '4', notes: 'Vegetarian' })];
+      const incoming = [makeIncoming(2, { attendeeName: 'Ada', tableNumber: '7', notes: null })];
+
+      const diff = rosterMerge.buildMergeDiff(existing, incoming, 'name', ['tableNumber']);
+
+      expect(diff.importedFields).toEqual(['tableNumber']);
+      expect(diff.updated[0].changedFields).toEqual(['tableNumber']);
+    });
+
+    it('restores archived matches and never lists archived attendees as missing', () => {
+      const existing = [
+        makeCandidate({ id: 'a', attendeeName: 'Ada', archived: true }),
+        makeCandidate({ id: 'b', attendeeName: 'Brook', archived: true }),
+      ];
+      const incoming = [makeIncoming(2, { attendeeName: 'Ada' })];
+
+      const diff = rosterMerge.buildMergeDiff(existing, incoming, 'name');
+
+      expect(diff.updated[0].changedFields).toEqual(['restored']);
+      expect(diff.missing).toEqual([]);
+    });
+  });
+});
@@ -24,6 +24,7 @@ describe('services/settings', () => {
 
       expect(settings).toEqual({
         autoRefreshInterval: 5000,
+        offlineRetentionDays: 7,
         featureFlags: {
           undoProtectionLevel: 'standard',
         },
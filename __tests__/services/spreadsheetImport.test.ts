@@ -0,0 +1,78 @@
+/**
+ * Unit tests for services/spreadsheetImport.ts
+ * Tests header row detection below titles and blank rows, and conversion of worksheet cells into header-keyed rows
+ */
+
+describe('services/spreadsheetImport', () => {
+  let spreadsheetImport: typeof import('../../services/spreadsheetImport');
+
+  beforeEach(() => {
+    jest.resetModules();
+    spreadsheetImport = require('../../services/spreadsheetImport');
+  });
+
+  describe('detectHeaderRow', () => {
+    it('finds the header row below a title and blank rows', () => {
+      const rows = [
+        ['Spring Gala 2026', '', ''],
+        ['', '', ''],
+        ['Guest Name', 'Table', 'Ticket Type'],
+        ['Ada Lovelace', '4', 'VIP'],
+      ];
+
+      expect(spreadsheetImport.detectHeaderRow(rows)).toBe(2);
+    });
+
+    it('prefers labels over rows of numbers and dates', () => {
+      const rows = [
+        ['2026-10-19', '18:00', '250'],
+        ['Attendee', 'Seat', 'Company'],
+        ['Brook', '12', 'Acme'],
+      ];
+
+      expect(spreadsheetImport.detectHeaderRow(rows)).toBe(1);
+    });
+
+    it('falls back to the first row when nothing looks like a header', () => {
+      expect(spreadsheetImport.detectHeaderRow([['1', '2'], ['3', '4']])).toBe(0);
+      expect(spreadsheetImport.detectHeaderRow([])).toBe(0);
+    });
+  });
+
+  describe('worksheetToParseResult', () => {
+    it('keys rows by header and reports spreadsheet row numbers', () => {
+      const rows = [
+        ['Guest list', ''],
+        ['Name', 'Table'],
+        ['Ada', '4'],
+        ['', ''],
+        ['Brook', '12'],
+      ];
+
+      const result = spreadsheetImport.worksheetToParseResult(rows, 1);
+
+      expect(result.headers).toEqual(['Name', 'Table']);
+      expect(result.rows).toEqual([
+        { line: 3, values: { Name: 'Ada', Table: '4' } },
+        { line: 5, values: { Name: 'Brook', Table: '12' } },
+      ]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('ignores unnamed columns and fills missing cells with empty strings', () => {
+      const rows = [
+        [' Name ', '', 'Notes'],
+        ['Ada', 'stray', ''],
+        ['Brook'],
+      ];
+
+      const result = spreadsheetImport.worksheetToParseResult(rows, 0);
+
+      expect(result.headers).toEqual(['Name', 'Notes']);
+      expect(result.rows.map((row) => row.values)).toEqual([
+        { Name: 'Ada', Notes: '' },
+        { Name: 'Brook', Notes: '' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for services/staffPresence.ts
+ * Tests what this device shares and how other devices joining and leaving show up
+ */
+import { flushPromises } from '../setup';
+
+type PresenceListener = (state: Record<string, unknown[]>) => void;
+
+const mockTrackPresence = jest.fn();
+const mockGetQueueStats = jest.fn();
+let mockPresenceListener: PresenceListener | null = null;
+
+jest.mock('../../services/realtime', () => ({
+  getAttendeesChannelName: (eventId: string) => `attendees-${eventId}`,
+  trackPresence: (...args: unknown[]) => mockTrackPresence(...args),
+  untrackPresence: jest.fn(),
+  addPresenceListener: (_channelName: string, listener: PresenceListener) => {
+    mockPresenceListener = listener;
+    return jest.fn();
+  },
+}));
+
+jest.mock('../../services/offlineQueue', () => ({
+  addOperationQueuedListener: jest.fn(() => jest.fn()),
+  getQueueStats: (...args: unknown[]) => mockGetQueueStats(...args),
+}));
+
+jest.mock('../../services/syncManager', () => ({
+  addSyncListener: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('../../services/device', () => ({
+  getDeviceId: jest.fn(() => Promise.resolve('device-self')),
+}));
+
+const IDENTITY = { userId: 'user-1', name: 'Sam Rivera', role: 'checker' };
+
+const otherDevice = (deviceId: string, unsynced = 0) => ({
+  device_id: deviceId,
+  user_id: `user-${deviceId}`,
+  name: `Staff ${deviceId}`,
+  role: 'checker',
+  tab: 'check-in',
+  filter: 'pending',
+  search: null,
+  unsynced,
+  updated_at: Date.now(),
+  presence_ref: `ref-${deviceId}`,
+});
+
+describe('services/staffPresence', () => {
+  let staffPresence: typeof import('../../services/staffPresence');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockPresenceListener = null;
+    mockGetQueueStats.mockResolvedValue({ pending: 2, failed: 1 });
+    staffPresence = require('../../services/staffPresence');
+  });
+
+  it('shares this device with its unsynced count on the event attendee channel', async () => {
+    const stop = staffPresence.startStaffPresence('event-1', IDENTITY);
+    await flushPromises();
+
+    expect(mockTrackPresence).toHaveBeenLastCalledWith(
+      'attendees-event-1',
+      expect.objectContaining({ device_id: 'device-self', name: 'Sam Rivera', role: 'checker', unsynced: 3 })
+    );
+    expect(staffPresence.getStaffPresence()).toEqual([
+      expect.objectContaining({ deviceId: 'device-self', isSelf: true, online: true, unsynced: 3 }),
+    ]);
+    stop();
+  });
+
+  it('keeps a device that left as offline with its last unsynced count', async () => {
+    const stop = staffPresence.startStaffPresence('event-1', IDENTITY);
+    await flushPromises();
+
+    mockPresenceListener?.({ a: [otherDevice('device-a', 4)], b: [otherDevice('device-b')] });
+    mockPresenceListener?.({ b: [otherDevice('device-b')] });
+
+    const others = staffPresence.getStaffPresence().filter((member) => !member.isSelf);
+    expect(others.map(({ deviceId, online, unsynced }) => [deviceId, online, unsynced])).toEqual([
+      ['device-b', true, 0],
+      ['device-a', false, 4],
+    ]);
+    stop();
+  });
+});
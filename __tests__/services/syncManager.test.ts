@@ -0,0 +1,413 @@
+/**
+ * Unit tests for services/syncManager.ts
+ * Tests replaying queued operations in order through their handlers, surfacing conflicts (and passing rejected
+ * check-ins on to the venue relay), force-applying and retrying on reconnect with backoff
+ */
+import type { QueuedOperation, QueuedOperationPayload } from '../../services/offlineQueue';
+
+const mockRpc = jest.fn();
+const mockApplyCheckinOperations = jest.fn();
+const mockSaveAttendeeDetails = jest.fn();
+const mockGetPendingOperations = jest.fn();
+const mockGetQueuedOperations = jest.fn();
+const mockFetchAttendee = jest.fn();
+const mockMarkSynced = jest.fn();
+const mockMarkFailed = jest.fn();
+const mockResolveLocalAttendeeId = jest.fn();
+const mockRecordSyncConflict = jest.fn();
+const mockReportRejectedCheckIns = jest.fn();
+
+const mockNetworkState = { isConnected: true, isInternetReachable: true };
+let mockNetworkListener: ((state: typeof mockNetworkState) => void) | null = null;
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() => Promise.resolve(mockNetworkState)),
+  addNetworkStateListener: jest.fn((listener: (state: typeof mockNetworkState) => void) => {
+    mockNetworkListener = listener;
+    return { remove: jest.fn() };
+  }),
+}));
+
+jest.mock('../../services/supabase', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+
+jest.mock('../../services/offlineQueue', () => ({
+  getPendingOperations: (...args: unknown[]) => mockGetPendingOperations(...args),
+  getQueuedOperations: (...args: unknown[]) => mockGetQueuedOperations(...args),
+  markInFlight: jest.fn(() => Promise.resolve()),
+  recoverInterruptedOperations: jest.fn(() => Promise.resolve(0)),
+  removeOperations: jest.fn(() => Promise.resolve(0)),
+  resetAttempts: jest.fn(() => Promise.resolve()),
+  markSynced: (...args: unknown[]) => mockMarkSynced(...args),
+  markFailed: (...args: unknown[]) => mockMarkFailed(...args),
+  resolveLocalAttendeeId: (...args: unknown[]) => mockResolveLocalAttendeeId(...args),
+  clearOldSyncedOperations: jest.fn(() => Promise.resolve(0)),
+  getQueueStats: jest.fn(() =>
+    Promise.resolve({ pending: 0, failed: 0, synced: 0, total: 0, oldestQueuedAt: null })
+  ),
+}));
+
+jest.mock('../../services/attendees', () => ({
+  applyCheckinOperations: (...args: unknown[]) => mockApplyCheckinOperations(...args),
+  saveAttendeeDetails: (...args: unknown[]) => mockSaveAttendeeDetails(...args),
+  saveAttendeeNotes: jest.fn(),
+  fetchAttendee: (...args: unknown[]) => mockFetchAttendee(...args),
+}));
+
+jest.mock('../../services/syncConflicts', () => ({
+  recordSyncConflict: (...args: unknown[]) => mockRecordSyncConflict(...args),
+}));
+
+jest.mock('../../services/attendeeEvents', () => ({
+  emitRefreshAttendees: jest.fn(),
+}));
+
+jest.mock('../../services/relay', () => ({
+  startRelay: jest.fn(() => Promise.resolve()),
+  stopRelay: jest.fn(),
+  reportRejectedCheckIns: (...args: unknown[]) => mockReportRejectedCheckIns(...args),
+  refreshRejectedCheckIns: jest.fn(() => Promise.resolve()),
+}));
+
+let mockSeq = 0;
+
+const makeOperation = (
+  payload: QueuedOperationPayload,
+  overrides: Partial<QueuedOperation> = {}
+): QueuedOperation => {
+  mockSeq += 1;
+  return {
+    id: `queue-${mockSeq}`,
+    seq: mockSeq,
+    eventId: 'event-1',
+    operationId: `op-${mockSeq}`,
+    occurredAt: Date.UTC(2026, 9, 19, 18, 0),
+    queuedAt: Date.UTC(2026, 9, 19, 18, 0),
+    attempts: 0,
+    lastAttemptAt: null,
+    inFlightAt: null,
+    synced: false,
+    error: null,
+    payload,
+    ...overrides,
+  };
+};
+
+const checkIn = (attendeeId: string, checkedIn = true) =>
+  ({ type: 'check_in', attendeeId, checkedIn }) as const;
+
+const resultsFor = (...results: Record<string, unknown>[]) =>
+  new Map(results.map((result) => [result.op_id as string, result]));
+
+describe('services/syncManager', () => {
+  let syncManager: typeof import('../../services/syncManager');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    mockSeq = 0;
+    mockNetworkState.isConnected = true;
+    mockNetworkListener = null;
+    mockMarkSynced.mockResolvedValue(undefined);
+    mockMarkFailed.mockResolvedValue(undefined);
+    mockRecordSyncConflict.mockResolvedValue(undefined);
+    syncManager = require('../../services/syncManager');
+  });
+
+  it('sends the operation ID and event time for each queued check-in', async () => {
+    mockGetPendingOperations.mockResolvedValue([makeOperation(checkIn('attendee-1', false))]);
+    mockApplyCheckinOperations.mockResolvedValue(
+      resultsFor({ op_id: 'op-1', status: 'applied', attendee_id: 'attendee-1' })
+    );
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockApplyCheckinOperations).toHaveBeenCalledWith([
+      {
+        opId: 'op-1',
+        attendeeId: 'attendee-1',
+        checkedIn: false,
+        occurredAt: Date.UTC(2026, 9, 19, 18, 0),
+      },
+    ]);
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-1');
+    expect(result).toMatchObject({ success: true, synced: 1, failed: 0, conflicts: 0 });
+  });
+
+  it('records conflicts the server reports instead of hiding them', async () => {
+    mockGetPendingOperations.mockResolvedValue([
+      makeOperation(checkIn('attendee-1', false)),
+      makeOperation(checkIn('attendee-2')),
+    ]);
+    mockApplyCheckinOperations.mockResolvedValue(
+      resultsFor(
+        {
+          op_id: 'op-1',
+          status: 'conflict',
+          attendee_id: 'attendee-1',
+          attendee_name: 'Ada Lovelace',
+          server_checked_in: true,
+          server_changed_at: '2026-10-19T18:05:00+00:00',
+          server_changed_by: 'sam@example.com',
+        },
+        { op_id: 'op-2', status: 'unchanged', attendee_id: 'attendee-2' }
+      )
+    );
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockRecordSyncConflict).toHaveBeenCalledTimes(1);
+    expect(mockRecordSyncConflict).toHaveBeenCalledWith({
+      operationId: 'op-1',
+      kind: 'check_in',
+      eventId: 'event-1',
+      attendeeId: 'attendee-1',
+      attendeeName: 'Ada Lovelace',
+      localCheckedIn: false,
+      localDetails: null,
+      localOccurredAt: Date.UTC(2026, 9, 19, 18, 0),
+      serverCheckedIn: true,
+      serverChangedAt: '2026-10-19T18:05:00+00:00',
+      serverChangedBy: 'sam@example.com',
+    });
+    // Both operations are settled; the conflict stays visible through the conflict store
+    expect(mockMarkSynced).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ synced: 2, failed: 0, conflicts: 1 });
+    // Devices that showed the losing check-in from the venue relay re-fetch the attendee
+    expect(mockReportRejectedCheckIns).toHaveBeenCalledWith([
+      { op_id: 'op-1', event_id: 'event-1', attendee_id: 'attendee-1' },
+    ]);
+  });
+
+  it('marks the whole batch failed when the RPC errors so it is retried with the same IDs', async () => {
+    mockGetPendingOperations.mockResolvedValue([
+      makeOperation(checkIn('attendee-1')),
+      makeOperation(checkIn('attendee-2')),
+    ]);
+    mockApplyCheckinOperations.mockRejectedValue(new Error('network down'));
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockMarkSynced).not.toHaveBeenCalled();
+    expect(mockMarkFailed).toHaveBeenCalledWith('queue-1', 'network down');
+    expect(mockMarkFailed).toHaveBeenCalledWith('queue-2', 'network down');
+    expect(result).toMatchObject({ success: false, synced: 0, failed: 2 });
+  });
+
+  it('replays operations in queue order and points later ones at a synced walk-in', async () => {
+    const walkIn = makeOperation({
+      type: 'walk_in',
+      localAttendeeId: 'walkin-1',
+      checkedIn: true,
+      walkIn: {
+        clientRef: 'ref-1',
+        attendeeName: 'Grace Hopper',
+        groupName: '',
+        tableNumber: '',
+        ticketType: '',
+        notes: null,
+      },
+    });
+    const bulk = makeOperation({
+      type: 'bulk_check_in',
+      scope: 'table',
+      label: '4',
+      checkedIn: true,
+      targets: [
+        { attendeeId: 'attendee-1', operationId: 'target-1' },
+        { attendeeId: 'attendee-2', operationId: 'target-2' },
+      ],
+    });
+    mockGetPendingOperations.mockResolvedValue([walkIn, bulk]);
+    mockRpc.mockResolvedValue({ data: 'attendee-9', error: null });
+    mockApplyCheckinOperations.mockResolvedValue(
+      resultsFor(
+        { op_id: 'target-1', status: 'applied', attendee_id: 'attendee-1' },
+        { op_id: 'target-2', status: 'applied', attendee_id: 'attendee-2' }
+      )
+    );
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockRpc).toHaveBeenCalledWith('register_walk_in', expect.objectContaining({ p_client_ref: 'ref-1' }));
+    expect(mockResolveLocalAttendeeId).toHaveBeenCalledWith('event-1', 'walkin-1', 'attendee-9');
+    expect(mockResolveLocalAttendeeId.mock.invocationCallOrder[0]).toBeLessThan(
+      mockApplyCheckinOperations.mock.invocationCallOrder[0]
+    );
+    expect(mockApplyCheckinOperations).toHaveBeenCalledWith([
+      expect.objectContaining({ opId: 'target-1', attendeeId: 'attendee-1', source: 'table' }),
+      expect.objectContaining({ opId: 'target-2', attendeeId: 'attendee-2', source: 'table' }),
+    ]);
+    expect(result).toMatchObject({ synced: 2, failed: 0 });
+  });
+
+  it('sends an undo made while the walk-in was being registered to the server attendee afterwards', async () => {
+    const walkIn = makeOperation({
+      type: 'walk_in',
+      localAttendeeId: 'walkin-1',
+      checkedIn: true,
+      walkIn: {
+        clientRef: 'ref-1',
+        attendeeName: 'Grace Hopper',
+        groupName: '',
+        tableNumber: '',
+        ticketType: '',
+        notes: null,
+      },
+    });
+    // The registration is in flight, so the undo is queued as its own operation rather than folded into it
+    const queued: QueuedOperation[] = [walkIn];
+    const isSynced = (operation: QueuedOperation) =>
+      mockMarkSynced.mock.calls.some(([id]: [string]) => id === operation.id);
+    mockGetPendingOperations.mockImplementation(() =>
+      Promise.resolve(queued.filter((operation) => !isSynced(operation)))
+    );
+    mockRpc.mockImplementation(async () => {
+      queued.push(makeOperation(checkIn('walkin-1', false), { inFlightAt: null }));
+      return { data: 'attendee-9', error: null };
+    });
+    mockResolveLocalAttendeeId.mockImplementation(async (_eventId: string, localId: string, serverId: string) => {
+      queued.forEach((operation) => {
+        if (operation.payload.type === 'check_in' && operation.payload.attendeeId === localId) {
+          operation.payload = { ...operation.payload, attendeeId: serverId };
+        }
+      });
+    });
+    mockApplyCheckinOperations.mockResolvedValue(
+      resultsFor({ op_id: 'op-2', status: 'applied', attendee_id: 'attendee-9' })
+    );
+
+    await syncManager.syncAllPending();
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-1');
+    expect(mockRpc).toHaveBeenCalledWith('register_walk_in', expect.objectContaining({ p_checked_in: true }));
+
+    await syncManager.syncAllPending();
+    expect(mockApplyCheckinOperations).toHaveBeenCalledWith([
+      expect.objectContaining({ opId: 'op-2', attendeeId: 'attendee-9', checkedIn: false }),
+    ]);
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-2');
+  });
+
+  it('holds back later operations for an event once one fails', async () => {
+    mockGetPendingOperations.mockResolvedValue([
+      makeOperation(checkIn('attendee-1')),
+      makeOperation({
+        type: 'notes',
+        attendeeId: 'attendee-1',
+        expectedUpdatedAt: null,
+        notes: 'VIP',
+      }),
+      makeOperation(checkIn('attendee-3'), { eventId: 'event-2' }),
+    ]);
+    mockApplyCheckinOperations
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(resultsFor({ op_id: 'op-3', status: 'applied', attendee_id: 'attendee-3' }));
+
+    const result = await syncManager.syncAllPending();
+
+    // The note waits behind the failed check-in (and isn't counted as a failure); event-2 is unaffected
+    expect(mockMarkFailed).toHaveBeenCalledTimes(1);
+    expect(mockMarkFailed).toHaveBeenCalledWith('queue-1', 'timeout');
+    expect(mockMarkSynced).toHaveBeenCalledTimes(1);
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-3');
+    expect(result).toMatchObject({ synced: 1, failed: 1 });
+  });
+
+  it('rebases a queued edit onto the version its own earlier check-in produced', async () => {
+    mockGetPendingOperations.mockResolvedValue([
+      makeOperation(checkIn('attendee-1')),
+      makeOperation({
+        type: 'edit_attendee',
+        attendeeId: 'attendee-1',
+        expectedUpdatedAt: 'v1',
+        details: { attendeeName: 'Ada King', groupName: '', tableNumber: '2', ticketType: '', notes: null },
+      }),
+    ]);
+    mockApplyCheckinOperations.mockResolvedValue(
+      resultsFor({
+        op_id: 'op-1',
+        status: 'applied',
+        attendee_id: 'attendee-1',
+        previous_updated_at: 'v1',
+        server_updated_at: 'v2',
+      })
+    );
+    mockSaveAttendeeDetails.mockResolvedValue({ status: 'updated', attendee: { id: 'attendee-1', updatedAt: 'v3' } });
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockSaveAttendeeDetails).toHaveBeenCalledWith('attendee-1', 'v2', expect.any(Object));
+    expect(mockRecordSyncConflict).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ synced: 2, failed: 0, conflicts: 0 });
+  });
+
+  it('treats an edit the server already has as synced after an interrupted sync', async () => {
+    const details = { attendeeName: 'Ada King', groupName: '', tableNumber: '2', ticketType: '', notes: null };
+    mockGetPendingOperations.mockResolvedValue([
+      makeOperation({ type: 'edit_attendee', attendeeId: 'attendee-1', expectedUpdatedAt: 'v1', details }),
+    ]);
+    mockSaveAttendeeDetails.mockResolvedValue({
+      status: 'conflict',
+      current: { id: 'attendee-1', ...details, updatedAt: 'v2' },
+    });
+
+    const result = await syncManager.syncAllPending();
+
+    expect(mockRecordSyncConflict).not.toHaveBeenCalled();
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-1');
+    expect(result).toMatchObject({ synced: 1, failed: 0, conflicts: 0 });
+  });
+
+  it('force-applies failed operations as new changes against the current server version', async () => {
+    const failedCheckIn = makeOperation(checkIn('attendee-1'), { attempts: 3, error: 'timeout' });
+    const failedNote = makeOperation(
+      { type: 'notes', attendeeId: 'attendee-2', expectedUpdatedAt: 'v1', notes: 'VIP' },
+      { attempts: 3, error: 'timeout' }
+    );
+    mockGetQueuedOperations.mockResolvedValue([failedCheckIn, failedNote]);
+    mockApplyCheckinOperations.mockImplementation(async (operations: { opId: string }[]) =>
+      resultsFor({ op_id: operations[0].opId, status: 'applied', attendee_id: 'attendee-1' })
+    );
+    mockFetchAttendee.mockResolvedValue({ id: 'attendee-2', updatedAt: 'v5' });
+    const notes = jest.requireMock('../../services/attendees').saveAttendeeNotes as jest.Mock;
+    notes.mockResolvedValue({ status: 'updated', attendee: { id: 'attendee-2', updatedAt: 'v6' } });
+
+    const result = await syncManager.forceApplyOperations(['queue-1', 'queue-2']);
+
+    const [[sent]] = mockApplyCheckinOperations.mock.calls;
+    expect(sent[0].opId).not.toBe('op-1');
+    expect(notes).toHaveBeenCalledWith('attendee-2', 'v5', 'VIP');
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-1');
+    expect(mockMarkSynced).toHaveBeenCalledWith('queue-2');
+    expect(result).toEqual({ success: true, synced: 2, failed: 0, conflicts: 0 });
+  });
+
+  it('backs off exponentially with jitter up to a cap', () => {
+    expect(syncManager.getRetryDelay(0, () => 0)).toBe(2500);
+    expect(syncManager.getRetryDelay(0, () => 1)).toBe(5000);
+    expect(syncManager.getRetryDelay(3, () => 0.5)).toBe(30000);
+    expect(syncManager.getRetryDelay(20, () => 1)).toBe(5 * 60 * 1000);
+  });
+
+  it('syncs when a network change event reports the device is back online', async () => {
+    jest.useFakeTimers();
+    try {
+      mockNetworkState.isConnected = false;
+      mockGetPendingOperations.mockResolvedValue([makeOperation(checkIn('attendee-1'))]);
+      mockApplyCheckinOperations.mockResolvedValue(
+        resultsFor({ op_id: 'op-1', status: 'applied', attendee_id: 'attendee-1' })
+      );
+      const cleanup = await syncManager.initSyncManager();
+
+      mockNetworkState.isConnected = true;
+      mockNetworkListener?.(mockNetworkState);
+      await jest.runOnlyPendingTimersAsync();
+
+      expect(mockMarkSynced).toHaveBeenCalledWith('queue-1');
+      cleanup();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -44,6 +44,9 @@ export const clearAsyncStorageMock = () => {
   Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
 };
 
+// Let pending promise callbacks (e.g. a fetch started without awaiting) run before asserting
+export const flushPromises = () => new Promise<void>((resolve) => setImmediate(resolve));
+
 // Silence console during tests unless explicitly needed
 global.console = {
   ...console,
@@ -1,3 +1,11 @@
+/**
+ * Lintnotes
+ * - Purpose: Expo app configuration; loads the .env file for APP_ENV and exposes its public values to the app.
+ * - Exports: default Expo config
+ * - Major deps: dotenv, plugins/withLocalNetworkCleartext
+ * - Side effects: Reads .env.development or .env.production when evaluated.
+ * - Notes: RELAY_HOSTS (comma-separated) lists venue relay addresses Android may reach over plain HTTP.
+ */
 import 'dotenv/config';
 import { config } from 'dotenv';
 import fs from 'fs';
@@ -34,6 +42,10 @@ export default {
       bundleIdentifier: 'com.serendipitytech.checkin',
       infoPlist: {
         ITSAppUsesNonExemptEncryption: false,
+        // The venue relay (scripts/checkin-relay.mjs) is plain HTTP on the local network
+        NSAppTransportSecurity: { NSAllowsLocalNetworking: true },
+        NSLocalNetworkUsageDescription:
+          'CheckIn connects to a venue relay on this network to share check-ins with other devices without internet.',
         CFBundleURLTypes: [
           {
             CFBundleURLName: 'checkin',
@@ -79,6 +91,17 @@ export default {
       },
     },
 
-    plugins: ['expo-router'],
+    plugins: [
+      'expo-router',
+      'expo-background-task',
+      'expo-secure-store',
+      // The local attendee cache is encrypted; its key lives in the platform secure store
+      ['expo-sqlite', { useSQLCipher: true }],
+      // The venue relay is plain HTTP on the local network; cleartext is allowed for it only
+      [
+        './plugins/withLocalNetworkCleartext',
+        { hosts: (process.env.RELAY_HOSTS || '').split(',').map((host) => host.trim()).filter(Boolean) },
+      ],
+    ],
   },
 };
@@ -1,14 +1,21 @@
 /**
  * Lintnotes
- * - Purpose: Tab navigator layout configuring the two primary tabs and shared tab UI styling.
+ * - Purpose: Tab navigator layout configuring the primary tabs (the Dashboard tab only for managers) and shared tab
+ *            UI styling.
  * - Exports: default TabsLayout (React component)
- * - Major deps: expo-router Tabs, @expo/vector-icons/Ionicons
- * - Side effects: None (navigation configuration only).
+ * - Major deps: expo-router Tabs, @expo/vector-icons/Ionicons, hooks/useSheetSync, hooks/usePermissions
+ * - Side effects: Runs the selected event's scheduled Google Sheet sync while the tabs are mounted.
  */
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { Tabs } from 'expo-router';
 
+import { useSheetSyncScheduler } from '../../hooks/useSheetSync';
+import { usePermissions } from '../../hooks/usePermissions';
+
 export default function TabsLayout() {
+  useSheetSyncScheduler();
+  const { canViewDashboard } = usePermissions();
+
   return (
     <Tabs
       screenOptions={{
@@ -37,6 +44,17 @@ export default function TabsLayout() {
           )
         }}
       />
+      <Tabs.Screen
+        name="dashboard"
+        options={{
+          title: 'Dashboard',
+          // Hidden from the tab bar for checkers
+          href: canViewDashboard ? undefined : null,
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="stats-chart-outline" size={size} color={color} />
+          )
+        }}
+      />
       <Tabs.Screen
         name="admin"
         options={{
@@ -1,17 +1,23 @@
 /**
  * Lintnotes
- * - Purpose: Admin/Settings screen. Manages auto-refresh settings, roster import (file/sheet), invitations,
- *             event selection, and displays realtime connection health. Handles logged-in and logged-out views.
+ * - Purpose: Admin/Settings screen. Manages auto-refresh settings, roster import (file/sheet), import history and
+ *             rollback, scheduled Google Sheet sync, invitations, event selection, staff on duty, announcements, venue
+ *             relay, offline events, attendance report/CSV export, and displays realtime connection health with
+ *             per-channel metrics. Handles logged-in and logged-out views.
  * - Role UI: Restrict visibility of Real-time Status and Bulk Actions by user role.
  * - TODO: Re-enable Bulk Actions for Manager role when backend ready.
  * - Exports: default AdminScreen (React component)
  * - Major deps: react-native UI, components/* modals, services/attendees (reset/import/sync),
- *               services/attendeeEvents (auto-refresh), hooks/useSupabase, hooks/usePermissions, hooks/useRealtime
+ *               services/attendeeEvents (auto-refresh), services/reporting, services/sheetSync, services/relay,
+ *               services/staffPresence, services/announcements, services/realtime (types), hooks/useSupabase,
+ *               hooks/usePermissions, hooks/useRealtime, hooks/useSheetSync, hooks/useRelay, hooks/useStaffPresence,
+ *               hooks/useAnnouncements
  * - Side effects: Triggers data mutations via services; updates shared auto-refresh interval; opens modals.
  */
-import { useEffect, useState } from 'react';
-import { Alert, Linking, ScrollView, StyleSheet, Text, TouchableOpacity, View, ActivityIndicator } from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Linking, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, ActivityIndicator } from 'react-native';
 
+import { useFocusEffect } from 'expo-router';
 import ActionButton from '../../components/ActionButton';
 import {
   importAttendeesFromFile,
@@ -27,20 +33,43 @@ import {
 import { useSupabase } from '../../hooks/useSupabase';
 import { usePermissions } from '../../hooks/usePermissions';
 import { useRealtimeConnection } from '../../hooks/useRealtime';
+import { useSheetSyncStatus } from '../../hooks/useSheetSync';
+import { useRelayStatus } from '../../hooks/useRelay';
+import { useStaffPresence } from '../../hooks/useStaffPresence';
+import { useAnnouncements } from '../../hooks/useAnnouncements';
 import { describeRole, normalizeRole } from '../../services/permissions';
 import { RosterImportModal } from '../../components/RosterImportModal';
+import { ImportHistoryModal } from '../../components/ImportHistoryModal';
 import { CreateEventModal } from '../../components/CreateEventModal';
 import { InviteUserModal } from '../../components/InviteUserModal';
 import { EventSelectorModal } from '../../components/EventSelectorModal';
 import { RequestInfoModal } from '../../components/RequestInfoModal';
 import { CodeRedeemModal } from '../../components/CodeRedeemModal';
+import { OfflineEventsModal } from '../../components/OfflineEventsModal';
 import { AccessCodeDashboard } from '../../components/AccessCodeDashboard';
 import type { ImportResult } from '../../services/rosterImport';
+import {
+  exportAttendeeCsv,
+  exportSummaryCsv,
+  fetchAttendanceReport,
+  type AttendanceReport
+} from '../../services/reporting';
+import { disconnectSheetSync, runSheetSync, saveSheetSyncConfig } from '../../services/sheetSync';
+import { describeMatchKey, type MatchKey } from '../../services/rosterMerge';
 import { deleteLocalSession, deleteMyAccount } from '../../services/account';
+import { getQueueStats } from '../../services/offlineQueue';
+import { connectRelay, disconnectRelay } from '../../services/relay';
+import { setStaffActivity, type StaffMember } from '../../services/staffPresence';
+import type { RealtimeConnectionStatus } from '../../services/realtime';
+import { ANNOUNCEMENT_MAX_LENGTH, sendAnnouncement } from '../../services/announcements';
 import { addCodeLinkListener, type CodeLinkPayload } from '../../services/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useUndoProtectionLevel } from '../../hooks/useSettings';
-import { setUndoProtectionLevel, type UndoProtectionLevel } from '../../services/settings';
+import { useOfflineRetentionDays, useUndoProtectionLevel } from '../../hooks/useSettings';
+import {
+  setOfflineRetentionDays,
+  setUndoProtectionLevel,
+  type UndoProtectionLevel
+} from '../../services/settings';
 
 const PENDING_CODE_KEY = '@checkin_pending_code';
 
@@ -53,6 +82,64 @@ const AUTO_REFRESH_OPTIONS = [
   { label: '30s', value: 30000 }
 ] as const;
 
+const SHEET_SYNC_INTERVAL_OPTIONS = [
+  { label: 'Manual', value: 0 },
+  { label: '5 min', value: 5 },
+  { label: '15 min', value: 15 },
+  { label: '30 min', value: 30 },
+  { label: '60 min', value: 60 }
+] as const;
+
+const OFFLINE_RETENTION_OPTIONS = [
+  { label: '1 day', value: 1 },
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 }
+] as const;
+
+const SHEET_SYNC_MATCH_KEYS: MatchKey[] = ['name', 'externalId', 'email'];
+
+const formatSyncedAgo = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+const describeStaffActivity = (member: StaffMember): string => {
+  const role = describeRole(normalizeRole(member.role));
+  if (!member.online) {
+    return `${role} • Offline, last seen ${formatSyncedAgo(new Date(member.updatedAt).toISOString())}`;
+  }
+  if (member.tab === 'admin') return `${role} • On the Admin tab`;
+  const list = member.filter === 'checked-in' ? 'Checked-in list' : 'Pending list';
+  return `${role} • ${member.search ? `${list}, searching "${member.search}"` : list}`;
+};
+
+const describeChannelTraffic = (status: RealtimeConnectionStatus): string => {
+  const messages = `${status.messageCount} ${status.messageCount === 1 ? 'message' : 'messages'}`;
+  const last = status.lastMessageAt ? `, last ${formatSyncedAgo(status.lastMessageAt.toISOString())}` : '';
+  const latency = [
+    status.joinLatencyMs !== undefined ? `join ${status.joinLatencyMs} ms` : null,
+    status.deliveryLatencyMs !== undefined ? `delivery ~${status.deliveryLatencyMs} ms` : null,
+  ].filter(Boolean);
+  return latency.length ? `${messages}${last} • ${latency.join(', ')}` : `${messages}${last}`;
+};
+
+const describeReconnectHistory = (status: RealtimeConnectionStatus): string | null => {
+  const recent = status.reconnectHistory.slice(0, 3);
+  if (!recent.length) return null;
+  return recent
+    .map((event) => {
+      const ago = formatSyncedAgo(event.at.toISOString());
+      if (event.kind === 'reconnected') return `Back ${ago}`;
+      if (event.kind === 'gave-up') return `Gave up ${ago}`;
+      return `Dropped ${ago} (attempt ${event.attempt})`;
+    })
+    .join(' • ');
+};
+
 export default function AdminScreen() {
   const {
     session,
@@ -68,25 +155,46 @@ export default function AdminScreen() {
     canManageAttendees: canManageRoster,
     canCreateEvents,
     canInviteUsers,
+    canSendAnnouncements,
     canDeleteEvents,
     canManageOrganization,
     describeRole,
     currentRole
   } = usePermissions();
-  const { hasAnyConnection, hasErrors, totalReconnectAttempts, connectionCount } = useRealtimeConnection();
+  const { hasAnyConnection, hasErrors, totalReconnectAttempts, totalMessages, connectionCount, statuses: realtimeStatuses } =
+    useRealtimeConnection();
   const [autoRefreshInterval, setAutoRefreshIntervalState] = useState<number>(
     getAutoRefreshInterval()
   );
   const [importModalVisible, setImportModalVisible] = useState(false);
+  const [importHistoryVisible, setImportHistoryVisible] = useState(false);
   const [createEventModalVisible, setCreateEventModalVisible] = useState(false);
   const [inviteUserModalVisible, setInviteUserModalVisible] = useState(false);
   const [eventSelectorModalVisible, setEventSelectorModalVisible] = useState(false);
   const [requestInfoModalVisible, setRequestInfoModalVisible] = useState(false);
   const [redeemModalVisible, setRedeemModalVisible] = useState(false);
   const [accessCodeDashboardVisible, setAccessCodeDashboardVisible] = useState(false);
+  const [offlineEventsVisible, setOfflineEventsVisible] = useState(false);
   const [deletingAccount, setDeletingAccount] = useState(false);
   const [pendingCode, setPendingCode] = useState<string | undefined>(undefined);
+  const [report, setReport] = useState<AttendanceReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [exporting, setExporting] = useState<'attendees' | 'summary' | null>(null);
+  const sheetSyncStatus = useSheetSyncStatus();
+  const [sheetSyncUrl, setSheetSyncUrl] = useState('');
+  const [sheetSyncInterval, setSheetSyncInterval] = useState<number>(15);
+  const [sheetSyncMatchKey, setSheetSyncMatchKey] = useState<MatchKey>('name');
+  const [savingSheetSync, setSavingSheetSync] = useState(false);
+  const relayStatus = useRelayStatus();
+  const staff = useStaffPresence();
+  const announcements = useAnnouncements();
+  const [announcementText, setAnnouncementText] = useState('');
+  const [sendingAnnouncement, setSendingAnnouncement] = useState(false);
+  const [relayUrl, setRelayUrl] = useState('');
+  const [relayKey, setRelayKey] = useState('');
+  const [connectingRelay, setConnectingRelay] = useState(false);
   const undoProtectionLevel = useUndoProtectionLevel();
+  const offlineRetentionDays = useOfflineRetentionDays();
 
   useEffect(() => {
     const remove = addAutoRefreshListener((interval) => {
@@ -223,6 +331,181 @@ export default function AdminScreen() {
     setImportModalVisible(true);
   };
 
+  // Drop any report from a previously selected event
+  useEffect(() => {
+    setReport(null);
+  }, [selectedEvent?.eventId]);
+
+  const handleGenerateReport = async () => {
+    if (!selectedEvent) {
+      Alert.alert('No Event Selected', 'Please select an event before generating a report.');
+      return;
+    }
+
+    setReportLoading(true);
+    try {
+      setReport(await fetchAttendanceReport(selectedEvent.eventId));
+    } catch (err) {
+      console.error('Generate report failed:', err);
+      Alert.alert('Unable to generate report', 'Please try again.');
+    } finally {
+      setReportLoading(false);
+    }
+  };
+
+  const handleExport = async (kind: 'attendees' | 'summary') => {
+    if (!selectedEvent) {
+      Alert.alert('No Event Selected', 'Please select an event before exporting.');
+      return;
+    }
+
+    setExporting(kind);
+    try {
+      if (kind === 'attendees') {
+        await exportAttendeeCsv(selectedEvent.eventId, selectedEvent.eventName);
+      } else {
+        await exportSummaryCsv(selectedEvent.eventId, selectedEvent.eventName);
+      }
+    } catch (err) {
+      console.error('CSV export failed:', err);
+      Alert.alert('Export Failed', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Sheet sync status is only meaningful for the event the scheduler is running for
+  const sheetSync = sheetSyncStatus.eventId === selectedEvent?.eventId ? sheetSyncStatus : null;
+  const linkedSheet = sheetSync?.config ?? null;
+
+  useEffect(() => {
+    setSheetSyncUrl(linkedSheet?.url ?? '');
+    setSheetSyncInterval(linkedSheet ? linkedSheet.intervalMinutes : 15);
+    setSheetSyncMatchKey(linkedSheet?.matchKey ?? 'name');
+  }, [linkedSheet?.url, linkedSheet?.intervalMinutes, linkedSheet?.matchKey]);
+
+  const handleSaveSheetSync = async () => {
+    if (!selectedEvent) return;
+    if (!sheetSyncUrl.trim()) {
+      Alert.alert('Sheet URL Required', 'Paste the Google Sheet link to sync from.');
+      return;
+    }
+
+    setSavingSheetSync(true);
+    try {
+      await saveSheetSyncConfig(selectedEvent.eventId, {
+        url: sheetSyncUrl,
+        intervalMinutes: sheetSyncInterval,
+        matchKey: sheetSyncMatchKey
+      });
+    } catch (err) {
+      console.error('Save sheet sync failed:', err);
+      Alert.alert('Unable to save', 'Please try again.');
+    } finally {
+      setSavingSheetSync(false);
+    }
+  };
+
+  const handleRunSheetSync = async () => {
+    if (!selectedEvent) return;
+    const result = await runSheetSync(selectedEvent.eventId);
+    if (!result.success) {
+      Alert.alert('Sync Failed', result.errors[0] ?? 'Please try again.');
+    }
+  };
+
+  const handleDisconnectSheetSync = () => {
+    if (!selectedEvent) return;
+    Alert.alert(
+      'Disconnect Google Sheet',
+      'Scheduled syncs will stop. Attendees already imported stay on the roster.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await disconnectSheetSync(selectedEvent.eventId);
+            } catch (err) {
+              console.error('Disconnect sheet sync failed:', err);
+              Alert.alert('Unable to disconnect', 'Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      setStaffActivity({ tab: 'admin' });
+    }, [])
+  );
+
+  const handleSendAnnouncement = async () => {
+    if (!selectedEvent) return;
+    setSendingAnnouncement(true);
+    try {
+      await sendAnnouncement(
+        selectedEvent.eventId,
+        announcementText,
+        session?.user?.user_metadata?.name || session?.user?.email
+      );
+      setAnnouncementText('');
+    } catch (err) {
+      console.error('Send announcement failed:', err);
+      Alert.alert('Unable to send', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setSendingAnnouncement(false);
+    }
+  };
+
+  const handleConnectRelay = async () => {
+    if (!relayUrl.trim() || !relayKey.trim()) {
+      Alert.alert('Relay Details Required', 'Enter the address and key shown on the relay laptop.');
+      return;
+    }
+
+    setConnectingRelay(true);
+    try {
+      await connectRelay(relayUrl, relayKey);
+      setRelayKey('');
+    } catch (err) {
+      console.error('Connect relay failed:', err);
+      Alert.alert('Unable to connect', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setConnectingRelay(false);
+    }
+  };
+
+  const handleDisconnectRelay = () => {
+    Alert.alert(
+      'Disconnect Relay',
+      'This device will stop sharing check-ins with other devices at the venue until it is back online.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await disconnectRelay();
+            } catch (err) {
+              console.error('Disconnect relay failed:', err);
+              Alert.alert('Unable to disconnect', 'Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const busiestArrival = report?.arrivals.reduce<AttendanceReport['arrivals'][number] | null>(
+    (best, bucket) => (!best || bucket.count > best.count ? bucket : best),
+    null
+  );
+
   const handleSelectAutoRefresh = (interval: number) => {
     setAutoRefreshIntervalState(interval);
     setAutoRefreshInterval(interval);
@@ -242,6 +525,29 @@ export default function AdminScreen() {
     setEventSelectorModalVisible(true);
   };
 
+  const handleSignOut = async () => {
+    // Signing out deletes this device's cached guest data, including changes that haven't reached the server
+    const { pending, failed } = await getQueueStats();
+    const unsynced = pending + failed;
+    Alert.alert(
+      'Sign Out',
+      unsynced > 0
+        ? `${unsynced} change${unsynced === 1 ? ' has' : 's have'} not synced yet and will be lost. ` +
+          'Sync first from the Sync Center, or sign out anyway?'
+        : 'Are you sure you want to sign out? Guest lists downloaded to this device will be deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => {
+            void signOut();
+          }
+        }
+      ]
+    );
+  };
+
   const handleDeleteAccount = () => {
     if (!session) {
       Alert.alert('Not signed in', 'You must be signed in to delete your account.');
@@ -512,6 +818,70 @@ export default function AdminScreen() {
           )}
         </View>
 
+        {/* Staff On Duty */}
+        {selectedEvent && staff.length > 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Staff On Duty</Text>
+            <Text style={styles.cardSubtitle}>
+              Everyone working this event, what they have open, and changes on their device that haven't synced.
+            </Text>
+            {staff.map((member) => (
+              <View key={member.deviceId} style={styles.staffRow}>
+                <View style={[styles.statusIndicator, member.online ? styles.statusConnected : styles.statusOffline]} />
+                <View style={styles.staffDetails}>
+                  <Text style={styles.statusValueText} numberOfLines={1}>
+                    {member.isSelf ? `${member.name} (this device)` : member.name}
+                  </Text>
+                  <Text style={styles.staffMeta} numberOfLines={1}>
+                    {describeStaffActivity(member)}
+                  </Text>
+                </View>
+                {member.unsynced > 0 && (
+                  <Text style={styles.staffUnsynced}>{`${member.unsynced} unsynced`}</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {/* Announcements - Manager only */}
+        {canSendAnnouncements && selectedEvent ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Announcements</Text>
+            <Text style={styles.cardSubtitle}>
+              Send a short message to every device working this event. It shows as a banner until each person taps
+              Got it; devices that are offline get it when they reconnect.
+            </Text>
+            <TextInput
+              style={styles.sheetUrlInput}
+              value={announcementText}
+              onChangeText={setAnnouncementText}
+              placeholder="e.g. VIP bus arriving at door 2"
+              placeholderTextColor="#8e8e93"
+              maxLength={ANNOUNCEMENT_MAX_LENGTH}
+              multiline
+            />
+            <View style={styles.actions}>
+              <ActionButton
+                label={sendingAnnouncement ? 'Sending…' : 'Send Announcement'}
+                variant="primary"
+                onPress={() => void handleSendAnnouncement()}
+                disabled={sendingAnnouncement || !announcementText.trim()}
+              />
+            </View>
+            {announcements.slice(0, 5).map((announcement) => (
+              <View key={announcement.id} style={styles.staffRow}>
+                <View style={styles.staffDetails}>
+                  <Text style={styles.statusValueText}>{announcement.message}</Text>
+                  <Text style={styles.staffMeta}>
+                    {`${formatSyncedAgo(announcement.createdAt)} • acknowledged by ${announcement.ackCount}`}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
         {/* TODO v2 - Hide these sections until v2 */}
         {/* 
         {canCreateEvents && (
@@ -610,9 +980,14 @@ export default function AdminScreen() {
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Event Management</Text>
             <Text style={styles.cardSubtitle}>
-              Reset the entire roster's check-in state for this event.
+              Review or roll back roster imports, or reset the entire roster's check-in state for this event.
             </Text>
             <View style={styles.actions}>
+              <ActionButton
+                label="Import History"
+                variant="secondary"
+                onPress={() => setImportHistoryVisible(true)}
+              />
               <ActionButton
                 label="Reset All Check-Ins"
                 variant="danger"
@@ -624,12 +999,179 @@ export default function AdminScreen() {
           <></>
         )}
 
+        {/* Attendance Report & Export - Manager only */}
+        {canManageRoster && selectedEvent ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Export</Text>
+            <Text style={styles.cardSubtitle}>
+              End-of-night attendance summary, no-shows, and CSV exports of the roster.
+            </Text>
+            {report && (
+              <View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Checked In</Text>
+                  <Text style={styles.statusValueText}>
+                    {`${report.checkedIn} / ${report.total} (${Math.round(report.rate * 100)}%)`}
+                  </Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>No-Shows</Text>
+                  <Text style={styles.statusValueText}>{report.noShows.length}</Text>
+                </View>
+                {report.walkIns > 0 && (
+                  <View style={styles.statusRow}>
+                    <Text style={styles.statusLabel}>Walk-Ins</Text>
+                    <Text style={styles.statusValueText}>{report.walkIns}</Text>
+                  </View>
+                )}
+                {busiestArrival && (
+                  <View style={styles.statusRow}>
+                    <Text style={styles.statusLabel}>Busiest {report.bucketMinutes} min</Text>
+                    <Text style={styles.statusValueText}>
+                      {`${new Date(busiestArrival.start).toLocaleTimeString(undefined, {
+                        hour: 'numeric',
+                        minute: '2-digit'
+                      })} • ${busiestArrival.count} arrivals`}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+            <View style={styles.actions}>
+              <ActionButton
+                label={reportLoading ? 'Generating…' : report ? 'Refresh Summary' : 'Generate Summary'}
+                variant="secondary"
+                onPress={() => void handleGenerateReport()}
+                disabled={reportLoading}
+              />
+              <ActionButton
+                label={exporting === 'attendees' ? 'Exporting…' : 'Export Attendee CSV'}
+                variant="primary"
+                onPress={() => void handleExport('attendees')}
+                disabled={exporting !== null}
+              />
+              <ActionButton
+                label={exporting === 'summary' ? 'Exporting…' : 'Export Summary CSV'}
+                variant="secondary"
+                onPress={() => void handleExport('summary')}
+                disabled={exporting !== null}
+              />
+            </View>
+          </View>
+        ) : (
+          <></>
+        )}
+
+        {/* Google Sheet Sync - Manager only */}
+        {canManageRoster && selectedEvent ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Google Sheet Sync</Text>
+            <Text style={styles.cardSubtitle}>
+              Keep the roster in step with a planning sheet. New rows are added and changed details updated;
+              check-in status recorded in the app is never changed and nobody is removed.
+            </Text>
+            <TextInput
+              style={styles.sheetUrlInput}
+              value={sheetSyncUrl}
+              onChangeText={setSheetSyncUrl}
+              placeholder="https://docs.google.com/spreadsheets/d/..."
+              placeholderTextColor="#8e8e93"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <View>
+              <Text style={styles.autoRefreshLabel}>Sync every</Text>
+              <View style={styles.autoRefreshOptions}>
+                {SHEET_SYNC_INTERVAL_OPTIONS.map((option) => {
+                  const isActive = sheetSyncInterval === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => setSheetSyncInterval(option.value)}
+                      style={[styles.autoRefreshChip, isActive ? styles.autoRefreshChipActive : null]}
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[styles.autoRefreshChipLabel, isActive ? styles.autoRefreshChipLabelActive : null]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.autoRefreshLabel}>Match rows by</Text>
+              <View style={styles.autoRefreshOptions}>
+                {SHEET_SYNC_MATCH_KEYS.map((key) => {
+                  const isActive = sheetSyncMatchKey === key;
+                  return (
+                    <TouchableOpacity
+                      key={key}
+                      onPress={() => setSheetSyncMatchKey(key)}
+                      style={[styles.autoRefreshChip, isActive ? styles.autoRefreshChipActive : null]}
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[styles.autoRefreshChipLabel, isActive ? styles.autoRefreshChipLabelActive : null]}
+                      >
+                        {describeMatchKey(key)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+            {linkedSheet && (
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Last Synced</Text>
+                <Text style={styles.statusValueText}>
+                  {sheetSync?.syncing
+                    ? 'Syncing…'
+                    : linkedSheet.lastSyncedAt
+                      ? `${formatSyncedAgo(linkedSheet.lastSyncedAt)} • ${linkedSheet.lastChanges ?? 0} change${linkedSheet.lastChanges === 1 ? '' : 's'}`
+                      : 'Never'}
+                </Text>
+              </View>
+            )}
+            {sheetSync?.lastError ? (
+              <Text style={styles.sheetSyncError}>{`Last sync failed: ${sheetSync.lastError}`}</Text>
+            ) : null}
+            <View style={styles.actions}>
+              <ActionButton
+                label={savingSheetSync ? 'Saving…' : linkedSheet ? 'Save Sync Settings' : 'Link Sheet'}
+                variant="primary"
+                onPress={() => void handleSaveSheetSync()}
+                disabled={savingSheetSync}
+              />
+              {linkedSheet && (
+                <ActionButton
+                  label={sheetSync?.syncing ? 'Syncing…' : 'Sync Now'}
+                  variant="secondary"
+                  onPress={() => void handleRunSheetSync()}
+                  disabled={Boolean(sheetSync?.syncing)}
+                />
+              )}
+              {linkedSheet && (
+                <ActionButton
+                  label="Disconnect Sheet"
+                  variant="danger"
+                  onPress={handleDisconnectSheetSync}
+                />
+              )}
+            </View>
+          </View>
+        ) : (
+          <></>
+        )}
+
         {/* Real-time Status - Moved to bottom */}
         {showRealtimeStatus ? (
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Real-time Status</Text>
             <Text style={styles.cardSubtitle}>
-              Monitor real-time connection status and sync across devices.
+              Monitor real-time connection status and sync across devices. Delivery latency includes any difference
+              between this device's clock and the server's.
             </Text>
             <View style={styles.statusRow}>
               <Text style={styles.statusLabel}>Connection Status</Text>
@@ -650,6 +1192,30 @@ export default function AdminScreen() {
                 <Text style={styles.statusValueText}>{totalReconnectAttempts}</Text>
               </View>
             )}
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Messages Received</Text>
+              <Text style={styles.statusValueText}>{totalMessages}</Text>
+            </View>
+            {Array.from(realtimeStatuses.entries()).map(([channelName, status]) => {
+              const history = describeReconnectHistory(status);
+              return (
+                <View key={channelName} style={[styles.staffRow, styles.channelRow]}>
+                  <View
+                    style={[
+                      styles.statusIndicator,
+                      status.isConnected ? styles.statusConnected : styles.statusDisconnected
+                    ]}
+                  />
+                  <View style={styles.staffDetails}>
+                    <Text style={styles.statusValueText} numberOfLines={1}>
+                      {channelName}
+                    </Text>
+                    <Text style={styles.staffMeta}>{describeChannelTraffic(status)}</Text>
+                    {history ? <Text style={styles.staffMeta}>{history}</Text> : null}
+                  </View>
+                </View>
+              );
+            })}
           </View>
         ) : (
           <></>
@@ -689,6 +1255,103 @@ export default function AdminScreen() {
           </>
         )}
 
+        {/* Venue Relay */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Venue Relay</Text>
+          <Text style={styles.cardSubtitle}>
+            No internet at the venue? Run the relay on a laptop on the same Wi-Fi (npm run relay) and connect each
+            device to it to share check-ins between doors. Changes still sync to the server once back online.
+          </Text>
+          {relayStatus.url ? (
+            <>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Relay</Text>
+                <Text style={styles.statusValueText}>{relayStatus.url}</Text>
+              </View>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Status</Text>
+                <Text style={styles.statusValueText}>
+                  {relayStatus.connected
+                    ? `Connected • ${relayStatus.devices} device${relayStatus.devices === 1 ? '' : 's'}`
+                    : 'Connecting…'}
+                </Text>
+              </View>
+              {relayStatus.lastError ? (
+                <Text style={styles.sheetSyncError}>{`Relay unavailable: ${relayStatus.lastError}`}</Text>
+              ) : null}
+              <View style={styles.actions}>
+                <ActionButton label="Disconnect Relay" variant="danger" onPress={handleDisconnectRelay} />
+              </View>
+            </>
+          ) : (
+            <>
+              <TextInput
+                style={styles.sheetUrlInput}
+                value={relayUrl}
+                onChangeText={setRelayUrl}
+                placeholder="Relay address, e.g. 192.168.1.20:8787"
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TextInput
+                style={styles.sheetUrlInput}
+                value={relayKey}
+                onChangeText={setRelayKey}
+                placeholder="Relay key"
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <View style={styles.actions}>
+                <ActionButton
+                  label={connectingRelay ? 'Connecting…' : 'Connect to Relay'}
+                  variant="primary"
+                  onPress={() => void handleConnectRelay()}
+                  disabled={connectingRelay}
+                />
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Offline Events */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Offline Events</Text>
+          <Text style={styles.cardSubtitle}>
+            Download events before heading somewhere without signal, and manage the storage they use. Guest data is
+            stored encrypted and deleted when you sign out.
+          </Text>
+          <Text style={styles.autoRefreshLabel}>Delete after the event ends</Text>
+          <View style={styles.autoRefreshOptions}>
+            {OFFLINE_RETENTION_OPTIONS.map((option) => {
+              const isActive = offlineRetentionDays === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => void setOfflineRetentionDays(option.value)}
+                  style={[styles.autoRefreshChip, isActive ? styles.autoRefreshChipActive : null]}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[styles.autoRefreshChipLabel, isActive ? styles.autoRefreshChipLabelActive : null]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.actions}>
+            <ActionButton
+              label="Manage Offline Events"
+              variant="secondary"
+              onPress={() => setOfflineEventsVisible(true)}
+            />
+          </View>
+        </View>
+
         {/* Account & Privacy */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Account & Privacy</Text>
@@ -712,6 +1375,13 @@ export default function AdminScreen() {
           onSuccess={handleImportSuccess}
         />
 
+        <ImportHistoryModal
+          visible={importHistoryVisible}
+          eventId={selectedEvent?.eventId || ''}
+          currentUserId={session?.user?.id}
+          onClose={() => setImportHistoryVisible(false)}
+        />
+
         <CreateEventModal
           visible={createEventModalVisible}
           onClose={() => setCreateEventModalVisible(false)}
@@ -741,28 +1411,20 @@ export default function AdminScreen() {
           eventName={selectedEvent?.eventName}
           onClose={() => setAccessCodeDashboardVisible(false)}
         />
+
+        <OfflineEventsModal
+          visible={offlineEventsVisible}
+          events={events}
+          selectedEventId={selectedEvent?.eventId || null}
+          onClose={() => setOfflineEventsVisible(false)}
+        />
       </ScrollView>
       
       {/* Sign Out Button - Pinned to bottom */}
       <View style={styles.floatingButtonContainer}>
         <TouchableOpacity
           style={styles.floatingSignOutButton}
-          onPress={() => {
-            Alert.alert(
-              'Sign Out',
-              'Are you sure you want to sign out?',
-              [
-                { text: 'Cancel', style: 'cancel' },
-                {
-                  text: 'Sign Out',
-                  style: 'destructive',
-                  onPress: () => {
-                    void signOut();
-                  }
-                }
-              ]
-            );
-          }}
+          onPress={() => void handleSignOut()}
           activeOpacity={0.8}
         >
           {deletingAccount ? (
@@ -856,6 +1518,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6e6e73'
   },
+  sheetUrlInput: {
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#1f1f1f',
+    backgroundColor: '#ffffff'
+  },
+  sheetSyncError: {
+    fontSize: 13,
+    color: '#c62828'
+  },
   autoRefreshChip: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -978,6 +1654,30 @@ const styles = StyleSheet.create({
   statusDisconnected: {
     backgroundColor: '#e74c3c'
   },
+  statusOffline: {
+    backgroundColor: '#c7c7cc'
+  },
+  staffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10
+  },
+  channelRow: {
+    paddingVertical: 6
+  },
+  staffDetails: {
+    flex: 1,
+    gap: 2
+  },
+  staffMeta: {
+    fontSize: 12,
+    color: '#6e6e73'
+  },
+  staffUnsynced: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ff9500'
+  },
   statusText: {
     fontSize: 14,
     fontWeight: '600',
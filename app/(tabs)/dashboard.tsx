@@ -0,0 +1,492 @@
+/**
+ * Lintnotes
+ * - Purpose: Live event dashboard for managers: overall check-in percentage, arrivals per 5/15 minutes, projected
+ *            finish time, and progress per group, table and ticket type with drill-down into who is still missing.
+ * - Exports: default DashboardScreen (React component)
+ * - Major deps: react-native UI, expo-router useFocusEffect, services/reporting (aggregation/projection),
+ *               services/attendeeList, services/attendeeEvents, services/realtime (channel name), hooks/useSupabase,
+ *               hooks/usePermissions, hooks/useAttendeeList, components/LiveIndicator
+ * - Side effects: Asks the check-in screen to load the event if the shared attendee list doesn't have it; ticks a
+ *                 clock every 30s while focused so the projection and chart move on.
+ * - Notes: Reads the shared attendee list that the check-in screen keeps live from the attendee realtime channel, so
+ *          it updates as check-ins arrive (pending offline check-ins on this device included).
+ */
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useFocusEffect } from 'expo-router';
+
+import { useSupabase } from '../../hooks/useSupabase';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useAttendeeList } from '../../hooks/useAttendeeList';
+import { getAttendeeListEventId } from '../../services/attendeeList';
+import { emitRefreshAttendees } from '../../services/attendeeEvents';
+import { getAttendeesChannelName } from '../../services/realtime';
+import {
+  buildAttendanceReport,
+  getBreakdownLabel,
+  projectArrivals,
+  type ArrivalBucket,
+  type BreakdownDimension,
+  type BreakdownRow
+} from '../../services/reporting';
+import { LiveIndicator } from '../../components/LiveIndicator';
+
+const BUCKET_OPTIONS = [5, 15] as const;
+
+// Enough bars to cover the last hour at 5 minutes and three hours at 15
+const CHART_BUCKETS = 12;
+
+// Only the projection and chart depend on the time; attendee changes are pushed
+const CLOCK_INTERVAL = 30 * 1000;
+
+const DIMENSION_OPTIONS: { key: BreakdownDimension; label: string }[] = [
+  { key: 'group', label: 'Group' },
+  { key: 'table', label: 'Table' },
+  { key: 'ticketType', label: 'Ticket' }
+];
+
+type BucketMinutes = (typeof BUCKET_OPTIONS)[number];
+
+const formatTime = (value: string | number): string =>
+  new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * The last CHART_BUCKETS buckets up to now, including empty ones after the last arrival
+ */
+const getRecentBuckets = (arrivals: ArrivalBucket[], bucketMinutes: number, now: Date): ArrivalBucket[] => {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const counts = new Map(arrivals.map((bucket) => [Date.parse(bucket.start), bucket.count]));
+  const current = Math.floor(now.getTime() / bucketMs) * bucketMs;
+
+  return Array.from({ length: CHART_BUCKETS }, (_, index) => {
+    const start = current - (CHART_BUCKETS - 1 - index) * bucketMs;
+    return { start: new Date(start).toISOString(), count: counts.get(start) ?? 0 };
+  });
+};
+
+export default function DashboardScreen() {
+  const { session, selectedEvent } = useSupabase();
+  const { canViewDashboard } = usePermissions();
+  const attendees = useAttendeeList();
+  const [bucketMinutes, setBucketMinutes] = useState<BucketMinutes>(15);
+  const [dimension, setDimension] = useState<BreakdownDimension>('table');
+  const [expandedLabel, setExpandedLabel] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const eventId = selectedEvent?.eventId;
+  const loaded = Boolean(eventId) && getAttendeeListEventId() === eventId;
+
+  useFocusEffect(
+    useCallback(() => {
+      setNow(new Date());
+      const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL);
+      return () => clearInterval(timer);
+    }, [])
+  );
+
+  // The check-in screen owns loading and the realtime subscription; ask it to load an event it hasn't yet
+  useEffect(() => {
+    if (session && eventId && !loaded) {
+      emitRefreshAttendees({ silent: true });
+    }
+  }, [eventId, loaded, session]);
+
+  useEffect(() => {
+    setExpandedLabel(null);
+  }, [dimension, eventId]);
+
+  const eventAttendees = useMemo(() => (loaded ? attendees : []), [attendees, loaded]);
+
+  const report = useMemo(
+    () => buildAttendanceReport(eventAttendees, { bucketMinutes, now }),
+    [eventAttendees, bucketMinutes, now]
+  );
+  const projection = useMemo(() => projectArrivals(eventAttendees, { now }), [eventAttendees, now]);
+  const chart = useMemo(
+    () => getRecentBuckets(report.arrivals, bucketMinutes, now),
+    [report.arrivals, bucketMinutes, now]
+  );
+  const chartMax = Math.max(1, ...chart.map((bucket) => bucket.count));
+
+  const breakdown: BreakdownRow[] =
+    dimension === 'group' ? report.byGroup : dimension === 'table' ? report.byTable : report.byTicketType;
+
+  const missing = useMemo(
+    () =>
+      expandedLabel === null
+        ? []
+        : report.noShows.filter((attendee) => getBreakdownLabel(attendee, dimension) === expandedLabel),
+    [expandedLabel, report.noShows, dimension]
+  );
+
+  if (!session || !eventId) {
+    return (
+      <View style={styles.pageContainer}>
+        <View style={styles.emptyState}>
+          <Ionicons name="stats-chart-outline" size={40} color="#9c9c9c" />
+          <Text style={styles.emptyText}>Select an event on the Check-In tab to see its dashboard.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!canViewDashboard) {
+    return (
+      <View style={styles.pageContainer}>
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color="#9c9c9c" />
+          <Text style={styles.emptyText}>The dashboard is available to event managers.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!loaded) {
+    return (
+      <View style={styles.pageContainer}>
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#1f1f1f" />
+          <Text style={styles.emptyText}>Loading attendees…</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const percent = Math.round(report.rate * 100);
+
+  return (
+    <View style={styles.pageContainer}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.headingRow}>
+          <Text style={styles.heading} numberOfLines={1}>
+            {selectedEvent?.eventName ?? 'Dashboard'}
+          </Text>
+          <LiveIndicator channelName={getAttendeesChannelName(eventId)} />
+        </View>
+
+        {/* Overall progress */}
+        <View style={styles.card}>
+          <View style={styles.overallRow}>
+            <Text style={styles.percent}>{`${percent}%`}</Text>
+            <View style={styles.overallDetails}>
+              <Text style={styles.statusValueText}>{`${report.checkedIn} of ${report.total} checked in`}</Text>
+              <Text style={styles.meta}>
+                {`${report.pending} still to arrive${report.walkIns > 0 ? ` • ${report.walkIns} walk-ins` : ''}`}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${percent}%` }]} />
+          </View>
+        </View>
+
+        {/* Projection */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Projected Finish</Text>
+          {report.pending === 0 ? (
+            <Text style={styles.projection}>Everyone is in</Text>
+          ) : projection.finishAt ? (
+            <Text style={styles.projection}>{`Around ${formatTime(projection.finishAt)}`}</Text>
+          ) : (
+            <Text style={styles.projection}>Waiting for arrivals</Text>
+          )}
+          <Text style={styles.cardSubtitle}>
+            {projection.ratePerHour > 0
+              ? `${projection.ratePerHour} arrivals an hour over the last ${projection.windowMinutes} minutes, ` +
+                'assuming everyone still expected turns up.'
+              : `No check-ins in the last ${projection.windowMinutes} minutes.`}
+          </Text>
+        </View>
+
+        {/* Arrival curve */}
+        <View style={styles.card}>
+          <View style={styles.cardHeaderRow}>
+            <Text style={styles.cardTitle}>Arrivals</Text>
+            <View style={styles.segmented}>
+              {BUCKET_OPTIONS.map((minutes) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.segment, bucketMinutes === minutes && styles.segmentActive]}
+                  onPress={() => setBucketMinutes(minutes)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: bucketMinutes === minutes }}
+                >
+                  <Text style={[styles.segmentText, bucketMinutes === minutes && styles.segmentTextActive]}>
+                    {`${minutes} min`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <View
+            style={styles.chart}
+            accessible
+            accessibilityLabel={`Arrivals per ${bucketMinutes} minutes: ${chart.map((bucket) => bucket.count).join(', ')}`}
+          >
+            {chart.map((bucket) => (
+              <View key={bucket.start} style={styles.chartColumn}>
+                {bucket.count > 0 && <Text style={styles.chartCount}>{bucket.count}</Text>}
+                <View style={[styles.chartBar, { height: `${(bucket.count / chartMax) * 100}%` }]} />
+              </View>
+            ))}
+          </View>
+          <View style={styles.chartAxis}>
+            <Text style={styles.meta}>{formatTime(chart[0].start)}</Text>
+            <Text style={styles.meta}>Now</Text>
+          </View>
+        </View>
+
+        {/* Progress by group/table/ticket */}
+        <View style={styles.card}>
+          <View style={styles.cardHeaderRow}>
+            <Text style={styles.cardTitle}>Progress</Text>
+            <View style={styles.segmented}>
+              {DIMENSION_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.segment, dimension === option.key && styles.segmentActive]}
+                  onPress={() => setDimension(option.key)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: dimension === option.key }}
+                >
+                  <Text style={[styles.segmentText, dimension === option.key && styles.segmentTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <Text style={styles.cardSubtitle}>Tap a row to see who is still missing.</Text>
+          {breakdown.map((row) => {
+            const expanded = expandedLabel === row.label;
+            return (
+              <View key={row.label}>
+                <TouchableOpacity
+                  style={styles.breakdownRow}
+                  onPress={() => setExpandedLabel(expanded ? null : row.label)}
+                  disabled={row.checkedIn === row.total}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${row.label}: ${row.checkedIn} of ${row.total} checked in`}
+                >
+                  <View style={styles.breakdownHeader}>
+                    <Text style={styles.breakdownLabel} numberOfLines={1}>
+                      {row.label}
+                    </Text>
+                    <Text style={[styles.meta, row.checkedIn === row.total && styles.complete]}>
+                      {`${row.checkedIn}/${row.total}`}
+                    </Text>
+                  </View>
+                  <View style={styles.progressTrackSmall}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        row.checkedIn === row.total && styles.progressComplete,
+                        { width: `${Math.round(row.rate * 100)}%` }
+                      ]}
+                    />
+                  </View>
+                </TouchableOpacity>
+                {expanded && (
+                  <View style={styles.missingList}>
+                    {missing.map((attendee) => (
+                      <Text key={attendee.id} style={styles.missingName} numberOfLines={1}>
+                        {attendee.attendeeName}
+                        {dimension !== 'table' && attendee.tableNumber ? ` • Table ${attendee.tableNumber}` : ''}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pageContainer: {
+    flex: 1,
+    backgroundColor: '#f4f5f7'
+  },
+  container: {
+    padding: 24,
+    gap: 24
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 12
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6e6e73',
+    textAlign: 'center'
+  },
+  headingRow: {
+    gap: 4
+  },
+  heading: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: '#1f1f1f'
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    gap: 16,
+    shadowColor: '#000000',
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 3
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between'
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f'
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#555555',
+    lineHeight: 20
+  },
+  overallRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16
+  },
+  overallDetails: {
+    flex: 1,
+    gap: 2
+  },
+  percent: {
+    fontSize: 44,
+    fontWeight: '700',
+    color: '#1f1f1f'
+  },
+  statusValueText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f1f1f'
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6e6e73'
+  },
+  complete: {
+    color: '#27ae60',
+    fontWeight: '600'
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#eceef1',
+    overflow: 'hidden'
+  },
+  progressTrackSmall: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eceef1',
+    overflow: 'hidden'
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#f5cb08'
+  },
+  progressComplete: {
+    backgroundColor: '#27ae60'
+  },
+  projection: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1f1f1f'
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    backgroundColor: '#eceef1',
+    padding: 2
+  },
+  segment: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6
+  },
+  segmentActive: {
+    backgroundColor: '#1f1f1f'
+  },
+  segmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6e6e73'
+  },
+  segmentTextActive: {
+    color: '#ffffff'
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 120,
+    gap: 4
+  },
+  chartColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+    alignItems: 'center'
+  },
+  chartBar: {
+    width: '100%',
+    minHeight: 2,
+    borderRadius: 3,
+    backgroundColor: '#f5cb08'
+  },
+  chartCount: {
+    fontSize: 10,
+    color: '#6e6e73',
+    marginBottom: 2
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between'
+  },
+  breakdownRow: {
+    gap: 6,
+    paddingVertical: 4
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12
+  },
+  breakdownLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f1f1f'
+  },
+  missingList: {
+    paddingLeft: 12,
+    paddingTop: 4,
+    paddingBottom: 8,
+    gap: 4,
+    borderLeftWidth: 2,
+    borderLeftColor: '#f5cb08'
+  },
+  missingName: {
+    fontSize: 13,
+    color: '#4a4a4a'
+  }
+});
@@ -1,11 +1,18 @@
 /**
  * Lintnotes
  * - Purpose: Main Check-In screen. Lists attendees for the selected event with search/sort, supports check-in/undo,
- *             group/table bulk actions, and realtime updates. Integrates auto-refresh and pull-to-refresh.
+ *             group/table bulk actions, walk-in registration, per-attendee check-in history, manager edit/delete, and realtime
+ *             updates with a live indicator and staff presence strip in the header and an announcement banner. The list
+ *             itself lives in services/attendeeList, which orders realtime changes and reloads by row version.
+ *             Integrates auto-refresh and pull-to-refresh.
  * - Exports: default CheckInScreen (React component)
  * - Major deps: react-native UI, expo-router navigation hooks, react-native-gesture-handler Swipeable,
- *               services/attendees, services/attendeeEvents, hooks/useSupabase, hooks/usePermissions, components/ActionButton
- * - Side effects: Subscribes to realtime attendee changes while mounted; sets nav header options; timers for auto-refresh.
+ *               services/attendees, services/attendeeStore (search/sort queries), services/attendeeEvents, hooks/useSupabase, hooks/usePermissions, components/ActionButton,
+ *               components/AttendeeHistoryModal, components/AttendeeDetailModal, components/WalkInModal,
+ *               hooks/useStaffPresence, components/StaffAvatarStrip, hooks/useAnnouncements, components/AnnouncementBanner,
+ *               components/LiveIndicator, services/realtime (channel name), services/attendeeList, hooks/useAttendeeList
+ * - Side effects: Subscribes to realtime attendee changes and announcements and shares staff presence while mounted;
+ *                 sets nav header options; timers for auto-refresh.
  */
 import {
   useCallback,
@@ -36,17 +43,28 @@ import {
   NativeStackNavigationOptions,
   NativeStackNavigationProp
 } from '@react-navigation/native-stack';
-import { useNavigation } from 'expo-router';
+import { useFocusEffect, useNavigation } from 'expo-router';
 import { Swipeable } from 'react-native-gesture-handler';
 
 import {
   Attendee,
-  AttendeeChange,
+  bulkCheckIn,
+  cacheAttendeeChange,
   fetchAttendees,
   subscribeAttendees,
-  syncAttendeesCache,
   toggleCheckin
 } from '../../services/attendees';
+import {
+  applyAttendeeListChange,
+  applyAttendeeSnapshot,
+  applyOptimisticUpdate,
+  beginAttendeeSnapshot,
+  mergeAttendeeIntoList,
+  removeAttendeeFromList,
+  resetAttendeeList
+} from '../../services/attendeeList';
+import { useAttendeeList } from '../../hooks/useAttendeeList';
+import { queryCachedAttendeeIds } from '../../services/attendeeStore';
 import {
   addRefreshListener,
   addAutoRefreshListener,
@@ -59,7 +77,17 @@ import ActionButton from '../../components/ActionButton';
 import { RequestInfoModal } from '../../components/RequestInfoModal';
 import { CodeRedeemModal } from '../../components/CodeRedeemModal';
 import { OfflineIndicator } from '../../components/OfflineIndicator';
+import { AttendeeHistoryModal } from '../../components/AttendeeHistoryModal';
+import { AttendeeDetailModal } from '../../components/AttendeeDetailModal';
+import { WalkInModal } from '../../components/WalkInModal';
 import { useUndoProtectionLevel } from '../../hooks/useSettings';
+import { useStaffPresence, useStaffPresenceSession } from '../../hooks/useStaffPresence';
+import { setStaffActivity } from '../../services/staffPresence';
+import { StaffAvatarStrip } from '../../components/StaffAvatarStrip';
+import { LiveIndicator } from '../../components/LiveIndicator';
+import { getAttendeesChannelName } from '../../services/realtime';
+import { AnnouncementBanner } from '../../components/AnnouncementBanner';
+import { useAnnouncementsSession } from '../../hooks/useAnnouncements';
 
 type CheckInStatus = 'pending' | 'checked-in';
 const segments: CheckInStatus[] = ['pending', 'checked-in'];
@@ -101,9 +129,12 @@ export default function CheckInScreen() {
     loading: supabaseLoading,
     signIn
   } = useSupabase();
-  const { canToggleCheckins, canViewAttendees } = usePermissions();
+  const { canToggleCheckins, canViewAttendees, canRegisterWalkIns, canEditAttendees } = usePermissions();
   const undoProtectionLevel = useUndoProtectionLevel();
-  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  useStaffPresenceSession();
+  useAnnouncementsSession();
+  const staff = useStaffPresence();
+  const attendees = useAttendeeList();
   const [activeStatus, setActiveStatus] = useState<CheckInStatus>('pending');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortKey, setSortKey] = useState<SortKey>('attendeeName');
@@ -123,6 +154,9 @@ export default function CheckInScreen() {
   const [groupPrompt, setGroupPrompt] = useState<Attendee | null>(null);
   const [requestInfoModalVisible, setRequestInfoModalVisible] = useState(false);
   const [redeemModalVisible, setRedeemModalVisible] = useState(false);
+  const [historyAttendee, setHistoryAttendee] = useState<Attendee | null>(null);
+  const [detailAttendee, setDetailAttendee] = useState<Attendee | null>(null);
+  const [walkInVisible, setWalkInVisible] = useState(false);
   const lastTapRef = useRef<{ id: string; timestamp: number } | null>(null);
   const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -137,6 +171,14 @@ export default function CheckInScreen() {
     };
   }, [attendees]);
 
+  const ticketTypes = useMemo(
+    () =>
+      Array.from(new Set(attendees.map((item) => item.ticketType).filter(Boolean))).sort((a, b) =>
+        a.localeCompare(b, undefined, { sensitivity: 'base' })
+      ),
+    [attendees]
+  );
+
   const headerEventName = useMemo(() => {
     if (selectedEvent?.eventName) {
       return selectedEvent.eventName;
@@ -162,7 +204,7 @@ export default function CheckInScreen() {
 
       if (!session) {
         stopIndicators();
-        setAttendees([]);
+        resetAttendeeList();
         setError(null);
         return;
       }
@@ -170,7 +212,7 @@ export default function CheckInScreen() {
       const eventId = selectedEvent?.eventId;
       if (!eventId) {
         stopIndicators();
-        setAttendees([]);
+        resetAttendeeList();
         setError(null);
         return;
       }
@@ -182,8 +224,10 @@ export default function CheckInScreen() {
       }
 
       try {
-        const data = await fetchAttendees(eventId);
-        setAttendees(data);
+        const snapshot = beginAttendeeSnapshot();
+        // Pending offline operations are layered on by the attendee list
+        const data = await fetchAttendees(eventId, true, false);
+        applyAttendeeSnapshot(eventId, data, snapshot);
         setError(null);
       } catch (err) {
         setError('Unable to load attendees.');
@@ -211,12 +255,11 @@ export default function CheckInScreen() {
         selectedEvent.eventId,
         (change) => {
           if (!isMounted) return;
-          setAttendees((prev) => {
-            const updated = applyAttendeeChange(prev, change);
-            // Sync cache after realtime update
-            void syncAttendeesCache(selectedEvent.eventId, updated);
-            return updated;
-          });
+          // Out-of-order changes are dropped from the list and the cache alike. Queue the cache write before the
+          // list re-renders so the query that follows sees it.
+          if (applyAttendeeListChange(selectedEvent.eventId, change)) {
+            void cacheAttendeeChange(selectedEvent.eventId, change);
+          }
         },
         () => {
           // Auto-refresh attendees when realtime reconnects
@@ -234,6 +277,17 @@ export default function CheckInScreen() {
     };
   }, [loadAttendees, selectedEvent?.eventId, session]);
 
+  // Let other staff see which list this device is on
+  useFocusEffect(
+    useCallback(() => {
+      setStaffActivity({ tab: 'check-in' });
+    }, [])
+  );
+
+  useEffect(() => {
+    setStaffActivity({ filter: activeStatus, search: searchTerm });
+  }, [activeStatus, searchTerm]);
+
   useEffect(() => {
     const remove = addRefreshListener((options) => {
       void loadAttendees(false, options);
@@ -298,22 +352,60 @@ export default function CheckInScreen() {
           >
             {`${totals.pending} pending • ${totals.checkedIn} checked • ${totals.total} total`}
           </Text>
+          {selectedEvent?.eventId ? (
+            <LiveIndicator channelName={getAttendeesChannelName(selectedEvent.eventId)} />
+          ) : null}
+          <StaffAvatarStrip members={staff} />
         </View>
       )
     };
 
     navigation.setOptions(options);
-  }, [headerEventName, navigation, totals]);
+  }, [headerEventName, navigation, selectedEvent?.eventId, staff, totals]);
+
+  // Search and sort run against the local SQLite cache; null falls back to filtering in memory
+  const [queriedIds, setQueriedIds] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const eventId = selectedEvent?.eventId;
+    if (!eventId || attendees.length === 0) {
+      setQueriedIds(null);
+      return;
+    }
+
+    let active = true;
+    queryCachedAttendeeIds(eventId, { status: activeStatus, search: searchTerm, sortKey, sortOrder })
+      .then((ids) => {
+        if (active) setQueriedIds(ids);
+      })
+      .catch((err) => {
+        console.error('Attendee query failed, filtering in memory:', err);
+        if (active) setQueriedIds(null);
+      });
+    return () => {
+      active = false;
+    };
+  }, [attendees, activeStatus, searchTerm, sortKey, sortOrder, selectedEvent?.eventId]);
 
   const filteredAttendees = useMemo(() => {
+    const matchesStatus = (item: Attendee) => {
+      if (activeStatus === 'pending') return !item.checkedIn;
+      if (activeStatus === 'checked-in') return item.checkedIn;
+      return true;
+    };
+
+    if (queriedIds) {
+      const byId = new Map(attendees.map((item) => [item.id, item]));
+      // Re-check status so a just-toggled row leaves the tab before the next query lands
+      return queriedIds
+        .map((id) => byId.get(id))
+        .filter((item): item is Attendee => item !== undefined && matchesStatus(item));
+    }
+
     const lowerSearch = searchTerm.trim().toLowerCase();
 
     const filtered = attendees
-      .filter((item) => {
-        if (activeStatus === 'pending') return !item.checkedIn;
-        if (activeStatus === 'checked-in') return item.checkedIn;
-        return true;
-      })
+      .filter(matchesStatus)
       .filter((item) => {
         if (!lowerSearch) return true;
         const haystack = `${item.attendeeName} ${item.groupName} ${item.tableNumber} ${item.ticketType}`.toLowerCase();
@@ -326,7 +418,7 @@ export default function CheckInScreen() {
         return sortOrder === 'asc' ? cmp : -cmp;
       });
     return filtered;
-  }, [attendees, activeStatus, searchTerm, sortKey, sortOrder]);
+  }, [attendees, queriedIds, activeStatus, searchTerm, sortKey, sortOrder]);
 
   const openConfirmation = useCallback(
     (attendee: Attendee, action: 'check-in' | 'undo', origin: 'tap' | 'swipe', close?: () => void) => {
@@ -337,14 +429,14 @@ export default function CheckInScreen() {
   );
 
   const handleConfirm = useCallback(
-    async (attendee: Attendee, makeCheckedIn: boolean) => {
+    async (attendee: Attendee, makeCheckedIn: boolean, origin: 'tap' | 'swipe') => {
       if (!canToggleCheckins) {
         Alert.alert('Permission Denied', 'You do not have permission to check in attendees.');
         return;
       }
 
       try {
-        const result = await toggleCheckin(attendee.id, makeCheckedIn, selectedEvent?.eventId);
+        const result = await toggleCheckin(attendee.id, makeCheckedIn, selectedEvent?.eventId, origin);
 
         if (!result.success) {
           setError(result.error ?? 'Unable to update attendee.');
@@ -352,25 +444,18 @@ export default function CheckInScreen() {
           return;
         }
 
-        // Update local state optimistically
         setError(null);
-        setAttendees((prev) =>
-          prev.map((existing) =>
-            existing.id === attendee.id
-              ? {
-                  ...existing,
-                  checkedIn: makeCheckedIn,
-                  checkedInAt: makeCheckedIn ? new Date().toISOString() : null,
-                  checkedInBy: makeCheckedIn ? 'current-user' : null
-                }
-              : existing
-          )
-        );
-
-        // Show feedback if queued for offline sync
         if (result.queued) {
+          // Shown from the pending queue until it syncs; an optimistic patch would outlive a conflicting sync.
           // Don't show alert - the OfflineIndicator will show pending count
           console.log(`Check-in queued for offline sync: ${attendee.attendeeName}`);
+        } else if (selectedEvent?.eventId) {
+          // Update local state optimistically
+          applyOptimisticUpdate(selectedEvent.eventId, [attendee.id], {
+            checkedIn: makeCheckedIn,
+            checkedInAt: makeCheckedIn ? new Date().toISOString() : null,
+            checkedInBy: makeCheckedIn ? 'current-user' : null
+          });
         }
       } catch (err) {
         setError('Unable to update attendee.');
@@ -396,37 +481,36 @@ export default function CheckInScreen() {
           : candidate.tableNumber.toLowerCase() === normalizedTable
       );
 
-      if (!targets.length) return;
+      if (!targets.length || !selectedEvent) return;
 
       try {
-        const results = await Promise.all(
-          targets.map((target) => toggleCheckin(target.id, true, selectedEvent?.eventId))
+        const result = await bulkCheckIn(
+          selectedEvent.eventId,
+          scope,
+          scope === 'group' ? attendee.groupName : attendee.tableNumber,
+          targets.map((target) => target.id),
+          true
         );
 
-        const anyFailed = results.some((r) => !r.success);
-        const anyQueued = results.some((r) => r.queued);
-
-        if (anyFailed) {
-          setError('Some check-ins may not have completed.');
-        } else {
-          setError(null);
+        if (!result.success) {
+          setError(result.error ?? 'Some check-ins may not have completed.');
+          return;
         }
+        setError(null);
 
-        setAttendees((prev) =>
-          prev.map((existing) =>
-            targets.some((target) => target.id === existing.id)
-              ? {
-                  ...existing,
-                  checkedIn: true,
-                  checkedInAt: new Date().toISOString(),
-                  checkedInBy: 'current-user'
-                }
-              : existing
-          )
-        );
-
-        if (anyQueued) {
+        if (result.queued) {
+          // Shown from the pending queue until it syncs
           console.log(`Group check-in queued for offline sync`);
+        } else {
+          applyOptimisticUpdate(
+            selectedEvent.eventId,
+            targets.map((target) => target.id),
+            {
+              checkedIn: true,
+              checkedInAt: new Date().toISOString(),
+              checkedInBy: 'current-user'
+            }
+          );
         }
 
         await loadAttendees(false, { silent: true });
@@ -435,7 +519,31 @@ export default function CheckInScreen() {
         Alert.alert('Group check-in failed', 'Please try again.');
       }
     },
-    [attendees, loadAttendees, canToggleCheckins, selectedEvent?.eventId]
+    [attendees, loadAttendees, canToggleCheckins, selectedEvent]
+  );
+
+  const handleWalkInAdded = useCallback((attendee: Attendee, queued: boolean) => {
+    setError(null);
+    if (queued) {
+      // Shown from the pending queue until it syncs
+      console.log(`Walk-in queued for offline sync: ${attendee.attendeeName}`);
+    } else {
+      // Realtime may already have delivered the new row
+      mergeAttendeeIntoList(attendee);
+    }
+  }, []);
+
+  const handleAttendeeUpdated = useCallback((attendee: Attendee) => {
+    mergeAttendeeIntoList(attendee);
+  }, []);
+
+  const handleAttendeeDeleted = useCallback(
+    (attendeeId: string) => {
+      if (selectedEvent?.eventId) {
+        removeAttendeeFromList(selectedEvent.eventId, attendeeId);
+      }
+    },
+    [selectedEvent?.eventId]
   );
 
   const toggleSort = useCallback(
@@ -469,12 +577,34 @@ export default function CheckInScreen() {
           <View style={styles.rowInfo}>
             <Text style={styles.rowName}>{item.attendeeName}</Text>
             <View style={styles.rowMetaContainer}>
-              <Text style={styles.rowMeta}>{`${groupLabel} • Table ${tableLabel} • ${ticketLabel}`}</Text>
+              <Text style={styles.rowMeta}>
+                {`${groupLabel} • Table ${tableLabel} • ${ticketLabel}${item.isWalkIn ? ' • Walk-in' : ''}`}
+              </Text>
               {!isPending && viewingCheckedIn && undoProtectionLevel === 'standard' && (
                 <Text style={styles.holdToUndoHint}>Hold to undo</Text>
               )}
             </View>
           </View>
+          <TouchableOpacity
+            onPress={() => setHistoryAttendee(item)}
+            style={styles.historyButton}
+            accessibilityRole="button"
+            accessibilityLabel={`View check-in history for ${item.attendeeName}`}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="time-outline" size={18} color="#8e8e93" />
+          </TouchableOpacity>
+          {(canEditAttendees || canToggleCheckins) && (
+            <TouchableOpacity
+              onPress={() => setDetailAttendee(item)}
+              style={styles.historyButton}
+              accessibilityRole="button"
+              accessibilityLabel={canEditAttendees ? `Edit ${item.attendeeName}` : `Edit notes for ${item.attendeeName}`}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="create-outline" size={18} color="#8e8e93" />
+            </TouchableOpacity>
+          )}
           <View style={[styles.statusPill, isPending ? styles.statusPending : styles.statusChecked]}>
             <Text style={styles.statusPillLabel}>{isPending ? 'Pending' : 'Checked'}</Text>
           </View>
@@ -585,7 +715,7 @@ export default function CheckInScreen() {
         </TouchableOpacity>
       );
     },
-    [openConfirmation, activeStatus, undoProtectionLevel]
+    [openConfirmation, activeStatus, undoProtectionLevel, canEditAttendees, canToggleCheckins]
   );
 
   const isCheckedInTab = activeStatus === 'checked-in';
@@ -655,6 +785,17 @@ export default function CheckInScreen() {
             color="#007aff"
           />
         </TouchableOpacity>
+        {canRegisterWalkIns && (
+          <TouchableOpacity
+            onPress={() => setWalkInVisible(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Add walk-in"
+            style={styles.sortToggle}
+            activeOpacity={0.6}
+          >
+            <Ionicons name="person-add-outline" size={18} color="#007aff" />
+          </TouchableOpacity>
+        )}
       </View>
 
       {sortsVisible && (
@@ -688,7 +829,7 @@ export default function CheckInScreen() {
         </View>
       )}
     </View>
-  ), [activeStatus, error, searchTerm, sortsVisible, sortKey, sortOrder, toggleSort, isCheckedInTab]);
+  ), [activeStatus, error, searchTerm, sortsVisible, sortKey, sortOrder, toggleSort, isCheckedInTab, canRegisterWalkIns]);
 
   if (supabaseLoading) {
     return (
@@ -841,6 +982,7 @@ export default function CheckInScreen() {
   return (
     <SafeAreaView style={styles.safeArea} edges={['left', 'right', 'bottom']}>
       <OfflineIndicator />
+      <AnnouncementBanner />
       <View style={styles.filtersOuter}>{renderFilters()}</View>
       <FlatList
         data={filteredAttendees}
@@ -887,7 +1029,7 @@ export default function CheckInScreen() {
               <TouchableOpacity
                 style={[styles.modalButton, styles.modalPrimaryButton]}
                 onPress={async () => {
-                  await handleConfirm(pendingModal.attendee, true);
+                  await handleConfirm(pendingModal.attendee, true, pendingModal.origin);
                   setPendingModal(null);
                 }}
                 activeOpacity={0.85}
@@ -927,7 +1069,7 @@ export default function CheckInScreen() {
               <TouchableOpacity
                 style={[styles.modalButton, styles.modalUndoButton]}
                 onPress={async () => {
-                  await handleConfirm(pendingModal.attendee, false);
+                  await handleConfirm(pendingModal.attendee, false, pendingModal.origin);
                   setPendingModal(null);
                 }}
                 activeOpacity={0.85}
@@ -999,28 +1141,32 @@ export default function CheckInScreen() {
           )}
         </View>
       </Modal>
-    </SafeAreaView>
-  );
-}
 
-function applyAttendeeChange(current: Attendee[], change: AttendeeChange): Attendee[] {
-  const { type, attendee, payload } = change;
-
-  if (type === 'DELETE') {
-    const idToRemove = attendee?.id ?? (payload.old ? String((payload.old as { id?: string | number }).id ?? '') : '');
-    if (!idToRemove) return current;
-    return current.filter((existing) => existing.id !== idToRemove);
-  }
+      <AttendeeHistoryModal
+        visible={historyAttendee !== null}
+        attendee={historyAttendee}
+        currentUserId={session?.user?.id}
+        onClose={() => setHistoryAttendee(null)}
+      />
 
-  if (attendee) {
-    const exists = current.some((existing) => existing.id === attendee.id);
-    if (exists) {
-      return current.map((existing) => (existing.id === attendee.id ? attendee : existing));
-    }
-    return [...current, attendee];
-  }
+      <AttendeeDetailModal
+        visible={detailAttendee !== null}
+        attendee={detailAttendee}
+        canEditDetails={canEditAttendees}
+        onClose={() => setDetailAttendee(null)}
+        onUpdated={handleAttendeeUpdated}
+        onDeleted={handleAttendeeDeleted}
+      />
 
-  return current;
+      <WalkInModal
+        visible={walkInVisible}
+        eventId={selectedEvent.eventId}
+        ticketTypes={ticketTypes}
+        onClose={() => setWalkInVisible(false)}
+        onSuccess={handleWalkInAdded}
+      />
+    </SafeAreaView>
+  );
 }
 
 const styles = StyleSheet.create({
@@ -1323,6 +1469,10 @@ const styles = StyleSheet.create({
     fontFamily: 'System',
     color: '#8e8e93'
   },
+  historyButton: {
+    padding: 6,
+    marginRight: 8
+  },
   statusPill: {
     minWidth: 72,
     paddingHorizontal: 12,
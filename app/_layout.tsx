@@ -3,7 +3,8 @@
  * - Purpose: Root layout for the Expo Router app. Wraps the navigation stack with global providers and gesture handler.
  * - Exports: default RootLayout (React component)
  * - Major deps: expo-router Stack, expo-status-bar, react-native-gesture-handler, SupabaseProvider (local context)
- * - Side effects: Initializes a no-op useEffect placeholder; otherwise none. Sets StatusBar style and defines stack screens.
+ * - Side effects: Starts the sync manager and registers the background sync task (importing services/backgroundSync
+ *                 defines the task). Sets StatusBar style and defines stack screens.
  */
 import React, { useEffect, useState } from 'react';
 import { Stack } from 'expo-router';
@@ -14,6 +15,7 @@ import { View, Text, StyleSheet, SafeAreaView, Platform, AppState } from 'react-
 import { SupabaseProvider } from '../contexts/SupabaseContext';
 import { validateEnv } from '../src/utils/validateEnv';
 import { initSyncManager } from '../services/syncManager';
+import { registerBackgroundSync } from '../services/backgroundSync';
 
 // Validate environment variables on module load
 validateEnv();
@@ -106,6 +108,12 @@ export default function RootLayout() {
       } catch (error) {
         console.error('Failed to initialize sync manager:', error);
       }
+
+      try {
+        await registerBackgroundSync();
+      } catch (error) {
+        console.error('Failed to register background sync:', error);
+      }
     };
 
     initOffline();
@@ -127,6 +135,7 @@ export default function RootLayout() {
           <StatusBar style="light" />
           <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="sync-center" options={{ headerShown: true, title: 'Sync Center' }} />
           </Stack>
         </GestureHandlerRootView>
       </SupabaseProvider>
@@ -0,0 +1,444 @@
+/**
+ * Lintnotes
+ * - Purpose: Sync center screen listing failed and pending offline operations with attendee names, errors and attempt
+ *            history, with retry / force-apply / discard for single items or everything listed.
+ * - Exports: default SyncCenterScreen (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/offlineQueue, services/syncManager,
+ *               services/attendeeStore (names for queued IDs)
+ * - Side effects: Retry, force-apply and discard change the local queue and may write to Supabase.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SectionList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import {
+  describeQueuedOperation,
+  getFailedOperations,
+  getOperationAttempts,
+  getPendingOperations,
+  getWalkInDependents,
+  type OperationAttempt,
+  type QueuedOperation,
+} from '../services/offlineQueue';
+import {
+  addSyncListener,
+  discardOperations,
+  forceApplyOperations,
+  retryOperations,
+} from '../services/syncManager';
+import { getCachedAttendeeNames } from '../services/attendeeStore';
+
+type Section = {
+  key: 'failed' | 'pending';
+  title: string;
+  data: QueuedOperation[];
+};
+
+const formatTime = (value: number) =>
+  new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const referencedAttendeeIds = (operations: QueuedOperation[]): string[] =>
+  operations.flatMap(({ payload }) =>
+    payload.type === 'check_in' || payload.type === 'notes' || payload.type === 'edit_attendee'
+      ? [payload.attendeeId]
+      : []
+  );
+
+export default function SyncCenterScreen() {
+  const [failed, setFailed] = useState<QueuedOperation[]>([]);
+  const [pending, setPending] = useState<QueuedOperation[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<OperationAttempt[]>([]);
+
+  const load = useCallback(async () => {
+    const [failedOperations, pendingOperations] = await Promise.all([getFailedOperations(), getPendingOperations()]);
+    const attendeeNames = await getCachedAttendeeNames(
+      referencedAttendeeIds([...failedOperations, ...pendingOperations])
+    ).catch(() => new Map<string, string>());
+    setFailed(failedOperations);
+    setPending(pendingOperations);
+    setNames(attendeeNames);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void load();
+    return addSyncListener((status) => {
+      setIsSyncing(status.isSyncing);
+      void load();
+    });
+  }, [load]);
+
+  useEffect(() => {
+    if (!expandedId) return;
+    let active = true;
+    getOperationAttempts(expandedId).then((history) => {
+      if (active) setAttempts(history);
+    });
+    return () => {
+      active = false;
+    };
+  }, [expandedId, failed, pending]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    try {
+      setMessage(await action());
+    } catch (error) {
+      Alert.alert('Sync Center', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setBusy(false);
+      void load();
+    }
+  };
+
+  const handleRetry = (queueIds?: string[]) =>
+    void run(async () => (await retryOperations(queueIds)).message);
+
+  const handleForceApply = (operations: QueuedOperation[]) => {
+    Alert.alert(
+      'Force Apply',
+      `Apply ${operations.length === 1 ? 'this change' : `${operations.length} changes`} now, replacing any newer changes made on other devices?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Apply',
+          style: 'destructive',
+          onPress: () =>
+            void run(async () => {
+              const result = await forceApplyOperations(operations.map((operation) => operation.id));
+              if (!result.success && result.synced === 0 && result.failed === 0) {
+                return 'Connect to the internet to apply changes.';
+              }
+              return result.failed === 0
+                ? `Applied ${result.synced} change${result.synced === 1 ? '' : 's'}`
+                : `Applied ${result.synced}, ${result.failed} still failing`;
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleDiscard = async (operations: QueuedOperation[]) => {
+    // Changes made to a walk-in being discarded can't sync without it, so they go too
+    const dependents = await getWalkInDependents(operations.map((operation) => operation.id));
+    const dependentList = dependents
+      .map(
+        (operation) =>
+          `• ${describeQueuedOperation(operation, names)}${operation.payload.type === 'bulk_check_in' ? ' (other attendees are kept)' : ''}`
+      )
+      .join('\n');
+    const dependentNote =
+      dependents.length > 0 ? `\n\nThese changes to the walk-in will be discarded with it:\n${dependentList}` : '';
+
+    Alert.alert(
+      'Discard Changes',
+      `Discard ${operations.length === 1 ? 'this change' : `${operations.length} changes`}? ${operations.length === 1 ? 'It' : 'They'} will not be sent to the server.${dependentNote}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () =>
+            void run(async () => {
+              const removed = await discardOperations(operations.map((operation) => operation.id));
+              return `Discarded ${removed} change${removed === 1 ? '' : 's'}`;
+            }),
+        },
+      ]
+    );
+  };
+
+  const sections: Section[] = [
+    { key: 'failed' as const, title: 'Failed', data: failed },
+    { key: 'pending' as const, title: 'Waiting to Sync', data: pending },
+  ].filter((section) => section.data.length > 0);
+  const all = [...failed, ...pending];
+  const disabled = busy || isSyncing;
+
+  const renderItem = ({ item, section }: { item: QueuedOperation; section: Section }) => {
+    const expanded = expandedId === item.id;
+    return (
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={() => setExpandedId(expanded ? null : item.id)}
+          accessibilityRole="button"
+          accessibilityLabel={`${describeQueuedOperation(item, names)}. ${expanded ? 'Hide' : 'Show'} attempt history`}
+        >
+          <View style={styles.rowHeader}>
+            <Text style={styles.rowTitle}>{describeQueuedOperation(item, names)}</Text>
+            <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#8e8e93" />
+          </View>
+          <Text style={styles.rowMeta}>
+            {`Made ${formatTime(item.occurredAt)} · ${item.attempts} failed attempt${item.attempts === 1 ? '' : 's'}`}
+          </Text>
+          {item.error && <Text style={styles.rowError}>{item.error}</Text>}
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.history}>
+            {attempts.length === 0 ? (
+              <Text style={styles.historyText}>No attempts yet.</Text>
+            ) : (
+              attempts.map((attempt, index) => (
+                <Text key={`${attempt.attemptedAt}-${index}`} style={styles.historyText}>
+                  {`${formatTime(attempt.attemptedAt)} · ${attempt.outcome === 'interrupted' ? 'Interrupted' : 'Failed'}${attempt.error ? ` — ${attempt.error}` : ''}`}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+
+        <View style={styles.rowActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton, disabled && styles.buttonDisabled]}
+            onPress={() => handleRetry([item.id])}
+            disabled={disabled}
+          >
+            <Text style={styles.secondaryButtonText}>{section.key === 'failed' ? 'Retry' : 'Sync Now'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton, disabled && styles.buttonDisabled]}
+            onPress={() => handleForceApply([item])}
+            disabled={disabled}
+          >
+            <Text style={styles.secondaryButtonText}>Force Apply</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.discardButton, disabled && styles.buttonDisabled]}
+            onPress={() => void handleDiscard([item])}
+            disabled={disabled}
+          >
+            <Text style={styles.discardButtonText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007aff" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {all.length > 0 && (
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={[styles.toolbarButton, disabled && styles.buttonDisabled]}
+            onPress={() => handleRetry()}
+            disabled={disabled}
+          >
+            {isSyncing ? (
+              <ActivityIndicator size="small" color="#007aff" />
+            ) : (
+              <Ionicons name="refresh-outline" size={16} color="#007aff" />
+            )}
+            <Text style={styles.toolbarButtonText}>Retry All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolbarButton, disabled && styles.buttonDisabled]}
+            onPress={() => handleForceApply(all)}
+            disabled={disabled}
+          >
+            <Ionicons name="flash-outline" size={16} color="#007aff" />
+            <Text style={styles.toolbarButtonText}>Force All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolbarButton, disabled && styles.buttonDisabled]}
+            onPress={() => void handleDiscard(all)}
+            disabled={disabled}
+          >
+            <Ionicons name="trash-outline" size={16} color="#e74c3c" />
+            <Text style={[styles.toolbarButtonText, styles.discardButtonText]}>Discard All</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {message && (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>{message}</Text>
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{`${section.title} (${section.data.length})`}</Text>
+        )}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Ionicons name="checkmark-circle-outline" size={40} color="#27ae60" />
+            <Text style={styles.emptyText}>Everything is synced.</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  toolbarButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f2',
+  },
+  toolbarButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007aff',
+  },
+  message: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#e8f1ff',
+  },
+  messageText: {
+    fontSize: 13,
+    color: '#1f1f1f',
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6e6e73',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  rowMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  rowError: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#e74c3c',
+  },
+  history: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f2',
+    gap: 4,
+  },
+  historyText: {
+    fontSize: 12,
+    color: '#6e6e73',
+    lineHeight: 16,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#f0f0f2',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  discardButton: {
+    backgroundColor: '#fdecea',
+  },
+  discardButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  divider: {
+    height: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6e6e73',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,109 @@
+/**
+ * Lintnotes
+ * - Purpose: Banner on the check-in screen showing the oldest announcement the user hasn't acknowledged, with a
+ *            "Got it" button and a count of any others waiting.
+ * - Exports: AnnouncementBanner (React component)
+ * - Major deps: react-native UI, Ionicons, services/announcements, hooks/useAnnouncements
+ * - Side effects: Acknowledges announcements via services/announcements.
+ */
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { acknowledgeAnnouncement } from '../services/announcements';
+import { useAnnouncements } from '../hooks/useAnnouncements';
+
+const formatSentAt = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
+
+export const AnnouncementBanner: React.FC = () => {
+  const announcements = useAnnouncements();
+  const [acknowledging, setAcknowledging] = useState(false);
+
+  // Oldest first, so messages are read in the order they were sent
+  const unread = announcements.filter((item) => !item.acknowledged).reverse();
+  const current = unread[0];
+  if (!current) return null;
+
+  const handleAcknowledge = async () => {
+    setAcknowledging(true);
+    try {
+      await acknowledgeAnnouncement(current.id);
+    } catch {
+      Alert.alert('Unable to acknowledge', 'Check your connection and try again.');
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  return (
+    <View style={styles.banner} accessibilityRole="alert">
+      <Ionicons name="megaphone" size={20} color="#ffffff" />
+      <View style={styles.body}>
+        <Text style={styles.message}>{current.message}</Text>
+        <Text style={styles.meta}>
+          {`${current.senderName ? `${current.senderName} • ` : ''}${formatSentAt(current.createdAt)}`}
+          {unread.length > 1 ? ` • ${unread.length - 1} more` : ''}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => void handleAcknowledge()}
+        disabled={acknowledging}
+        accessibilityRole="button"
+        accessibilityLabel="Acknowledge announcement"
+      >
+        {acknowledging ? (
+          <ActivityIndicator size="small" color="#0a84ff" />
+        ) : (
+          <Text style={styles.buttonText}>Got it</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#0a84ff',
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  message: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.85)',
+  },
+  button: {
+    minWidth: 64,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0a84ff',
+  },
+});
+
+export default AnnouncementBanner;
@@ -0,0 +1,479 @@
+/**
+ * Lintnotes
+ * - Purpose: Sheet to edit an attendee's details or delete them (managers) or just their notes (check-in staff), with
+ *            conflict handling when someone else changed the same attendee in the meantime.
+ * - Exports: AttendeeDetailModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/attendees (fetch/update/delete)
+ * - Side effects: Refetches the attendee when opened; saves go to Supabase or the offline queue; deletes are online
+ *                 only.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import {
+  deleteAttendee,
+  fetchAttendee,
+  isLocalAttendee,
+  updateAttendee,
+  updateAttendeeNotes,
+  type Attendee,
+  type AttendeeDetails,
+} from '../services/attendees';
+
+type AttendeeDetailModalProps = {
+  visible: boolean;
+  attendee: Attendee | null;
+  /** False for check-in staff, who can only change notes */
+  canEditDetails?: boolean;
+  onClose: () => void;
+  onUpdated: (attendee: Attendee) => void;
+  onDeleted: (attendeeId: string) => void;
+};
+
+const toDetails = (attendee: Attendee): AttendeeDetails => ({
+  attendeeName: attendee.attendeeName,
+  groupName: attendee.groupName ?? '',
+  tableNumber: attendee.tableNumber ?? '',
+  ticketType: attendee.ticketType ?? '',
+  notes: attendee.notes ?? '',
+});
+
+const FIELDS: { key: keyof AttendeeDetails; label: string }[] = [
+  { key: 'attendeeName', label: 'Name' },
+  { key: 'groupName', label: 'Group' },
+  { key: 'tableNumber', label: 'Table' },
+  { key: 'ticketType', label: 'Ticket Type' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// Lists the fields another manager changed, e.g. "Table: 4 → 7"
+const describeChanges = (base: Attendee, current: Attendee): string => {
+  const before = toDetails(base);
+  const after = toDetails(current);
+  const lines = FIELDS.filter(({ key }) => (before[key] ?? '') !== (after[key] ?? '')).map(
+    ({ key, label }) => `${label}: ${before[key] || '—'} → ${after[key] || '—'}`
+  );
+  if (base.checkedIn !== current.checkedIn) {
+    lines.push(`Status: ${current.checkedIn ? 'checked in' : 'not checked in'}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No visible differences.';
+};
+
+export const AttendeeDetailModal: React.FC<AttendeeDetailModalProps> = ({
+  visible,
+  attendee,
+  canEditDetails = true,
+  onClose,
+  onUpdated,
+  onDeleted,
+}) => {
+  // The server copy edits are based on; its updatedAt guards the save
+  const [base, setBase] = useState<Attendee | null>(null);
+  const [details, setDetails] = useState<AttendeeDetails | null>(null);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const isLocal = attendee ? isLocalAttendee(attendee) : false;
+  const detailsEditable = canEditDetails && !isLocal;
+  const busy = saving || deleting;
+
+  useEffect(() => {
+    if (!visible || !attendee) {
+      setBase(null);
+      setDetails(null);
+      setNameError(null);
+      return;
+    }
+
+    setBase(attendee);
+    setDetails(toDetails(attendee));
+    if (isLocalAttendee(attendee)) return;
+
+    let active = true;
+    fetchAttendee(attendee.id)
+      .then((latest) => {
+        if (!active || !latest) return;
+        setBase(latest);
+        setDetails(toDetails(latest));
+      })
+      .catch(() => {
+        // Keep editing the list copy; a stale base surfaces as a conflict on save
+      });
+    return () => {
+      active = false;
+    };
+  }, [visible, attendee]);
+
+  const updateField = (field: keyof AttendeeDetails, value: string) => {
+    setDetails((prev) => (prev ? { ...prev, [field]: value } : prev));
+    if (field === 'attendeeName' && nameError) {
+      setNameError(null);
+    }
+  };
+
+  const handleGone = () => {
+    if (base) onDeleted(base.id);
+    Alert.alert('Attendee Removed', 'Someone else deleted this attendee.');
+    onClose();
+  };
+
+  const save = async (expected: Attendee) => {
+    if (!details) return;
+    setSaving(true);
+    try {
+      const result = canEditDetails
+        ? await updateAttendee(expected, details)
+        : await updateAttendeeNotes(expected, details.notes);
+      if (result.status === 'updated') {
+        onUpdated(result.attendee);
+        onClose();
+        return;
+      }
+      if (result.status === 'queued') {
+        onUpdated(result.attendee);
+        onClose();
+        Alert.alert('Saved Offline', 'Your changes will sync when the device is back online.');
+        return;
+      }
+
+      const current = result.current;
+      if (!current) {
+        handleGone();
+        return;
+      }
+      onUpdated(current);
+      Alert.alert(
+        'Attendee Changed',
+        `Someone else updated this attendee while you were editing.\n\n${describeChanges(expected, current)}`,
+        [
+          {
+            text: 'Discard Mine',
+            style: 'cancel',
+            onPress: () => {
+              setBase(current);
+              setDetails(toDetails(current));
+            },
+          },
+          {
+            text: 'Overwrite',
+            style: 'destructive',
+            onPress: () => {
+              setBase(current);
+              void save(current);
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Unable to Save', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!base || !details) return;
+    if (!details.attendeeName.trim()) {
+      setNameError('Name is required');
+      return;
+    }
+    void save(base);
+  };
+
+  const performDelete = async (expected: Attendee) => {
+    setDeleting(true);
+    try {
+      const result = await deleteAttendee(expected);
+      if (result.status === 'deleted') {
+        onDeleted(expected.id);
+        onClose();
+        return;
+      }
+
+      const current = result.current;
+      if (!current) {
+        handleGone();
+        return;
+      }
+      onUpdated(current);
+      setBase(current);
+      setDetails(toDetails(current));
+      Alert.alert(
+        'Attendee Changed',
+        `Someone else updated this attendee, so it was not deleted. Review the latest details and try again.\n\n${describeChanges(expected, current)}`
+      );
+    } catch (error) {
+      Alert.alert('Unable to Delete', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!base) return;
+    const checkedInNote = base.checkedIn ? ' They are already checked in.' : '';
+    Alert.alert(
+      'Delete Attendee',
+      `Remove ${base.attendeeName} from this event?${checkedInNote} This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => void performDelete(base) },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{canEditDetails ? 'Edit Attendee' : 'Attendee Notes'}</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        {details && (
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.section}>
+              {isLocal && (
+                <Text style={styles.sectionDescription}>
+                  This walk-in hasn't synced yet. It can be edited once the device is back online.
+                </Text>
+              )}
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Name *</Text>
+                <TextInput
+                  style={[styles.input, nameError && styles.inputError]}
+                  value={details.attendeeName}
+                  onChangeText={(value) => updateField('attendeeName', value)}
+                  placeholder="Attendee name"
+                  placeholderTextColor="#8e8e93"
+                  autoCapitalize="words"
+                  editable={detailsEditable}
+                />
+                {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Group</Text>
+                <TextInput
+                  style={styles.input}
+                  value={details.groupName}
+                  onChangeText={(value) => updateField('groupName', value)}
+                  placeholder="Optional"
+                  placeholderTextColor="#8e8e93"
+                  autoCapitalize="words"
+                  editable={detailsEditable}
+                />
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Table</Text>
+                <TextInput
+                  style={styles.input}
+                  value={details.tableNumber}
+                  onChangeText={(value) => updateField('tableNumber', value)}
+                  placeholder="Optional"
+                  placeholderTextColor="#8e8e93"
+                  editable={detailsEditable}
+                />
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Ticket Type</Text>
+                <TextInput
+                  style={styles.input}
+                  value={details.ticketType}
+                  onChangeText={(value) => updateField('ticketType', value)}
+                  placeholder="Optional"
+                  placeholderTextColor="#8e8e93"
+                  autoCapitalize="words"
+                  editable={detailsEditable}
+                />
+              </View>
+
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  value={details.notes ?? ''}
+                  onChangeText={(value) => updateField('notes', value)}
+                  placeholder="Optional"
+                  placeholderTextColor="#8e8e93"
+                  multiline
+                  numberOfLines={3}
+                  textAlignVertical="top"
+                  editable={!isLocal}
+                />
+              </View>
+            </View>
+
+            {detailsEditable && (
+              <TouchableOpacity
+                style={[styles.deleteButton, busy && styles.buttonDisabled]}
+                onPress={handleDelete}
+                disabled={busy}
+              >
+                {deleting ? (
+                  <ActivityIndicator size="small" color="#e74c3c" />
+                ) : (
+                  <>
+                    <Ionicons name="trash-outline" size={18} color="#e74c3c" />
+                    <Text style={styles.deleteButtonText}>Delete Attendee</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        )}
+
+        {!isLocal && (
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, busy && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={busy}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Save Changes</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6e6e73',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f1f1f',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1f1f1f',
+    backgroundColor: '#ffffff',
+  },
+  inputError: {
+    borderColor: '#e74c3c',
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#e74c3c',
+    marginTop: 4,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginBottom: 32,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e5e7',
+  },
+  submitButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007aff',
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#8e8e93',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default AttendeeDetailModal;
@@ -0,0 +1,253 @@
+/**
+ * Lintnotes
+ * - Purpose: Sheet showing the check-in audit trail for a single attendee (action, actor, source, time).
+ * - Exports: AttendeeHistoryModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/checkinHistory
+ * - Side effects: Fetches checkin_events from Supabase whenever opened for an attendee.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import {
+  describeCheckinAction,
+  describeCheckinSource,
+  fetchAttendeeHistory,
+  type CheckinEvent,
+} from '../services/checkinHistory';
+import type { Attendee } from '../services/attendees';
+
+type AttendeeHistoryModalProps = {
+  visible: boolean;
+  attendee: Attendee | null;
+  currentUserId?: string | null;
+  onClose: () => void;
+};
+
+const formatTimestamp = (value: string): string => {
+  const date = new Date(value);
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+export const AttendeeHistoryModal: React.FC<AttendeeHistoryModalProps> = ({
+  visible,
+  attendee,
+  currentUserId,
+  onClose,
+}) => {
+  const [history, setHistory] = useState<CheckinEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!attendee) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const events = await fetchAttendeeHistory(attendee.id);
+      setHistory(events);
+    } catch (err) {
+      setError('Unable to load history. Check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [attendee]);
+
+  useEffect(() => {
+    if (visible) {
+      void loadHistory();
+    } else {
+      setHistory([]);
+      setError(null);
+    }
+  }, [visible, loadHistory]);
+
+  const describeActor = (event: CheckinEvent): string => {
+    if (event.actorId && event.actorId === currentUserId) return 'You';
+    if (event.actorEmail) return event.actorEmail;
+    if (event.actorId) return `User ${event.actorId.slice(0, 8)}`;
+    return 'Unknown user';
+  };
+
+  const renderItem = ({ item }: { item: CheckinEvent }) => {
+    const isCheckIn = item.action === 'check_in' || item.action === 'bulk_check_in';
+    return (
+      <View style={styles.historyRow}>
+        <Ionicons
+          name={isCheckIn ? 'checkmark-circle' : 'arrow-undo-circle'}
+          size={22}
+          color={isCheckIn ? '#27ae60' : '#c0392b'}
+        />
+        <View style={styles.historyContent}>
+          <Text style={styles.historyAction}>{describeCheckinAction(item.action)}</Text>
+          <Text style={styles.historyMeta}>
+            {`${describeActor(item)} • ${describeCheckinSource(item.source)}`}
+          </Text>
+          <Text style={styles.historyTime}>{formatTimestamp(item.createdAt)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Check-In History</Text>
+            {attendee && (
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {attendee.attendeeName}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#1f1f1f" />
+          </View>
+        ) : error ? (
+          <View style={styles.centered}>
+            <Ionicons name="alert-circle-outline" size={40} color="#e74c3c" />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => void loadHistory()}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={history}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={styles.listContent}
+            ItemSeparatorComponent={() => <View style={styles.divider} />}
+            ListEmptyComponent={
+              <View style={styles.centered}>
+                <Ionicons name="time-outline" size={40} color="#8e8e93" />
+                <Text style={styles.emptyText}>No check-in activity recorded yet.</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  headerText: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6e6e73',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  listContent: {
+    padding: 20,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+  },
+  historyContent: {
+    flex: 1,
+    gap: 2,
+  },
+  historyAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  historyMeta: {
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  historyTime: {
+    fontSize: 12,
+    color: '#8e8e93',
+  },
+  divider: {
+    height: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6e6e73',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#007aff',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default AttendeeHistoryModal;
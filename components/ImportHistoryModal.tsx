@@ -0,0 +1,400 @@
+/**
+ * Lintnotes
+ * - Purpose: Sheet listing an event's roster import batches (source, counts, errors, who ran it) with rollback.
+ * - Exports: ImportHistoryModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/importBatches, services/attendeeEvents
+ * - Side effects: Fetches import batches whenever opened; rollback deletes the attendees a batch inserted, restores
+ *                 the ones it updated or archived, and emits an attendee refresh.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import {
+  describeImportSource,
+  fetchImportBatches,
+  rollbackImportBatch,
+  type ImportBatch,
+} from '../services/importBatches';
+import { emitRefreshAttendees } from '../services/attendeeEvents';
+
+type ImportHistoryModalProps = {
+  visible: boolean;
+  eventId: string;
+  currentUserId?: string | null;
+  onClose: () => void;
+};
+
+const MAX_ERRORS_SHOWN = 3;
+
+const formatTimestamp = (value: string): string => {
+  const date = new Date(value);
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Batches imported before updates were recorded can't put back what they changed
+const isRevertible = (batch: ImportBatch): boolean => batch.changesRecorded || batch.updated === 0;
+
+const describeRollback = (batch: ImportBatch): string => {
+  const steps = [
+    batch.remaining > 0 ? `remove ${plural(batch.remaining, 'attendee')} it added` : null,
+    batch.changesRecorded && batch.updated > 0 ? `restore ${plural(batch.updated, 'attendee')} it updated` : null,
+    batch.changesRecorded && batch.archived > 0 ? `unarchive ${plural(batch.archived, 'attendee')} it archived` : null,
+  ].filter((step): step is string => step !== null);
+  return steps.join(', ');
+};
+
+export const ImportHistoryModal: React.FC<ImportHistoryModalProps> = ({
+  visible,
+  eventId,
+  currentUserId,
+  onClose,
+}) => {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    if (!eventId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setBatches(await fetchImportBatches(eventId));
+    } catch (err) {
+      setError('Unable to load import history. Check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (visible) {
+      void loadBatches();
+    } else {
+      setBatches([]);
+      setError(null);
+    }
+  }, [visible, loadBatches]);
+
+  const describeActor = (batch: ImportBatch): string => {
+    if (batch.createdBy && batch.createdBy === currentUserId) return 'You';
+    if (batch.createdByEmail) return batch.createdByEmail;
+    if (batch.createdBy) return `User ${batch.createdBy.slice(0, 8)}`;
+    return 'Unknown user';
+  };
+
+  const performRollback = async (batch: ImportBatch, includeCheckedIn: boolean) => {
+    setRollingBackId(batch.id);
+    try {
+      const result = await rollbackImportBatch(batch.id, { includeCheckedIn });
+      emitRefreshAttendees({ silent: true });
+      const summary = [
+        `Removed ${plural(result.removed, 'attendee')}`,
+        result.restored > 0 ? `restored ${result.restored}` : null,
+        result.unarchived > 0 ? `unarchived ${result.unarchived}` : null,
+      ].filter(Boolean);
+      Alert.alert('Import Rolled Back', `${summary.join(', ')}.`);
+      await loadBatches();
+    } catch (err) {
+      Alert.alert('Rollback Failed', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const handleRollback = (batch: ImportBatch) => {
+    // Fields edited since the import keep the edit
+    const note = batch.updated > 0 ? ' Fields edited since the import are kept.' : '';
+
+    if (batch.checkedIn > 0) {
+      Alert.alert(
+        'Attendees Already Checked In',
+        `${plural(batch.checkedIn, 'attendee')} from this import ${batch.checkedIn === 1 ? 'is' : 'are'} already checked in. Rolling back removes them along with their check-in.${note}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Roll Back Anyway',
+            style: 'destructive',
+            onPress: () => void performRollback(batch, true),
+          },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Roll Back Import',
+      `Roll back this import and ${describeRollback(batch)}?${note}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Roll Back',
+          style: 'destructive',
+          onPress: () => void performRollback(batch, false),
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: ImportBatch }) => {
+    const rolledBack = item.rolledBackAt !== null;
+    const revertible = isRevertible(item);
+    const hasChanges = item.remaining > 0 || (item.changesRecorded && item.updated + item.archived > 0);
+    const canRollBack = !rolledBack && revertible && hasChanges;
+    return (
+      <View style={styles.batchRow}>
+        <View style={styles.batchHeader}>
+          <Text style={styles.batchSource}>{describeImportSource(item.source)}</Text>
+          <Text style={styles.batchTime}>{formatTimestamp(item.createdAt)}</Text>
+        </View>
+        {item.sourceName ? (
+          <Text style={styles.batchName} numberOfLines={1}>
+            {item.sourceName}
+          </Text>
+        ) : null}
+        <Text style={styles.batchMeta}>
+          {`${describeActor(item)} • ${item.added} added • ${item.updated} updated • ${item.archived > 0 ? `${item.archived} archived • ` : ''}${item.skipped} skipped`}
+        </Text>
+        {item.errors.slice(0, MAX_ERRORS_SHOWN).map((message, index) => (
+          <Text key={index} style={styles.batchError}>
+            {message}
+          </Text>
+        ))}
+        {item.errors.length > MAX_ERRORS_SHOWN && (
+          <Text style={styles.batchError}>{`…and ${item.errors.length - MAX_ERRORS_SHOWN} more`}</Text>
+        )}
+        {rolledBack ? (
+          <Text style={styles.rolledBackText}>{`Rolled back ${formatTimestamp(item.rolledBackAt as string)}`}</Text>
+        ) : (
+          <View style={styles.batchFooter}>
+            <Text style={styles.batchMeta}>
+              {`${plural(item.remaining, 'attendee')} on roster${item.checkedIn > 0 ? ` • ${item.checkedIn} checked in` : ''}`}
+            </Text>
+            {canRollBack && (
+              <TouchableOpacity
+                style={[styles.rollbackButton, rollingBackId !== null && styles.rollbackButtonDisabled]}
+                onPress={() => handleRollback(item)}
+                disabled={rollingBackId !== null}
+              >
+                {rollingBackId === item.id ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.rollbackButtonText}>Roll Back</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        {!rolledBack && !revertible && (
+          <Text style={styles.batchNote}>
+            Imported before changes to existing attendees were recorded, so it can't be rolled back.
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Import History</Text>
+            <Text style={styles.subtitle}>
+              Roll back an import to remove the attendees it added and undo its changes.
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        {loading && batches.length === 0 ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#1f1f1f" />
+          </View>
+        ) : error ? (
+          <View style={styles.centered}>
+            <Ionicons name="alert-circle-outline" size={40} color="#e74c3c" />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => void loadBatches()}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={batches}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={styles.listContent}
+            ItemSeparatorComponent={() => <View style={styles.divider} />}
+            ListEmptyComponent={
+              <View style={styles.centered}>
+                <Ionicons name="cloud-upload-outline" size={40} color="#8e8e93" />
+                <Text style={styles.emptyText}>No imports recorded for this event yet.</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  headerText: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6e6e73',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  listContent: {
+    padding: 20,
+  },
+  batchRow: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  batchHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  batchSource: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  batchTime: {
+    fontSize: 12,
+    color: '#8e8e93',
+  },
+  batchName: {
+    fontSize: 13,
+    color: '#1f1f1f',
+  },
+  batchMeta: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  batchError: {
+    fontSize: 12,
+    color: '#c0392b',
+  },
+  batchFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 6,
+  },
+  batchNote: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#8e8e93',
+  },
+  rolledBackText: {
+    marginTop: 6,
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#8e8e93',
+  },
+  rollbackButton: {
+    backgroundColor: '#e74c3c',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  rollbackButtonDisabled: {
+    opacity: 0.5,
+  },
+  rollbackButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  divider: {
+    height: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6e6e73',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#007aff',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default ImportHistoryModal;
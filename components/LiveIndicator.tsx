@@ -0,0 +1,80 @@
+/**
+ * Lintnotes
+ * - Purpose: Small "Live" pill for the check-in header showing whether the event's attendee channel is connected,
+ *            reconnecting, or has given up.
+ * - Exports: LiveIndicator (React component), getLiveState
+ * - Major deps: react-native UI, hooks/useRealtime, services/realtime (RealtimeConnectionStatus type)
+ * - Side effects: Subscribes to realtime status changes via hooks/useRealtime.
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useRealtimeStatus } from '../hooks/useRealtime';
+import type { RealtimeConnectionStatus } from '../services/realtime';
+
+type LiveState = 'live' | 'connecting' | 'reconnecting' | 'down';
+
+type Props = {
+  channelName: string;
+};
+
+const LABELS: Record<LiveState, string> = {
+  live: 'Live',
+  connecting: 'Connecting',
+  reconnecting: 'Reconnecting',
+  down: 'Not live',
+};
+
+export const getLiveState = (status: RealtimeConnectionStatus): LiveState => {
+  if (status.isConnected) return 'live';
+  if (status.reconnectHistory[0]?.kind === 'gave-up') return 'down';
+  return status.lastConnectedAt || status.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
+};
+
+export const LiveIndicator: React.FC<Props> = ({ channelName }) => {
+  const { status } = useRealtimeStatus(channelName);
+
+  // Not subscribed (signed out or still loading)
+  if (!status) return null;
+
+  const state = getLiveState(status);
+
+  return (
+    <View style={styles.pill} accessible accessibilityLabel={`Real-time updates: ${LABELS[state]}`}>
+      <View style={[styles.dot, styles[state]]} />
+      <Text style={styles.label}>{LABELS[state]}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6e6e73',
+  },
+  live: {
+    backgroundColor: '#34c759',
+  },
+  connecting: {
+    backgroundColor: '#c7c7cc',
+  },
+  reconnecting: {
+    backgroundColor: '#ff9500',
+  },
+  down: {
+    backgroundColor: '#ff3b30',
+  },
+});
+
+export default LiveIndicator;
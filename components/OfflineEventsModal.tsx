@@ -0,0 +1,436 @@
+/**
+ * Lintnotes
+ * - Purpose: Choose which events are available offline: download rosters, settings and access details ahead of time,
+ *            see each cache's size and last refresh, refresh them, remove them, and clear stale caches.
+ * - Exports: OfflineEventsModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/offlineEvents, EventSummary
+ *               (services/events)
+ * - Side effects: Downloads event data and writes/deletes the local cache through services/offlineEvents.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import type { EventSummary } from '../services/events';
+import {
+  evictStaleEventCaches,
+  getOfflineEvents,
+  makeEventsAvailableOffline,
+  refreshOfflineEvents,
+  removeOfflineEvent,
+  type OfflineDownloadResult,
+  type OfflineEvent,
+} from '../services/offlineEvents';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatRefreshed = (value: number | null): string =>
+  value
+    ? `Refreshed ${new Date(value).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`
+    : 'Never fully downloaded';
+
+const describeFailures = (result: OfflineDownloadResult): string =>
+  result.failed.map((failure) => `${failure.eventName}: ${failure.error}`).join('\n');
+
+type OfflineEventsModalProps = {
+  visible: boolean;
+  events: EventSummary[];
+  selectedEventId: string | null;
+  onClose: () => void;
+};
+
+type Row = EventSummary & { offline: OfflineEvent | null };
+
+export const OfflineEventsModal: React.FC<OfflineEventsModalProps> = ({
+  visible,
+  events,
+  selectedEventId,
+  onClose,
+}) => {
+  const [offlineEvents, setOfflineEvents] = useState<OfflineEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setOfflineEvents(await getOfflineEvents());
+    } catch (error) {
+      console.error('Failed to load offline events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    void load();
+  }, [visible, load]);
+
+  const offlineById = new Map(offlineEvents.map((event) => [event.eventId, event]));
+  const rows: Row[] = [
+    ...events.map((event) => ({ ...event, offline: offlineById.get(event.eventId) ?? null })),
+    // Cached events missing from the list (e.g. while offline) still need to be removable
+    ...offlineEvents
+      .filter((event) => !events.some((summary) => summary.eventId === event.eventId))
+      .map((event) => ({ ...event, offline: event })),
+  ];
+  const totalBytes = offlineEvents.reduce((sum, event) => sum + event.sizeBytes, 0);
+  const busy = busyEventId !== null;
+
+  const runDownload = async (busyId: string, download: () => Promise<OfflineDownloadResult>) => {
+    setBusyEventId(busyId);
+    try {
+      const result = await download();
+      if (result.failed.length > 0) {
+        Alert.alert('Some Downloads Failed', describeFailures(result));
+      }
+    } catch (error) {
+      Alert.alert('Download Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setBusyEventId(null);
+      setProgress(null);
+      await load();
+    }
+  };
+
+  const onProgress = (done: number, total: number) => setProgress(`Downloading ${done} of ${total}...`);
+
+  const handleDownload = (event: EventSummary) =>
+    void runDownload(event.eventId, () => makeEventsAvailableOffline([event]));
+
+  const handleDownloadAll = () => {
+    const missing = rows.filter((row) => !row.offline?.availableOffline);
+    if (missing.length === 0) return;
+    void runDownload('all', () => makeEventsAvailableOffline(missing, onProgress));
+  };
+
+  const handleRefreshAll = () => void runDownload('all', () => refreshOfflineEvents(onProgress));
+
+  const handleRemove = (event: Row) => {
+    Alert.alert(
+      'Remove Offline Copy',
+      `Delete the downloaded copy of "${event.eventName}" from this device? It can be downloaded again later.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyEventId(event.eventId);
+            try {
+              await removeOfflineEvent(event.eventId);
+            } catch (error) {
+              Alert.alert('Unable to Remove', error instanceof Error ? error.message : 'Please try again.');
+            } finally {
+              setBusyEventId(null);
+              await load();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClearStale = async () => {
+    setBusyEventId('all');
+    try {
+      const evicted = await evictStaleEventCaches({ keepEventId: selectedEventId });
+      Alert.alert(
+        'Stale Caches Cleared',
+        evicted > 0
+          ? `Removed ${evicted} cached event${evicted === 1 ? '' : 's'} not made available offline.`
+          : 'Nothing to clear.'
+      );
+    } catch (error) {
+      Alert.alert('Unable to Clear', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setBusyEventId(null);
+      await load();
+    }
+  };
+
+  const renderItem = ({ item }: { item: Row }) => {
+    const { offline } = item;
+    const available = offline?.availableOffline ?? false;
+    const working = busyEventId === item.eventId;
+    return (
+      <View style={styles.row}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle}>{item.eventName}</Text>
+          {available && <Ionicons name="cloud-done-outline" size={18} color="#27ae60" />}
+        </View>
+        <Text style={styles.rowMeta}>{[item.orgName, item.role].filter(Boolean).join(' · ')}</Text>
+        {offline ? (
+          <Text style={styles.rowMeta}>
+            {`${offline.attendeeCount} guest${offline.attendeeCount === 1 ? '' : 's'} · ${formatBytes(
+              offline.sizeBytes
+            )} · ${formatRefreshed(offline.lastRefreshedAt)}`}
+            {available ? '' : ' · Cached (not kept offline)'}
+          </Text>
+        ) : (
+          <Text style={styles.rowMeta}>Not downloaded</Text>
+        )}
+        {offline && offline.unsyncedChanges > 0 && (
+          <Text style={styles.rowWarning}>
+            {`${offline.unsyncedChanges} change${offline.unsyncedChanges === 1 ? '' : 's'} waiting to sync`}
+          </Text>
+        )}
+
+        <View style={styles.rowActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryButton, busy && styles.buttonDisabled]}
+            onPress={() => handleDownload(item)}
+            disabled={busy}
+          >
+            {working ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{available ? 'Refresh' : 'Make Available Offline'}</Text>
+            )}
+          </TouchableOpacity>
+          {offline && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.removeButton, busy && styles.buttonDisabled]}
+              onPress={() => handleRemove(item)}
+              disabled={busy}
+            >
+              <Text style={styles.removeButtonText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Offline Events</Text>
+            <Text style={styles.subtitle}>
+              {`Download events before you lose signal. Using ${formatBytes(totalBytes)} on this device.`}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={[styles.toolbarButton, busy && styles.buttonDisabled]}
+            onPress={handleDownloadAll}
+            disabled={busy}
+          >
+            <Ionicons name="download-outline" size={16} color="#007aff" />
+            <Text style={styles.toolbarButtonText}>Download All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolbarButton, busy && styles.buttonDisabled]}
+            onPress={handleRefreshAll}
+            disabled={busy}
+          >
+            <Ionicons name="refresh-outline" size={16} color="#007aff" />
+            <Text style={styles.toolbarButtonText}>Refresh All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolbarButton, busy && styles.buttonDisabled]}
+            onPress={() => void handleClearStale()}
+            disabled={busy}
+          >
+            <Ionicons name="trash-outline" size={16} color="#007aff" />
+            <Text style={styles.toolbarButtonText}>Clear Stale</Text>
+          </TouchableOpacity>
+        </View>
+
+        {progress && (
+          <View style={styles.progress}>
+            <ActivityIndicator size="small" color="#007aff" />
+            <Text style={styles.progressText}>{progress}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#007aff" />
+          </View>
+        ) : (
+          <FlatList
+            data={rows}
+            keyExtractor={(item) => item.eventId}
+            renderItem={renderItem}
+            contentContainerStyle={styles.listContent}
+            ItemSeparatorComponent={() => <View style={styles.divider} />}
+            ListEmptyComponent={
+              <View style={styles.centered}>
+                <Ionicons name="cloud-offline-outline" size={40} color="#8e8e93" />
+                <Text style={styles.emptyText}>No events to download.</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  headerText: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6e6e73',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  toolbarButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+  },
+  toolbarButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007aff',
+  },
+  progress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingTop: 12,
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  listContent: {
+    padding: 20,
+  },
+  row: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#6e6e73',
+    lineHeight: 18,
+  },
+  rowWarning: {
+    fontSize: 13,
+    color: '#e67e22',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#007aff',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  removeButton: {
+    backgroundColor: '#fdecea',
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  divider: {
+    height: 12,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6e6e73',
+  },
+});
+
+export default OfflineEventsModal;
@@ -1,9 +1,10 @@
 /**
  * Lintnotes
- * - Purpose: Visual indicator showing offline status and pending sync count.
+ * - Purpose: Visual indicator showing offline status, pending sync count, failed changes (linking to the sync center)
+ *            and sync conflicts awaiting review.
  * - Exports: OfflineIndicator (React component), useOfflineStatus (hook)
- * - Major deps: expo-network, syncManager
- * - Side effects: Polls network state, subscribes to sync status.
+ * - Major deps: expo-network, expo-router, syncManager, syncConflicts, components/SyncConflictsModal
+ * - Side effects: Subscribes to network state changes, sync status and conflicts.
  */
 import React, { useState, useEffect, useCallback } from 'react';
 import {
@@ -16,17 +17,22 @@ import {
 } from 'react-native';
 import * as Network from 'expo-network';
 import Ionicons from '@expo/vector-icons/Ionicons';
+import { useRouter } from 'expo-router';
 import {
   addSyncListener,
   getSyncStatus,
   forceSync,
   type SyncStatus,
 } from '../services/syncManager';
+import { addSyncConflictListener } from '../services/syncConflicts';
+import { SyncConflictsModal } from './SyncConflictsModal';
 
 type OfflineStatus = {
   isOffline: boolean;
   pendingCount: number;
+  failedCount: number;
   isSyncing: boolean;
+  conflictCount: number;
 };
 
 /**
@@ -35,20 +41,16 @@ type OfflineStatus = {
 export function useOfflineStatus(): OfflineStatus {
   const [isOffline, setIsOffline] = useState(false);
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [conflictCount, setConflictCount] = useState(0);
 
   useEffect(() => {
-    // Check initial network state
-    const checkNetwork = async () => {
-      const state = await Network.getNetworkStateAsync();
-      setIsOffline(!state.isConnected || !state.isInternetReachable);
-    };
+    const update = (state: Network.NetworkState) => setIsOffline(!state.isConnected || !state.isInternetReachable);
 
-    checkNetwork();
+    // Check initial network state, then follow change events
+    Network.getNetworkStateAsync().then(update);
+    const subscription = Network.addNetworkStateListener(update);
 
-    // Poll network state every 3 seconds
-    const interval = setInterval(checkNetwork, 3000);
-
-    return () => clearInterval(interval);
+    return () => subscription.remove();
   }, []);
 
   useEffect(() => {
@@ -61,10 +63,16 @@ export function useOfflineStatus(): OfflineStatus {
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    return addSyncConflictListener((conflicts) => setConflictCount(conflicts.length));
+  }, []);
+
   return {
     isOffline,
     pendingCount: syncStatus?.pendingCount ?? 0,
+    failedCount: syncStatus?.failedCount ?? 0,
     isSyncing: syncStatus?.isSyncing ?? false,
+    conflictCount,
   };
 }
 
@@ -75,21 +83,23 @@ type OfflineIndicatorProps = {
 export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   showWhenOnline = false,
 }) => {
-  const { isOffline, pendingCount, isSyncing } = useOfflineStatus();
+  const { isOffline, pendingCount, failedCount, isSyncing, conflictCount } = useOfflineStatus();
+  const router = useRouter();
   const [expanded, setExpanded] = useState(false);
+  const [conflictsVisible, setConflictsVisible] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
   const fadeAnim = useState(new Animated.Value(0))[0];
 
   // Animate in/out
   useEffect(() => {
-    const shouldShow = isOffline || pendingCount > 0 || showWhenOnline;
+    const shouldShow = isOffline || pendingCount > 0 || failedCount > 0 || conflictCount > 0 || showWhenOnline;
 
     Animated.timing(fadeAnim, {
       toValue: shouldShow ? 1 : 0,
       duration: 300,
       useNativeDriver: true,
     }).start();
-  }, [isOffline, pendingCount, showWhenOnline, fadeAnim]);
+  }, [isOffline, pendingCount, failedCount, conflictCount, showWhenOnline, fadeAnim]);
 
   // Clear sync message after delay
   useEffect(() => {
@@ -107,16 +117,21 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   }, [isSyncing, isOffline]);
 
   // Don't render if nothing to show
-  if (!isOffline && pendingCount === 0 && !showWhenOnline) {
+  if (!isOffline && pendingCount === 0 && failedCount === 0 && conflictCount === 0 && !showWhenOnline) {
     return null;
   }
 
-  const backgroundColor = isOffline ? '#ff9500' : '#007aff';
-  const icon = isOffline ? 'cloud-offline-outline' : 'cloud-upload-outline';
+  const onlyProblems = !isOffline && pendingCount === 0 && (failedCount > 0 || conflictCount > 0);
+  const backgroundColor = isOffline ? '#ff9500' : onlyProblems ? '#e67e22' : '#007aff';
+  const icon = isOffline ? 'cloud-offline-outline' : onlyProblems ? 'alert-circle-outline' : 'cloud-upload-outline';
   const statusText = isOffline
     ? 'Offline'
     : pendingCount > 0
     ? `${pendingCount} pending`
+    : failedCount > 0
+    ? 'Some changes failed to sync'
+    : onlyProblems
+    ? 'Synced with conflicts'
     : 'Online';
 
   return (
@@ -169,24 +184,55 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                 Check-ins will be saved locally and synced when you're back online.
               </Text>
             ) : pendingCount > 0 ? (
-              <Text style={styles.expandedText}>
-                {pendingCount} check-in{pendingCount === 1 ? '' : 's'} waiting to sync.
-                {'\n'}Tap Sync or they'll sync automatically.
-              </Text>
+              <>
+                <Text style={styles.expandedText}>
+                  {pendingCount} change{pendingCount === 1 ? '' : 's'} waiting to sync.
+                  {'\n'}Tap Sync or they'll sync automatically.
+                </Text>
+                <TouchableOpacity style={styles.expandedLink} onPress={() => router.push('/sync-center')}>
+                  <Text style={styles.syncButtonText}>View queued changes</Text>
+                </TouchableOpacity>
+              </>
             ) : (
               <Text style={styles.expandedText}>
-                All check-ins are synced.
+                All changes are synced.
               </Text>
             )}
           </View>
         )}
 
+        {failedCount > 0 && (
+          <View style={styles.conflictRow}>
+            <Ionicons name="close-circle-outline" size={16} color="#ffffff" />
+            <Text style={styles.conflictText}>
+              {`${failedCount} change${failedCount === 1 ? '' : 's'} failed to sync`}
+            </Text>
+            <TouchableOpacity style={styles.syncButton} onPress={() => router.push('/sync-center')}>
+              <Text style={styles.syncButtonText}>Sync Center</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {conflictCount > 0 && (
+          <View style={styles.conflictRow}>
+            <Ionicons name="warning-outline" size={16} color="#ffffff" />
+            <Text style={styles.conflictText}>
+              {`${conflictCount} offline change${conflictCount === 1 ? ' was' : 's were'} superseded`}
+            </Text>
+            <TouchableOpacity style={styles.syncButton} onPress={() => setConflictsVisible(true)}>
+              <Text style={styles.syncButtonText}>Review</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {syncMessage && (
           <View style={styles.syncMessageContainer}>
             <Text style={styles.syncMessage}>{syncMessage}</Text>
           </View>
         )}
       </TouchableOpacity>
+
+      <SyncConflictsModal visible={conflictsVisible} onClose={() => setConflictsVisible(false)} />
     </Animated.View>
   );
 };
@@ -240,6 +286,29 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     lineHeight: 18,
   },
+  expandedLink: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  conflictText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   syncMessageContainer: {
     marginTop: 8,
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
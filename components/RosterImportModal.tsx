@@ -1,11 +1,15 @@
 /**
  * Lintnotes
- * - Purpose: Modal UI to import attendee rosters from CSV files or Google Sheets and report results.
+ * - Purpose: Modal UI to import attendee rosters from CSV/Excel files or Google Sheets. Loads the source, shows a
+ *            preview with auto-detected (or remembered) column mapping and per-row validation, then a dry-run merge
+ *            diff (added/updated/unchanged/missing) that the user confirms, optionally archiving missing attendees.
  * - Exports: RosterImportModal (React component)
- * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/rosterImport helpers
- * - Side effects: Initiates file picker and network fetches when user triggers import.
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/rosterImport helpers,
+ *               services/spreadsheetImport, services/columnMapping, services/rosterMerge
+ * - Side effects: Initiates file picker and network fetches when user loads a source; writes to Supabase and
+ *                 saves the confirmed column mapping on import.
  */
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Alert,
   Modal,
@@ -18,7 +22,33 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import { pickRosterFile, importAttendeesFromCSV, importAttendeesFromGoogleSheet, type ImportResult } from '../services/rosterImport';
+import {
+  pickRosterFile,
+  loadRosterFromFile,
+  loadRosterFromGoogleSheet,
+  previewRosterMerge,
+  applyRosterMerge,
+  type ImportResult,
+} from '../services/rosterImport';
+import {
+  isSpreadsheetFile,
+  readSpreadsheetWorkbook,
+  worksheetToParseResult,
+  type SpreadsheetWorkbook,
+} from '../services/spreadsheetImport';
+import {
+  COLUMN_FIELDS,
+  buildImportPreview,
+  describeColumnField,
+  loadSavedColumnMapping,
+  saveColumnMapping,
+  suggestColumnMapping,
+  type ColumnField,
+  type ColumnMapping,
+} from '../services/columnMapping';
+import { describeMatchKey, describeMergeField, type MatchKey, type MergeDiff } from '../services/rosterMerge';
+import type { ImportBatchSource } from '../services/importBatches';
+import type { CsvParseResult } from '../services/csvParser';
 
 type ImportMethod = 'file' | 'sheet';
 
@@ -29,6 +59,15 @@ type RosterImportModalProps = {
   onSuccess: (result: ImportResult) => void;
 };
 
+type PreviewSource = {
+  parsed: CsvParseResult;
+  label: string;
+  batchSource: ImportBatchSource;
+};
+
+const PREVIEW_ROW_LIMIT = 10;
+const MATCH_KEYS: MatchKey[] = ['name', 'externalId', 'email'];
+
 export const RosterImportModal: React.FC<RosterImportModalProps> = ({
   visible,
   eventId,
@@ -37,29 +76,69 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
 }) => {
   const [importMethod, setImportMethod] = useState<ImportMethod>('file');
   const [sheetUrl, setSheetUrl] = useState('');
-  const [skipFirstRow, setSkipFirstRow] = useState(true);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
+  const [workbook, setWorkbook] = useState<SpreadsheetWorkbook | null>(null);
+  const [workbookName, setWorkbookName] = useState('');
+  const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PreviewSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [usingSavedMapping, setUsingSavedMapping] = useState(false);
+  const [matchKey, setMatchKey] = useState<MatchKey>('name');
+  const [diff, setDiff] = useState<MergeDiff | null>(null);
+  const [archiveMissing, setArchiveMissing] = useState(false);
+
+  const previewRows = useMemo(
+    () => (preview && mapping ? buildImportPreview(preview.parsed, mapping, matchKey) : []),
+    [preview, mapping, matchKey]
+  );
+  const readyCount = previewRows.filter(row => row.issues.length === 0).length;
+  const issueCount = previewRows.length - readyCount;
+
+  const openPreview = async (parsed: CsvParseResult, label: string, batchSource: ImportBatchSource) => {
+    if (parsed.rows.length === 0) {
+      Alert.alert('Nothing to Import', `No data rows found in ${label}`);
+      return;
+    }
+
+    const saved = await loadSavedColumnMapping(eventId, parsed.headers);
+    const nextMapping = saved ?? suggestColumnMapping(parsed.headers);
+    setMapping(nextMapping);
+    setUsingSavedMapping(saved !== null);
+    // Prefer the most specific key the file provides
+    setMatchKey(nextMapping.externalId ? 'externalId' : 'name');
+    setPreview({ parsed, label, batchSource });
+    setResult(null);
+  };
 
   const handleFileImport = async () => {
     setLoading(true);
     try {
       const fileResult = await pickRosterFile();
-      
+
       if (fileResult.canceled || !fileResult.assets?.[0]) {
         setLoading(false);
         return;
       }
 
-      const importResult = await importAttendeesFromCSV(fileResult.assets[0].uri, {
-        eventId,
-        skipFirstRow,
-      });
-
-      setResult(importResult);
-      if (importResult.success) {
-        onSuccess(importResult);
+      const asset = fileResult.assets[0];
+      if (isSpreadsheetFile(asset.name, asset.mimeType)) {
+        // Excel workbooks need a worksheet choice before previewing
+        const parsedWorkbook = await readSpreadsheetWorkbook(asset.uri);
+        if (parsedWorkbook.sheets.length === 0) {
+          Alert.alert('Import Failed', 'The workbook does not contain any worksheets');
+          return;
+        }
+        setWorkbook(parsedWorkbook);
+        setWorkbookName(asset.name);
+        setSelectedSheet(
+          parsedWorkbook.sheets.find(sheet => sheet.rowCount > 0)?.name ?? parsedWorkbook.sheets[0].name
+        );
+        setResult(null);
+        return;
       }
+
+      await openPreview(await loadRosterFromFile(asset.uri), 'CSV file', { kind: 'csv', name: asset.name });
     } catch (error) {
       Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unknown error occurred');
     } finally {
@@ -67,6 +146,18 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
     }
   };
 
+  const handleWorksheetContinue = async () => {
+    if (!workbook || !selectedSheet) return;
+
+    const sheet = workbook.sheets.find(item => item.name === selectedSheet);
+    if (!sheet) return;
+
+    await openPreview(worksheetToParseResult(workbook.cells[sheet.name], sheet.headerRowIndex), 'worksheet', {
+      kind: 'excel',
+      name: workbookName ? `${workbookName} › ${sheet.name}` : sheet.name,
+    });
+  };
+
   const handleSheetImport = async () => {
     if (!sheetUrl.trim()) {
       Alert.alert('Error', 'Please enter a Google Sheets URL');
@@ -75,13 +166,47 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
 
     setLoading(true);
     try {
-      const importResult = await importAttendeesFromGoogleSheet(sheetUrl, {
-        eventId,
-        skipFirstRow,
+      await openPreview(await loadRosterFromGoogleSheet(sheetUrl), 'Google Sheet', {
+        kind: 'google_sheet',
+        name: sheetUrl.trim(),
       });
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReviewChanges = async () => {
+    if (!preview || !mapping) return;
+
+    setLoading(true);
+    try {
+      const mergeDiff = await previewRosterMerge(preview.parsed, { eventId, columnMapping: mapping, matchKey });
+      setDiff(mergeDiff);
+      setArchiveMissing(false);
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyMerge = async () => {
+    if (!diff || !mapping || !preview) return;
+
+    setLoading(true);
+    try {
+      const importResult = await applyRosterMerge(eventId, diff, { archiveMissing, batch: preview.batchSource });
 
       setResult(importResult);
       if (importResult.success) {
+        // Remember the confirmed mapping so re-imports of the same layout are one tap
+        await saveColumnMapping(eventId, mapping);
+        setDiff(null);
+        setPreview(null);
+        setWorkbook(null);
+        setSelectedSheet(null);
         onSuccess(importResult);
       }
     } catch (error) {
@@ -91,9 +216,24 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
     }
   };
 
+  const handleMappingChange = (field: ColumnField, header: string) => {
+    if (!mapping) return;
+    const nextMapping = { ...mapping, [field]: header };
+    setMapping(nextMapping);
+    setUsingSavedMapping(false);
+    if (matchKey !== 'name' && !nextMapping[matchKey]) {
+      setMatchKey('name');
+    }
+  };
+
   const handleClose = () => {
     setResult(null);
     setSheetUrl('');
+    setWorkbook(null);
+    setSelectedSheet(null);
+    setPreview(null);
+    setMapping(null);
+    setDiff(null);
     onClose();
   };
 
@@ -105,24 +245,24 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
           style={[styles.methodButton, importMethod === 'file' && styles.methodButtonActive]}
           onPress={() => setImportMethod('file')}
         >
-          <Ionicons 
-            name="document-outline" 
-            size={20} 
-            color={importMethod === 'file' ? '#007aff' : '#8e8e93'} 
+          <Ionicons
+            name="document-outline"
+            size={20}
+            color={importMethod === 'file' ? '#007aff' : '#8e8e93'}
           />
           <Text style={[styles.methodButtonText, importMethod === 'file' && styles.methodButtonTextActive]}>
-            CSV File
+            CSV / Excel
           </Text>
         </TouchableOpacity>
-        
+
         <TouchableOpacity
           style={[styles.methodButton, importMethod === 'sheet' && styles.methodButtonActive]}
           onPress={() => setImportMethod('sheet')}
         >
-          <Ionicons 
-            name="grid-outline" 
-            size={20} 
-            color={importMethod === 'sheet' ? '#007aff' : '#8e8e93'} 
+          <Ionicons
+            name="grid-outline"
+            size={20}
+            color={importMethod === 'sheet' ? '#007aff' : '#8e8e93'}
           />
           <Text style={[styles.methodButtonText, importMethod === 'sheet' && styles.methodButtonTextActive]}>
             Google Sheet
@@ -134,9 +274,9 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
 
   const renderFileImport = () => (
     <View style={styles.section}>
-      <Text style={styles.sectionTitle}>Import CSV File</Text>
+      <Text style={styles.sectionTitle}>Import File</Text>
       <Text style={styles.sectionDescription}>
-        Select a CSV file from your device. The file should contain columns for attendee names, groups, tables, and ticket types.
+        Select a CSV or Excel (.xlsx, .xls) file from your device. You can review the column mapping before anything is imported.
       </Text>
       <TouchableOpacity
         style={[styles.importButton, loading && styles.importButtonDisabled]}
@@ -155,6 +295,52 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
     </View>
   );
 
+  const renderWorksheetPicker = () => {
+    if (!workbook) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Choose Worksheet</Text>
+        <Text style={styles.sectionDescription}>
+          The header row is detected automatically. Rows above it are ignored.
+        </Text>
+        {workbook.sheets.map(sheet => {
+          const selected = sheet.name === selectedSheet;
+          return (
+            <TouchableOpacity
+              key={sheet.name}
+              style={[styles.sheetOption, selected && styles.sheetOptionActive]}
+              onPress={() => setSelectedSheet(sheet.name)}
+              disabled={loading}
+            >
+              <Ionicons
+                name={selected ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={selected ? '#007aff' : '#8e8e93'}
+              />
+              <View style={styles.sheetOptionContent}>
+                <Text style={styles.sheetOptionTitle}>{sheet.name}</Text>
+                <Text style={styles.sheetOptionMeta} numberOfLines={2}>
+                  {sheet.rowCount === 0
+                    ? 'Empty worksheet'
+                    : `Header row ${sheet.headerRowIndex + 1}: ${sheet.headers.join(', ')}`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.importButton, (loading || !selectedSheet) && styles.importButtonDisabled]}
+          onPress={handleWorksheetContinue}
+          disabled={loading || !selectedSheet}
+        >
+          <Ionicons name="eye-outline" size={20} color="#ffffff" />
+          <Text style={styles.importButtonText}>Preview Worksheet</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const renderSheetImport = () => (
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Import Google Sheet</Text>
@@ -181,29 +367,236 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
         ) : (
           <>
             <Ionicons name="cloud-download-outline" size={20} color="#ffffff" />
-            <Text style={styles.importButtonText}>Import Sheet</Text>
+            <Text style={styles.importButtonText}>Load Sheet</Text>
           </>
         )}
       </TouchableOpacity>
     </View>
   );
 
-  const renderOptions = () => (
-    <View style={styles.section}>
-      <Text style={styles.sectionTitle}>Import Options</Text>
-      <TouchableOpacity
-        style={styles.optionRow}
-        onPress={() => setSkipFirstRow(!skipFirstRow)}
-      >
-        <Ionicons 
-          name={skipFirstRow ? 'checkbox' : 'square-outline'} 
-          size={20} 
-          color={skipFirstRow ? '#007aff' : '#8e8e93'} 
-        />
-        <Text style={styles.optionText}>Skip first row (header row)</Text>
-      </TouchableOpacity>
-    </View>
-  );
+  const renderMapping = () => {
+    if (!preview || !mapping) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Map Columns</Text>
+        {usingSavedMapping && (
+          <Text style={styles.hintText}>Using the mapping from this event's last import.</Text>
+        )}
+        {COLUMN_FIELDS.map(field => (
+          <View key={field} style={styles.mappingRow}>
+            <Text style={styles.mappingLabel}>
+              {describeColumnField(field)}
+              {field === 'name' ? ' (required)' : ''}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {['', ...preview.parsed.headers].map(header => {
+                const selected = mapping[field] === header;
+                return (
+                  <TouchableOpacity
+                    key={header || '__none__'}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => handleMappingChange(field, header)}
+                    disabled={loading}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                      {header || "Don't import"}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+        ))}
+
+        <Text style={styles.mappingLabel}>Match existing attendees by</Text>
+        <View style={styles.chipRow}>
+          {MATCH_KEYS.map(key => {
+            const selected = matchKey === key;
+            const available = key === 'name' || Boolean(mapping[key]);
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.chip, selected && styles.chipActive, !available && styles.chipDisabled]}
+                onPress={() => setMatchKey(key)}
+                disabled={loading || !available}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextActive]}>{describeMatchKey(key)}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderPreview = () => {
+    if (!preview || !mapping) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Preview</Text>
+        <Text style={styles.previewSummary}>
+          {`${readyCount} of ${previewRows.length} rows ready`}
+          {issueCount > 0 ? ` • ${issueCount} with issues` : ''}
+          {preview.parsed.errors.length > 0 ? ` • ${preview.parsed.errors.length} parse warnings` : ''}
+        </Text>
+        {previewRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+          <View key={row.line} style={styles.previewRow}>
+            <Text style={styles.previewName}>{`Line ${row.line}: ${row.name || '—'}`}</Text>
+            <Text style={styles.previewMeta} numberOfLines={1}>
+              {[row.group, row.table && `Table ${row.table}`, row.ticketType].filter(Boolean).join(' • ') || 'No details'}
+            </Text>
+            {row.issues.map(issue => (
+              <Text key={issue} style={styles.previewIssue}>• {issue}</Text>
+            ))}
+          </View>
+        ))}
+        {previewRows.length > PREVIEW_ROW_LIMIT && (
+          <Text style={styles.previewMeta}>{`…and ${previewRows.length - PREVIEW_ROW_LIMIT} more rows`}</Text>
+        )}
+        {previewRows.slice(PREVIEW_ROW_LIMIT).some(row => row.issues.length > 0) && (
+          <Text style={styles.previewIssue}>Some rows beyond the preview also have issues.</Text>
+        )}
+
+        <View style={styles.previewActions}>
+          <TouchableOpacity style={styles.backButton} onPress={() => setPreview(null)} disabled={loading}>
+            <Text style={styles.backButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.importButton,
+              styles.confirmButton,
+              (loading || !mapping.name || readyCount === 0) && styles.importButtonDisabled,
+            ]}
+            onPress={handleReviewChanges}
+            disabled={loading || !mapping.name || readyCount === 0}
+          >
+            {loading ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <>
+                <Ionicons name="git-compare-outline" size={20} color="#ffffff" />
+                <Text style={styles.importButtonText}>Review Changes</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderDiff = () => {
+    if (!diff) return null;
+
+    const hasChanges = diff.added.length + diff.updated.length > 0 || (archiveMissing && diff.missing.length > 0);
+    const checkedInMissing = diff.missing.filter(candidate => candidate.checkedIn).length;
+
+    return (
+      <>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Review Changes</Text>
+          <Text style={styles.sectionDescription}>
+            {`Matched by ${describeMatchKey(diff.matchKey).toLowerCase()}. Check-in status is never changed by an import.`}
+          </Text>
+          <View style={styles.diffCounts}>
+            {[
+              ['Added', diff.added.length],
+              ['Updated', diff.updated.length],
+              ['Unchanged', diff.unchanged.length],
+              ['Not in file', diff.missing.length],
+            ].map(([label, count]) => (
+              <View key={label} style={styles.diffCount}>
+                <Text style={styles.diffCountValue}>{count}</Text>
+                <Text style={styles.diffCountLabel}>{label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {diff.updated.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Updated</Text>
+            {diff.updated.slice(0, PREVIEW_ROW_LIMIT).map(update => (
+              <View key={update.existing.id} style={styles.previewRow}>
+                <Text style={styles.previewName}>{update.incoming.attendeeName}</Text>
+                {update.changedFields.map(field => (
+                  <Text key={field} style={styles.previewMeta}>
+                    {field === 'restored'
+                      ? describeMergeField(field)
+                      : `${describeMergeField(field)}: ${update.existing[field] || '—'} → ${update.incoming[field] || '—'}`}
+                  </Text>
+                ))}
+              </View>
+            ))}
+            {diff.updated.length > PREVIEW_ROW_LIMIT && (
+              <Text style={styles.previewMeta}>{`…and ${diff.updated.length - PREVIEW_ROW_LIMIT} more`}</Text>
+            )}
+          </View>
+        )}
+
+        {diff.missing.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Not in File</Text>
+            {diff.missing.slice(0, PREVIEW_ROW_LIMIT).map(candidate => (
+              <Text key={candidate.id} style={styles.previewMeta}>
+                {`• ${candidate.attendeeName}${candidate.checkedIn ? ' (checked in)' : ''}`}
+              </Text>
+            ))}
+            {diff.missing.length > PREVIEW_ROW_LIMIT && (
+              <Text style={styles.previewMeta}>{`…and ${diff.missing.length - PREVIEW_ROW_LIMIT} more`}</Text>
+            )}
+            <TouchableOpacity
+              style={styles.optionRow}
+              onPress={() => setArchiveMissing(!archiveMissing)}
+              disabled={loading}
+            >
+              <Ionicons
+                name={archiveMissing ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={archiveMissing ? '#007aff' : '#8e8e93'}
+              />
+              <Text style={styles.optionText}>{`Archive ${diff.missing.length} attendees not in this file`}</Text>
+            </TouchableOpacity>
+            {archiveMissing && checkedInMissing > 0 && (
+              <Text style={styles.previewIssue}>
+                {`${checkedInMissing} of them are already checked in. Their check-in history is kept.`}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {diff.errors.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.errorsTitle}>{`${diff.errors.length} rows will be skipped:`}</Text>
+            {diff.errors.slice(0, PREVIEW_ROW_LIMIT).map((error, index) => (
+              <Text key={index} style={styles.errorText}>• {error}</Text>
+            ))}
+          </View>
+        )}
+
+        <View style={[styles.section, styles.previewActions]}>
+          <TouchableOpacity style={styles.backButton} onPress={() => setDiff(null)} disabled={loading}>
+            <Text style={styles.backButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.importButton, styles.confirmButton, (loading || !hasChanges) && styles.importButtonDisabled]}
+            onPress={handleApplyMerge}
+            disabled={loading || !hasChanges}
+          >
+            {loading ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <>
+                <Ionicons name="cloud-upload-outline" size={20} color="#ffffff" />
+                <Text style={styles.importButtonText}>Apply Changes</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
 
   const renderResult = () => {
     if (!result) return null;
@@ -212,21 +605,29 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Import Result</Text>
         <View style={[styles.resultContainer, result.success ? styles.resultSuccess : styles.resultError]}>
-          <Ionicons 
-            name={result.success ? 'checkmark-circle' : 'alert-circle'} 
-            size={24} 
-            color={result.success ? '#27ae60' : '#e74c3c'} 
+          <Ionicons
+            name={result.success ? 'checkmark-circle' : 'alert-circle'}
+            size={24}
+            color={result.success ? '#27ae60' : '#e74c3c'}
           />
           <View style={styles.resultContent}>
             <Text style={styles.resultTitle}>
               {result.success ? 'Import Successful' : 'Import Failed'}
             </Text>
             <Text style={styles.resultText}>
-              {result.success 
-                ? `${result.imported} attendees imported successfully`
+              {result.success
+                ? `${result.imported} attendees added`
                 : 'Import failed with errors'
               }
             </Text>
+            {result.success && (result.updated ?? 0) + (result.unchanged ?? 0) > 0 && (
+              <Text style={styles.resultText}>
+                {`${result.updated ?? 0} updated, ${result.unchanged ?? 0} unchanged`}
+              </Text>
+            )}
+            {(result.archived ?? 0) > 0 && (
+              <Text style={styles.resultText}>{`${result.archived} archived`}</Text>
+            )}
             {result.skipped > 0 && (
               <Text style={styles.resultText}>
                 {result.skipped} rows skipped due to errors
@@ -262,9 +663,20 @@ export const RosterImportModal: React.FC<RosterImportModalProps> = ({
         </View>
 
         <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-          {renderImportMethod()}
-          {importMethod === 'file' ? renderFileImport() : renderSheetImport()}
-          {renderOptions()}
+          {diff ? (
+            renderDiff()
+          ) : preview ? (
+            <>
+              {renderMapping()}
+              {renderPreview()}
+            </>
+          ) : (
+            <>
+              {renderImportMethod()}
+              {importMethod === 'file' ? renderFileImport() : renderSheetImport()}
+              {importMethod === 'file' && renderWorksheetPicker()}
+            </>
+          )}
           {renderResult()}
         </ScrollView>
       </View>
@@ -377,15 +789,146 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ffffff',
   },
+  sheetOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    marginBottom: 8,
+  },
+  sheetOptionActive: {
+    borderColor: '#007aff',
+    backgroundColor: '#f0f8ff',
+  },
+  sheetOptionContent: {
+    flex: 1,
+    gap: 2,
+  },
+  sheetOptionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  sheetOptionMeta: {
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  mappingRow: {
+    marginBottom: 12,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f1f1f',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#007aff',
+    backgroundColor: '#f0f8ff',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6e6e73',
+  },
+  chipTextActive: {
+    color: '#007aff',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#27ae60',
+    marginBottom: 12,
+  },
+  previewSummary: {
+    fontSize: 14,
+    color: '#6e6e73',
+    marginBottom: 12,
+  },
+  previewRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f2f3f5',
+  },
+  previewName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: '#6e6e73',
+  },
+  previewIssue: {
+    fontSize: 12,
+    color: '#e74c3c',
+  },
+  diffCounts: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  diffCount: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  diffCountValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1f1f1f',
+  },
+  diffCountLabel: {
+    fontSize: 12,
+    color: '#6e6e73',
+  },
   optionRow: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 12,
+    marginTop: 12,
   },
   optionText: {
     fontSize: 14,
     color: '#1f1f1f',
   },
+  previewActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  backButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    paddingVertical: 12,
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  confirmButton: {
+    flex: 2,
+  },
   resultContainer: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -0,0 +1,117 @@
+/**
+ * Lintnotes
+ * - Purpose: Compact row of staff initials for the check-in header: a green ring for online, grey for offline, and a
+ *            badge with the number of changes a device hasn't synced.
+ * - Exports: StaffAvatarStrip (React component), getStaffInitials
+ * - Major deps: react-native UI, services/staffPresence (StaffMember type)
+ * - Side effects: None (presentational).
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { StaffMember } from '../services/staffPresence';
+
+// More than this and the header runs out of room; the rest are summed up as +N
+const MAX_AVATARS = 5;
+
+type Props = {
+  members: StaffMember[];
+};
+
+export const getStaffInitials = (name: string): string => {
+  const words = name.replace(/@.*$/, '').split(/[\s._-]+/).filter(Boolean);
+  const initials = words.length > 1 ? `${words[0][0]}${words[words.length - 1][0]}` : (words[0] ?? '?').slice(0, 2);
+  return initials.toUpperCase();
+};
+
+export const StaffAvatarStrip: React.FC<Props> = ({ members }) => {
+  // Alone on the event there's nobody to show
+  if (members.length < 2) return null;
+
+  const shown = members.slice(0, MAX_AVATARS);
+  const online = members.filter((member) => member.online).length;
+
+  return (
+    <View
+      style={styles.strip}
+      accessible
+      accessibilityLabel={`${online} of ${members.length} staff online`}
+    >
+      {shown.map((member) => (
+        <View
+          key={member.deviceId}
+          style={[styles.avatar, member.online ? styles.avatarOnline : styles.avatarOffline]}
+        >
+          <Text style={[styles.initials, !member.online && styles.initialsOffline]}>
+            {getStaffInitials(member.name)}
+          </Text>
+          {member.unsynced > 0 && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{member.unsynced > 99 ? '99+' : member.unsynced}</Text>
+            </View>
+          )}
+        </View>
+      ))}
+      {members.length > shown.length && (
+        <Text style={styles.more}>{`+${members.length - shown.length}`}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  strip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  avatar: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarOnline: {
+    borderColor: '#34c759',
+  },
+  avatarOffline: {
+    borderColor: '#c7c7cc',
+  },
+  initials: {
+    fontSize: 9,
+    fontWeight: '700',
+    color: '#1f1f1f',
+  },
+  initialsOffline: {
+    color: '#8e8e93',
+  },
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -8,
+    minWidth: 14,
+    height: 14,
+    borderRadius: 7,
+    paddingHorizontal: 3,
+    backgroundColor: '#ff9500',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    fontSize: 8,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  more: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6e6e73',
+    marginLeft: 2,
+  },
+});
+
+export default StaffAvatarStrip;
@@ -0,0 +1,236 @@
+/**
+ * Lintnotes
+ * - Purpose: Review offline check-ins, edits and notes the server did not apply because someone made a newer change,
+ *            and resolve each by keeping the current state or applying the offline change now.
+ * - Exports: SyncConflictsModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/syncConflicts, services/attendeeEvents
+ * - Side effects: Resolving writes to Supabase (apply) and the local conflict table; emits an attendee refresh.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import {
+  addSyncConflictListener,
+  describeSyncConflict,
+  resolveSyncConflict,
+  type SyncConflict,
+} from '../services/syncConflicts';
+import { emitRefreshAttendees } from '../services/attendeeEvents';
+
+const applyLabel = (conflict: SyncConflict): string => {
+  switch (conflict.kind) {
+    case 'edit':
+      return 'Apply My Edit';
+    case 'notes':
+      return 'Apply My Note';
+    default:
+      return conflict.localCheckedIn ? 'Check In' : 'Undo Check-In';
+  }
+};
+
+type SyncConflictsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+export const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({ visible, onClose }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    return addSyncConflictListener(setConflicts);
+  }, [visible]);
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'keep_server' | 'apply_mine') => {
+    setResolvingId(conflict.operationId);
+    try {
+      const result = await resolveSyncConflict(conflict, resolution);
+      if (!result.success) {
+        Alert.alert('Unable to Apply', result.error ?? 'Please try again.');
+        return;
+      }
+      if (resolution === 'apply_mine') {
+        emitRefreshAttendees({ silent: true });
+      }
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderItem = ({ item }: { item: SyncConflict }) => {
+    const resolving = resolvingId === item.operationId;
+    return (
+      <View style={styles.conflictRow}>
+        <Text style={styles.conflictName}>{item.attendeeName ?? 'Unknown attendee'}</Text>
+        <Text style={styles.conflictDetail}>{describeSyncConflict(item)}</Text>
+        <View style={styles.conflictActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.keepButton, resolvingId !== null && styles.actionButtonDisabled]}
+            onPress={() => void handleResolve(item, 'keep_server')}
+            disabled={resolvingId !== null}
+          >
+            <Text style={styles.keepButtonText}>Keep Current</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.applyButton, resolvingId !== null && styles.actionButtonDisabled]}
+            onPress={() => void handleResolve(item, 'apply_mine')}
+            disabled={resolvingId !== null}
+          >
+            {resolving ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.applyButtonText}>{applyLabel(item)}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Sync Conflicts</Text>
+            <Text style={styles.subtitle}>
+              These offline changes clashed with newer changes made on another device.
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={conflicts}
+          keyExtractor={(item) => item.operationId}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          ItemSeparatorComponent={() => <View style={styles.divider} />}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons name="checkmark-circle-outline" size={40} color="#27ae60" />
+              <Text style={styles.emptyText}>No conflicts to review.</Text>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  headerText: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6e6e73',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  listContent: {
+    padding: 20,
+  },
+  conflictRow: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  conflictName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  conflictDetail: {
+    fontSize: 13,
+    color: '#6e6e73',
+    lineHeight: 18,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  keepButton: {
+    backgroundColor: '#f0f0f2',
+  },
+  keepButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  applyButton: {
+    backgroundColor: '#007aff',
+  },
+  applyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  divider: {
+    height: 8,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6e6e73',
+    textAlign: 'center',
+  },
+});
+
+export default SyncConflictsModal;
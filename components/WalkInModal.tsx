@@ -0,0 +1,332 @@
+/**
+ * Lintnotes
+ * - Purpose: Modal form to register an unregistered guest as a walk-in and check them in in one step.
+ * - Exports: WalkInModal (React component)
+ * - Major deps: react-native primitives, @expo/vector-icons/Ionicons, services/attendees.registerWalkIn
+ * - Side effects: Calls Supabase RPC via service, or queues the registration in the offline queue when offline.
+ */
+import React, { useState } from 'react';
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ActivityIndicator,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { registerWalkIn, type Attendee, type WalkInInput } from '../services/attendees';
+
+type WalkInModalProps = {
+  visible: boolean;
+  eventId: string;
+  /** Ticket types already on the roster, offered as quick picks */
+  ticketTypes?: string[];
+  onClose: () => void;
+  onSuccess: (attendee: Attendee, queued: boolean) => void;
+};
+
+const EMPTY_WALK_IN: Required<WalkInInput> = {
+  attendeeName: '',
+  groupName: '',
+  tableNumber: '',
+  ticketType: '',
+  notes: '',
+};
+
+export const WalkInModal: React.FC<WalkInModalProps> = ({
+  visible,
+  eventId,
+  ticketTypes = [],
+  onClose,
+  onSuccess,
+}) => {
+  const [walkIn, setWalkIn] = useState<Required<WalkInInput>>(EMPTY_WALK_IN);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleClose = () => {
+    setWalkIn(EMPTY_WALK_IN);
+    setNameError(null);
+    onClose();
+  };
+
+  const updateField = (field: keyof WalkInInput, value: string) => {
+    setWalkIn(prev => ({ ...prev, [field]: value }));
+    if (field === 'attendeeName' && nameError) {
+      setNameError(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!walkIn.attendeeName.trim()) {
+      setNameError('Name is required');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await registerWalkIn(eventId, walkIn);
+      if (!result.success || !result.attendee) {
+        Alert.alert('Unable to Add Walk-In', result.error ?? 'Please try again.');
+        return;
+      }
+      onSuccess(result.attendee, result.queued);
+      handleClose();
+    } catch (error) {
+      Alert.alert(
+        'Unable to Add Walk-In',
+        error instanceof Error ? error.message : 'Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Add Walk-In</Text>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#8e8e93" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={styles.sectionDescription}>
+              The guest is added to the roster as a walk-in and checked in right away. Works offline; the
+              registration syncs when you reconnect.
+            </Text>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Name *</Text>
+              <TextInput
+                style={[styles.input, nameError && styles.inputError]}
+                value={walkIn.attendeeName}
+                onChangeText={(value) => updateField('attendeeName', value)}
+                placeholder="Guest name"
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="words"
+                autoFocus
+              />
+              {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Group</Text>
+              <TextInput
+                style={styles.input}
+                value={walkIn.groupName}
+                onChangeText={(value) => updateField('groupName', value)}
+                placeholder="Optional"
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="words"
+              />
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Table</Text>
+              <TextInput
+                style={styles.input}
+                value={walkIn.tableNumber}
+                onChangeText={(value) => updateField('tableNumber', value)}
+                placeholder="Optional"
+                placeholderTextColor="#8e8e93"
+              />
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Ticket Type</Text>
+              <TextInput
+                style={styles.input}
+                value={walkIn.ticketType}
+                onChangeText={(value) => updateField('ticketType', value)}
+                placeholder="Optional"
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="words"
+              />
+              {ticketTypes.length > 0 && (
+                <View style={styles.chipRow}>
+                  {ticketTypes.map((ticketType) => {
+                    const isActive = walkIn.ticketType === ticketType;
+                    return (
+                      <TouchableOpacity
+                        key={ticketType}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() => updateField('ticketType', ticketType)}
+                      >
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{ticketType}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={walkIn.notes}
+                onChangeText={(value) => updateField('notes', value)}
+                placeholder="Optional"
+                placeholderTextColor="#8e8e93"
+                multiline
+                numberOfLines={3}
+                textAlignVertical="top"
+              />
+            </View>
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <>
+                <Ionicons name="person-add-outline" size={20} color="#ffffff" />
+                <Text style={styles.submitButtonText}>Add & Check In</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f2f3f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e7',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6e6e73',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f1f1f',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1f1f1f',
+    backgroundColor: '#ffffff',
+  },
+  inputError: {
+    borderColor: '#e74c3c',
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#e74c3c',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: '#f0f0f2',
+  },
+  chipActive: {
+    backgroundColor: '#1f1f1f',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f1f1f',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e5e7',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#27ae60',
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#8e8e93',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default WalkInModal;
@@ -2,8 +2,12 @@
  * Lintnotes
  * - Purpose: App-wide context for Supabase client, auth session, accessible events, and selected event state.
  * - Exports: SupabaseProvider (context provider), useSupabaseContext (hook), SupabaseContextValue (types)
- * - Major deps: @supabase/supabase-js, React context/hooks, services: supabase, auth (deep link init), events (fetch)
+ * - Major deps: @supabase/supabase-js, React context/hooks, services: supabase, auth (deep link init), events (fetch),
+ *               offlineEvents (events available offline), secureStorage (session), account (local data wipe),
+ *               backgroundSync
  * - Side effects: Subscribes to Supabase auth state changes; initializes deep-link handling for auth callbacks; fetches events on session change.
+ *                 Falls back to events downloaded for offline use when the list can't be fetched, and refreshes them
+ *                 (evicting stale caches) when it can. Signing out deletes the device's cached event data.
  */
 import { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import type { ReactNode } from 'react';
@@ -13,8 +17,16 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getSupabaseClient } from '../services/supabase';
 import { launchMagicLinkSignIn, initializeDeepLinkHandling } from '../services/auth';
 import { fetchAccessibleEvents, type EventSummary } from '../services/events';
+import {
+  evictStaleEventCaches,
+  getOfflineEventSummaries,
+  reconcileOfflineEvents
+} from '../services/offlineEvents';
+import { secureStorage } from '../services/secureStorage';
+import { clearLocalData } from '../services/account';
+import { registerBackgroundSync } from '../services/backgroundSync';
 
-// Storage keys for persistent session
+// Storage keys for persistent session (the session itself is kept in the secure store)
 const SESSION_STORAGE_KEY = '@checkin_session';
 const SELECTED_EVENT_STORAGE_KEY = '@checkin_selected_event';
 
@@ -44,8 +56,8 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
 
     const initialiseAuth = async () => {
       try {
-        // First, try to restore session from AsyncStorage
-        const storedSession = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
+        // First, try to restore session from the secure store
+        const storedSession = await secureStorage.getItem(SESSION_STORAGE_KEY);
         if (storedSession && mounted) {
           const parsedSession = JSON.parse(storedSession) as Session;
           console.log('📦 Restored session from storage for:', parsedSession.user?.email);
@@ -61,7 +73,7 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
             console.log('✅ Session validated and restored');
           } else if (mounted) {
             // Stored session is invalid, clear it
-            await AsyncStorage.removeItem(SESSION_STORAGE_KEY);
+            await secureStorage.removeItem(SESSION_STORAGE_KEY);
             console.log('🗑️ Cleared invalid stored session');
           }
         }
@@ -82,11 +94,13 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
       if (!mounted) return;
       setSession(newSession ?? null);
       
-      // Handle successful sign in - persist session to AsyncStorage
+      // Handle successful sign in - persist session to the secure store
       if (event === 'SIGNED_IN' && newSession) {
         console.log('✅ User signed in:', newSession.user?.email);
+        // Signing out stops background sync; start it again for this user
+        registerBackgroundSync().catch((error) => console.error('Failed to register background sync:', error));
         try {
-          await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
+          await secureStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
           console.log('💾 Session persisted to storage');
         } catch (error) {
           console.error('Failed to persist session:', error);
@@ -97,7 +111,7 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
       if (event === 'TOKEN_REFRESHED' && newSession) {
         console.log('🔄 Token refreshed');
         try {
-          await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
+          await secureStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
           console.log('💾 Refreshed session persisted to storage');
         } catch (error) {
           console.error('Failed to persist refreshed session:', error);
@@ -108,7 +122,7 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
       if (event === 'SIGNED_OUT') {
         console.log('👋 User signed out');
         try {
-          await AsyncStorage.removeItem(SESSION_STORAGE_KEY);
+          await secureStorage.removeItem(SESSION_STORAGE_KEY);
           await AsyncStorage.removeItem(SELECTED_EVENT_STORAGE_KEY);
           console.log('🗑️ Cleared stored session and event selection');
         } catch (error) {
@@ -154,12 +168,32 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
 
       setLoading(true);
       try {
-        const accessible = await fetchAccessibleEvents();
-        if (ignore) return;
-        setEvents(accessible);
-        
         // Try to restore previously selected event from storage
         const storedEventId = await AsyncStorage.getItem(SELECTED_EVENT_STORAGE_KEY);
+
+        let accessible: EventSummary[];
+        let online = true;
+        try {
+          accessible = await fetchAccessibleEvents();
+        } catch (fetchError) {
+          // Offline: open the events that were downloaded for offline use, once ones past retention are deleted
+          await evictStaleEventCaches({ keepEventId: storedEventId }).catch((error) =>
+            console.error('Failed to evict stale event caches:', error)
+          );
+          const offlineEvents = await getOfflineEventSummaries().catch(() => []);
+          if (offlineEvents.length === 0) throw fetchError;
+          console.log(`📦 Loaded ${offlineEvents.length} events available offline`);
+          accessible = offlineEvents;
+          online = false;
+        }
+        if (ignore) return;
+        setEvents(accessible);
+
+        if (online) {
+          reconcileOfflineEvents(accessible, storedEventId).catch((error) =>
+            console.error('Failed to refresh offline events:', error)
+          );
+        }
         
         if (accessible.length > 0) {
           // If we have a stored event and it's still accessible, use it
@@ -239,6 +273,12 @@ export const SupabaseProvider = ({ children }: { children: ReactNode }) => {
       } catch (error) {
         console.error('Sign out error:', error);
       }
+      // Only on an explicit sign-out: a session that merely expired keeps its queued changes for the next sign-in
+      try {
+        await clearLocalData();
+      } catch (error) {
+        console.error('Failed to clear local data:', error);
+      }
       // Explicitly clear state regardless of signOut result
       // The onAuthStateChange listener should also fire, but this ensures immediate UI update
       setSession(null);
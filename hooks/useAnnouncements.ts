@@ -0,0 +1,42 @@
+/**
+ * Lintnotes
+ * - Purpose: Hooks to follow the selected event's announcements and read them.
+ * - Exports: useAnnouncementsSession (hook), useAnnouncements (hook)
+ * - Major deps: React useState/useEffect, services/announcements, hooks/useSupabase
+ * - Side effects: Subscribes to the event's announcement channel while mounted; subscribes via listener pattern.
+ */
+import { useEffect, useState } from 'react';
+import { useSupabase } from './useSupabase';
+import {
+  addAnnouncementsListener,
+  getAnnouncements,
+  startAnnouncements,
+  type Announcement,
+} from '../services/announcements';
+
+/**
+ * Follow announcements for the selected event while signed in
+ */
+export const useAnnouncementsSession = (): void => {
+  const { session, selectedEvent } = useSupabase();
+  const eventId = session ? selectedEvent?.eventId : undefined;
+
+  useEffect(() => {
+    if (!eventId) return;
+    return startAnnouncements(eventId);
+  }, [eventId]);
+};
+
+export const useAnnouncements = (): Announcement[] => {
+  const [announcements, setAnnouncements] = useState<Announcement[]>(getAnnouncements);
+
+  useEffect(() => {
+    const unsubscribe = addAnnouncementsListener((next) => {
+      setAnnouncements(next);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return announcements;
+};
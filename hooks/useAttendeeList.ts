@@ -0,0 +1,24 @@
+/**
+ * Lintnotes
+ * - Purpose: Hook to read the shared attendee list for the selected event.
+ * - Exports: useAttendeeList (hook)
+ * - Major deps: React useState/useEffect, services/attendeeList
+ * - Side effects: Subscribes to attendee list changes via listener pattern.
+ */
+import { useEffect, useState } from 'react';
+import { addAttendeeListListener, getAttendeeList } from '../services/attendeeList';
+import type { Attendee } from '../services/attendees';
+
+export const useAttendeeList = (): Attendee[] => {
+  const [attendees, setAttendees] = useState<Attendee[]>(getAttendeeList);
+
+  useEffect(() => {
+    const unsubscribe = addAttendeeListListener((next) => {
+      setAttendees(next);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return attendees;
+};
@@ -10,10 +10,13 @@ import { useSupabase } from './useSupabase';
 import {
   canManageAttendees,
   canToggleCheckins,
+  canRegisterWalkIns,
   canManageEvents,
   canViewAttendees,
   canEditAttendees,
   canInviteUsers,
+  canSendAnnouncements,
+  canViewDashboard,
   canDeleteEvents,
   canCreateEvents,
   canManageOrganization,
@@ -34,10 +37,13 @@ export const usePermissions = () => {
     canEditAttendees: canEditAttendees(currentRole),
     canManageAttendees: canManageAttendees(currentRole),
     canToggleCheckins: canToggleCheckins(currentRole),
+    canRegisterWalkIns: canRegisterWalkIns(currentRole),
     canManageEvents: canManageEvents(currentRole),
     
     // Advanced permissions
     canInviteUsers: canInviteUsers(currentRole),
+    canSendAnnouncements: canSendAnnouncements(currentRole),
+    canViewDashboard: canViewDashboard(currentRole),
     canDeleteEvents: canDeleteEvents(currentRole),
     canCreateEvents: canCreateEvents(currentRole),
     canManageOrganization: canManageOrganization(currentRole),
@@ -1,37 +1,31 @@
 /**
  * Lintnotes
- * - Purpose: Hooks to read realtime connection health from the realtime manager; polls status periodically.
+ * - Purpose: Hooks to read realtime connection health and per-channel metrics from the realtime manager.
  * - Exports: useRealtimeStatus, useRealtimeConnection
  * - Major deps: services/realtime
- * - Side effects: Starts/stops an interval timer while mounted (every 5s) to refresh statuses.
+ * - Side effects: Subscribes to realtime status changes via listener pattern while mounted.
  */
 import { useEffect, useState } from 'react';
-import { 
-  getAllRealtimeConnectionStatuses, 
-  getRealtimeConnectionStatus,
-  type RealtimeConnectionStatus 
+import {
+  addRealtimeStatusListener,
+  getAllRealtimeConnectionStatuses,
+  type RealtimeConnectionStatus,
 } from '../services/realtime';
 
 export const useRealtimeStatus = (channelName?: string) => {
-  const [status, setStatus] = useState<RealtimeConnectionStatus | undefined>();
-  const [allStatuses, setAllStatuses] = useState<Map<string, RealtimeConnectionStatus>>(new Map());
+  const [allStatuses, setAllStatuses] = useState<Map<string, RealtimeConnectionStatus>>(
+    getAllRealtimeConnectionStatuses
+  );
 
   useEffect(() => {
-    const updateStatus = () => {
-      if (channelName) {
-        setStatus(getRealtimeConnectionStatus(channelName));
-      }
-      setAllStatuses(getAllRealtimeConnectionStatuses());
-    };
+    const unsubscribe = addRealtimeStatusListener((next) => {
+      setAllStatuses(next);
+    });
 
-    // Initial update
-    updateStatus();
+    return unsubscribe;
+  }, []);
 
-    // Update every 5 seconds to catch status changes
-    const interval = setInterval(updateStatus, 5000);
-
-    return () => clearInterval(interval);
-  }, [channelName]);
+  const status = channelName ? allStatuses.get(channelName) : undefined;
 
   return {
     status,
@@ -40,21 +34,24 @@ export const useRealtimeStatus = (channelName?: string) => {
     lastError: status?.lastError,
     reconnectAttempts: status?.reconnectAttempts ?? 0,
     lastConnectedAt: status?.lastConnectedAt,
+    lastMessageAt: status?.lastMessageAt,
   };
 };
 
 export const useRealtimeConnection = () => {
-  const { allStatuses, isConnected, lastError, reconnectAttempts } = useRealtimeStatus();
+  const { allStatuses } = useRealtimeStatus();
 
   const hasAnyConnection = Array.from(allStatuses.values()).some(s => s.isConnected);
   const hasErrors = Array.from(allStatuses.values()).some(s => s.lastError);
   const totalReconnectAttempts = Array.from(allStatuses.values())
     .reduce((sum, s) => sum + s.reconnectAttempts, 0);
+  const totalMessages = Array.from(allStatuses.values()).reduce((sum, s) => sum + s.messageCount, 0);
 
   return {
     hasAnyConnection,
     hasErrors,
     totalReconnectAttempts,
+    totalMessages,
     connectionCount: allStatuses.size,
     statuses: allStatuses,
   };
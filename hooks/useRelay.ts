@@ -0,0 +1,23 @@
+/**
+ * Lintnotes
+ * - Purpose: Hook to read the venue relay connection status.
+ * - Exports: useRelayStatus (hook)
+ * - Major deps: React useState/useEffect, services/relay
+ * - Side effects: Subscribes to relay status via listener pattern.
+ */
+import { useEffect, useState } from 'react';
+import { addRelayStatusListener, getRelayStatus, type RelayStatus } from '../services/relay';
+
+export const useRelayStatus = (): RelayStatus => {
+  const [status, setStatus] = useState<RelayStatus>(getRelayStatus);
+
+  useEffect(() => {
+    const unsubscribe = addRelayStatusListener((next) => {
+      setStatus(next);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return status;
+};
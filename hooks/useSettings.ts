@@ -1,7 +1,7 @@
 /**
  * Lintnotes
  * - Purpose: React hooks for accessing app settings and feature flags with reactive updates.
- * - Exports: useSettings (hook), useFeatureFlag (hook), useUndoProtectionLevel (hook)
+ * - Exports: useSettings (hook), useFeatureFlag (hook), useUndoProtectionLevel (hook), useOfflineRetentionDays (hook)
  * - Major deps: React useState/useEffect, services/settings
  * - Side effects: Subscribes to settings changes via listener pattern.
  */
@@ -38,3 +38,7 @@ export const useFeatureFlag = <K extends keyof FeatureFlags>(
 export const useUndoProtectionLevel = (): UndoProtectionLevel => {
   return useFeatureFlag('undoProtectionLevel');
 };
+
+export const useOfflineRetentionDays = (): number => {
+  return useSettings().offlineRetentionDays;
+};
@@ -0,0 +1,44 @@
+/**
+ * Lintnotes
+ * - Purpose: Hooks to run the linked Google Sheet sync schedule for the selected event and read its status.
+ * - Exports: useSheetSyncScheduler (hook), useSheetSyncStatus (hook)
+ * - Major deps: React useState/useEffect, services/sheetSync, hooks/useSupabase, hooks/usePermissions
+ * - Side effects: Starts/stops the sheet sync timer while mounted; subscribes to sync status via listener pattern.
+ */
+import { useEffect, useState } from 'react';
+import { useSupabase } from './useSupabase';
+import { usePermissions } from './usePermissions';
+import {
+  addSheetSyncListener,
+  getSheetSyncStatus,
+  startSheetSyncScheduler,
+  type SheetSyncStatus,
+} from '../services/sheetSync';
+
+/**
+ * Keep the selected event's sheet sync running while signed in as a manager or admin
+ */
+export const useSheetSyncScheduler = (): void => {
+  const { session, selectedEvent } = useSupabase();
+  const { canManageAttendees } = usePermissions();
+  const eventId = session && canManageAttendees ? selectedEvent?.eventId : undefined;
+
+  useEffect(() => {
+    if (!eventId) return;
+    return startSheetSyncScheduler(eventId);
+  }, [eventId]);
+};
+
+export const useSheetSyncStatus = (): SheetSyncStatus => {
+  const [status, setStatus] = useState<SheetSyncStatus>(getSheetSyncStatus);
+
+  useEffect(() => {
+    const unsubscribe = addSheetSyncListener((next) => {
+      setStatus(next);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return status;
+};
@@ -0,0 +1,45 @@
+/**
+ * Lintnotes
+ * - Purpose: Hooks to share this device's staff presence for the selected event and read everyone's.
+ * - Exports: useStaffPresenceSession (hook), useStaffPresence (hook)
+ * - Major deps: React useState/useEffect, services/staffPresence, hooks/useSupabase
+ * - Side effects: Starts/stops presence for the selected event while mounted; subscribes via listener pattern.
+ */
+import { useEffect, useState } from 'react';
+import { useSupabase } from './useSupabase';
+import {
+  addStaffPresenceListener,
+  getStaffPresence,
+  startStaffPresence,
+  type StaffMember,
+} from '../services/staffPresence';
+
+/**
+ * Share presence for the selected event while signed in (mounted by the check-in screen, which opens the channel)
+ */
+export const useStaffPresenceSession = (): void => {
+  const { session, selectedEvent } = useSupabase();
+  const eventId = selectedEvent?.eventId;
+  const role = selectedEvent?.role ?? null;
+  const userId = session?.user?.id;
+  const name = session?.user?.user_metadata?.name || session?.user?.email || 'Staff';
+
+  useEffect(() => {
+    if (!eventId || !userId) return;
+    return startStaffPresence(eventId, { userId, name, role });
+  }, [eventId, userId, name, role]);
+};
+
+export const useStaffPresence = (): StaffMember[] => {
+  const [members, setMembers] = useState<StaffMember[]>(getStaffPresence);
+
+  useEffect(() => {
+    const unsubscribe = addStaffPresenceListener((next) => {
+      setMembers(next);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return members;
+};
@@ -0,0 +1,22 @@
+/**
+ * Lintnotes
+ * - Purpose: Metro bundler configuration extending the Expo defaults for expo-sqlite on web.
+ * - Exports: module.exports (Metro config)
+ * - Major deps: expo/metro-config
+ * - Side effects: Dev server responses carry cross-origin isolation headers.
+ * - Notes: The wasm build of SQLite used on web needs .wasm bundled as an asset and SharedArrayBuffer, which browsers
+ *          only allow on cross-origin isolated pages.
+ */
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// expo-sqlite on web loads a wasm build of SQLite, which needs cross-origin isolation
+config.resolver.assetExts.push('wasm');
+config.server.enhanceMiddleware = (middleware) => (req, res, next) => {
+  res.setHeader('Cross-Origin-Embedder-Policy', 'credentialless');
+  res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+  middleware(req, res, next);
+};
+
+module.exports = config;
@@ -0,0 +1,57 @@
+/**
+ * Lintnotes
+ * - Purpose: Expo config plugin that lets the Android app use plain HTTP only for the venue relay's local network,
+ *            instead of allowing cleartext traffic everywhere.
+ * - Exports: module.exports (config plugin taking { hosts })
+ * - Major deps: expo/config-plugins
+ * - Side effects: During prebuild, writes android/app/src/main/res/xml/network_security_config.xml and points the
+ *                 manifest's application at it.
+ * - Notes: Android's network security config matches host names, not address ranges, so cleartext is allowed for
+ *          localhost, .local names and the relay addresses passed in `hosts` (RELAY_HOSTS at build time). Everything
+ *          else, Supabase included, stays HTTPS only.
+ */
+const fs = require('fs');
+const path = require('path');
+const { AndroidConfig, withAndroidManifest, withDangerousMod } = require('expo/config-plugins');
+
+const CONFIG_NAME = 'network_security_config';
+
+const escapeXml = (value) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const buildNetworkSecurityConfig = (hosts) => {
+  const domains = [
+    '<domain includeSubdomains="false">localhost</domain>',
+    '<domain includeSubdomains="false">127.0.0.1</domain>',
+    '<domain includeSubdomains="true">local</domain>',
+    ...hosts.map((host) => `<domain includeSubdomains="false">${escapeXml(host)}</domain>`),
+  ];
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<network-security-config>',
+    '  <base-config cleartextTrafficPermitted="false" />',
+    '  <domain-config cleartextTrafficPermitted="true">',
+    ...domains.map((domain) => `    ${domain}`),
+    '  </domain-config>',
+    '</network-security-config>',
+    '',
+  ].join('\n');
+};
+
+module.exports = function withLocalNetworkCleartext(config, { hosts = [] } = {}) {
+  config = withDangerousMod(config, [
+    'android',
+    async (modConfig) => {
+      const xmlDir = path.join(modConfig.modRequest.platformProjectRoot, 'app/src/main/res/xml');
+      await fs.promises.mkdir(xmlDir, { recursive: true });
+      await fs.promises.writeFile(path.join(xmlDir, `${CONFIG_NAME}.xml`), buildNetworkSecurityConfig(hosts));
+      return modConfig;
+    },
+  ]);
+
+  return withAndroidManifest(config, (modConfig) => {
+    const application = AndroidConfig.Manifest.getMainApplicationOrThrow(modConfig.modResults);
+    application.$['android:networkSecurityConfig'] = `@xml/${CONFIG_NAME}`;
+    delete application.$['android:usesCleartextTraffic'];
+    return modConfig;
+  });
+};
@@ -0,0 +1,311 @@
+#!/usr/bin/env node
+// Venue-local relay: lets check-in devices on the same Wi-Fi share check-ins when the venue has no internet, so two
+// doors don't check the same guest in twice. Run it on one staff laptop; devices connect from Admin → Venue Relay.
+// The relay only passes check-ins between devices: it never talks to Supabase and never sees anyone's sign-in. Each
+// device uploads its own queue when it gets a connection (apply_checkin_operations applies each op_id once), so
+// nothing is lost if the relay stops; everything is held in memory only. Devices reconcile with Supabase by the same
+// op_ids: when the server rejects a check-in, the device that made it posts the op_id to /rejections and the relay
+// passes it on, so devices that applied that check-in re-fetch the attendee.
+// Usage:
+//  node scripts/checkin-relay.mjs [--port 8787] [--key PAIRCODE]
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import os from 'node:os';
+
+const PROTOCOL_VERSION = 1;
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_WAIT_MS = 30000;
+
+const args = process.argv.slice(2);
+const opts = {};
+for (let i = 0; i < args.length; i++) {
+  const a = args[i];
+  if (a.startsWith('--')) {
+    const key = a.replace(/^--/, '');
+    const next = args[i + 1];
+    if (!next || next.startsWith('--')) {
+      opts[key] = true;
+    } else {
+      opts[key] = next;
+      i++;
+    }
+  }
+}
+
+function randCode(n = 6) {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // avoid ambiguous chars
+  let out = '';
+  for (let i = 0; i < n; i++) {
+    out += alphabet[crypto.randomInt(alphabet.length)];
+  }
+  return out;
+}
+
+const port = Number(opts.port) || 8787;
+const pairingKey = String(opts.key || process.env.RELAY_KEY || randCode()).toUpperCase();
+
+// A new ID every start tells devices the relay lost its memory, so they send their queues again
+const relayId = crypto.randomUUID();
+
+/** Every operation received, in arrival order; seq is the position clients resume from */
+const operations = [];
+const operationsById = new Map();
+const rejectedIds = new Set();
+const deviceLastSeen = new Map();
+/** Long-poll requests waiting for new operations */
+let waiters = [];
+
+const isUuid = (value) => typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+
+function validateOperation(op) {
+  if (!op || typeof op !== 'object') return 'operation must be an object';
+  if (!isUuid(op.op_id)) return 'op_id must be a UUID';
+  if (!isUuid(op.event_id)) return 'event_id must be a UUID';
+  if (!isUuid(op.attendee_id)) return 'attendee_id must be a UUID';
+  if (typeof op.checked !== 'boolean') return 'checked must be a boolean';
+  if (typeof op.occurred_at !== 'string' || Number.isNaN(Date.parse(op.occurred_at))) {
+    return 'occurred_at must be an ISO timestamp';
+  }
+  if (op.source !== undefined && !['swipe', 'tap', 'group', 'table', 'offline_sync'].includes(op.source)) {
+    return 'unsupported source';
+  }
+  return null;
+}
+
+function validateRejection(rejection) {
+  if (!rejection || typeof rejection !== 'object') return 'rejection must be an object';
+  if (!isUuid(rejection.op_id)) return 'op_id must be a UUID';
+  if (!isUuid(rejection.event_id)) return 'event_id must be a UUID';
+  if (!isUuid(rejection.attendee_id)) return 'attendee_id must be a UUID';
+  return null;
+}
+
+function publicOperation(op) {
+  const { op_id, event_id, attendee_id, checked, occurred_at, source, device_id, seq, rejected } = op;
+  return { seq, op_id, event_id, attendee_id, checked, occurred_at, source, device_id, rejected };
+}
+
+function operationsSince(since, eventId) {
+  return operations
+    .filter((op) => op.seq > since && (!eventId || op.event_id === eventId))
+    .map(publicOperation);
+}
+
+function notifyWaiters() {
+  const pending = waiters;
+  waiters = [];
+  for (const waiter of pending) {
+    const found = operationsSince(waiter.since, waiter.eventId);
+    if (found.length > 0) {
+      clearTimeout(waiter.timer);
+      waiter.respond(found);
+    } else {
+      waiters.push(waiter);
+    }
+  }
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new Error('Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function lastSeq() {
+  return operations.length > 0 ? operations[operations.length - 1].seq : 0;
+}
+
+function stats() {
+  const now = Date.now();
+  return {
+    relay: 'checkin-relay',
+    protocol: PROTOCOL_VERSION,
+    relay_id: relayId,
+    last_seq: lastSeq(),
+    operations: operations.length,
+    devices: [...deviceLastSeen.values()].filter((seenAt) => now - seenAt < 2 * MAX_WAIT_MS).length
+  };
+}
+
+async function handlePush(req, res) {
+  const body = await readBody(req);
+  const deviceId = typeof body.device_id === 'string' ? body.device_id : null;
+  if (!deviceId || !Array.isArray(body.operations)) {
+    sendJson(res, 400, { error: 'device_id and operations are required' });
+    return;
+  }
+
+  deviceLastSeen.set(deviceId, Date.now());
+
+  let accepted = 0;
+  const rejected = [];
+  for (const op of body.operations) {
+    const problem = validateOperation(op);
+    if (problem) {
+      rejected.push({ op_id: op?.op_id ?? null, error: problem });
+      continue;
+    }
+    // Operations are applied once by op_id, here as on the server
+    if (operationsById.has(op.op_id)) continue;
+
+    const stored = {
+      seq: lastSeq() + 1,
+      op_id: op.op_id,
+      event_id: op.event_id,
+      attendee_id: op.attendee_id,
+      checked: op.checked,
+      occurred_at: op.occurred_at,
+      source: op.source,
+      device_id: deviceId,
+      received_at: Date.now()
+    };
+    operations.push(stored);
+    operationsById.set(stored.op_id, stored);
+    accepted++;
+  }
+
+  if (accepted > 0) {
+    console.log(`📥 ${accepted} check-in${accepted === 1 ? '' : 's'} from device ${deviceId.slice(0, 8)}`);
+    notifyWaiters();
+  }
+  sendJson(res, 200, { accepted, rejected, last_seq: lastSeq(), relay_id: relayId });
+}
+
+// Rejections go out in the same stream as check-ins, flagged `rejected`, so devices resume from one seq
+async function handleRejections(req, res) {
+  const body = await readBody(req);
+  const deviceId = typeof body.device_id === 'string' ? body.device_id : null;
+  if (!deviceId || !Array.isArray(body.rejections)) {
+    sendJson(res, 400, { error: 'device_id and rejections are required' });
+    return;
+  }
+
+  deviceLastSeen.set(deviceId, Date.now());
+
+  let accepted = 0;
+  const rejected = [];
+  for (const rejection of body.rejections) {
+    const problem = validateRejection(rejection);
+    if (problem) {
+      rejected.push({ op_id: rejection?.op_id ?? null, error: problem });
+      continue;
+    }
+    if (rejectedIds.has(rejection.op_id)) continue;
+
+    operations.push({
+      seq: lastSeq() + 1,
+      op_id: rejection.op_id,
+      event_id: rejection.event_id,
+      attendee_id: rejection.attendee_id,
+      rejected: true,
+      device_id: deviceId,
+      received_at: Date.now()
+    });
+    rejectedIds.add(rejection.op_id);
+    accepted++;
+  }
+
+  if (accepted > 0) {
+    console.log(`↩️  ${accepted} rejected check-in${accepted === 1 ? '' : 's'} from device ${deviceId.slice(0, 8)}`);
+    notifyWaiters();
+  }
+  sendJson(res, 200, { accepted, rejected, last_seq: lastSeq(), relay_id: relayId });
+}
+
+function handlePoll(req, res, url) {
+  const since = Number(url.searchParams.get('since')) || 0;
+  const eventId = url.searchParams.get('event_id');
+  const deviceId = url.searchParams.get('device_id');
+  const wait = Math.min(Number(url.searchParams.get('wait')) || 0, MAX_WAIT_MS);
+  if (deviceId) deviceLastSeen.set(deviceId, Date.now());
+
+  const respond = (found) => sendJson(res, 200, { operations: found, last_seq: lastSeq(), relay_id: relayId });
+  const found = operationsSince(since, eventId);
+  if (found.length > 0 || wait === 0) {
+    respond(found);
+    return;
+  }
+
+  const waiter = { since, eventId, respond, timer: null };
+  waiter.timer = setTimeout(() => {
+    waiters = waiters.filter((other) => other !== waiter);
+    respond([]);
+  }, wait);
+  req.on('close', () => {
+    clearTimeout(waiter.timer);
+    waiters = waiters.filter((other) => other !== waiter);
+  });
+  waiters.push(waiter);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://relay.local');
+  if (req.headers['x-relay-key']?.toString().toUpperCase() !== pairingKey) {
+    sendJson(res, 401, { error: 'Wrong or missing relay key' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, stats());
+    } else if (req.method === 'POST' && url.pathname === '/operations') {
+      await handlePush(req, res);
+    } else if (req.method === 'POST' && url.pathname === '/rejections') {
+      await handleRejections(req, res);
+    } else if (req.method === 'GET' && url.pathname === '/operations') {
+      handlePoll(req, res, url);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+  }
+});
+
+server.listen(port, '0.0.0.0', () => {
+  const addresses = Object.values(os.networkInterfaces())
+    .flat()
+    .filter((address) => address && address.family === 'IPv4' && !address.internal)
+    .map((address) => `http://${address.address}:${port}`);
+
+  console.log('✅ Check-in relay running');
+  console.log(`   Address: ${addresses.length > 0 ? addresses.join('  or  ') : `http://<this-computer>:${port}`}`);
+  console.log(`   Key:     ${pairingKey}`);
+  console.log('   Devices upload their own check-ins to Supabase when they have internet');
+});
+
+function shutdown() {
+  for (const waiter of waiters) {
+    clearTimeout(waiter.timer);
+    waiter.respond([]);
+  }
+  waiters = [];
+  server.close(() => process.exit(0));
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,11 +1,16 @@
 /**
  * Lintnotes
  * - Purpose: Account-related helpers for deletion and local cleanup.
- * - Exports: deleteMyAccount, deleteLocalSession
- * - Major deps: services/supabase client
+ * - Exports: deleteMyAccount, deleteLocalSession, clearLocalData
+ * - Major deps: services/supabase client, services/localStore (wipe), services/backgroundSync, services/relay
+ * - Side effects: clearLocalData (also run after a successful deleteMyAccount) deletes the device's cached attendee
+ *                 data and queued changes, stops background sync and forgets the venue relay.
  */
 
 import { getSupabaseClient } from './supabase';
+import { wipeLocalStore } from './localStore';
+import { unregisterBackgroundSync } from './backgroundSync';
+import { disconnectRelay } from './relay';
 
 export async function deleteMyAccount(): Promise<{ success: boolean; message?: string }>
 {
@@ -22,6 +27,7 @@ export async function deleteMyAccount(): Promise<{ success: boolean; message?: s
     if (!data?.success) {
       return { success: false, message: data?.error || 'Unknown deletion error' };
     }
+    await clearLocalData();
     return { success: true };
   } catch (e) {
     return { success: false, message: e instanceof Error ? e.message : 'Unknown error' };
@@ -37,3 +43,22 @@ export async function deleteLocalSession(): Promise<void> {
   }
 }
 
+
+/**
+ * Delete everything the app cached on this device for the signed-in user: rosters (names, notes, tables), events
+ * made available offline, and changes still waiting to sync. Used on sign-out and account deletion, since devices
+ * are often borrowed or shared.
+ */
+export async function clearLocalData(): Promise<void> {
+  try {
+    await unregisterBackgroundSync();
+  } catch (error) {
+    console.error('Failed to unregister background sync:', error);
+  }
+  try {
+    await disconnectRelay();
+  } catch (error) {
+    console.error('Failed to disconnect venue relay:', error);
+  }
+  await wipeLocalStore();
+}
@@ -0,0 +1,218 @@
+/**
+ * Lintnotes
+ * - Purpose: Event announcements: short messages managers send to every device working an event, with
+ *            acknowledgement tracking.
+ * - Exports: Announcement (type), ANNOUNCEMENT_MAX_LENGTH, startAnnouncements, sendAnnouncement,
+ *            acknowledgeAnnouncement, getAnnouncements, addAnnouncementsListener
+ * - Major deps: services/supabase (send_event_announcement, acknowledge_event_announcement, get_event_announcements),
+ *               services/realtime (event_announcements inserts, acknowledgement broadcasts), expo-crypto
+ * - Side effects: Subscribes to the event's announcement inserts and acknowledgement channel while started; network
+ *                 RPCs.
+ * - Notes: New announcements arrive as realtime inserts on event_announcements (so nothing depends on the sender's
+ *          connection after saving) and are read through get_event_announcements; a device that was offline catches
+ *          up by refetching when either channel reconnects. Acknowledgement counts are broadcast by whoever acks.
+ */
+import * as Crypto from 'expo-crypto';
+
+import { getSupabaseClient } from './supabase';
+import { sendBroadcast, subscribeToBroadcast, subscribeToTable, type RealtimeChannelOptions } from './realtime';
+
+export const ANNOUNCEMENT_MAX_LENGTH = 200;
+
+export type Announcement = {
+  id: string;
+  eventId: string;
+  message: string;
+  senderId: string | null;
+  senderName: string | null;
+  createdAt: string;
+  /** People who have acknowledged it */
+  ackCount: number;
+  /** Acknowledged by the signed-in user */
+  acknowledged: boolean;
+};
+
+type AnnouncementRecord = {
+  id: string;
+  event_id: string;
+  message: string;
+  sender_id: string | null;
+  sender_name: string | null;
+  created_at: string;
+  ack_count?: number;
+  acknowledged?: boolean;
+};
+
+type AnnouncementsListener = (announcements: Announcement[]) => void;
+
+// Module state
+let currentEventId: string | null = null;
+let announcements: Announcement[] = [];
+const listeners = new Set<AnnouncementsListener>();
+
+const getChannelName = (eventId: string) => `announcements-${eventId}`;
+
+const mapRecordToAnnouncement = (record: AnnouncementRecord): Announcement => ({
+  id: record.id,
+  eventId: record.event_id,
+  message: record.message,
+  senderId: record.sender_id,
+  senderName: record.sender_name,
+  createdAt: record.created_at,
+  ackCount: record.ack_count ?? 0,
+  acknowledged: record.acknowledged ?? false,
+});
+
+const emit = () => {
+  listeners.forEach((listener) => {
+    try {
+      listener(announcements);
+    } catch (error) {
+      console.error('Announcements listener error:', error);
+    }
+  });
+};
+
+const setAnnouncements = (next: Announcement[]) => {
+  announcements = next;
+  emit();
+};
+
+const updateAnnouncement = (id: string, update: Partial<Announcement>) => {
+  setAnnouncements(announcements.map((item) => (item.id === id ? { ...item, ...update } : item)));
+};
+
+export const getAnnouncements = (): Announcement[] => announcements;
+
+export const addAnnouncementsListener = (listener: AnnouncementsListener): (() => void) => {
+  listeners.add(listener);
+  listener(announcements);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Reload the event's recent announcements (last 24 hours, newest first)
+ */
+const catchUp = async (eventId: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('get_event_announcements', { p_event_id: eventId });
+  if (error) {
+    console.error('Error fetching announcements:', error);
+    return;
+  }
+  if (currentEventId !== eventId) return;
+  setAnnouncements(((data ?? []) as AnnouncementRecord[]).map(mapRecordToAnnouncement));
+};
+
+/**
+ * Follow announcements for an event: loads recent ones, then listens for new ones and acknowledgements
+ */
+export const startAnnouncements = (eventId: string): (() => void) => {
+  currentEventId = eventId;
+  setAnnouncements([]);
+
+  const channelOptions: RealtimeChannelOptions = {
+    onError: (error) => {
+      console.error('Announcement channel error:', error);
+    },
+    // Anything sent while this device was disconnected was missed
+    onReconnected: () => {
+      void catchUp(eventId);
+    },
+  };
+
+  // The insert only says something new exists; the RPC returns it with acknowledgement state
+  const unsubscribeInserts = subscribeToTable(
+    { table: 'event_announcements', filter: { column: 'event_id', value: eventId }, event: 'INSERT' },
+    channelOptions,
+    () => {
+      void catchUp(eventId);
+    }
+  );
+
+  const unsubscribeAcks = subscribeToBroadcast(
+    { channelName: getChannelName(eventId), events: ['ack'] },
+    channelOptions,
+    (_event, payload) => {
+      const id = typeof payload.id === 'string' ? payload.id : null;
+      const ackCount = typeof payload.ack_count === 'number' ? payload.ack_count : null;
+      const known = announcements.find((item) => item.id === id);
+      if (known && ackCount !== null && ackCount > known.ackCount) {
+        updateAnnouncement(known.id, { ackCount });
+      }
+    }
+  );
+  void catchUp(eventId);
+
+  return () => {
+    unsubscribeInserts();
+    unsubscribeAcks();
+    if (currentEventId === eventId) {
+      currentEventId = null;
+      setAnnouncements([]);
+    }
+  };
+};
+
+/**
+ * Send an announcement to everyone on the event (managers only; the server checks)
+ */
+export const sendAnnouncement = async (
+  eventId: string,
+  message: string,
+  senderName?: string | null
+): Promise<Announcement> => {
+  const text = message.trim();
+  if (!text) {
+    throw new Error('Type a message to send.');
+  }
+  if (text.length > ANNOUNCEMENT_MAX_LENGTH) {
+    throw new Error(`Keep announcements under ${ANNOUNCEMENT_MAX_LENGTH} characters.`);
+  }
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('send_event_announcement', {
+    p_id: Crypto.randomUUID(),
+    p_event_id: eventId,
+    p_message: text,
+    p_sender_name: senderName ?? null,
+  });
+
+  if (error) {
+    console.error('Error sending announcement:', error);
+    throw error;
+  }
+
+  // The sender has seen it (get_event_announcements reports it that way too)
+  const announcement = { ...mapRecordToAnnouncement(data as AnnouncementRecord), acknowledged: true };
+  if (currentEventId === eventId) {
+    setAnnouncements([announcement, ...announcements.filter((item) => item.id !== announcement.id)]);
+  }
+  return announcement;
+};
+
+/**
+ * Mark an announcement as seen by the signed-in user
+ */
+export const acknowledgeAnnouncement = async (announcementId: string): Promise<void> => {
+  const announcement = announcements.find((item) => item.id === announcementId);
+  if (!announcement || announcement.acknowledged) return;
+  updateAnnouncement(announcementId, { acknowledged: true });
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('acknowledge_event_announcement', {
+    p_announcement_id: announcementId,
+  });
+
+  if (error) {
+    console.error('Error acknowledging announcement:', error);
+    updateAnnouncement(announcementId, { acknowledged: false });
+    throw error;
+  }
+
+  const ackCount = Number(data ?? 0);
+  updateAnnouncement(announcementId, { ackCount });
+  void sendBroadcast(getChannelName(announcement.eventId), 'ack', { id: announcementId, ack_count: ackCount });
+};
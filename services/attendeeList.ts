@@ -0,0 +1,294 @@
+/**
+ * Lintnotes
+ * - Purpose: Shared in-memory attendee list for the selected event. Merges reloads, realtime changes and local updates
+ *            by row version so an out-of-order change can't flip a row back, and keeps pending offline operations and
+ *            optimistic check-ins on top.
+ * - Exports: AttendeeListListener (type), compareAttendeeVersions, getAttendeeList, getAttendeeListEventId,
+ *            addAttendeeListListener, resetAttendeeList, beginAttendeeSnapshot, applyAttendeeSnapshot,
+ *            applyAttendeeListChange, mergeAttendeeIntoList, removeAttendeeFromList, applyOptimisticUpdate
+ * - Major deps: services/attendees (types, applyOperationsToAttendees), services/offlineQueue, services/syncManager
+ * - Side effects: Listens for queued operations and sync runs while an event is loaded; stores state in module
+ *                 singletons.
+ * - Notes: Server rows are ordered by row_version, falling back to updated_at for rows cached before versions
+ *          existed. A reload reflects the server when it started: rows and deletes that arrive over realtime after
+ *          that win over it, and a reload that finishes after a newer one is dropped. Optimistic updates stay on top
+ *          until a server version newer than the one they were made against arrives.
+ */
+import {
+  applyOperationsToAttendees,
+  type Attendee,
+  type AttendeeChange
+} from './attendees';
+import { addOperationQueuedListener, getPendingOperations, type QueuedOperation } from './offlineQueue';
+import { addSyncListener } from './syncManager';
+
+export type AttendeeListListener = (attendees: Attendee[]) => void;
+
+type ServerRow = {
+  attendee: Attendee;
+  /** Sequence number when it arrived, to compare with reloads in flight */
+  receivedAt: number;
+};
+
+type Tombstone = {
+  receivedAt: number;
+  /** The row as it was removed (archived rows); absent for hard deletes */
+  attendee?: Attendee;
+};
+
+type OptimisticUpdate = {
+  patch: Partial<Attendee>;
+  /** Server row the update was made against */
+  base?: Attendee;
+};
+
+// Module state
+let currentEventId: string | null = null;
+let sequence = 0;
+let lastSnapshot = 0;
+let rows = new Map<string, ServerRow>();
+const tombstones = new Map<string, Tombstone>();
+const optimistic = new Map<string, OptimisticUpdate>();
+let pendingOperations: QueuedOperation[] = [];
+let pendingRequest = 0;
+let stopWatchingQueue: (() => void) | null = null;
+let list: Attendee[] = [];
+const listeners = new Set<AttendeeListListener>();
+
+const parseTime = (value?: string | null): number => (value ? Date.parse(value) : NaN);
+
+/**
+ * Order two versions of the same attendee: positive when `incoming` is newer, negative when older, 0 when the same
+ * or when there is nothing to compare
+ */
+export const compareAttendeeVersions = (incoming: Attendee, current: Attendee): number => {
+  if (incoming.rowVersion != null && current.rowVersion != null) {
+    return incoming.rowVersion - current.rowVersion;
+  }
+  const incomingAt = parseTime(incoming.updatedAt);
+  const currentAt = parseTime(current.updatedAt);
+  if (Number.isFinite(incomingAt) && Number.isFinite(currentAt)) {
+    return incomingAt - currentAt;
+  }
+  return 0;
+};
+
+const emit = () => {
+  listeners.forEach((listener) => {
+    try {
+      listener(list);
+    } catch (error) {
+      console.error('Attendee list listener error:', error);
+    }
+  });
+};
+
+const rebuild = () => {
+  const server = Array.from(rows.values(), (row) => row.attendee);
+  const withPending = currentEventId ? applyOperationsToAttendees(currentEventId, server, pendingOperations) : [];
+  list =
+    optimistic.size > 0
+      ? withPending.map((attendee) => {
+          const update = optimistic.get(attendee.id);
+          return update ? { ...attendee, ...update.patch } : attendee;
+        })
+      : withPending;
+  emit();
+};
+
+const refreshPendingOperations = async (eventId: string): Promise<void> => {
+  const request = ++pendingRequest;
+  try {
+    const operations = await getPendingOperations(eventId);
+    // A newer refresh or another event took over while this one was reading
+    if (request !== pendingRequest || currentEventId !== eventId) return;
+    pendingOperations = operations;
+    rebuild();
+  } catch (error) {
+    console.error('Failed to load pending operations for the attendee list:', error);
+  }
+};
+
+const selectEvent = (eventId: string | null) => {
+  stopWatchingQueue?.();
+  stopWatchingQueue = null;
+  currentEventId = eventId;
+  lastSnapshot = 0;
+  rows = new Map();
+  tombstones.clear();
+  optimistic.clear();
+  pendingOperations = [];
+  pendingRequest += 1;
+
+  if (eventId) {
+    const removeQueued = addOperationQueuedListener((queuedEventId) => {
+      if (queuedEventId === eventId) void refreshPendingOperations(eventId);
+    });
+    const removeSync = addSyncListener(() => {
+      void refreshPendingOperations(eventId);
+    });
+    stopWatchingQueue = () => {
+      removeQueued();
+      removeSync();
+    };
+    void refreshPendingOperations(eventId);
+  }
+};
+
+// A server row newer than the one an optimistic update was made against already includes it (or overrides it)
+const settleOptimistic = (attendee: Attendee) => {
+  const update = optimistic.get(attendee.id);
+  if (update && (!update.base || compareAttendeeVersions(attendee, update.base) > 0)) {
+    optimistic.delete(attendee.id);
+  }
+};
+
+// Removed rows only come back with a version newer than the removal (e.g. an archived attendee restored by an import)
+const isRemoved = (attendee: Attendee, after = 0): boolean => {
+  const tombstone = tombstones.get(attendee.id);
+  if (!tombstone || tombstone.receivedAt <= after) return false;
+  return !tombstone.attendee || compareAttendeeVersions(attendee, tombstone.attendee) <= 0;
+};
+
+export const getAttendeeList = (): Attendee[] => list;
+
+export const getAttendeeListEventId = (): string | null => currentEventId;
+
+export const addAttendeeListListener = (listener: AttendeeListListener): (() => void) => {
+  listeners.add(listener);
+  listener(list);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Empty the list (signed out or no event selected)
+ */
+export const resetAttendeeList = (): void => {
+  if (!currentEventId && list.length === 0) return;
+  selectEvent(null);
+  rebuild();
+};
+
+/**
+ * Mark the start of a reload; pass the result to applyAttendeeSnapshot with the rows it returns
+ */
+export const beginAttendeeSnapshot = (): number => {
+  sequence += 1;
+  return sequence;
+};
+
+/**
+ * Replace the list with a reload of the event's server (or cached) rows, without pending operations applied.
+ * Changes that arrived while it was loading are kept.
+ */
+export const applyAttendeeSnapshot = (eventId: string, attendees: Attendee[], snapshot: number): void => {
+  if (currentEventId !== eventId) {
+    selectEvent(eventId);
+  } else if (snapshot < lastSnapshot) {
+    console.log('⏭️ Dropping attendee reload that finished after a newer one');
+    return;
+  }
+  lastSnapshot = snapshot;
+
+  const next = new Map<string, ServerRow>();
+  for (const attendee of attendees) {
+    if (isRemoved(attendee, snapshot)) continue;
+    const current = rows.get(attendee.id);
+    if (current && compareAttendeeVersions(attendee, current.attendee) < 0) {
+      next.set(attendee.id, current);
+    } else {
+      next.set(attendee.id, { attendee, receivedAt: snapshot });
+      settleOptimistic(attendee);
+    }
+  }
+
+  // Rows missing from the reload were deleted, unless they arrived after it started
+  rows.forEach((row, attendeeId) => {
+    if (!next.has(attendeeId) && row.receivedAt > snapshot) {
+      next.set(attendeeId, row);
+    }
+  });
+  tombstones.forEach((tombstone, attendeeId) => {
+    if (tombstone.receivedAt <= snapshot) tombstones.delete(attendeeId);
+  });
+
+  rows = next;
+  rebuild();
+};
+
+/**
+ * Add or update a server row. Returns false (and changes nothing) when the list already has a newer version.
+ */
+export const mergeAttendeeIntoList = (attendee: Attendee): boolean => {
+  if (currentEventId !== attendee.eventId) return false;
+
+  const current = rows.get(attendee.id);
+  if (isRemoved(attendee) || (current && compareAttendeeVersions(attendee, current.attendee) < 0)) {
+    console.log(`⏭️ Dropping stale change for attendee ${attendee.id}`);
+    return false;
+  }
+
+  sequence += 1;
+  tombstones.delete(attendee.id);
+  rows.set(attendee.id, { attendee, receivedAt: sequence });
+  settleOptimistic(attendee);
+  rebuild();
+  return true;
+};
+
+/**
+ * Remove an attendee. `removed` is the row as it was removed, when known (archived rows), so an older change can't
+ * bring it back and a later restore can.
+ */
+export const removeAttendeeFromList = (eventId: string, attendeeId: string, removed?: Attendee): boolean => {
+  if (currentEventId !== eventId) return false;
+
+  const current = rows.get(attendeeId);
+  if (removed && current && compareAttendeeVersions(removed, current.attendee) < 0) {
+    console.log(`⏭️ Dropping stale removal of attendee ${attendeeId}`);
+    return false;
+  }
+
+  sequence += 1;
+  tombstones.set(attendeeId, { receivedAt: sequence, attendee: removed });
+  rows.delete(attendeeId);
+  optimistic.delete(attendeeId);
+  rebuild();
+  return true;
+};
+
+/**
+ * Apply a realtime change. Returns false when it was out of order or for another event, so callers can skip
+ * caching it too.
+ */
+export const applyAttendeeListChange = (eventId: string, change: AttendeeChange): boolean => {
+  if (change.type === 'DELETE') {
+    const removedId =
+      change.attendee?.id ?? String((change.payload.old as { id?: string | number } | null)?.id ?? '');
+    if (!removedId) return false;
+    return removeAttendeeFromList(eventId, removedId, change.attendee ?? undefined);
+  }
+
+  if (!change.attendee || change.attendee.eventId !== eventId) return false;
+  return mergeAttendeeIntoList(change.attendee);
+};
+
+/**
+ * Show a local change the server accepted (e.g. a check-in just sent) until the server's version of it arrives.
+ * Queued changes are shown from the pending queue instead: one that syncs as a conflict or no-op brings no newer
+ * version, so its overlay would never clear.
+ */
+export const applyOptimisticUpdate = (eventId: string, attendeeIds: string[], patch: Partial<Attendee>): void => {
+  if (currentEventId !== eventId || attendeeIds.length === 0) return;
+
+  attendeeIds.forEach((attendeeId) => {
+    const previous = optimistic.get(attendeeId);
+    optimistic.set(attendeeId, {
+      patch: { ...previous?.patch, ...patch },
+      base: rows.get(attendeeId)?.attendee
+    });
+  });
+  rebuild();
+};
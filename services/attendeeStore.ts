@@ -0,0 +1,324 @@
+/**
+ * Lintnotes
+ * - Purpose: Offline attendee cache in the local SQLite store: whole-roster replace after a full fetch, merging of
+ *            incremental changes with the event's sync watermark, row-level updates for check-ins/realtime changes,
+ *            and indexed search/sort queries for the check-in list.
+ * - Exports: AttendeeQuery/CachedRosterStats (types), replaceCachedAttendees, mergeCachedAttendees,
+ *            getCachedWatermark, loadCachedAttendees, upsertCachedAttendee, removeCachedAttendee, setCachedCheckIn,
+ *            setCachedCheckIns, getCachedAttendeeNames, queryCachedAttendeeIds, getCachedRosterStats,
+ *            clearCachedRoster
+ * - Major deps: services/localStore
+ * - Side effects: Reads/writes the attendees and attendee_sync_state tables of the local store.
+ */
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { readLocalStore, writeLocalStore } from './localStore';
+import type { Attendee } from './attendees';
+
+export type AttendeeQuery = {
+  status?: 'pending' | 'checked-in';
+  search?: string;
+  sortKey?: 'attendeeName' | 'groupName' | 'tableNumber' | 'ticketType';
+  sortOrder?: 'asc' | 'desc';
+};
+
+export type CachedRosterStats = {
+  eventId: string;
+  attendeeCount: number;
+  /** Approximate bytes of cached roster data (text content, not SQLite pages) */
+  sizeBytes: number;
+  /** When the roster was last refreshed from the server (null if never fully downloaded) */
+  lastRefreshedAt: number | null;
+};
+
+type CachedAttendeeRow = {
+  event_id: string;
+  id: string;
+  full_name: string;
+  group_name: string;
+  table_number: string;
+  ticket_type: string;
+  notes: string | null;
+  checked_in: number;
+  checked_in_at: string | null;
+  checked_in_by: string | null;
+  updated_at: string | null;
+  row_version: number | null;
+  external_id: string | null;
+  email: string | null;
+  is_walk_in: number;
+};
+
+const SORT_COLUMNS: Record<NonNullable<AttendeeQuery['sortKey']>, string> = {
+  attendeeName: 'full_name',
+  groupName: 'group_name',
+  tableNumber: 'table_number',
+  ticketType: 'ticket_type'
+};
+
+const UPSERT_SQL = `INSERT OR REPLACE INTO attendees (
+  event_id, id, full_name, group_name, table_number, ticket_type, notes, checked_in, checked_in_at,
+  checked_in_by, updated_at, row_version, external_id, email, is_walk_in, search_text
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+// Matches the fields the check-in search box looks at
+const buildSearchText = (attendee: Attendee): string =>
+  `${attendee.attendeeName} ${attendee.groupName} ${attendee.tableNumber} ${attendee.ticketType}`.toLowerCase();
+
+const toParams = (attendee: Attendee): (string | number | null)[] => [
+  attendee.eventId,
+  attendee.id,
+  attendee.attendeeName,
+  attendee.groupName,
+  attendee.tableNumber,
+  attendee.ticketType,
+  attendee.notes ?? null,
+  attendee.checkedIn ? 1 : 0,
+  attendee.checkedInAt ?? null,
+  attendee.checkedInBy ?? null,
+  attendee.updatedAt ?? null,
+  attendee.rowVersion ?? null,
+  attendee.externalId ?? null,
+  attendee.email ?? null,
+  attendee.isWalkIn ? 1 : 0,
+  buildSearchText(attendee)
+];
+
+const mapRowToAttendee = (row: CachedAttendeeRow): Attendee => ({
+  id: row.id,
+  eventId: row.event_id,
+  attendeeName: row.full_name,
+  groupName: row.group_name,
+  tableNumber: row.table_number,
+  ticketType: row.ticket_type,
+  notes: row.notes,
+  checkedIn: row.checked_in === 1,
+  checkedInAt: row.checked_in_at,
+  checkedInBy: row.checked_in_by,
+  updatedAt: row.updated_at,
+  rowVersion: row.row_version,
+  externalId: row.external_id,
+  email: row.email,
+  isWalkIn: row.is_walk_in === 1
+});
+
+const insertAttendees = async (db: SQLiteDatabase, attendees: Attendee[]): Promise<void> => {
+  const statement = await db.prepareAsync(UPSERT_SQL);
+  try {
+    for (const attendee of attendees) {
+      await statement.executeAsync(toParams(attendee));
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+};
+
+const saveWatermark = async (db: SQLiteDatabase, eventId: string, watermark: string | null): Promise<void> => {
+  if (watermark) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO attendee_sync_state (event_id, watermark, synced_at) VALUES (?, ?, ?)',
+      [eventId, watermark, Date.now()]
+    );
+  } else {
+    await db.runAsync('DELETE FROM attendee_sync_state WHERE event_id = ?', [eventId]);
+  }
+};
+
+/**
+ * Replace the cached roster for an event in one transaction. `watermark` is the server time the roster was read at
+ * (without one, the next refresh fetches the full roster again).
+ */
+export const replaceCachedAttendees = (
+  eventId: string,
+  attendees: Attendee[],
+  watermark: string | null = null
+): Promise<void> =>
+  writeLocalStore(async (db) => {
+    await db.runAsync('DELETE FROM attendees WHERE event_id = ?', [eventId]);
+    await insertAttendees(db, attendees);
+    await saveWatermark(db, eventId, watermark);
+  });
+
+/**
+ * Apply attendees changed and removed since the last sync, and move the event's watermark, in one transaction
+ */
+export const mergeCachedAttendees = (
+  eventId: string,
+  changed: Attendee[],
+  removedIds: string[],
+  watermark: string
+): Promise<void> =>
+  writeLocalStore(async (db) => {
+    const statement = await db.prepareAsync('DELETE FROM attendees WHERE event_id = ? AND id = ?');
+    try {
+      for (const attendeeId of removedIds) {
+        await statement.executeAsync([eventId, attendeeId]);
+      }
+    } finally {
+      await statement.finalizeAsync();
+    }
+    await insertAttendees(db, changed);
+    await saveWatermark(db, eventId, watermark);
+  });
+
+/**
+ * Server time of the event's last sync, or null when the roster has to be fetched in full (never synced, or the
+ * cached roster is empty)
+ */
+export const getCachedWatermark = (eventId: string): Promise<string | null> =>
+  readLocalStore(async (db) => {
+    const row = await db.getFirstAsync<{ watermark: string }>(
+      `SELECT watermark FROM attendee_sync_state
+       WHERE event_id = ? AND EXISTS (SELECT 1 FROM attendees WHERE event_id = ?)`,
+      [eventId, eventId]
+    );
+    return row?.watermark ?? null;
+  });
+
+/**
+ * Load the cached roster for an event (null when the event has never been cached)
+ */
+export const loadCachedAttendees = (eventId: string): Promise<Attendee[] | null> =>
+  readLocalStore(async (db) => {
+    const rows = await db.getAllAsync<CachedAttendeeRow>(
+      'SELECT * FROM attendees WHERE event_id = ? ORDER BY full_name COLLATE NOCASE',
+      [eventId]
+    );
+    return rows.length > 0 ? rows.map(mapRowToAttendee) : null;
+  });
+
+export const upsertCachedAttendee = (attendee: Attendee): Promise<void> =>
+  writeLocalStore(async (db) => {
+    await insertAttendees(db, [attendee]);
+  });
+
+export const removeCachedAttendee = (eventId: string, attendeeId: string): Promise<void> =>
+  writeLocalStore(async (db) => {
+    await db.runAsync('DELETE FROM attendees WHERE event_id = ? AND id = ?', [eventId, attendeeId]);
+  });
+
+/**
+ * Update one attendee's check-in state without rewriting the rest of the roster
+ */
+export const setCachedCheckIn = (
+  eventId: string,
+  attendeeId: string,
+  checkedIn: boolean,
+  checkedInAt: string | null
+): Promise<void> =>
+  writeLocalStore(async (db) => {
+    await db.runAsync(
+      'UPDATE attendees SET checked_in = ?, checked_in_at = ? WHERE event_id = ? AND id = ?',
+      [checkedIn ? 1 : 0, checkedInAt, eventId, attendeeId]
+    );
+  });
+
+/**
+ * Set the check-in state of several attendees in one transaction (group/table check-ins)
+ */
+export const setCachedCheckIns = (
+  eventId: string,
+  attendeeIds: string[],
+  checkedIn: boolean,
+  checkedInAt: string | null
+): Promise<void> =>
+  writeLocalStore(async (db) => {
+    const statement = await db.prepareAsync(
+      'UPDATE attendees SET checked_in = ?, checked_in_at = ? WHERE event_id = ? AND id = ?'
+    );
+    try {
+      for (const attendeeId of attendeeIds) {
+        await statement.executeAsync([checkedIn ? 1 : 0, checkedInAt, eventId, attendeeId]);
+      }
+    } finally {
+      await statement.finalizeAsync();
+    }
+  });
+
+/**
+ * Names of cached attendees by ID (attendees missing from the cache are left out)
+ */
+export const getCachedAttendeeNames = (attendeeIds: string[]): Promise<Map<string, string>> =>
+  readLocalStore(async (db) => {
+    const names = new Map<string, string>();
+    const unique = Array.from(new Set(attendeeIds));
+    // Stay well under SQLite's bound-parameter limit
+    for (let start = 0; start < unique.length; start += 500) {
+      const chunk = unique.slice(start, start + 500);
+      const rows = await db.getAllAsync<{ id: string; full_name: string }>(
+        `SELECT id, full_name FROM attendees WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+        chunk
+      );
+      rows.forEach((row) => names.set(row.id, row.full_name));
+    }
+    return names;
+  });
+
+/**
+ * IDs of the cached attendees matching a status filter and search term, in display order
+ */
+export const queryCachedAttendeeIds = (eventId: string, query: AttendeeQuery = {}): Promise<string[]> =>
+  readLocalStore(async (db) => {
+    const conditions = ['event_id = ?'];
+    const params: (string | number)[] = [eventId];
+
+    if (query.status) {
+      conditions.push('checked_in = ?');
+      params.push(query.status === 'checked-in' ? 1 : 0);
+    }
+
+    const search = query.search?.trim().toLowerCase();
+    if (search) {
+      conditions.push("search_text LIKE ? ESCAPE '\\'");
+      params.push(`%${search.replace(/[\\%_]/g, (match) => `\\${match}`)}%`);
+    }
+
+    const column = SORT_COLUMNS[query.sortKey ?? 'attendeeName'];
+    const direction = query.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const rows = await db.getAllAsync<{ id: string }>(
+      `SELECT id FROM attendees WHERE ${conditions.join(' AND ')}
+       ORDER BY ${column} COLLATE NOCASE ${direction}, full_name COLLATE NOCASE ${direction}, id`,
+      params
+    );
+    return rows.map((row) => row.id);
+  });
+
+/**
+ * Size and freshness of each event's cached roster
+ */
+export const getCachedRosterStats = (): Promise<CachedRosterStats[]> =>
+  readLocalStore(async (db) => {
+    const rows = await db.getAllAsync<{
+      event_id: string;
+      attendee_count: number;
+      size_bytes: number | null;
+      synced_at: number | null;
+    }>(
+      `SELECT a.event_id, COUNT(*) AS attendee_count,
+         SUM(
+           length(a.id) + length(a.full_name) + length(a.group_name) + length(a.table_number) +
+           length(a.ticket_type) + length(a.search_text) + IFNULL(length(a.notes), 0) +
+           IFNULL(length(a.checked_in_at), 0) + IFNULL(length(a.checked_in_by), 0) +
+           IFNULL(length(a.updated_at), 0) + IFNULL(length(a.external_id), 0) + IFNULL(length(a.email), 0) + 16
+         ) AS size_bytes,
+         s.synced_at
+       FROM attendees a
+       LEFT JOIN attendee_sync_state s ON s.event_id = a.event_id
+       GROUP BY a.event_id`
+    );
+    return rows.map((row) => ({
+      eventId: row.event_id,
+      attendeeCount: row.attendee_count,
+      sizeBytes: row.size_bytes ?? 0,
+      lastRefreshedAt: row.synced_at
+    }));
+  });
+
+/**
+ * Drop an event's cached roster and sync watermark
+ */
+export const clearCachedRoster = (eventId: string): Promise<void> =>
+  writeLocalStore(async (db) => {
+    await db.runAsync('DELETE FROM attendees WHERE event_id = ?', [eventId]);
+    await saveWatermark(db, eventId, null);
+  });
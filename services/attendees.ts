@@ -1,22 +1,46 @@
 /**
  * Lintnotes
  * - Purpose: CRUD-style helpers and realtime wiring for event attendees, plus bulk operations.
- * - Exports: Attendee (type), AttendeeChange (type), fetchAttendees, subscribeAttendees, toggleCheckin,
- *            resetAllCheckins, bulkCheckInByGroup, bulkCheckInByTable,
+ * - Exports: Attendee (type), AttendeeChange (type), WalkInInput (type), AttendeeDetails (type),
+ *            CheckinOperation/CheckinOperationResult (types), fetchAttendees, fetchAttendee, subscribeAttendees,
+ *            toggleCheckin, bulkCheckIn, applyCheckinOperations, registerWalkIn, updateAttendee, saveAttendeeDetails,
+ *            updateAttendeeNotes, saveAttendeeNotes, deleteAttendee, isLocalAttendee, cacheAttendeeChange,
+ *            applyOperationsToAttendees, resetAllCheckins, bulkCheckInByGroup, bulkCheckInByTable,
  *            importAttendeesFromFile, syncFromGoogleSheet.
- * - Major deps: @supabase/supabase-js, services/supabase, services/realtime
- * - Side effects: Opens realtime subscription when subscribeAttendees is called; otherwise pure RPC/queries.
+ * - Major deps: @supabase/supabase-js, services/supabase, services/realtime, services/attendeeStore (offline cache)
+ * - Side effects: Opens realtime subscription when subscribeAttendees is called; keeps the SQLite attendee cache in
+ *                 step with fetches, check-ins and edits; queues check-ins, walk-ins, edits and notes while offline.
+ * - Notes: fetchAttendees only downloads attendees changed since the event's last sync (get_attendee_changes) and
+ *          merges them into the cache; the full roster is fetched when there is no cached copy yet.
  */
 import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Network from 'expo-network';
+import * as Crypto from 'expo-crypto';
 
 import { getSupabaseClient } from './supabase';
 import { subscribeToAttendees as subscribeToAttendeesRealtime } from './realtime';
-import { queueCheckIn, hasPendingCheckIn } from './offlineQueue';
+import {
+  getPendingOperations,
+  hasPendingCheckIn,
+  queueOperation,
+  type QueuedOperation,
+  type QueuedOperationPayload,
+  type QueuedWalkIn
+} from './offlineQueue';
+import type { CheckinSource } from './checkinHistory';
+import {
+  getCachedWatermark,
+  loadCachedAttendees,
+  mergeCachedAttendees,
+  removeCachedAttendee,
+  replaceCachedAttendees,
+  setCachedCheckIn,
+  setCachedCheckIns,
+  upsertCachedAttendee
+} from './attendeeStore';
 
-// Storage key prefix for cached attendees
-const ATTENDEES_CACHE_PREFIX = '@checkin_attendees_';
+// ID prefix for walk-ins registered offline and not yet synced
+const LOCAL_WALK_IN_PREFIX = 'walkin-';
 
 export type Attendee = {
   id: string;
@@ -30,6 +54,11 @@ export type Attendee = {
   checkedInAt?: string | null;
   checkedInBy?: string | null;
   updatedAt?: string | null;
+  /** Bumped by the server on every write; orders changes to the same row (see attendeeList) */
+  rowVersion?: number | null;
+  externalId?: string | null;
+  email?: string | null;
+  isWalkIn?: boolean;
 };
 
 type AttendeeRecord = {
@@ -44,6 +73,11 @@ type AttendeeRecord = {
   checked_in_at: string | null;
   checked_in_by: string | null;
   updated_at: string | null;
+  row_version?: number | string | null;
+  external_id?: string | null;
+  email?: string | null;
+  archived_at?: string | null;
+  is_walk_in?: boolean | null;
 };
 
 export type AttendeeChange = {
@@ -72,17 +106,24 @@ const mapRecordToAttendee = (record: AttendeeRecord | null): Attendee | null =>
     checkedIn,
     checkedInAt: record.checked_in_at,
     checkedInBy: record.checked_in_by,
-    updatedAt: record.updated_at
+    updatedAt: record.updated_at,
+    rowVersion: record.row_version != null ? Number(record.row_version) : null,
+    externalId: record.external_id ?? null,
+    email: record.email ?? null,
+    isWalkIn: Boolean(record.is_walk_in)
   };
 };
 
 /**
- * Save attendees to AsyncStorage cache
+ * Save attendees to the local SQLite cache
  */
-const saveAttendeesToCache = async (eventId: string, attendees: Attendee[]): Promise<void> => {
+const saveAttendeesToCache = async (
+  eventId: string,
+  attendees: Attendee[],
+  watermark: string | null = null
+): Promise<void> => {
   try {
-    const cacheKey = `${ATTENDEES_CACHE_PREFIX}${eventId}`;
-    await AsyncStorage.setItem(cacheKey, JSON.stringify(attendees));
+    await replaceCachedAttendees(eventId, attendees, watermark);
     console.log('💾 Cached attendees for event:', eventId, `(${attendees.length} attendees)`);
   } catch (error) {
     console.error('Failed to cache attendees:', error);
@@ -91,7 +132,26 @@ const saveAttendeesToCache = async (eventId: string, attendees: Attendee[]): Pro
 };
 
 /**
- * Update the cache optimistically when queuing an offline check-in
+ * Add or refresh a single attendee in the cache
+ */
+const saveAttendeeToCache = async (attendee: Attendee): Promise<void> => {
+  try {
+    await upsertCachedAttendee(attendee);
+  } catch (error) {
+    console.error('Failed to cache attendee:', error);
+  }
+};
+
+const removeAttendeeFromCache = async (eventId: string, attendeeId: string): Promise<void> => {
+  try {
+    await removeCachedAttendee(eventId, attendeeId);
+  } catch (error) {
+    console.error('Failed to remove attendee from cache:', error);
+  }
+};
+
+/**
+ * Update the cache optimistically after a check-in (queued offline or applied online)
  */
 const updateCacheOptimistically = async (
   eventId: string,
@@ -99,20 +159,7 @@ const updateCacheOptimistically = async (
   checkedIn: boolean
 ): Promise<void> => {
   try {
-    const cached = await loadAttendeesFromCache(eventId);
-    if (!cached) return;
-
-    const updated = cached.map((attendee) =>
-      attendee.id === attendeeId
-        ? {
-            ...attendee,
-            checkedIn,
-            checkedInAt: checkedIn ? new Date().toISOString() : null,
-          }
-        : attendee
-    );
-
-    await saveAttendeesToCache(eventId, updated);
+    await setCachedCheckIn(eventId, attendeeId, checkedIn, checkedIn ? new Date().toISOString() : null);
     console.log(`📝 Updated cache optimistically for attendee ${attendeeId}`);
   } catch (error) {
     console.error('Failed to update cache optimistically:', error);
@@ -120,53 +167,130 @@ const updateCacheOptimistically = async (
 };
 
 /**
- * Apply pending offline check-ins to attendee list
+ * Same as updateCacheOptimistically for a group/table check-in
+ */
+const updateCacheOptimisticallyForMany = async (
+  eventId: string,
+  attendeeIds: string[],
+  checkedIn: boolean
+): Promise<void> => {
+  try {
+    await setCachedCheckIns(eventId, attendeeIds, checkedIn, checkedIn ? new Date().toISOString() : null);
+  } catch (error) {
+    console.error('Failed to update cache optimistically:', error);
+  }
+};
+
+/**
+ * Apply offline operations (check-ins, walk-ins, edits, notes) to an attendee list, in queue order so later
+ * operations win as they will on the server
+ */
+export const applyOperationsToAttendees = (
+  eventId: string,
+  attendees: Attendee[],
+  operations: QueuedOperation[]
+): Attendee[] => {
+  if (operations.length === 0) {
+    return attendees;
+  }
+
+  const byId = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+  const setCheckIn = (attendeeId: string, checkedIn: boolean, occurredAt: number) => {
+    const attendee = byId.get(attendeeId);
+    if (!attendee) return;
+    byId.set(attendeeId, {
+      ...attendee,
+      checkedIn,
+      checkedInAt: checkedIn ? new Date(occurredAt).toISOString() : null
+    });
+  };
+
+  for (const { payload, occurredAt } of operations) {
+    switch (payload.type) {
+      case 'check_in':
+        setCheckIn(payload.attendeeId, payload.checkedIn, occurredAt);
+        break;
+      case 'bulk_check_in':
+        payload.targets.forEach((target) => setCheckIn(target.attendeeId, payload.checkedIn, occurredAt));
+        break;
+      case 'walk_in':
+        // Unsynced walk-ins only exist locally; restore their placeholders if the cache lost them
+        if (!byId.has(payload.localAttendeeId)) {
+          byId.set(
+            payload.localAttendeeId,
+            buildWalkInPlaceholder(payload.localAttendeeId, eventId, payload.walkIn, occurredAt)
+          );
+        }
+        setCheckIn(payload.localAttendeeId, payload.checkedIn, occurredAt);
+        break;
+      case 'edit_attendee': {
+        const attendee = byId.get(payload.attendeeId);
+        if (attendee) byId.set(payload.attendeeId, { ...attendee, ...payload.details });
+        break;
+      }
+      case 'notes': {
+        const attendee = byId.get(payload.attendeeId);
+        if (attendee) byId.set(payload.attendeeId, { ...attendee, notes: payload.notes });
+        break;
+      }
+    }
+  }
+
+  return Array.from(byId.values());
+};
+
+/**
+ * Apply pending offline operations to the attendee list
  * This ensures optimistic UI updates persist when loading from cache
  */
-const applyPendingCheckIns = async (eventId: string, attendees: Attendee[]): Promise<Attendee[]> => {
+const applyPendingOperations = async (eventId: string, attendees: Attendee[]): Promise<Attendee[]> => {
   try {
-    const { getPendingOperations } = await import('./offlineQueue');
     const pending = await getPendingOperations(eventId);
 
     if (pending.length === 0) {
       return attendees;
     }
 
-    console.log(`🔄 Applying ${pending.length} pending offline check-ins to attendee list`);
-
-    // Create a map of pending states by attendee ID
-    const pendingStates = new Map<string, boolean>();
-    for (const op of pending) {
-      pendingStates.set(op.attendeeId, op.checkedIn);
-    }
-
-    // Apply pending states to attendees
-    return attendees.map((attendee) => {
-      const pendingState = pendingStates.get(attendee.id);
-      if (pendingState !== undefined) {
-        return {
-          ...attendee,
-          checkedIn: pendingState,
-          checkedInAt: pendingState ? new Date().toISOString() : null,
-        };
-      }
-      return attendee;
-    });
+    console.log(`🔄 Applying ${pending.length} pending offline operations to attendee list`);
+    return applyOperationsToAttendees(eventId, attendees, pending);
   } catch (error) {
-    console.error('Failed to apply pending check-ins:', error);
+    console.error('Failed to apply pending operations:', error);
     return attendees;
   }
 };
 
 /**
- * Load attendees from AsyncStorage cache
+ * Local stand-in for a walk-in that has not synced yet
+ */
+const buildWalkInPlaceholder = (
+  localId: string,
+  eventId: string,
+  walkIn: QueuedWalkIn,
+  checkedInAt: number
+): Attendee => ({
+  id: localId,
+  eventId,
+  attendeeName: walkIn.attendeeName,
+  groupName: walkIn.groupName,
+  tableNumber: walkIn.tableNumber,
+  ticketType: walkIn.ticketType,
+  notes: walkIn.notes,
+  checkedIn: true,
+  checkedInAt: new Date(checkedInAt).toISOString(),
+  checkedInBy: null,
+  updatedAt: null,
+  externalId: null,
+  email: null,
+  isWalkIn: true
+});
+
+/**
+ * Load attendees from the local SQLite cache
  */
 const loadAttendeesFromCache = async (eventId: string): Promise<Attendee[] | null> => {
   try {
-    const cacheKey = `${ATTENDEES_CACHE_PREFIX}${eventId}`;
-    const cached = await AsyncStorage.getItem(cacheKey);
-    if (cached) {
-      const attendees = JSON.parse(cached) as Attendee[];
+    const attendees = await loadCachedAttendees(eventId);
+    if (attendees) {
       console.log('📦 Restored attendees from cache for event:', eventId, `(${attendees.length} attendees)`);
       return attendees;
     }
@@ -177,9 +301,84 @@ const loadAttendeesFromCache = async (eventId: string): Promise<Attendee[] | nul
   }
 };
 
-export const fetchAttendees = async (eventId: string, useCache: boolean = true): Promise<Attendee[]> => {
+type AttendeeChangesResponse = {
+  server_time: string;
+  reset: boolean;
+  attendees: AttendeeRecord[];
+  deleted_ids: string[];
+};
+
+const compareByName = (a: Attendee, b: Attendee) =>
+  a.attendeeName.localeCompare(b.attendeeName, undefined, { sensitivity: 'base' });
+
+/**
+ * Fetch only what changed since the event's sync watermark and merge it into the cached roster. Falls back to a full
+ * snapshot (from the same RPC) when there is no watermark or the server asks for a reset.
+ */
+const fetchAttendeeChanges = async (eventId: string): Promise<Attendee[]> => {
+  const supabase = getSupabaseClient();
+  const watermark = await getCachedWatermark(eventId).catch((error) => {
+    console.error('Failed to read sync watermark:', error);
+    return null;
+  });
+
+  const { data, error } = await supabase.rpc('get_attendee_changes', {
+    p_event_id: eventId,
+    p_since: watermark
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const response = data as AttendeeChangesResponse;
+  const toAttendees = (records: AttendeeRecord[]) =>
+    records
+      .map((record) => mapRecordToAttendee(record))
+      .filter((attendee): attendee is Attendee => attendee !== null);
+
+  if (response.reset) {
+    const attendees = toAttendees(response.attendees);
+    await saveAttendeesToCache(eventId, attendees, response.server_time);
+    return attendees;
+  }
+
+  const cached = (await loadAttendeesFromCache(eventId)) ?? [];
+  // Archived attendees (removed by a merge import) are dropped like deletes
+  const archivedIds = response.attendees.filter((record) => record.archived_at).map((record) => String(record.id));
+  const changed = toAttendees(response.attendees.filter((record) => !record.archived_at));
+  // Local walk-in placeholders are replaced by the server rows once synced (pending ones are re-added below)
+  const placeholderIds = cached.filter((attendee) => isLocalAttendee(attendee)).map((attendee) => attendee.id);
+  const removedIds = [...response.deleted_ids.map(String), ...archivedIds, ...placeholderIds];
+
+  if (changed.length > 0 || removedIds.length > 0) {
+    console.log(`🔄 Delta sync for event ${eventId}: ${changed.length} changed, ${removedIds.length} removed`);
+  }
+  try {
+    await mergeCachedAttendees(eventId, changed, removedIds, response.server_time);
+  } catch (mergeError) {
+    console.error('Failed to cache attendee changes:', mergeError);
+  }
+
+  const byId = new Map(cached.map((attendee) => [attendee.id, attendee]));
+  removedIds.forEach((attendeeId) => byId.delete(attendeeId));
+  changed.forEach((attendee) => byId.set(attendee.id, attendee));
+  return Array.from(byId.values()).sort(compareByName);
+};
+
+/**
+ * Load an event's attendees. With `includePending` (the default) pending offline operations are applied on top;
+ * callers that layer them themselves (services/attendeeList) pass false to get the server/cached rows only.
+ */
+export const fetchAttendees = async (
+  eventId: string,
+  useCache: boolean = true,
+  includePending: boolean = true
+): Promise<Attendee[]> => {
   const supabase = getSupabaseClient();
-  
+  const withPending = (attendees: Attendee[]) =>
+    includePending ? applyPendingOperations(eventId, attendees) : Promise.resolve(attendees);
+
   // Check network connectivity
   const networkState = await Network.getNetworkStateAsync();
   const isOnline = networkState.isConnected && networkState.isInternetReachable;
@@ -189,57 +388,64 @@ export const fetchAttendees = async (eventId: string, useCache: boolean = true):
     console.log('📴 Offline detected, loading from cache');
     const cached = await loadAttendeesFromCache(eventId);
     if (cached) {
-      // Apply any pending offline check-ins to show optimistic state
-      const withPending = await applyPendingCheckIns(eventId, cached);
-      return withPending;
+      // Apply any pending offline operations to show optimistic state
+      return withPending(cached);
     }
     console.warn('⚠️ No cache available for offline use');
     throw new Error('Unable to load attendees while offline');
   }
 
-  // Online - fetch from Supabase
+  // Online with a cache - fetch only what changed since the last sync
+  if (useCache) {
+    try {
+      return await withPending(await fetchAttendeeChanges(eventId));
+    } catch (error) {
+      console.error('fetchAttendees failed:', JSON.stringify(error, null, 2));
+
+      // If fetch fails and we have cache, use it as fallback
+      console.log('⚠️ Fetch failed, attempting to load from cache');
+      const cached = await loadAttendeesFromCache(eventId);
+      if (cached) {
+        console.log('✅ Using cached data as fallback');
+        // Apply any pending offline operations
+        return withPending(cached);
+      }
+      throw error;
+    }
+  }
+
+  // Online without the cache - fetch the full roster from Supabase
   const { data, error } = await supabase
     .from('attendees')
     .select('*')
     .eq('event_id', eventId)
+    .is('archived_at', null)
     .order('full_name');
 
   if (error) {
     console.error('fetchAttendees failed:', JSON.stringify(error, null, 2));
-    
-    // If fetch fails and we have cache, use it as fallback
-    if (useCache) {
-      console.log('⚠️ Fetch failed, attempting to load from cache');
-      const cached = await loadAttendeesFromCache(eventId);
-      if (cached) {
-        console.log('✅ Using cached data as fallback');
-        // Apply any pending offline check-ins
-        const withPending = await applyPendingCheckIns(eventId, cached);
-        return withPending;
-      }
-    }
-    
     throw error;
   }
 
-  const attendees = (data ?? [])
+  return (data ?? [])
     .map((record) => mapRecordToAttendee(record as AttendeeRecord))
     .filter((attendee): attendee is Attendee => attendee !== null);
-
-  // Save to cache for offline use
-  if (useCache) {
-    await saveAttendeesToCache(eventId, attendees);
-  }
-
-  return attendees;
 };
 
 /**
- * Sync attendees cache after successful update
+ * Apply a realtime change to the cached roster. Call before updating screen state so queries of the cache
+ * issued afterwards already see the change.
  */
-export const syncAttendeesCache = async (eventId: string, attendees: Attendee[]): Promise<void> => {
-  await saveAttendeesToCache(eventId, attendees);
-  console.log('🔁 Synced cached attendees after update');
+export const cacheAttendeeChange = async (eventId: string, change: AttendeeChange): Promise<void> => {
+  if (change.type === 'DELETE') {
+    const removedId =
+      change.attendee?.id ?? String((change.payload.old as { id?: string | number } | null)?.id ?? '');
+    if (removedId) {
+      await removeAttendeeFromCache(eventId, removedId);
+    }
+  } else if (change.attendee && change.attendee.eventId === eventId) {
+    await saveAttendeeToCache(change.attendee);
+  }
 };
 
 export const subscribeAttendees = (
@@ -260,8 +466,6 @@ export const subscribeAttendees = (
         console.log('🔄 Realtime reconnected, refreshing attendee data');
         onReconnected?.();
       },
-      reconnectAttempts: 5,
-      reconnectDelay: 2000,
     },
     (payload) => {
       const attendee = mapRecordToAttendee(
@@ -269,9 +473,11 @@ export const subscribeAttendees = (
           | AttendeeRecord
           | null
       );
+      // Archived attendees (removed by a merge import) disappear from the list like deletes
+      const archived = payload.eventType !== 'DELETE' && Boolean((payload.new as AttendeeRecord | null)?.archived_at);
 
       onChange({
-        type: payload.eventType,
+        type: archived ? 'DELETE' : payload.eventType,
         attendee,
         payload: payload as RealtimePostgresChangesPayload<AttendeeRecord>
       });
@@ -288,7 +494,8 @@ export type ToggleCheckinResult = {
 export const toggleCheckin = async (
   attendeeId: string,
   checkedIn: boolean,
-  eventId?: string
+  eventId?: string,
+  source: CheckinSource = 'tap'
 ): Promise<ToggleCheckinResult> => {
   // Check network connectivity
   const networkState = await Network.getNetworkStateAsync();
@@ -297,7 +504,7 @@ export const toggleCheckin = async (
   // If offline and we have an eventId, queue the operation
   if (!isOnline && eventId) {
     console.log(`📴 Offline: queuing check-in for attendee ${attendeeId}`);
-    const result = await queueCheckIn(attendeeId, eventId, checkedIn);
+    const result = await queueOperation(eventId, { type: 'check_in', attendeeId, checkedIn });
 
     if (result.success) {
       // Update the local cache optimistically so refreshes show correct state
@@ -312,15 +519,17 @@ export const toggleCheckin = async (
   const supabase = getSupabaseClient();
   const { error } = await supabase.rpc('toggle_checkin', {
     p_attendee_id: attendeeId,
-    p_checked: checkedIn
+    p_checked: checkedIn,
+    p_source: source
   });
 
   if (error) {
     // If online request fails, try to queue if we have eventId
     if (eventId) {
       console.log(`⚠️ Online check-in failed, queuing for retry: ${error.message}`);
-      const queueResult = await queueCheckIn(attendeeId, eventId, checkedIn);
+      const queueResult = await queueOperation(eventId, { type: 'check_in', attendeeId, checkedIn });
       if (queueResult.success) {
+        await updateCacheOptimistically(eventId, attendeeId, checkedIn);
         return { success: true, queued: true };
       }
     }
@@ -328,9 +537,419 @@ export const toggleCheckin = async (
     return { success: false, queued: false, error: error.message };
   }
 
+  if (eventId) {
+    await updateCacheOptimistically(eventId, attendeeId, checkedIn);
+  }
   return { success: true, queued: false };
 };
 
+export type CheckinOperation = {
+  opId: string;
+  attendeeId: string;
+  checkedIn: boolean;
+  occurredAt: number;
+  source?: CheckinSource;
+};
+
+export type CheckinOperationResult = {
+  op_id: string;
+  status: 'applied' | 'unchanged' | 'conflict' | 'not_found';
+  attendee_id: string | null;
+  attendee_name: string | null;
+  server_checked_in: boolean | null;
+  server_changed_at: string | null;
+  server_changed_by: string | null;
+  previous_updated_at?: string | null;
+  server_updated_at?: string | null;
+};
+
+/**
+ * Apply check-in operations through apply_checkin_operations. Each operation is applied at most once (by op ID) and
+ * only if nothing newer happened to the attendee; results are keyed by op ID.
+ */
+export const applyCheckinOperations = async (
+  operations: CheckinOperation[]
+): Promise<Map<string, CheckinOperationResult>> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('apply_checkin_operations', {
+    p_operations: operations.map((operation) => ({
+      op_id: operation.opId,
+      attendee_id: operation.attendeeId,
+      checked: operation.checkedIn,
+      occurred_at: new Date(operation.occurredAt).toISOString(),
+      ...(operation.source ? { source: operation.source } : {})
+    }))
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(((data as CheckinOperationResult[] | null) ?? []).map((result) => [result.op_id, result]));
+};
+
+export type BulkCheckInResult = {
+  success: boolean;
+  queued: boolean;
+  /** Attendees whose state changed (online) or will change once synced (queued) */
+  count: number;
+  error?: string;
+};
+
+/**
+ * Check in (or undo) a whole group or table. Offline this is a single queued operation however many attendees it
+ * covers; walk-ins that have not synced yet are updated through their pending registration.
+ */
+export const bulkCheckIn = async (
+  eventId: string,
+  scope: 'group' | 'table',
+  label: string,
+  attendeeIds: string[],
+  checkedIn: boolean
+): Promise<BulkCheckInResult> => {
+  const localIds = attendeeIds.filter((id) => id.startsWith(LOCAL_WALK_IN_PREFIX));
+  const serverIds = attendeeIds.filter((id) => !id.startsWith(LOCAL_WALK_IN_PREFIX));
+
+  for (const attendeeId of localIds) {
+    const result = await queueOperation(eventId, { type: 'check_in', attendeeId, checkedIn });
+    if (!result.success) {
+      return { success: false, queued: false, count: 0, error: result.error };
+    }
+  }
+
+  const queueOffline = async (): Promise<BulkCheckInResult> => {
+    const result = await queueOperation(eventId, {
+      type: 'bulk_check_in',
+      scope,
+      label,
+      checkedIn,
+      targets: serverIds.map((attendeeId) => ({ attendeeId, operationId: Crypto.randomUUID() }))
+    });
+    if (!result.success) {
+      return { success: false, queued: false, count: 0, error: result.error };
+    }
+    await updateCacheOptimisticallyForMany(eventId, attendeeIds, checkedIn);
+    return { success: true, queued: true, count: attendeeIds.length };
+  };
+
+  if (serverIds.length === 0) {
+    await updateCacheOptimisticallyForMany(eventId, localIds, checkedIn);
+    return { success: true, queued: localIds.length > 0, count: localIds.length };
+  }
+
+  const networkState = await Network.getNetworkStateAsync();
+  const isOnline = networkState.isConnected && networkState.isInternetReachable;
+
+  if (!isOnline) {
+    console.log(`📴 Offline: queuing ${scope} check-in for ${serverIds.length} attendees`);
+    return queueOffline();
+  }
+
+  try {
+    const now = Date.now();
+    const results = await applyCheckinOperations(
+      serverIds.map((attendeeId) => ({
+        opId: Crypto.randomUUID(),
+        attendeeId,
+        checkedIn,
+        occurredAt: now,
+        source: scope
+      }))
+    );
+    await updateCacheOptimisticallyForMany(eventId, attendeeIds, checkedIn);
+    const applied = Array.from(results.values()).filter((result) => result.status === 'applied').length;
+    return { success: true, queued: localIds.length > 0, count: applied + localIds.length };
+  } catch (error) {
+    console.log(`⚠️ ${scope} check-in failed, queuing for retry: ${error instanceof Error ? error.message : error}`);
+    return queueOffline();
+  }
+};
+
+export type WalkInInput = {
+  attendeeName: string;
+  groupName?: string;
+  tableNumber?: string;
+  ticketType?: string;
+  notes?: string;
+};
+
+export type RegisterWalkInResult = {
+  success: boolean;
+  queued: boolean;
+  attendee?: Attendee;
+  error?: string;
+};
+
+const generateClientRef = (): string => `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+/**
+ * Create a walk-in attendee and check them in in one step. Offline (or when the request fails)
+ * the registration is queued with a local placeholder that is replaced once it syncs.
+ */
+export const registerWalkIn = async (
+  eventId: string,
+  input: WalkInInput
+): Promise<RegisterWalkInResult> => {
+  const walkIn: QueuedWalkIn = {
+    clientRef: generateClientRef(),
+    attendeeName: input.attendeeName.trim(),
+    groupName: input.groupName?.trim() ?? '',
+    tableNumber: input.tableNumber?.trim() ?? '',
+    ticketType: input.ticketType?.trim() ?? '',
+    notes: input.notes?.trim() || null
+  };
+
+  if (!walkIn.attendeeName) {
+    return { success: false, queued: false, error: 'Name is required' };
+  }
+
+  const queueOffline = async (): Promise<RegisterWalkInResult> => {
+    const localId = `${LOCAL_WALK_IN_PREFIX}${walkIn.clientRef}`;
+    const result = await queueOperation(eventId, {
+      type: 'walk_in',
+      localAttendeeId: localId,
+      checkedIn: true,
+      walkIn
+    });
+    if (!result.success) {
+      return { success: false, queued: false, error: result.error };
+    }
+
+    const placeholder = buildWalkInPlaceholder(localId, eventId, walkIn, Date.now());
+    await saveAttendeeToCache(placeholder);
+    return { success: true, queued: true, attendee: placeholder };
+  };
+
+  const networkState = await Network.getNetworkStateAsync();
+  const isOnline = networkState.isConnected && networkState.isInternetReachable;
+
+  if (!isOnline) {
+    console.log(`📴 Offline: queuing walk-in ${walkIn.attendeeName}`);
+    return queueOffline();
+  }
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('register_walk_in', {
+    p_event_id: eventId,
+    p_client_ref: walkIn.clientRef,
+    p_full_name: walkIn.attendeeName,
+    p_group_name: walkIn.groupName,
+    p_table_number: walkIn.tableNumber,
+    p_ticket_type: walkIn.ticketType,
+    p_notes: walkIn.notes
+  });
+
+  if (error) {
+    console.log(`⚠️ Walk-in registration failed, queuing for retry: ${error.message}`);
+    return queueOffline();
+  }
+
+  const attendee: Attendee = {
+    ...buildWalkInPlaceholder(String(data), eventId, walkIn, Date.now()),
+    checkedInBy: 'current-user'
+  };
+  await saveAttendeeToCache(attendee);
+  return { success: true, queued: false, attendee };
+};
+
+/**
+ * True for walk-ins that only exist on this device until their registration syncs
+ */
+export const isLocalAttendee = (attendee: Pick<Attendee, 'id'>): boolean =>
+  attendee.id.startsWith(LOCAL_WALK_IN_PREFIX);
+
+/**
+ * Fetch the latest server copy of one attendee (null if it no longer exists)
+ */
+export const fetchAttendee = async (attendeeId: string): Promise<Attendee | null> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('attendees')
+    .select('*')
+    .eq('id', attendeeId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('fetchAttendee failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return mapRecordToAttendee(data as AttendeeRecord | null);
+};
+
+export type AttendeeDetails = {
+  attendeeName: string;
+  groupName: string;
+  tableNumber: string;
+  ticketType: string;
+  notes: string | null;
+};
+
+export type UpdateAttendeeResult =
+  | { status: 'updated'; attendee: Attendee }
+  /** Saved on this device while offline; `attendee` is the optimistic copy */
+  | { status: 'queued'; attendee: Attendee }
+  /** Someone changed (current) or deleted (null) the attendee since it was loaded */
+  | { status: 'conflict'; current: Attendee | null };
+
+export type DeleteAttendeeResult =
+  | { status: 'deleted' }
+  | { status: 'conflict'; current: Attendee | null };
+
+type AttendeeWriteResponse = {
+  status: 'updated' | 'deleted' | 'conflict' | 'not_found';
+  attendee: AttendeeRecord | null;
+};
+
+const toUpdateResult = async (
+  response: AttendeeWriteResponse
+): Promise<Exclude<UpdateAttendeeResult, { status: 'queued' }>> => {
+  const current = mapRecordToAttendee(response.attendee);
+  if (current) {
+    await saveAttendeeToCache(current);
+  }
+  if (response.status === 'updated' && current) {
+    return { status: 'updated', attendee: current };
+  }
+  return { status: 'conflict', current };
+};
+
+/**
+ * Queue an edit while offline and show it in the cache straight away
+ */
+const queueAttendeeWrite = async (
+  attendee: Attendee,
+  payload: Extract<QueuedOperationPayload, { type: 'edit_attendee' | 'notes' }>,
+  optimistic: Attendee
+): Promise<UpdateAttendeeResult> => {
+  const result = await queueOperation(attendee.eventId, payload);
+  if (!result.success) {
+    throw new Error(result.error ?? 'Unable to save changes offline');
+  }
+  await saveAttendeeToCache(optimistic);
+  return { status: 'queued', attendee: optimistic };
+};
+
+/**
+ * Send edited details to the server. Only succeeds if the attendee is unchanged since `expectedUpdatedAt`;
+ * otherwise the current server copy is returned so the caller can resolve the conflict.
+ */
+export const saveAttendeeDetails = async (
+  attendeeId: string,
+  expectedUpdatedAt: string | null,
+  details: AttendeeDetails
+): Promise<Exclude<UpdateAttendeeResult, { status: 'queued' }>> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('update_attendee', {
+    p_attendee_id: attendeeId,
+    p_expected_updated_at: expectedUpdatedAt,
+    p_full_name: details.attendeeName,
+    p_group_name: details.groupName,
+    p_table_number: details.tableNumber,
+    p_ticket_type: details.ticketType,
+    p_notes: details.notes ?? ''
+  });
+
+  if (error) {
+    console.error('updateAttendee failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return toUpdateResult(data as AttendeeWriteResponse);
+};
+
+/**
+ * Save edited details, guarded by `attendee.updatedAt` (see saveAttendeeDetails). Offline the edit is queued and
+ * checked against the same version when it syncs.
+ */
+export const updateAttendee = async (attendee: Attendee, details: AttendeeDetails): Promise<UpdateAttendeeResult> => {
+  const networkState = await Network.getNetworkStateAsync();
+  const isOnline = networkState.isConnected && networkState.isInternetReachable;
+
+  if (!isOnline) {
+    console.log(`📴 Offline: queuing edit for attendee ${attendee.id}`);
+    return queueAttendeeWrite(
+      attendee,
+      { type: 'edit_attendee', attendeeId: attendee.id, expectedUpdatedAt: attendee.updatedAt ?? null, details },
+      { ...attendee, ...details, notes: details.notes?.trim() || null }
+    );
+  }
+
+  return saveAttendeeDetails(attendee.id, attendee.updatedAt ?? null, details);
+};
+
+/**
+ * Send an attendee's notes to the server, guarded like saveAttendeeDetails. Available to all check-in staff.
+ */
+export const saveAttendeeNotes = async (
+  attendeeId: string,
+  expectedUpdatedAt: string | null,
+  notes: string | null
+): Promise<Exclude<UpdateAttendeeResult, { status: 'queued' }>> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('set_attendee_notes', {
+    p_attendee_id: attendeeId,
+    p_expected_updated_at: expectedUpdatedAt,
+    p_notes: notes ?? ''
+  });
+
+  if (error) {
+    console.error('updateAttendeeNotes failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return toUpdateResult(data as AttendeeWriteResponse);
+};
+
+/**
+ * Save an attendee's notes, queuing them while offline
+ */
+export const updateAttendeeNotes = async (attendee: Attendee, notes: string | null): Promise<UpdateAttendeeResult> => {
+  const networkState = await Network.getNetworkStateAsync();
+  const isOnline = networkState.isConnected && networkState.isInternetReachable;
+
+  if (!isOnline) {
+    console.log(`📴 Offline: queuing notes for attendee ${attendee.id}`);
+    return queueAttendeeWrite(
+      attendee,
+      { type: 'notes', attendeeId: attendee.id, expectedUpdatedAt: attendee.updatedAt ?? null, notes },
+      { ...attendee, notes: notes?.trim() || null }
+    );
+  }
+
+  return saveAttendeeNotes(attendee.id, attendee.updatedAt ?? null, notes);
+};
+
+/**
+ * Delete an attendee, guarded by `attendee.updatedAt` like updateAttendee
+ */
+export const deleteAttendee = async (
+  attendee: Pick<Attendee, 'id' | 'eventId' | 'updatedAt'>
+): Promise<DeleteAttendeeResult> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('delete_attendee', {
+    p_attendee_id: attendee.id,
+    p_expected_updated_at: attendee.updatedAt ?? null
+  });
+
+  if (error) {
+    console.error('deleteAttendee failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  const response = data as AttendeeWriteResponse;
+  const current = mapRecordToAttendee(response.attendee);
+  if (current) {
+    await saveAttendeeToCache(current);
+  } else {
+    await removeAttendeeFromCache(attendee.eventId, attendee.id);
+  }
+  if (response.status === 'deleted') {
+    return { status: 'deleted' };
+  }
+  return { status: 'conflict', current };
+};
+
 /**
  * Check if an attendee has a pending offline check-in
  */
@@ -0,0 +1,59 @@
+/**
+ * Lintnotes
+ * - Purpose: Background task that drains the offline operation queue when the OS wakes the app, so check-ins made
+ *            on a locked or backgrounded phone still reach the server.
+ * - Exports: BACKGROUND_SYNC_TASK, registerBackgroundSync, unregisterBackgroundSync
+ * - Major deps: expo-task-manager, expo-background-task, services/syncManager
+ * - Side effects: Defines the task at import time (TaskManager requires it at module scope, so this module is
+ *                 imported from the root layout); registering schedules it with the OS.
+ * - Notes: The OS decides when the task runs (at most every 15 minutes, usually less often, and only with network).
+ */
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+
+import { runBackgroundSync } from './syncManager';
+
+export const BACKGROUND_SYNC_TASK = 'checkin-background-sync';
+
+// Minutes between runs; the OS treats this as a lower bound
+const MINIMUM_INTERVAL_MINUTES = 15;
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    const result = await runBackgroundSync();
+    if (result.total > 0) {
+      console.log(`Background sync: ${result.synced} synced, ${result.failed} failed out of ${result.total}`);
+    }
+    return result.failed > 0 ? BackgroundTask.BackgroundTaskResult.Failed : BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('Background sync failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Ask the OS to run the sync task periodically. Returns false when background tasks are unavailable (web, or
+ * disabled by the user or OS).
+ */
+export async function registerBackgroundSync(): Promise<boolean> {
+  const status = await BackgroundTask.getStatusAsync();
+  if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+    console.log('Background tasks are not available, offline changes will sync while the app is open');
+    return false;
+  }
+
+  if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+    await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, { minimumInterval: MINIMUM_INTERVAL_MINUTES });
+    console.log('Registered background sync task');
+  }
+  return true;
+}
+
+/**
+ * Stop the OS from running the sync task
+ */
+export async function unregisterBackgroundSync(): Promise<void> {
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Lintnotes
+ * - Purpose: Read the append-only check-in audit trail (who checked in whom, when, and how).
+ * - Exports: CheckinAction/CheckinSource/CheckinEvent (types), fetchAttendeeHistory, fetchEventHistory,
+ *            describeCheckinAction, describeCheckinSource
+ * - Major deps: services/supabase client; checkin_events table (written server-side by check-in RPCs)
+ * - Side effects: None (read-only queries).
+ */
+import { getSupabaseClient } from './supabase';
+
+export type CheckinAction = 'check_in' | 'undo' | 'bulk_check_in' | 'bulk_undo' | 'reset';
+
+export type CheckinSource = 'swipe' | 'tap' | 'group' | 'table' | 'offline_sync' | 'admin' | 'walk_in';
+
+export type CheckinEvent = {
+  id: string;
+  eventId: string;
+  attendeeId: string | null;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: CheckinAction;
+  source: CheckinSource;
+  createdAt: string;
+};
+
+type CheckinEventRecord = {
+  id: string;
+  event_id: string;
+  attendee_id: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: CheckinAction;
+  source: CheckinSource;
+  created_at: string;
+};
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+const mapRecordToCheckinEvent = (record: CheckinEventRecord): CheckinEvent => ({
+  id: String(record.id),
+  eventId: String(record.event_id),
+  attendeeId: record.attendee_id ? String(record.attendee_id) : null,
+  actorId: record.actor_id,
+  actorEmail: record.actor_email,
+  action: record.action,
+  source: record.source,
+  createdAt: record.created_at,
+});
+
+/**
+ * Fetch the history for a single attendee, newest first
+ */
+export const fetchAttendeeHistory = async (
+  attendeeId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<CheckinEvent[]> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('checkin_events')
+    .select('*')
+    .eq('attendee_id', attendeeId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('fetchAttendeeHistory failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return (data ?? []).map((record) => mapRecordToCheckinEvent(record as CheckinEventRecord));
+};
+
+/**
+ * Fetch the most recent check-in activity across an event, newest first
+ */
+export const fetchEventHistory = async (
+  eventId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<CheckinEvent[]> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('checkin_events')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('fetchEventHistory failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return (data ?? []).map((record) => mapRecordToCheckinEvent(record as CheckinEventRecord));
+};
+
+export const describeCheckinAction = (action: CheckinAction): string => {
+  switch (action) {
+    case 'check_in':
+      return 'Checked in';
+    case 'undo':
+      return 'Returned to pending';
+    case 'bulk_check_in':
+      return 'Checked in (bulk)';
+    case 'bulk_undo':
+      return 'Returned to pending (bulk)';
+    case 'reset':
+      return 'Reset by manager';
+    default:
+      return action;
+  }
+};
+
+export const describeCheckinSource = (source: CheckinSource): string => {
+  switch (source) {
+    case 'swipe':
+      return 'Swipe';
+    case 'tap':
+      return 'Tap';
+    case 'group':
+      return 'Group check-in';
+    case 'table':
+      return 'Table check-in';
+    case 'offline_sync':
+      return 'Offline sync';
+    case 'admin':
+      return 'Admin tools';
+    case 'walk_in':
+      return 'Walk-in registration';
+    default:
+      return source;
+  }
+};
@@ -0,0 +1,191 @@
+/**
+ * Lintnotes
+ * - Purpose: Roster column mapping: synonym-based auto-detection from file headers, per-row preview validation,
+ *            and per-event persistence of confirmed mappings.
+ * - Exports: ColumnField/ColumnMapping/PreviewRow (types), COLUMN_FIELDS, describeColumnField, suggestColumnMapping,
+ *            buildImportPreview, loadSavedColumnMapping, saveColumnMapping
+ * - Major deps: @react-native-async-storage/async-storage, services/csvParser (CsvParseResult), services/rosterMerge
+ * - Side effects: Reads/writes saved mappings in AsyncStorage.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CsvParseResult } from './csvParser';
+import { describeMatchKey, normalizeMatchValue, type MatchKey } from './rosterMerge';
+
+const COLUMN_MAPPING_PREFIX = '@checkin_column_mapping_';
+
+export type ColumnField = 'name' | 'group' | 'table' | 'ticketType' | 'notes' | 'externalId' | 'email';
+
+/** Maps each attendee field to a file header ('' = not imported) */
+export type ColumnMapping = Record<ColumnField, string>;
+
+export type PreviewRow = {
+  line: number;
+  name: string;
+  group: string;
+  table: string;
+  ticketType: string;
+  notes: string;
+  externalId: string;
+  email: string;
+  issues: string[];
+};
+
+export const COLUMN_FIELDS: ColumnField[] = ['name', 'group', 'table', 'ticketType', 'notes', 'externalId', 'email'];
+
+const emptyMapping = (): ColumnMapping => ({
+  name: '',
+  group: '',
+  table: '',
+  ticketType: '',
+  notes: '',
+  externalId: '',
+  email: '',
+});
+
+// Normalized (lowercase, alphanumeric only) header synonyms, most specific first
+const COLUMN_SYNONYMS: Record<ColumnField, string[]> = {
+  name: ['name', 'fullname', 'attendeename', 'attendee', 'guestname', 'guest', 'participant', 'registrant'],
+  group: ['group', 'groupname', 'party', 'organization', 'organisation', 'company', 'household', 'team'],
+  table: ['table', 'tablenumber', 'tableno', 'tablenum', 'tbl', 'seat', 'seating', 'tableassignment'],
+  ticketType: ['ticket', 'tickettype', 'tickettier', 'tier', 'admission', 'admissiontype', 'pass', 'registrationtype'],
+  notes: ['notes', 'note', 'comments', 'comment', 'remarks', 'dietary', 'specialrequests'],
+  externalId: ['externalid', 'id', 'guestid', 'attendeeid', 'registrationid', 'ticketid', 'ticketnumber', 'orderid', 'barcode'],
+  email: ['email', 'emailaddress', 'mail', 'contactemail'],
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const describeColumnField = (field: ColumnField): string => {
+  switch (field) {
+    case 'name':
+      return 'Name';
+    case 'group':
+      return 'Group';
+    case 'table':
+      return 'Table';
+    case 'ticketType':
+      return 'Ticket Type';
+    case 'notes':
+      return 'Notes';
+    case 'externalId':
+      return 'External ID';
+    case 'email':
+      return 'Email';
+    default:
+      return field;
+  }
+};
+
+/**
+ * Suggest a mapping for the given headers. Exact synonym matches win over partial matches,
+ * and each header is used for at most one field.
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = emptyMapping();
+  const used = new Set<string>();
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+
+  const assign = (match: (key: string, synonym: string) => boolean) => {
+    for (const field of COLUMN_FIELDS) {
+      if (mapping[field]) continue;
+      for (const synonym of COLUMN_SYNONYMS[field]) {
+        const candidate = normalized.find(({ header, key }) => !used.has(header) && key && match(key, synonym));
+        if (candidate) {
+          mapping[field] = candidate.header;
+          used.add(candidate.header);
+          break;
+        }
+      }
+    }
+  };
+
+  assign((key, synonym) => key === synonym);
+  // Partial matches (e.g. "Guest Full Name") only use synonyms long enough to be unambiguous
+  assign((key, synonym) => synonym.length >= 4 && key.includes(synonym));
+
+  return mapping;
+};
+
+/**
+ * Apply a mapping to the first rows of a parsed file and flag rows that would be skipped or conflict
+ * on the match key
+ */
+export const buildImportPreview = (
+  parsed: CsvParseResult,
+  mapping: ColumnMapping,
+  matchKey: MatchKey = 'name',
+  limit: number = parsed.rows.length
+): PreviewRow[] => {
+  const seenKeys = new Map<string, number>();
+  const matchField: ColumnField = matchKey;
+  const matchLabel = describeMatchKey(matchKey).toLowerCase();
+  const read = (values: Record<string, string>, field: ColumnField): string =>
+    mapping[field] ? (values[mapping[field]] ?? '').trim() : '';
+
+  return parsed.rows.slice(0, limit).map(({ line, values }) => {
+    const row: PreviewRow = {
+      line,
+      name: read(values, 'name'),
+      group: read(values, 'group'),
+      table: read(values, 'table'),
+      ticketType: read(values, 'ticketType'),
+      notes: read(values, 'notes'),
+      externalId: read(values, 'externalId'),
+      email: read(values, 'email'),
+      issues: [],
+    };
+
+    if (!mapping.name) {
+      row.issues.push('No column mapped to Name');
+    } else if (!row.name) {
+      row.issues.push('Missing name (row will be skipped)');
+    } else if (!mapping[matchField]) {
+      row.issues.push(`No column mapped to ${describeMatchKey(matchKey)}`);
+    } else {
+      const key = normalizeMatchValue(row[matchField]);
+      const firstLine = key ? seenKeys.get(key) : undefined;
+      if (!key) {
+        row.issues.push(`Missing ${matchLabel} (row will be skipped)`);
+      } else if (firstLine !== undefined) {
+        row.issues.push(`Duplicate of line ${firstLine}`);
+      } else {
+        seenKeys.set(key, line);
+      }
+    }
+
+    return row;
+  });
+};
+
+/**
+ * Load the mapping confirmed for this event last time, if all of its headers are still present
+ */
+export const loadSavedColumnMapping = async (
+  eventId: string,
+  headers: string[]
+): Promise<ColumnMapping | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${COLUMN_MAPPING_PREFIX}${eventId}`);
+    if (!stored) return null;
+
+    const saved = JSON.parse(stored) as Partial<ColumnMapping>;
+    const mapping = emptyMapping();
+    for (const field of COLUMN_FIELDS) {
+      const header = saved[field] ?? '';
+      if (header && !headers.includes(header)) return null;
+      mapping[field] = header;
+    }
+    return mapping.name ? mapping : null;
+  } catch (error) {
+    console.error('Failed to load saved column mapping:', error);
+    return null;
+  }
+};
+
+export const saveColumnMapping = async (eventId: string, mapping: ColumnMapping): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(`${COLUMN_MAPPING_PREFIX}${eventId}`, JSON.stringify(mapping));
+  } catch (error) {
+    console.error('Failed to save column mapping:', error);
+  }
+};
@@ -0,0 +1,354 @@
+/**
+ * Lintnotes
+ * - Purpose: RFC 4180 CSV parsing for roster imports: tokenizer, delimiter sniffing, and byte-level encoding
+ *            detection (BOM, UTF-8, UTF-16, Windows-1252 fallback).
+ * - Exports: CsvRecord/CsvParseError/CsvParseResult/CsvEncoding (types), CsvTokenizer (class), decodeCsvBytes,
+ *            sniffDelimiter, parseCsvText
+ * - Major deps: None (pure TypeScript).
+ * - Side effects: None.
+ * - Notes: Files are read and decoded whole (encoding detection looks at every byte); rosters are small enough for
+ *          that. The tokenizer takes text in pieces, but parseCsvText hands it the whole string.
+ */
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type CsvRecord = {
+  /** 1-based line number in the source where this record starts */
+  line: number;
+  fields: string[];
+};
+
+export type CsvParseError = {
+  line: number;
+  message: string;
+};
+
+export type CsvParseResult = {
+  headers: string[];
+  rows: Array<{ line: number; values: Record<string, string> }>;
+  errors: CsvParseError[];
+  delimiter: string;
+};
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const SNIFF_SAMPLE_LINES = 10;
+
+// Windows-1252 differs from Latin-1 only in 0x80–0x9F
+const WINDOWS_1252_HIGH: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+  0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+  0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+/**
+ * Decode UTF-8 bytes; returns null when the bytes are not valid UTF-8
+ */
+const decodeUtf8 = (bytes: Uint8Array, start: number): string | null => {
+  const codePoints: number[] = [];
+  let i = start;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let needed = 0;
+    let codePoint = 0;
+
+    if (byte < 0x80) {
+      codePoints.push(byte);
+      i += 1;
+      continue;
+    } else if (byte >= 0xc2 && byte <= 0xdf) {
+      needed = 1;
+      codePoint = byte & 0x1f;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      needed = 2;
+      codePoint = byte & 0x0f;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      needed = 3;
+      codePoint = byte & 0x07;
+    } else {
+      return null;
+    }
+
+    // Truncated multi-byte sequence
+    if (i + needed >= bytes.length) {
+      return null;
+    }
+
+    for (let j = 1; j <= needed; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) return null;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    // Reject overlong encodings and surrogates
+    if (
+      (needed === 2 && codePoint < 0x800) ||
+      (needed === 3 && (codePoint < 0x10000 || codePoint > 0x10ffff)) ||
+      (codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ) {
+      return null;
+    }
+
+    codePoints.push(codePoint);
+    i += needed + 1;
+  }
+
+  return codePointsToString(codePoints);
+};
+
+const decodeUtf16 = (bytes: Uint8Array, start: number, littleEndian: boolean): string => {
+  const units: number[] = [];
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    units.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+  }
+  let result = '';
+  for (let i = 0; i < units.length; i += 4096) {
+    result += String.fromCharCode(...units.slice(i, i + 4096));
+  }
+  return result;
+};
+
+const decodeWindows1252 = (bytes: Uint8Array): string => {
+  const codePoints: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    codePoints.push(WINDOWS_1252_HIGH[byte] ?? byte);
+  }
+  return codePointsToString(codePoints);
+};
+
+const codePointsToString = (codePoints: number[]): string => {
+  let result = '';
+  for (let i = 0; i < codePoints.length; i += 4096) {
+    result += String.fromCodePoint(...codePoints.slice(i, i + 4096));
+  }
+  return result;
+};
+
+/**
+ * Detect the encoding of raw CSV bytes and decode to a string (BOM stripped)
+ */
+export const decodeCsvBytes = (bytes: Uint8Array): { text: string; encoding: CsvEncoding } => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: decodeUtf8(bytes, 3) ?? decodeWindows1252(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: decodeUtf16(bytes, 2, true), encoding: 'utf-16le' };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: decodeUtf16(bytes, 2, false), encoding: 'utf-16be' };
+  }
+
+  const utf8 = decodeUtf8(bytes, 0);
+  if (utf8 !== null) {
+    return { text: utf8, encoding: 'utf-8' };
+  }
+
+  // Excel on Windows exports "CSV" in the system ANSI code page
+  return { text: decodeWindows1252(bytes), encoding: 'windows-1252' };
+};
+
+/**
+ * RFC 4180 tokenizer. Feed text with push() (in one piece or several; state carries across calls), then call end().
+ * Handles quoted fields, escaped quotes (""), embedded newlines, and CR/LF/CRLF line endings.
+ */
+export class CsvTokenizer {
+  private field = '';
+  private fields: string[] = [];
+  private inQuotes = false;
+  private quoteClosed = false;
+  private pendingCR = false;
+  private line = 1;
+  private recordLine = 1;
+  private fieldStarted = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly onRecord: (record: CsvRecord) => void,
+    private readonly onError: (error: CsvParseError) => void = () => {}
+  ) {}
+
+  push(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // A CR followed by LF is a single line break
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') {
+          if (this.inQuotes) this.field += char;
+          continue;
+        }
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false;
+          this.quoteClosed = true;
+        } else {
+          if (char === '\n') this.line += 1;
+          if (char === '\r') {
+            this.line += 1;
+            this.pendingCR = true;
+          }
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (this.quoteClosed && char === '"') {
+        // Escaped quote inside a quoted field
+        this.field += '"';
+        this.inQuotes = true;
+        this.quoteClosed = false;
+        continue;
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        this.endRecord();
+        this.line += 1;
+        this.recordLine = this.line;
+        if (char === '\r') this.pendingCR = true;
+        continue;
+      }
+
+      if (char === '"') {
+        if (!this.fieldStarted) {
+          this.inQuotes = true;
+          this.fieldStarted = true;
+          continue;
+        }
+        this.onError({ line: this.line, message: 'Unexpected quote in unquoted field' });
+      } else if (this.quoteClosed) {
+        this.onError({ line: this.line, message: 'Unexpected character after closing quote' });
+      }
+
+      this.field += char;
+      this.fieldStarted = true;
+    }
+  }
+
+  end(): void {
+    if (this.inQuotes) {
+      this.onError({ line: this.recordLine, message: 'Unterminated quoted field' });
+      this.inQuotes = false;
+    }
+    if (this.fieldStarted || this.fields.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+    this.quoteClosed = false;
+  }
+
+  private endRecord(): void {
+    this.endField();
+    const fields = this.fields;
+    this.fields = [];
+
+    // Skip blank lines
+    if (fields.length === 1 && fields[0] === '') return;
+
+    this.onRecord({ line: this.recordLine, fields });
+  }
+}
+
+/**
+ * Count delimiter occurrences outside quotes for one line of text
+ */
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === delimiter) count += 1;
+  }
+  return count;
+};
+
+/**
+ * Guess the delimiter by picking the candidate that appears most consistently across the first lines
+ */
+export const sniffDelimiter = (text: string): string => {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim())
+    .slice(0, SNIFF_SAMPLE_LINES);
+
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const counts = lines.map((line) => countOutsideQuotes(line, candidate));
+    const headerCount = counts[0];
+    if (headerCount === 0) continue;
+
+    const consistent = counts.filter((count) => count === headerCount).length;
+    const score = headerCount * (consistent / counts.length);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Parse CSV text into header-keyed rows. The first record is the header row. Rows with more or fewer fields than the
+ * header are reported (and kept, missing fields empty) so the import preview can point at them.
+ */
+export const parseCsvText = (text: string, options?: { delimiter?: string }): CsvParseResult => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options?.delimiter ?? sniffDelimiter(source);
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+
+  const tokenizer = new CsvTokenizer(
+    delimiter,
+    (record) => records.push(record),
+    (error) => errors.push(error)
+  );
+
+  tokenizer.push(source);
+  tokenizer.end();
+
+  if (records.length === 0) {
+    return { headers: [], rows: [], errors, delimiter };
+  }
+
+  const headers = records[0].fields.map((header) => header.trim());
+  const rows: CsvParseResult['rows'] = [];
+
+  for (const record of records.slice(1)) {
+    if (record.fields.every((field) => !field.trim())) continue;
+
+    if (record.fields.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${headers.length} columns but found ${record.fields.length}`,
+      });
+    }
+
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      values[header] = record.fields[index] ?? '';
+    });
+    rows.push({ line: record.line, values });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { headers, rows, errors, delimiter };
+};
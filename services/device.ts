@@ -0,0 +1,23 @@
+/**
+ * Lintnotes
+ * - Purpose: Stable ID for this install, so other devices can tell this one apart (venue relay, staff presence).
+ * - Exports: getDeviceId
+ * - Major deps: AsyncStorage, expo-crypto
+ * - Side effects: Generates and stores the ID on first use.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+
+const DEVICE_ID_KEY = '@checkin_device_id';
+
+let deviceId: string | null = null;
+
+export const getDeviceId = async (): Promise<string> => {
+  if (deviceId) return deviceId;
+  const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  deviceId = stored ?? Crypto.randomUUID();
+  if (!stored) {
+    await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
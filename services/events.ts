@@ -13,6 +13,8 @@ export type EventSummary = {
   orgId: string;
   orgName: string;
   role: string | null;
+  /** When the event ends (ISO timestamp), if set; caches are deleted a set time after */
+  endsAt: string | null;
 };
 
 export const fetchAccessibleEvents = async (): Promise<EventSummary[]> => {
@@ -29,6 +31,7 @@ export const fetchAccessibleEvents = async (): Promise<EventSummary[]> => {
     event_id: string | null;
     event_name: string | null;
     role: string | null;
+    ends_at: string | null;
   }>;
 
   const summaries = rows
@@ -38,7 +41,8 @@ export const fetchAccessibleEvents = async (): Promise<EventSummary[]> => {
       eventName: row.event_name ?? 'Untitled Event',
       orgId: row.org_id ? String(row.org_id) : '',
       orgName: row.org_name ?? 'Unnamed Org',
-      role: row.role
+      role: row.role,
+      endsAt: row.ends_at ?? null
     }));
 
   // Deduplicate by eventId (view may return duplicates when user has multiple roles)
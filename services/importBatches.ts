@@ -0,0 +1,141 @@
+/**
+ * Lintnotes
+ * - Purpose: Roster import batch history (source, counts, errors, who ran it) and one-step rollback of a batch.
+ * - Exports: ImportSourceKind/ImportBatchSource/ImportBatch/ImportRollbackResult (types), describeImportSource,
+ *            fetchImportBatches, rollbackImportBatch
+ * - Major deps: services/supabase client; get_import_batches / rollback_import_batch RPCs
+ * - Side effects: rollbackImportBatch deletes the attendees a batch inserted, restores the ones it updated and
+ *                 unarchives the ones it archived.
+ */
+import { getSupabaseClient } from './supabase';
+
+export type ImportSourceKind = 'csv' | 'excel' | 'google_sheet' | 'sheet_sync';
+
+/** Where an import came from; recorded with the batch */
+export type ImportBatchSource = {
+  kind: ImportSourceKind;
+  /** File name, worksheet, or sheet URL */
+  name: string;
+};
+
+export type ImportBatch = {
+  id: string;
+  source: ImportSourceKind;
+  sourceName: string | null;
+  added: number;
+  updated: number;
+  archived: number;
+  skipped: number;
+  errors: string[];
+  createdBy: string | null;
+  createdByEmail: string | null;
+  createdAt: string;
+  rolledBackAt: string | null;
+  /** False for batches imported before updates were recorded; those can't revert their updates */
+  changesRecorded: boolean;
+  /** Attendees from this batch still on the roster */
+  remaining: number;
+  checkedIn: number;
+};
+
+/** What a rollback did */
+export type ImportRollbackResult = {
+  removed: number;
+  restored: number;
+  unarchived: number;
+};
+
+type ImportBatchRecord = {
+  id: string;
+  source: ImportSourceKind;
+  source_name: string | null;
+  added_count: number | null;
+  updated_count: number | null;
+  archived_count: number | null;
+  skipped_count: number | null;
+  errors: unknown;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+  changes_recorded: boolean | null;
+  remaining_count: number | string | null;
+  checked_in_count: number | string | null;
+};
+
+export const describeImportSource = (source: ImportSourceKind): string => {
+  switch (source) {
+    case 'csv':
+      return 'CSV file';
+    case 'excel':
+      return 'Excel worksheet';
+    case 'google_sheet':
+      return 'Google Sheet';
+    case 'sheet_sync':
+      return 'Scheduled sheet sync';
+    default:
+      return source;
+  }
+};
+
+const mapRecordToImportBatch = (record: ImportBatchRecord): ImportBatch => ({
+  id: String(record.id),
+  source: record.source,
+  sourceName: record.source_name,
+  added: record.added_count ?? 0,
+  updated: record.updated_count ?? 0,
+  archived: record.archived_count ?? 0,
+  skipped: record.skipped_count ?? 0,
+  errors: Array.isArray(record.errors) ? record.errors.map(String) : [],
+  createdBy: record.created_by,
+  createdByEmail: record.created_by_email,
+  createdAt: record.created_at,
+  rolledBackAt: record.rolled_back_at,
+  changesRecorded: record.changes_recorded ?? false,
+  // bigint counts can arrive as strings
+  remaining: Number(record.remaining_count ?? 0),
+  checkedIn: Number(record.checked_in_count ?? 0),
+});
+
+/**
+ * Fetch an event's import batches, newest first
+ */
+export const fetchImportBatches = async (eventId: string): Promise<ImportBatch[]> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('get_import_batches', { p_event_id: eventId });
+
+  if (error) {
+    console.error('fetchImportBatches failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return ((data ?? []) as ImportBatchRecord[]).map(mapRecordToImportBatch);
+};
+
+/**
+ * Undo a batch: remove the attendees it inserted, restore the fields it changed on existing attendees (unless edited
+ * since) and unarchive the ones it archived. The server refuses when any inserted attendee is checked in unless
+ * includeCheckedIn is set, and for batches that updated attendees before changes were recorded.
+ */
+export const rollbackImportBatch = async (
+  batchId: string,
+  options?: { includeCheckedIn?: boolean }
+): Promise<ImportRollbackResult> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('rollback_import_batch', {
+    p_batch_id: batchId,
+    p_include_checked_in: options?.includeCheckedIn ?? false,
+  });
+
+  if (error) {
+    console.error('rollbackImportBatch failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  const result = (data ?? {}) as Partial<ImportRollbackResult>;
+  return {
+    removed: Number(result.removed ?? 0),
+    restored: Number(result.restored ?? 0),
+    unarchived: Number(result.unarchived ?? 0),
+  };
+};
@@ -0,0 +1,485 @@
+/**
+ * Lintnotes
+ * - Purpose: Embedded SQLite database backing the offline attendee cache, offline events and the offline operation
+ *            queue. Owns the schema (versioned with PRAGMA user_version), encryption at rest, the one-time import of
+ *            the legacy AsyncStorage keys and of the older unencrypted database, and serialized transactional writes.
+ * - Exports: getLocalDatabase, readLocalStore, writeLocalStore, wipeLocalStore
+ * - Major deps: expo-sqlite (built with SQLCipher), expo-secure-store (database key), expo-crypto (key generation),
+ *               AsyncStorage (legacy import only)
+ * - Side effects: Opens/creates checkin-secure.db on first use and generates its key; removes the legacy
+ *                 @checkin_attendees_* and @checkin_offline_queue AsyncStorage keys and the unencrypted checkin.db
+ *                 after importing them.
+ * - Notes: All writes go through writeLocalStore so two operations can never interleave inside a transaction;
+ *          reads wait for writes queued before them. The key never leaves the secure store except to open the
+ *          database, and wiping deletes the key along with the file so any leftover copy can't be read. Web has no
+ *          secure store or SQLCipher and keeps the unencrypted checkin.db.
+ */
+import { Platform } from 'react-native';
+import * as SQLite from 'expo-sqlite';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DATABASE_NAME = 'checkin-secure.db';
+// Unencrypted database used by earlier versions; copied into the encrypted one on first launch, then deleted.
+// Web keeps using it.
+const PLAINTEXT_DATABASE_NAME = 'checkin.db';
+
+const isWeb = Platform.OS === 'web';
+
+const DATABASE_KEY_NAME = 'checkin_db_key';
+const KEY_OPTIONS: SecureStore.SecureStoreOptions = {
+  // Background sync runs while the device is locked; the key stays on this device and out of backups
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY
+};
+
+// Legacy AsyncStorage keys imported by the first migration
+const LEGACY_ATTENDEES_PREFIX = '@checkin_attendees_';
+const LEGACY_QUEUE_KEY = '@checkin_offline_queue';
+
+type Migration = (db: SQLite.SQLiteDatabase) => Promise<string[] | void>;
+
+const SCHEMA_V1 = `
+  CREATE TABLE IF NOT EXISTS attendees (
+    event_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    full_name TEXT NOT NULL,
+    group_name TEXT NOT NULL DEFAULT '',
+    table_number TEXT NOT NULL DEFAULT '',
+    ticket_type TEXT NOT NULL DEFAULT '',
+    notes TEXT,
+    checked_in INTEGER NOT NULL DEFAULT 0,
+    checked_in_at TEXT,
+    checked_in_by TEXT,
+    updated_at TEXT,
+    external_id TEXT,
+    email TEXT,
+    is_walk_in INTEGER NOT NULL DEFAULT 0,
+    search_text TEXT NOT NULL DEFAULT '',
+    PRIMARY KEY (event_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_attendees_status_name
+    ON attendees (event_id, checked_in, full_name COLLATE NOCASE);
+  CREATE INDEX IF NOT EXISTS idx_attendees_group ON attendees (event_id, group_name COLLATE NOCASE);
+  CREATE INDEX IF NOT EXISTS idx_attendees_table ON attendees (event_id, table_number COLLATE NOCASE);
+  CREATE INDEX IF NOT EXISTS idx_attendees_ticket ON attendees (event_id, ticket_type COLLATE NOCASE);
+
+  CREATE TABLE IF NOT EXISTS offline_queue (
+    id TEXT PRIMARY KEY NOT NULL,
+    attendee_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    checked_in INTEGER NOT NULL,
+    queued_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at INTEGER,
+    synced INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    walk_in TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_offline_queue_event ON offline_queue (event_id, synced, queued_at);
+  CREATE INDEX IF NOT EXISTS idx_offline_queue_attendee ON offline_queue (attendee_id, event_id, synced);
+`;
+
+// Offline operations carry a client operation ID and event time; conflicts the server reports are kept for review
+const SCHEMA_V2 = `
+  ALTER TABLE offline_queue ADD COLUMN operation_id TEXT;
+  ALTER TABLE offline_queue ADD COLUMN occurred_at INTEGER;
+  UPDATE offline_queue
+  SET occurred_at = queued_at,
+      operation_id = lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+        substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) ||
+        substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))
+  WHERE operation_id IS NULL;
+
+  CREATE TABLE IF NOT EXISTS sync_conflicts (
+    operation_id TEXT PRIMARY KEY NOT NULL,
+    event_id TEXT NOT NULL,
+    attendee_id TEXT NOT NULL,
+    attendee_name TEXT,
+    local_checked_in INTEGER NOT NULL,
+    local_occurred_at INTEGER NOT NULL,
+    server_checked_in INTEGER,
+    server_changed_at TEXT,
+    server_changed_by TEXT,
+    detected_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sync_conflicts_event ON sync_conflicts (event_id, detected_at);
+`;
+
+// The check-in queue becomes a typed operation log replayed in seq order; conflicts record which kind of change lost
+const SCHEMA_V3 = `
+  CREATE TABLE IF NOT EXISTS operations (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    event_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    attendee_id TEXT,
+    operation_id TEXT NOT NULL,
+    occurred_at INTEGER NOT NULL,
+    queued_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at INTEGER,
+    synced INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_operations_pending ON operations (synced, seq);
+  CREATE INDEX IF NOT EXISTS idx_operations_event ON operations (event_id, synced, seq);
+  CREATE INDEX IF NOT EXISTS idx_operations_attendee ON operations (event_id, attendee_id, synced);
+
+  INSERT INTO operations (
+    id, event_id, type, attendee_id, operation_id, occurred_at, queued_at, attempts, last_attempt_at, synced, error,
+    payload
+  )
+  SELECT
+    id, event_id, CASE WHEN walk_in IS NULL THEN 'check_in' ELSE 'walk_in' END, attendee_id, operation_id,
+    occurred_at, queued_at, attempts, last_attempt_at, synced, error,
+    CASE WHEN walk_in IS NULL
+      THEN json_object(
+        'type', 'check_in', 'attendeeId', attendee_id,
+        'checkedIn', json(CASE WHEN checked_in = 1 THEN 'true' ELSE 'false' END)
+      )
+      ELSE json_object(
+        'type', 'walk_in', 'localAttendeeId', attendee_id,
+        'checkedIn', json(CASE WHEN checked_in = 1 THEN 'true' ELSE 'false' END), 'walkIn', json(walk_in)
+      )
+    END
+  FROM offline_queue
+  ORDER BY queued_at;
+  DROP TABLE offline_queue;
+
+  CREATE TABLE sync_conflicts_v3 (
+    operation_id TEXT PRIMARY KEY NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'check_in',
+    event_id TEXT NOT NULL,
+    attendee_id TEXT NOT NULL,
+    attendee_name TEXT,
+    local_checked_in INTEGER,
+    local_details TEXT,
+    local_occurred_at INTEGER NOT NULL,
+    server_checked_in INTEGER,
+    server_changed_at TEXT,
+    server_changed_by TEXT,
+    detected_at INTEGER NOT NULL
+  );
+  INSERT INTO sync_conflicts_v3 (
+    operation_id, event_id, attendee_id, attendee_name, local_checked_in, local_occurred_at, server_checked_in,
+    server_changed_at, server_changed_by, detected_at
+  )
+  SELECT
+    operation_id, event_id, attendee_id, attendee_name, local_checked_in, local_occurred_at, server_checked_in,
+    server_changed_at, server_changed_by, detected_at
+  FROM sync_conflicts;
+  DROP TABLE sync_conflicts;
+  ALTER TABLE sync_conflicts_v3 RENAME TO sync_conflicts;
+  CREATE INDEX IF NOT EXISTS idx_sync_conflicts_event ON sync_conflicts (event_id, detected_at);
+`;
+
+// Operations are flagged while a sync is sending them (so a force-quit mid-sync is detected on the next launch) and
+// keep a history of failed or interrupted attempts
+const SCHEMA_V4 = `
+  ALTER TABLE operations ADD COLUMN in_flight_at INTEGER;
+
+  CREATE TABLE IF NOT EXISTS operation_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    queue_id TEXT NOT NULL,
+    attempted_at INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_operation_attempts_queue ON operation_attempts (queue_id, attempted_at);
+`;
+
+// Server time of each event's last attendee sync, so refreshes only fetch what changed since
+const SCHEMA_V5 = `
+  CREATE TABLE IF NOT EXISTS attendee_sync_state (
+    event_id TEXT PRIMARY KEY NOT NULL,
+    watermark TEXT NOT NULL,
+    synced_at INTEGER NOT NULL
+  );
+`;
+
+// Events the user made available offline: access metadata and settings, so they open without a connection
+const SCHEMA_V6 = `
+  CREATE TABLE IF NOT EXISTS offline_events (
+    event_id TEXT PRIMARY KEY NOT NULL,
+    event_name TEXT NOT NULL,
+    org_id TEXT NOT NULL DEFAULT '',
+    org_name TEXT NOT NULL DEFAULT '',
+    role TEXT,
+    settings TEXT,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    downloaded_at INTEGER
+  );
+`;
+
+// Events' end time, so their caches can be deleted a set time after they end
+const SCHEMA_V7 = `
+  ALTER TABLE offline_events ADD COLUMN ends_at TEXT;
+`;
+
+// Server row version of each cached attendee, so a stale realtime change can't overwrite a newer row
+const SCHEMA_V8 = `
+  ALTER TABLE attendees ADD COLUMN row_version INTEGER;
+`;
+
+/**
+ * Copy the JSON blobs the app used to keep in AsyncStorage into the new tables.
+ * Returns the keys to remove once the migration has committed.
+ */
+const importLegacyStorage = async (db: SQLite.SQLiteDatabase): Promise<string[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const attendeeKeys = keys.filter((key) => key.startsWith(LEGACY_ATTENDEES_PREFIX));
+  const imported: string[] = [];
+
+  for (const key of attendeeKeys) {
+    const eventId = key.slice(LEGACY_ATTENDEES_PREFIX.length);
+    const stored = await AsyncStorage.getItem(key);
+    const attendees = stored ? (JSON.parse(stored) as Record<string, unknown>[]) : [];
+    for (const attendee of attendees) {
+      const name = String(attendee.attendeeName ?? '');
+      const group = String(attendee.groupName ?? '');
+      const table = String(attendee.tableNumber ?? '');
+      const ticket = String(attendee.ticketType ?? '');
+      await db.runAsync(
+        `INSERT OR REPLACE INTO attendees (
+          event_id, id, full_name, group_name, table_number, ticket_type, notes, checked_in, checked_in_at,
+          checked_in_by, updated_at, external_id, email, is_walk_in, search_text
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          eventId,
+          String(attendee.id),
+          name,
+          group,
+          table,
+          ticket,
+          (attendee.notes as string | null) ?? null,
+          attendee.checkedIn ? 1 : 0,
+          (attendee.checkedInAt as string | null) ?? null,
+          (attendee.checkedInBy as string | null) ?? null,
+          (attendee.updatedAt as string | null) ?? null,
+          (attendee.externalId as string | null) ?? null,
+          (attendee.email as string | null) ?? null,
+          attendee.isWalkIn ? 1 : 0,
+          `${name} ${group} ${table} ${ticket}`.toLowerCase()
+        ]
+      );
+    }
+    imported.push(key);
+  }
+
+  const storedQueue = await AsyncStorage.getItem(LEGACY_QUEUE_KEY);
+  if (storedQueue) {
+    const queue = JSON.parse(storedQueue) as Record<string, unknown>[];
+    for (const item of queue) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO offline_queue (
+          id, attendee_id, event_id, checked_in, queued_at, attempts, last_attempt_at, synced, error, walk_in
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          String(item.id),
+          String(item.attendeeId),
+          String(item.eventId),
+          item.checkedIn ? 1 : 0,
+          Number(item.queuedAt ?? Date.now()),
+          Number(item.attempts ?? 0),
+          (item.lastAttemptAt as number | null) ?? null,
+          item.synced ? 1 : 0,
+          (item.error as string | null) ?? null,
+          item.walkIn ? JSON.stringify(item.walkIn) : null
+        ]
+      );
+    }
+    imported.push(LEGACY_QUEUE_KEY);
+  }
+
+  if (imported.length > 0) {
+    console.log(`📦 Imported ${imported.length} legacy AsyncStorage keys into SQLite`);
+  }
+  return imported;
+};
+
+// Index = schema version the migration upgrades to, minus one. Append only.
+const MIGRATIONS: Migration[] = [
+  async (db) => {
+    await db.execAsync(SCHEMA_V1);
+    return importLegacyStorage(db);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V2);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V3);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V4);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V5);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V6);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V7);
+  },
+  async (db) => {
+    await db.execAsync(SCHEMA_V8);
+  }
+];
+
+const migrate = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version += 1) {
+    let legacyKeys: string[] = [];
+    await db.withTransactionAsync(async () => {
+      legacyKeys = (await MIGRATIONS[version](db)) ?? [];
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+    // Only drop the old copies once the new ones have committed
+    if (legacyKeys.length > 0) {
+      await AsyncStorage.multiRemove(legacyKeys);
+    }
+  }
+};
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * The database key from the secure store, generating one the first time
+ */
+const getDatabaseKey = async (): Promise<string> => {
+  const stored = await SecureStore.getItemAsync(DATABASE_KEY_NAME, KEY_OPTIONS);
+  if (stored) return stored;
+
+  const key = toHex(await Crypto.getRandomBytesAsync(32));
+  await SecureStore.setItemAsync(DATABASE_KEY_NAME, key, KEY_OPTIONS);
+  return key;
+};
+
+const openEncryptedDatabase = async (key: string): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  // Raw 256-bit key, so SQLCipher skips key derivation; must run before anything else touches the file
+  await db.execAsync(`PRAGMA key = "x'${key}'"`);
+  await db.getFirstAsync('SELECT count(*) FROM sqlite_master');
+  return db;
+};
+
+/**
+ * Copy the unencrypted database from earlier versions into the (new, empty) encrypted one and delete it
+ */
+const importPlaintextDatabase = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const plaintext = await SQLite.openDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+  const row = await plaintext.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+  const path = plaintext.databasePath;
+  await plaintext.closeAsync();
+
+  if (version > 0) {
+    await db.runAsync("ATTACH DATABASE ? AS plaintext KEY ''", [path]);
+    try {
+      await db.getFirstAsync("SELECT sqlcipher_export('main', 'plaintext')");
+      await db.execAsync(`PRAGMA main.user_version = ${version}`);
+    } finally {
+      await db.execAsync('DETACH DATABASE plaintext');
+    }
+    console.log('🔒 Moved the local cache into the encrypted database');
+  }
+  await SQLite.deleteDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+};
+
+const openLocalDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  if (isWeb) {
+    const db = await SQLite.openDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+    await migrate(db);
+    return db;
+  }
+
+  const key = await getDatabaseKey();
+  let db: SQLite.SQLiteDatabase;
+  try {
+    db = await openEncryptedDatabase(key);
+  } catch (error) {
+    // The key no longer matches (e.g. the secure store was reset), so the cache can't be read by anyone: start over
+    console.warn('Local database could not be decrypted; recreating it:', error);
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+    db = await openEncryptedDatabase(key);
+  }
+  await db.execAsync('PRAGMA journal_mode = WAL');
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  if ((row?.user_version ?? 0) === 0) {
+    await importPlaintextDatabase(db);
+  }
+  await migrate(db);
+  return db;
+};
+
+/**
+ * Open the local database, creating and migrating it on first use
+ */
+export const getLocalDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openLocalDatabase().catch((error) => {
+      console.error('Failed to open local database:', error);
+      // Allow a later call to retry
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Run a write inside a transaction. Writes run one at a time in the order they were requested.
+ */
+export const writeLocalStore = <T>(write: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> => {
+  const run = writeChain.then(async () => {
+    const db = await getLocalDatabase();
+    let result: T | undefined;
+    await db.withTransactionAsync(async () => {
+      result = await write(db);
+    });
+    return result as T;
+  });
+  // Keep the chain going even if this write fails
+  writeChain = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Run a read after every write requested before it has finished
+ */
+export const readLocalStore = async <T>(read: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> => {
+  await writeChain;
+  const db = await getLocalDatabase();
+  return read(db);
+};
+
+/**
+ * Delete the database and its key: every cached roster, offline event and queued change on this device. Runs after
+ * writes already requested; the next read or write starts a new, empty database with a new key (no key on web).
+ */
+export const wipeLocalStore = (): Promise<void> => {
+  const run = writeChain.then(async () => {
+    const opening = databasePromise;
+    databasePromise = null;
+    const db = await opening?.catch(() => null);
+    await db?.closeAsync();
+    await SQLite.deleteDatabaseAsync(isWeb ? PLAINTEXT_DATABASE_NAME : DATABASE_NAME).catch((error) => {
+      // Nothing to delete if it was never opened
+      console.warn('Failed to delete local database:', error);
+    });
+    if (!isWeb) {
+      await SecureStore.deleteItemAsync(DATABASE_KEY_NAME, KEY_OPTIONS);
+    }
+    console.log('🧹 Wiped the local cache');
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,302 @@
+/**
+ * Lintnotes
+ * - Purpose: Make events available offline ahead of time: download each event's roster, settings and access
+ *            metadata, report cache size and freshness, and evict caches nobody needs any more.
+ * - Exports: OfflineEvent/OfflineEventSettings/OfflineDownloadResult (types), getOfflineEvents,
+ *            getOfflineEventSummaries, getOfflineEventSettings, makeEventsAvailableOffline, refreshOfflineEvents,
+ *            removeOfflineEvent, evictStaleEventCaches, reconcileOfflineEvents
+ * - Major deps: services/localStore (offline_events table), services/attendeeStore (roster stats and clearing),
+ *               services/attendees (fetchAttendees fills the roster cache), services/sheetSync (event settings),
+ *               services/offlineQueue (events with unsynced changes are never evicted), services/syncConflicts,
+ *               services/settings (retention after an event ends), expo-network
+ * - Side effects: Downloads rosters and settings; reads/writes the offline_events table and the attendee cache.
+ * - Notes: Events opened while online are cached too but not pinned; those are evicted once stale. Pinned events
+ *          stay until removed here, until the user loses access to them, or until the retention period after the
+ *          event ends has passed (that applies to the event in use too).
+ */
+import * as Network from 'expo-network';
+
+import { readLocalStore, writeLocalStore } from './localStore';
+import { clearCachedRoster, getCachedRosterStats } from './attendeeStore';
+import { fetchAttendees } from './attendees';
+import { fetchSheetSyncConfig, type SheetSyncConfig } from './sheetSync';
+import { getQueueStats } from './offlineQueue';
+import { clearSyncConflicts } from './syncConflicts';
+import { getOfflineRetentionDays } from './settings';
+import type { EventSummary } from './events';
+
+// Caches of events that were only opened (not made available offline) are evicted after this long without a refresh
+const STALE_CACHE_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OfflineEventSettings = {
+  sheetSync: SheetSyncConfig | null;
+};
+
+export type OfflineEvent = EventSummary & {
+  /** Made available offline by the user (kept until removed) */
+  availableOffline: boolean;
+  attendeeCount: number;
+  sizeBytes: number;
+  lastRefreshedAt: number | null;
+  /** Queued changes not yet on the server; the cache can't be removed while there are any */
+  unsyncedChanges: number;
+};
+
+export type OfflineDownloadResult = {
+  downloaded: number;
+  failed: { eventId: string; eventName: string; error: string }[];
+};
+
+type OfflineEventRow = {
+  event_id: string;
+  event_name: string;
+  org_id: string;
+  org_name: string;
+  role: string | null;
+  settings: string | null;
+  pinned: number;
+  downloaded_at: number | null;
+  ends_at: string | null;
+};
+
+const toSummary = (row: OfflineEventRow): EventSummary => ({
+  eventId: row.event_id,
+  eventName: row.event_name,
+  orgId: row.org_id,
+  orgName: row.org_name,
+  role: row.role,
+  endsAt: row.ends_at
+});
+
+const loadOfflineEventRows = (): Promise<OfflineEventRow[]> =>
+  readLocalStore((db) => db.getAllAsync<OfflineEventRow>('SELECT * FROM offline_events ORDER BY event_name'));
+
+/**
+ * Save the latest access metadata for events without changing whether they are pinned
+ */
+const saveEventMetadata = (events: EventSummary[]): Promise<void> =>
+  writeLocalStore(async (db) => {
+    for (const event of events) {
+      await db.runAsync(
+        `INSERT INTO offline_events (event_id, event_name, org_id, org_name, role, ends_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (event_id) DO UPDATE SET
+           event_name = excluded.event_name, org_id = excluded.org_id, org_name = excluded.org_name,
+           role = excluded.role, ends_at = excluded.ends_at`,
+        [event.eventId, event.eventName, event.orgId, event.orgName, event.role, event.endsAt]
+      );
+    }
+  });
+
+const isOnline = async (): Promise<boolean> => {
+  const state = await Network.getNetworkStateAsync();
+  return Boolean(state.isConnected && state.isInternetReachable);
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return 'Unknown error';
+};
+
+const countUnsyncedChanges = async (eventId: string): Promise<number> => {
+  const stats = await getQueueStats(eventId);
+  return stats.pending + stats.failed;
+};
+
+/**
+ * Every event with a cached roster or made available offline, with its size and freshness
+ */
+export const getOfflineEvents = async (): Promise<OfflineEvent[]> => {
+  const [rows, rosterStats] = await Promise.all([loadOfflineEventRows(), getCachedRosterStats()]);
+  const statsByEvent = new Map(rosterStats.map((stats) => [stats.eventId, stats]));
+
+  const offlineEvents: OfflineEvent[] = [];
+  for (const row of rows) {
+    const stats = statsByEvent.get(row.event_id);
+    if (!stats && row.pinned === 0) continue;
+    offlineEvents.push({
+      ...toSummary(row),
+      availableOffline: row.pinned === 1,
+      attendeeCount: stats?.attendeeCount ?? 0,
+      sizeBytes: (stats?.sizeBytes ?? 0) + (row.settings?.length ?? 0),
+      lastRefreshedAt: stats?.lastRefreshedAt ?? row.downloaded_at,
+      unsyncedChanges: await countUnsyncedChanges(row.event_id)
+    });
+  }
+  return offlineEvents;
+};
+
+/**
+ * Events that can be opened without a connection (used when the event list can't be loaded)
+ */
+export const getOfflineEventSummaries = async (): Promise<EventSummary[]> => {
+  const offlineEvents = await getOfflineEvents();
+  return offlineEvents.filter((event) => event.attendeeCount > 0).map(
+    ({ eventId, eventName, orgId, orgName, role, endsAt }) => ({ eventId, eventName, orgId, orgName, role, endsAt })
+  );
+};
+
+/**
+ * Settings downloaded with the event, or null if it was never made available offline
+ */
+export const getOfflineEventSettings = async (eventId: string): Promise<OfflineEventSettings | null> => {
+  const row = await readLocalStore((db) =>
+    db.getFirstAsync<{ settings: string | null }>('SELECT settings FROM offline_events WHERE event_id = ?', [eventId])
+  );
+  return row?.settings ? (JSON.parse(row.settings) as OfflineEventSettings) : null;
+};
+
+const downloadEvent = async (event: EventSummary): Promise<void> => {
+  // Fills the roster cache (incrementally when a copy already exists) and moves its watermark
+  await fetchAttendees(event.eventId);
+
+  const sheetSync = await fetchSheetSyncConfig(event.eventId).catch((error) => {
+    // Not every role can read the event's sheet settings; the roster is what matters offline
+    console.warn('Could not download sheet sync settings:', describeError(error));
+    return null;
+  });
+  const settings: OfflineEventSettings = { sheetSync };
+
+  await writeLocalStore(async (db) => {
+    await db.runAsync(
+      'UPDATE offline_events SET settings = ?, pinned = 1, downloaded_at = ? WHERE event_id = ?',
+      [JSON.stringify(settings), Date.now(), event.eventId]
+    );
+  });
+};
+
+/**
+ * Download events one at a time and keep them until removed. Failures are reported per event.
+ */
+export const makeEventsAvailableOffline = async (
+  events: EventSummary[],
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineDownloadResult> => {
+  if (!(await isOnline())) {
+    throw new Error('Connect to the internet to download events for offline use.');
+  }
+
+  await saveEventMetadata(events);
+
+  const result: OfflineDownloadResult = { downloaded: 0, failed: [] };
+  for (const [index, event] of events.entries()) {
+    try {
+      await downloadEvent(event);
+      result.downloaded += 1;
+    } catch (error) {
+      console.error(`Failed to download event ${event.eventId} for offline use:`, error);
+      result.failed.push({ eventId: event.eventId, eventName: event.eventName, error: describeError(error) });
+    }
+    onProgress?.(index + 1, events.length);
+  }
+
+  console.log(`📥 Made ${result.downloaded} of ${events.length} events available offline`);
+  return result;
+};
+
+/**
+ * Re-download every event made available offline (only changes since the last refresh are fetched)
+ */
+export const refreshOfflineEvents = async (
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineDownloadResult> => {
+  const rows = await loadOfflineEventRows();
+  const pinned = rows.filter((row) => row.pinned === 1).map(toSummary);
+  if (pinned.length === 0) {
+    return { downloaded: 0, failed: [] };
+  }
+  return makeEventsAvailableOffline(pinned, onProgress);
+};
+
+/**
+ * Stop keeping an event offline and delete its cached data. Refused while it has changes waiting to sync.
+ */
+export const removeOfflineEvent = async (eventId: string): Promise<void> => {
+  const unsynced = await countUnsyncedChanges(eventId);
+  if (unsynced > 0) {
+    throw new Error(
+      `This event has ${unsynced} change${unsynced === 1 ? '' : 's'} waiting to sync. Sync or discard ${
+        unsynced === 1 ? 'it' : 'them'
+      } in the Sync Center first.`
+    );
+  }
+
+  await clearCachedRoster(eventId);
+  await writeLocalStore(async (db) => {
+    await db.runAsync(
+      'UPDATE offline_events SET settings = NULL, pinned = 0, downloaded_at = NULL WHERE event_id = ?',
+      [eventId]
+    );
+  });
+};
+
+/**
+ * Remove caches that are no longer useful: events that ended longer ago than the retention setting, events only
+ * opened (not made available offline) that haven't been refreshed recently, and any event the user can no longer
+ * access (when `accessibleEventIds` is given). Events with unsynced changes are always kept, and the event in use is
+ * kept unless it has ended. Returns the number of events evicted.
+ */
+export const evictStaleEventCaches = async (
+  options: { accessibleEventIds?: string[]; keepEventId?: string | null } = {}
+): Promise<number> => {
+  const [rows, rosterStats] = await Promise.all([loadOfflineEventRows(), getCachedRosterStats()]);
+  const pinned = new Set(rows.filter((row) => row.pinned === 1).map((row) => row.event_id));
+  const accessible = options.accessibleEventIds ? new Set(options.accessibleEventIds) : null;
+  const cachedEventIds = new Set([...rosterStats.map((stats) => stats.eventId), ...pinned]);
+  const lastRefreshed = new Map(rosterStats.map((stats) => [stats.eventId, stats.lastRefreshedAt]));
+  const endsAt = new Map(rows.map((row) => [row.event_id, row.ends_at]));
+  const retentionMs = (await getOfflineRetentionDays()) * DAY_MS;
+  const now = Date.now();
+
+  let evicted = 0;
+  for (const eventId of cachedEventIds) {
+    const end = endsAt.get(eventId);
+    const expired = end ? now - Date.parse(end) > retentionMs : false;
+    if (eventId === options.keepEventId && !expired) continue;
+
+    const lostAccess = accessible !== null && !accessible.has(eventId);
+    const refreshedAt = lastRefreshed.get(eventId) ?? null;
+    const stale = !pinned.has(eventId) && (refreshedAt === null || now - refreshedAt > STALE_CACHE_AGE_MS);
+    if (!expired && !lostAccess && !stale) continue;
+
+    if ((await countUnsyncedChanges(eventId)) > 0) {
+      console.log(`Keeping cache for event ${eventId}: it has changes waiting to sync`);
+      continue;
+    }
+
+    await removeOfflineEvent(eventId);
+    if (expired || lostAccess) {
+      await clearSyncConflicts(eventId);
+      await writeLocalStore(async (db) => {
+        await db.runAsync('DELETE FROM offline_events WHERE event_id = ?', [eventId]);
+      });
+    }
+    evicted += 1;
+  }
+
+  if (evicted > 0) {
+    console.log(`🧹 Evicted ${evicted} stale event cache${evicted === 1 ? '' : 's'}`);
+  }
+  return evicted;
+};
+
+/**
+ * After the event list loads: save its access metadata for offline launches, evict stale caches, and bring events
+ * made available offline up to date
+ */
+export const reconcileOfflineEvents = async (
+  accessible: EventSummary[],
+  selectedEventId: string | null
+): Promise<void> => {
+  await saveEventMetadata(accessible);
+  await evictStaleEventCaches({
+    accessibleEventIds: accessible.map((event) => event.eventId),
+    keepEventId: selectedEventId
+  });
+  const result = await refreshOfflineEvents();
+  if (result.failed.length > 0) {
+    console.warn(`Failed to refresh ${result.failed.length} offline events`);
+  }
+};
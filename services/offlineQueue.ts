@@ -1,26 +1,107 @@
 /**
  * Lintnotes
- * - Purpose: Queue check-in operations when offline for later sync.
- * - Exports: queueCheckIn, getQueuedOperations, markSynced, clearSyncedOperations, getQueueStats
- * - Major deps: AsyncStorage for persistence
- * - Side effects: Reads/writes to AsyncStorage queue.
+ * - Purpose: Queue offline changes (check-ins, group/table check-ins, walk-in registrations, attendee edits and notes)
+ *            as typed operations that are replayed in the order they were made.
+ * - Exports: QueuedWalkIn/QueuedOperationPayload/QueuedOperationType/QueuedOperation/OperationAttempt/QueueStats
+ *            (types), queueOperation, getQueuedOperations, getPendingOperations, getFailedOperations,
+ *            getPendingCheckInStates, resolveLocalAttendeeId, markInFlight, markSynced, markFailed,
+ *            recoverInterruptedOperations, getOperationAttempts, resetAttempts, clearSyncedOperations,
+ *            clearOldSyncedOperations, getQueueStats, hasPendingCheckIn, removeFromQueue, getWalkInDependents,
+ *            removeOperations, clearQueue, describeQueuedOperation, addOperationQueuedListener
+ * - Major deps: services/localStore (SQLite operations/operation_attempts tables), expo-crypto (operation IDs)
+ * - Side effects: Reads/writes the operations and operation_attempts tables; each change is its own transaction.
+ *                 Notifies listeners after an operation is queued.
+ * - Notes: Operations are ordered by seq (insertion order). There is no size cap; a group check-in is one operation
+ *          however many attendees it covers.
  */
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import * as Crypto from 'expo-crypto';
+
+import { readLocalStore, writeLocalStore } from './localStore';
+import type { AttendeeDetails } from './attendees';
+
+// Failed attempts before an operation stops being retried automatically and waits in the sync center
+const MAX_RETRY_ATTEMPTS = 8;
+
+export type QueuedWalkIn = {
+  /** Device-generated reference; the server uses it to make retried registrations idempotent */
+  clientRef: string;
+  attendeeName: string;
+  groupName: string;
+  tableNumber: string;
+  ticketType: string;
+  notes: string | null;
+};
+
+export type QueuedOperationPayload =
+  | { type: 'check_in'; attendeeId: string; checkedIn: boolean }
+  | {
+      type: 'bulk_check_in';
+      scope: 'group' | 'table';
+      /** Group name or table number, for display */
+      label: string;
+      checkedIn: boolean;
+      /** One server operation per attendee so each is applied (and can conflict) on its own */
+      targets: { attendeeId: string; operationId: string }[];
+    }
+  | {
+      type: 'walk_in';
+      /** Local placeholder ID until the registration syncs */
+      localAttendeeId: string;
+      checkedIn: boolean;
+      walkIn: QueuedWalkIn;
+    }
+  | {
+      type: 'edit_attendee';
+      attendeeId: string;
+      /** updated_at the edit was based on; the server rejects the edit if the attendee changed since */
+      expectedUpdatedAt: string | null;
+      details: AttendeeDetails;
+    }
+  | { type: 'notes'; attendeeId: string; expectedUpdatedAt: string | null; notes: string | null };
 
-const QUEUE_STORAGE_KEY = '@checkin_offline_queue';
-const MAX_QUEUE_SIZE = 100; // Max items per event to prevent bloat
-const MAX_RETRY_ATTEMPTS = 3;
+export type QueuedOperationType = QueuedOperationPayload['type'];
 
-export type QueuedCheckIn = {
+export type QueuedOperation<P extends QueuedOperationPayload = QueuedOperationPayload> = {
   id: string;
-  attendeeId: string;
+  /** Replay order */
+  seq: number;
   eventId: string;
-  checkedIn: boolean;
+  /** Client UUID the server uses to apply the operation exactly once */
+  operationId: string;
+  /** When the action actually happened on the device; the server resolves conflicts on this, not arrival time */
+  occurredAt: number;
   queuedAt: number;
   attempts: number;
   lastAttemptAt: number | null;
   synced: boolean;
   error: string | null;
+  /** Set while a sync is sending the operation; still set on launch means the app was killed mid-sync */
+  inFlightAt: number | null;
+  payload: P;
+};
+
+export type OperationAttempt = {
+  attemptedAt: number;
+  outcome: 'failed' | 'interrupted';
+  error: string | null;
+};
+
+type OperationRow = {
+  seq: number;
+  id: string;
+  event_id: string;
+  type: QueuedOperationType;
+  attendee_id: string | null;
+  operation_id: string;
+  occurred_at: number;
+  queued_at: number;
+  attempts: number;
+  last_attempt_at: number | null;
+  synced: number;
+  error: string | null;
+  in_flight_at: number | null;
+  payload: string;
 };
 
 export type QueueStats = {
@@ -31,6 +112,19 @@ export type QueueStats = {
   oldestQueuedAt: number | null;
 };
 
+type QueuedListener = (eventId: string) => void;
+const queuedListeners = new Set<QueuedListener>();
+
+/**
+ * Listen for newly queued operations (e.g. to share them with a venue relay straight away)
+ */
+export function addOperationQueuedListener(listener: QueuedListener): () => void {
+  queuedListeners.add(listener);
+  return () => {
+    queuedListeners.delete(listener);
+  };
+}
+
 /**
  * Generate a unique ID for queue items
  */
@@ -38,14 +132,157 @@ function generateQueueId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+function generateOperationId(): string {
+  return Crypto.randomUUID();
+}
+
+function mapRowToOperation(row: OperationRow): QueuedOperation {
+  return {
+    id: row.id,
+    seq: row.seq,
+    eventId: row.event_id,
+    operationId: row.operation_id,
+    occurredAt: row.occurred_at,
+    queuedAt: row.queued_at,
+    attempts: row.attempts,
+    lastAttemptAt: row.last_attempt_at,
+    synced: row.synced === 1,
+    error: row.error,
+    inFlightAt: row.in_flight_at,
+    payload: JSON.parse(row.payload) as QueuedOperationPayload,
+  };
+}
+
+/**
+ * The single attendee an operation targets (indexed so per-attendee lookups stay cheap)
+ */
+function payloadAttendeeId(payload: QueuedOperationPayload): string | null {
+  switch (payload.type) {
+    case 'walk_in':
+      return payload.localAttendeeId;
+    case 'bulk_check_in':
+      return null;
+    default:
+      return payload.attendeeId;
+  }
+}
+
+/**
+ * Whether an operation acts on the attendee (for a group/table check-in, as one of its targets)
+ */
+function referencesAttendee(payload: QueuedOperationPayload, attendeeId: string): boolean {
+  if (payload.type === 'bulk_check_in') {
+    return payload.targets.some((target) => target.attendeeId === attendeeId);
+  }
+  return payload.type !== 'walk_in' && payload.attendeeId === attendeeId;
+}
+
+/**
+ * Split unsynced operations into those being discarded and the ones that reference a discarded walk-in's
+ * placeholder, which could never sync without it
+ */
+function findWalkInDependents(
+  operations: QueuedOperation[],
+  queueIds: string[]
+): { walkIns: { eventId: string; localAttendeeId: string }[]; dependents: QueuedOperation[] } {
+  const selected = new Set(queueIds);
+  const walkIns = operations.flatMap((operation) =>
+    selected.has(operation.id) && operation.payload.type === 'walk_in'
+      ? [{ eventId: operation.eventId, localAttendeeId: operation.payload.localAttendeeId }]
+      : []
+  );
+  const dependents = operations.filter(
+    (operation) =>
+      !selected.has(operation.id) &&
+      walkIns.some(
+        (walkIn) => walkIn.eventId === operation.eventId && referencesAttendee(operation.payload, walkIn.localAttendeeId)
+      )
+  );
+  return { walkIns, dependents };
+}
+
+async function findPendingWalkIn(
+  db: SQLiteDatabase,
+  eventId: string,
+  localAttendeeId: string
+): Promise<QueuedOperation<Extract<QueuedOperationPayload, { type: 'walk_in' }>> | null> {
+  const row = await db.getFirstAsync<OperationRow>(
+    `SELECT * FROM operations
+     WHERE event_id = ? AND attendee_id = ? AND type = 'walk_in' AND synced = 0 AND in_flight_at IS NULL
+     LIMIT 1`,
+    [eventId, localAttendeeId]
+  );
+  return row
+    ? (mapRowToOperation(row) as QueuedOperation<Extract<QueuedOperationPayload, { type: 'walk_in' }>>)
+    : null;
+}
+
+/**
+ * Queue an operation for later sync. A check-in for a walk-in that has not synced yet is folded into the
+ * registration instead of being queued separately (the server doesn't know the attendee yet). While the registration
+ * is being sent it can't change, so the check-in is queued after it and pointed at the server ID once it syncs.
+ */
+export async function queueOperation(
+  eventId: string,
+  payload: QueuedOperationPayload
+): Promise<{ success: boolean; queueId?: string; error?: string }> {
+  try {
+    const queueId = await writeLocalStore(async (db) => {
+      const now = Date.now();
+
+      if (payload.type === 'check_in') {
+        const walkIn = await findPendingWalkIn(db, eventId, payload.attendeeId);
+        if (walkIn) {
+          await db.runAsync('UPDATE operations SET payload = ?, occurred_at = ? WHERE id = ?', [
+            JSON.stringify({ ...walkIn.payload, checkedIn: payload.checkedIn }),
+            now,
+            walkIn.id,
+          ]);
+          console.log(`Updated queued walk-in ${walkIn.payload.walkIn.clientRef}`);
+          return walkIn.id;
+        }
+      }
+
+      const id = generateQueueId();
+      await db.runAsync(
+        `INSERT INTO operations (
+          id, event_id, type, attendee_id, operation_id, occurred_at, queued_at, attempts, last_attempt_at, synced,
+          error, payload
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, NULL, 0, NULL, ?)`,
+        [id, eventId, payload.type, payloadAttendeeId(payload), generateOperationId(), now, now, JSON.stringify(payload)]
+      );
+      console.log(`Queued ${payload.type} operation ${id}`);
+      return id;
+    });
+
+    queuedListeners.forEach((listener) => {
+      try {
+        listener(eventId);
+      } catch (error) {
+        console.error('Queue listener error:', error);
+      }
+    });
+    return { success: true, queueId };
+  } catch (error) {
+    console.error('Failed to queue operation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to queue operation',
+    };
+  }
+}
+
 /**
- * Load the queue from AsyncStorage
+ * Get all queued operations in replay order, optionally filtered by event
  */
-async function loadQueue(): Promise<QueuedCheckIn[]> {
+export async function getQueuedOperations(eventId?: string): Promise<QueuedOperation[]> {
   try {
-    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored) as QueuedCheckIn[];
+    const rows = await readLocalStore((db) =>
+      eventId
+        ? db.getAllAsync<OperationRow>('SELECT * FROM operations WHERE event_id = ? ORDER BY seq', [eventId])
+        : db.getAllAsync<OperationRow>('SELECT * FROM operations ORDER BY seq')
+    );
+    return rows.map(mapRowToOperation);
   } catch (error) {
     console.error('Failed to load offline queue:', error);
     return [];
@@ -53,157 +290,252 @@ async function loadQueue(): Promise<QueuedCheckIn[]> {
 }
 
 /**
- * Save the queue to AsyncStorage
+ * Get only pending (not synced, not failed) operations in replay order
  */
-async function saveQueue(queue: QueuedCheckIn[]): Promise<void> {
+export async function getPendingOperations(eventId?: string): Promise<QueuedOperation[]> {
   try {
-    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    const rows = await readLocalStore((db) =>
+      db.getAllAsync<OperationRow>(
+        `SELECT * FROM operations
+         WHERE synced = 0 AND attempts < ? AND (? IS NULL OR event_id = ?)
+         ORDER BY seq`,
+        [MAX_RETRY_ATTEMPTS, eventId ?? null, eventId ?? null]
+      )
+    );
+    return rows.map(mapRowToOperation);
   } catch (error) {
-    console.error('Failed to save offline queue:', error);
+    console.error('Failed to load offline queue:', error);
+    return [];
   }
 }
 
 /**
- * Queue a check-in operation for later sync
+ * Operations that used up their automatic retries; they stay queued until retried, force-applied or discarded
  */
-export async function queueCheckIn(
-  attendeeId: string,
-  eventId: string,
-  checkedIn: boolean
-): Promise<{ success: boolean; queueId?: string; error?: string }> {
+export async function getFailedOperations(eventId?: string): Promise<QueuedOperation[]> {
   try {
-    const queue = await loadQueue();
-
-    // Check queue size limit for this event
-    const eventQueueSize = queue.filter(
-      (item) => item.eventId === eventId && !item.synced
-    ).length;
-
-    if (eventQueueSize >= MAX_QUEUE_SIZE) {
-      return {
-        success: false,
-        error: `Queue limit reached (${MAX_QUEUE_SIZE} pending items). Please sync when online.`,
-      };
+    const rows = await readLocalStore((db) =>
+      db.getAllAsync<OperationRow>(
+        `SELECT * FROM operations
+         WHERE synced = 0 AND attempts >= ? AND (? IS NULL OR event_id = ?)
+         ORDER BY seq`,
+        [MAX_RETRY_ATTEMPTS, eventId ?? null, eventId ?? null]
+      )
+    );
+    return rows.map(mapRowToOperation);
+  } catch (error) {
+    console.error('Failed to load offline queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Check-in state each attendee will have once the pending operations for an event are replayed
+ */
+export async function getPendingCheckInStates(eventId: string): Promise<Map<string, boolean>> {
+  const states = new Map<string, boolean>();
+  for (const operation of await getPendingOperations(eventId)) {
+    const { payload } = operation;
+    if (payload.type === 'check_in') {
+      states.set(payload.attendeeId, payload.checkedIn);
+    } else if (payload.type === 'walk_in') {
+      states.set(payload.localAttendeeId, payload.checkedIn);
+    } else if (payload.type === 'bulk_check_in') {
+      payload.targets.forEach((target) => states.set(target.attendeeId, payload.checkedIn));
     }
+  }
+  return states;
+}
 
-    // Check if there's already a pending operation for this attendee
-    const existingIndex = queue.findIndex(
-      (item) =>
-        item.attendeeId === attendeeId &&
-        item.eventId === eventId &&
-        !item.synced
+/**
+ * Point pending operations that reference a walk-in's local placeholder at the server attendee once the
+ * registration has synced
+ */
+export async function resolveLocalAttendeeId(
+  eventId: string,
+  localAttendeeId: string,
+  attendeeId: string
+): Promise<void> {
+  await writeLocalStore(async (db) => {
+    const rows = await db.getAllAsync<OperationRow>(
+      `SELECT * FROM operations
+       WHERE event_id = ? AND synced = 0 AND type != 'walk_in' AND (attendee_id = ? OR type = 'bulk_check_in')`,
+      [eventId, localAttendeeId]
     );
 
-    const queueId = generateQueueId();
-    const newItem: QueuedCheckIn = {
-      id: queueId,
-      attendeeId,
-      eventId,
-      checkedIn,
-      queuedAt: Date.now(),
-      attempts: 0,
-      lastAttemptAt: null,
-      synced: false,
-      error: null,
-    };
-
-    if (existingIndex >= 0) {
-      // Replace existing pending operation (user changed their mind)
-      queue[existingIndex] = newItem;
-      console.log(`Replaced queued check-in for attendee ${attendeeId}`);
-    } else {
-      queue.push(newItem);
-      console.log(`Queued check-in for attendee ${attendeeId}`);
+    for (const row of rows) {
+      const { payload } = mapRowToOperation(row);
+      if (payload.type === 'walk_in') continue;
+
+      let updated: QueuedOperationPayload;
+      if (payload.type === 'bulk_check_in') {
+        if (!payload.targets.some((target) => target.attendeeId === localAttendeeId)) continue;
+        updated = {
+          ...payload,
+          targets: payload.targets.map((target) =>
+            target.attendeeId === localAttendeeId ? { ...target, attendeeId } : target
+          ),
+        };
+      } else {
+        updated = { ...payload, attendeeId };
+      }
+
+      await db.runAsync('UPDATE operations SET attendee_id = ?, payload = ? WHERE id = ?', [
+        payloadAttendeeId(updated),
+        JSON.stringify(updated),
+        row.id,
+      ]);
     }
+  });
+}
 
-    await saveQueue(queue);
+/**
+ * Flag operations as being sent. Written before the request so an interrupted sync can be told apart on relaunch.
+ */
+export async function markInFlight(queueIds: string[]): Promise<void> {
+  const now = Date.now();
+  await writeLocalStore(async (db) => {
+    for (const queueId of queueIds) {
+      await db.runAsync('UPDATE operations SET in_flight_at = ? WHERE id = ?', [now, queueId]);
+    }
+  });
+}
 
-    return { success: true, queueId };
+/**
+ * Mark an operation as synced
+ */
+export async function markSynced(queueId: string): Promise<void> {
+  try {
+    const changes = await writeLocalStore(async (db) => {
+      const result = await db.runAsync(
+        'UPDATE operations SET synced = 1, error = NULL, in_flight_at = NULL WHERE id = ?',
+        [queueId]
+      );
+      return result.changes;
+    });
+
+    if (changes > 0) {
+      console.log(`Marked queue item ${queueId} as synced`);
+    }
   } catch (error) {
-    console.error('Failed to queue check-in:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to queue check-in',
-    };
+    console.error('Failed to save offline queue:', error);
   }
 }
 
 /**
- * Get all queued operations, optionally filtered by event
+ * Mark an operation as failed with error
  */
-export async function getQueuedOperations(
-  eventId?: string
-): Promise<QueuedCheckIn[]> {
-  const queue = await loadQueue();
-
-  if (eventId) {
-    return queue.filter((item) => item.eventId === eventId);
+export async function markFailed(queueId: string, error: string): Promise<void> {
+  try {
+    const attempts = await writeLocalStore(async (db) => {
+      const now = Date.now();
+      await db.runAsync(
+        'UPDATE operations SET attempts = attempts + 1, last_attempt_at = ?, error = ?, in_flight_at = NULL WHERE id = ?',
+        [now, error, queueId]
+      );
+      await db.runAsync(
+        "INSERT INTO operation_attempts (queue_id, attempted_at, outcome, error) VALUES (?, ?, 'failed', ?)",
+        [queueId, now, error]
+      );
+      const row = await db.getFirstAsync<{ attempts: number }>('SELECT attempts FROM operations WHERE id = ?', [
+        queueId,
+      ]);
+      return row?.attempts ?? null;
+    });
+
+    if (attempts !== null) {
+      console.log(`Marked queue item ${queueId} as failed (attempt ${attempts})`);
+    }
+  } catch (saveError) {
+    console.error('Failed to save offline queue:', saveError);
   }
-
-  return queue;
 }
 
 /**
- * Get only pending (not synced, not failed) operations
+ * Find operations a previous session was sending when the app was killed and put them back in the queue. Their
+ * outcome is unknown, so they are replayed as-is: the server applies each operation ID and walk-in reference once, and
+ * edits that already landed are recognised when they sync. Not counted against the retry limit.
  */
-export async function getPendingOperations(
-  eventId?: string
-): Promise<QueuedCheckIn[]> {
-  const queue = await getQueuedOperations(eventId);
-  return queue.filter(
-    (item) => !item.synced && item.attempts < MAX_RETRY_ATTEMPTS
-  );
+export async function recoverInterruptedOperations(): Promise<number> {
+  try {
+    const recovered = await writeLocalStore(async (db) => {
+      const rows = await db.getAllAsync<{ id: string; in_flight_at: number }>(
+        'SELECT id, in_flight_at FROM operations WHERE synced = 0 AND in_flight_at IS NOT NULL'
+      );
+      for (const row of rows) {
+        await db.runAsync(
+          "INSERT INTO operation_attempts (queue_id, attempted_at, outcome, error) VALUES (?, ?, 'interrupted', ?)",
+          [row.id, row.in_flight_at, 'The app closed before the server replied']
+        );
+      }
+      await db.runAsync('UPDATE operations SET in_flight_at = NULL WHERE in_flight_at IS NOT NULL');
+      return rows.length;
+    });
+
+    if (recovered > 0) {
+      console.log(`Recovered ${recovered} operations interrupted by the app closing mid-sync`);
+    }
+    return recovered;
+  } catch (error) {
+    console.error('Failed to recover offline queue:', error);
+    return 0;
+  }
 }
 
 /**
- * Mark an operation as synced
+ * Failed and interrupted attempts for an operation, oldest first
  */
-export async function markSynced(queueId: string): Promise<void> {
-  const queue = await loadQueue();
-  const index = queue.findIndex((item) => item.id === queueId);
-
-  if (index >= 0) {
-    queue[index] = {
-      ...queue[index],
-      synced: true,
-      error: null,
-    };
-    await saveQueue(queue);
-    console.log(`Marked queue item ${queueId} as synced`);
+export async function getOperationAttempts(queueId: string): Promise<OperationAttempt[]> {
+  try {
+    const rows = await readLocalStore((db) =>
+      db.getAllAsync<{ attempted_at: number; outcome: OperationAttempt['outcome']; error: string | null }>(
+        'SELECT attempted_at, outcome, error FROM operation_attempts WHERE queue_id = ? ORDER BY attempted_at, id',
+        [queueId]
+      )
+    );
+    return rows.map((row) => ({ attemptedAt: row.attempted_at, outcome: row.outcome, error: row.error }));
+  } catch (error) {
+    console.error('Failed to load operation attempts:', error);
+    return [];
   }
 }
 
 /**
- * Mark an operation as failed with error
+ * Give operations a fresh set of automatic retries (all failed operations when no IDs are given).
+ * Attempt history is kept.
  */
-export async function markFailed(
-  queueId: string,
-  error: string
-): Promise<void> {
-  const queue = await loadQueue();
-  const index = queue.findIndex((item) => item.id === queueId);
-
-  if (index >= 0) {
-    queue[index] = {
-      ...queue[index],
-      attempts: queue[index].attempts + 1,
-      lastAttemptAt: Date.now(),
-      error,
-    };
-    await saveQueue(queue);
-    console.log(`Marked queue item ${queueId} as failed (attempt ${queue[index].attempts})`);
-  }
+export async function resetAttempts(queueIds?: string[]): Promise<number> {
+  const reset = await writeLocalStore(async (db) => {
+    if (!queueIds) {
+      const result = await db.runAsync('UPDATE operations SET attempts = 0 WHERE synced = 0 AND attempts >= ?', [
+        MAX_RETRY_ATTEMPTS,
+      ]);
+      return result.changes;
+    }
+    let changes = 0;
+    for (const queueId of queueIds) {
+      const result = await db.runAsync('UPDATE operations SET attempts = 0 WHERE id = ? AND synced = 0', [queueId]);
+      changes += result.changes;
+    }
+    return changes;
+  });
+  console.log(`Reset retry attempts for ${reset} operations`);
+  return reset;
+}
+
+async function deleteOrphanedAttempts(db: SQLiteDatabase): Promise<void> {
+  await db.runAsync('DELETE FROM operation_attempts WHERE queue_id NOT IN (SELECT id FROM operations)');
 }
 
 /**
  * Clear all synced operations (cleanup)
  */
 export async function clearSyncedOperations(): Promise<number> {
-  const queue = await loadQueue();
-  const before = queue.length;
-  const filtered = queue.filter((item) => !item.synced);
-  await saveQueue(filtered);
-  const cleared = before - filtered.length;
+  const cleared = await writeLocalStore(async (db) => {
+    const result = await db.runAsync('DELETE FROM operations WHERE synced = 1');
+    await deleteOrphanedAttempts(db);
+    return result.changes;
+  });
   console.log(`Cleared ${cleared} synced operations from queue`);
   return cleared;
 }
@@ -212,52 +544,59 @@ export async function clearSyncedOperations(): Promise<number> {
  * Clear old synced operations (older than 24 hours)
  */
 export async function clearOldSyncedOperations(): Promise<number> {
-  const queue = await loadQueue();
-  const before = queue.length;
   const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
 
-  const filtered = queue.filter(
-    (item) => !item.synced || item.queuedAt > oneDayAgo
-  );
-
-  await saveQueue(filtered);
-  const cleared = before - filtered.length;
+  try {
+    const cleared = await writeLocalStore(async (db) => {
+      const result = await db.runAsync('DELETE FROM operations WHERE synced = 1 AND queued_at <= ?', [oneDayAgo]);
+      await deleteOrphanedAttempts(db);
+      return result.changes;
+    });
+
+    if (cleared > 0) {
+      console.log(`Cleared ${cleared} old synced operations from queue`);
+    }
 
-  if (cleared > 0) {
-    console.log(`Cleared ${cleared} old synced operations from queue`);
+    return cleared;
+  } catch (error) {
+    console.error('Failed to save offline queue:', error);
+    return 0;
   }
-
-  return cleared;
 }
 
 /**
  * Get queue statistics
  */
 export async function getQueueStats(eventId?: string): Promise<QueueStats> {
-  const queue = await getQueuedOperations(eventId);
-
-  const pending = queue.filter(
-    (item) => !item.synced && item.attempts < MAX_RETRY_ATTEMPTS
-  ).length;
-
-  const failed = queue.filter(
-    (item) => !item.synced && item.attempts >= MAX_RETRY_ATTEMPTS
-  ).length;
-
-  const synced = queue.filter((item) => item.synced).length;
-
-  const pendingItems = queue.filter((item) => !item.synced);
-  const oldestQueuedAt =
-    pendingItems.length > 0
-      ? Math.min(...pendingItems.map((item) => item.queuedAt))
-      : null;
+  const row = await readLocalStore((db) =>
+    db.getFirstAsync<{
+      pending: number | null;
+      failed: number | null;
+      synced: number | null;
+      total: number;
+      oldest: number | null;
+    }>(
+      `SELECT
+         SUM(CASE WHEN synced = 0 AND attempts < ? THEN 1 ELSE 0 END) AS pending,
+         SUM(CASE WHEN synced = 0 AND attempts >= ? THEN 1 ELSE 0 END) AS failed,
+         SUM(synced) AS synced,
+         COUNT(*) AS total,
+         MIN(CASE WHEN synced = 0 THEN queued_at END) AS oldest
+       FROM operations
+       WHERE ? IS NULL OR event_id = ?`,
+      [MAX_RETRY_ATTEMPTS, MAX_RETRY_ATTEMPTS, eventId ?? null, eventId ?? null]
+    )
+  ).catch((error) => {
+    console.error('Failed to load offline queue:', error);
+    return null;
+  });
 
   return {
-    pending,
-    failed,
-    synced,
-    total: queue.length,
-    oldestQueuedAt,
+    pending: row?.pending ?? 0,
+    failed: row?.failed ?? 0,
+    synced: row?.synced ?? 0,
+    total: row?.total ?? 0,
+    oldestQueuedAt: row?.oldest ?? null,
   };
 }
 
@@ -268,43 +607,108 @@ export async function hasPendingCheckIn(
   attendeeId: string,
   eventId: string
 ): Promise<{ pending: boolean; checkedIn?: boolean }> {
-  const queue = await loadQueue();
-  const pendingItem = queue.find(
-    (item) =>
-      item.attendeeId === attendeeId &&
-      item.eventId === eventId &&
-      !item.synced &&
-      item.attempts < MAX_RETRY_ATTEMPTS
-  );
-
-  if (pendingItem) {
-    return { pending: true, checkedIn: pendingItem.checkedIn };
-  }
-
-  return { pending: false };
+  const states = await getPendingCheckInStates(eventId);
+  const checkedIn = states.get(attendeeId);
+  return checkedIn === undefined ? { pending: false } : { pending: true, checkedIn };
 }
 
 /**
  * Remove a specific item from the queue (e.g., user cancels)
  */
 export async function removeFromQueue(queueId: string): Promise<boolean> {
-  const queue = await loadQueue();
-  const index = queue.findIndex((item) => item.id === queueId);
+  const removed = await writeLocalStore(async (db) => {
+    const result = await db.runAsync('DELETE FROM operations WHERE id = ?', [queueId]);
+    await deleteOrphanedAttempts(db);
+    return result.changes > 0;
+  });
 
-  if (index >= 0) {
-    queue.splice(index, 1);
-    await saveQueue(queue);
+  if (removed) {
     console.log(`Removed queue item ${queueId}`);
-    return true;
   }
 
-  return false;
+  return removed;
+}
+
+/**
+ * Unsynced operations that removeOperations(queueIds) would also discard or change because they reference a walk-in
+ * being discarded (e.g. a later check-in or edit of that walk-in, or a table check-in that includes it)
+ */
+export async function getWalkInDependents(queueIds: string[]): Promise<QueuedOperation[]> {
+  const rows = await readLocalStore((db) =>
+    db.getAllAsync<OperationRow>('SELECT * FROM operations WHERE synced = 0 ORDER BY seq')
+  );
+  return findWalkInDependents(rows.map(mapRowToOperation), queueIds).dependents;
+}
+
+/**
+ * Discard several unsynced operations in one transaction. Discarding a walk-in also discards the operations on it and
+ * takes it out of group/table check-ins (which keep their other attendees), so nothing is left waiting on it.
+ */
+export async function removeOperations(queueIds: string[]): Promise<number> {
+  const removed = await writeLocalStore(async (db) => {
+    const rows = await db.getAllAsync<OperationRow>('SELECT * FROM operations WHERE synced = 0 ORDER BY seq');
+    const { walkIns, dependents } = findWalkInDependents(rows.map(mapRowToOperation), queueIds);
+
+    let changes = 0;
+    for (const queueId of queueIds) {
+      const result = await db.runAsync('DELETE FROM operations WHERE id = ? AND synced = 0', [queueId]);
+      changes += result.changes;
+    }
+
+    for (const operation of dependents) {
+      const { payload } = operation;
+      const targets =
+        payload.type === 'bulk_check_in'
+          ? payload.targets.filter(
+              (target) => !walkIns.some((walkIn) => walkIn.localAttendeeId === target.attendeeId)
+            )
+          : [];
+      if (payload.type === 'bulk_check_in' && targets.length > 0) {
+        await db.runAsync('UPDATE operations SET payload = ? WHERE id = ?', [
+          JSON.stringify({ ...payload, targets }),
+          operation.id,
+        ]);
+      } else {
+        const result = await db.runAsync('DELETE FROM operations WHERE id = ?', [operation.id]);
+        changes += result.changes;
+      }
+    }
+
+    await deleteOrphanedAttempts(db);
+    return changes;
+  });
+  console.log(`Discarded ${removed} queued operations`);
+  return removed;
 }
 
 /**
  * Clear entire queue (use with caution)
  */
 export async function clearQueue(): Promise<void> {
-  await AsyncStorage.removeItem(QUEUE_STORAGE_KEY);
+  await writeLocalStore(async (db) => {
+    await db.runAsync('DELETE FROM operations');
+    await db.runAsync('DELETE FROM operation_attempts');
+  });
   console.log('Cleared entire offline queue');
 }
+
+/**
+ * Short label for the sync center, e.g. "Undo check-in · Ada Lovelace" or "Check in table 4 (12)".
+ * `names` maps attendee IDs to names for operations that only carry an ID.
+ */
+export function describeQueuedOperation(operation: QueuedOperation, names: Map<string, string>): string {
+  const { payload } = operation;
+  const nameOf = (attendeeId: string) => names.get(attendeeId) ?? 'Unknown attendee';
+  switch (payload.type) {
+    case 'check_in':
+      return `${payload.checkedIn ? 'Check in' : 'Undo check-in'} · ${nameOf(payload.attendeeId)}`;
+    case 'bulk_check_in':
+      return `${payload.checkedIn ? 'Check in' : 'Undo check-in for'} ${payload.scope} ${payload.label} (${payload.targets.length})`;
+    case 'walk_in':
+      return `Walk-in · ${payload.walkIn.attendeeName}`;
+    case 'edit_attendee':
+      return `Edit details · ${payload.details.attendeeName}`;
+    case 'notes':
+      return `Notes · ${nameOf(payload.attendeeId)}`;
+  }
+}
@@ -49,6 +49,11 @@ export const describeRole = (role: EventRole): string => {
   }
 };
 
+export const canRegisterWalkIns = (role: EventRole): boolean => {
+  if (!role) return false;
+  return CHECKIN_ROLES.has(role);
+};
+
 export const canViewAttendees = (role: EventRole): boolean => {
   if (!role) return false;
   return CHECKIN_ROLES.has(role);
@@ -59,6 +64,16 @@ export const canEditAttendees = (role: EventRole): boolean => {
   return ADMIN_ROLES.has(role);
 };
 
+export const canSendAnnouncements = (role: EventRole): boolean => {
+  if (!role) return false;
+  return ADMIN_ROLES.has(role);
+};
+
+export const canViewDashboard = (role: EventRole): boolean => {
+  if (!role) return false;
+  return ADMIN_ROLES.has(role);
+};
+
 export const canInviteUsers = (role: EventRole): boolean => {
   if (!role) return false;
   return role === 'manager';
@@ -1,195 +1,454 @@
 /**
  * Lintnotes
- * - Purpose: Manage Supabase Realtime subscriptions with reconnection/backoff logic and connection status tracking.
- * - Exports: RealtimeSubscriptionOptions/RealtimeConnectionStatus (types), realtimeManager (singleton),
- *            subscribeToAttendees, subscribeToEvents, getRealtimeConnectionStatus, getAllRealtimeConnectionStatuses, cleanupRealtimeConnections.
+ * - Purpose: Manage Supabase Realtime subscriptions to any table or broadcast channel with per-channel reconnect
+ *            policies, connection status and metrics (messages, reconnect history, latency) pushed to listeners.
+ * - Exports: RealtimeTable/RealtimeTableSubscription/RealtimeBroadcastSubscription/RealtimeReconnectPolicy/
+ *            RealtimeChannelOptions/RealtimeSubscriptionOptions/RealtimeReconnectEvent/RealtimeConnectionStatus
+ *            (types), realtimeManager (singleton), subscribeToTable, subscribeToBroadcast, sendBroadcast,
+ *            subscribeToAttendees, subscribeToEvents, getAttendeesChannelName, trackPresence, untrackPresence,
+ *            addPresenceListener, addRealtimeStatusListener, getRealtimeConnectionStatus,
+ *            getAllRealtimeConnectionStatuses, cleanupRealtimeConnections.
  * - Major deps: @supabase/supabase-js RealtimeChannel, services/supabase
- * - Side effects: Opens/closes realtime channels; schedules timeouts for reconnect attempts; stores state in module singletons.
+ * - Side effects: Opens/closes realtime channels; schedules timeouts for reconnect attempts and batched status
+ *                 emits; stores state in module singletons.
+ * - Notes: A subscription keeps its table, filter and callbacks, so a dropped channel is rebuilt exactly as it was
+ *          subscribed. onReconnected fires whenever a channel comes back after having been connected, since changes
+ *          made while it was down were missed and the caller should refetch. Presence is tracked and listened to by
+ *          channel name, independent of who subscribed the channel, and re-sent each time it (re)connects.
+ *          Connection changes reach status listeners immediately; message counts are batched to once a second so a
+ *          busy event doesn't re-render the UI for every change.
  */
 import { getSupabaseClient } from './supabase';
-import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  RealtimePresenceState,
+} from '@supabase/supabase-js';
 
-export type RealtimeSubscriptionOptions = {
-  eventId: string;
+/**
+ * Tables published to Supabase Realtime (see supabase/migrations/20261029_add_realtime_publication.sql and
+ * 20261102_add_announcements_to_realtime.sql)
+ */
+export type RealtimeTable =
+  | 'attendees'
+  | 'events'
+  | 'event_members'
+  | 'event_access_codes'
+  | 'event_code_redemptions'
+  | 'event_announcements';
+
+type RealtimeChannelStatus = 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'TIMED_OUT' | 'CLOSED';
+
+export type RealtimeTableSubscription = {
+  table: RealtimeTable;
+  /** Only rows where column equals value, e.g. { column: 'event_id', value: eventId } */
+  filter?: { column: string; value: string };
+  /** Change types to receive; all by default */
+  event?: '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+  /** Defaults to `<table>-<filter value>`; subscribing again with the same name replaces the subscription */
+  channelName?: string;
+  /** Share who is on the channel too (see trackPresence and addPresenceListener) */
+  presence?: boolean;
+};
+
+export type RealtimeBroadcastSubscription = {
+  channelName: string;
+  /** Broadcast event names to receive */
+  events: string[];
+};
+
+export type RealtimeReconnectPolicy = {
+  /** Failed attempts in a row before giving up and calling onError */
+  maxAttempts: number;
+  /** Delay before the first attempt; doubles with each attempt after */
+  initialDelay: number;
+  maxDelay: number;
+};
+
+export type RealtimeChannelOptions = {
   onError?: (error: Error) => void;
-  onStatusChange?: (status: 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'TIMED_OUT' | 'CLOSED') => void;
+  onStatusChange?: (status: RealtimeChannelStatus) => void;
+  /** The channel is back after a drop: refetch whatever it feeds */
   onReconnected?: () => void;
-  reconnectAttempts?: number;
-  reconnectDelay?: number;
+  /** Overrides the table's default reconnect policy */
+  reconnect?: Partial<RealtimeReconnectPolicy>;
+};
+
+export type RealtimeSubscriptionOptions = RealtimeChannelOptions & {
+  eventId: string;
+};
+
+export type RealtimeReconnectEvent = {
+  at: Date;
+  /** dropped: the channel errored or timed out; reconnected: it came back; gave-up: the policy ran out of attempts */
+  kind: 'dropped' | 'reconnected' | 'gave-up';
+  /** Reconnect attempt a drop started */
+  attempt?: number;
 };
 
 export type RealtimeConnectionStatus = {
+  /** null for broadcast-only channels */
+  table: RealtimeTable | null;
   isConnected: boolean;
   lastError?: Error;
   reconnectAttempts: number;
   lastConnectedAt?: Date;
+  /** When the last change or broadcast arrived */
+  lastMessageAt?: Date;
+  /** Changes and broadcasts received since the channel was subscribed */
+  messageCount: number;
+  /** Recent drops and reconnections, newest first */
+  reconnectHistory: RealtimeReconnectEvent[];
+  /** How long the server took to acknowledge the last (re)subscribe */
+  joinLatencyMs?: number;
+  /** Smoothed delay from a database commit to its change arriving here; includes any device clock skew */
+  deliveryLatencyMs?: number;
+};
+
+type RealtimeChangeHandler = (change: RealtimePostgresChangesPayload<any>) => void;
+
+type RealtimeBroadcastHandler = (event: string, payload: Record<string, unknown>) => void;
+
+type PresenceListener = (state: RealtimePresenceState) => void;
+
+type RealtimeStatusListener = (statuses: Map<string, RealtimeConnectionStatus>) => void;
+
+const DEFAULT_RECONNECT_POLICY: RealtimeReconnectPolicy = {
+  maxAttempts: 3,
+  initialDelay: 2000,
+  maxDelay: 30000,
+};
+
+const MAX_RECONNECT_HISTORY = 10;
+
+// Message counts only need to be roughly live; connection changes are emitted straight away
+const MESSAGE_EMIT_INTERVAL = 1000;
+
+// The check-in list depends on attendee changes, so that channel tries harder before giving up
+const TABLE_RECONNECT_POLICIES: Partial<Record<RealtimeTable, Partial<RealtimeReconnectPolicy>>> = {
+  attendees: { maxAttempts: 5 },
+};
+
+type Subscription = {
+  /** Table the channel follows; null for broadcast-only channels */
+  table: RealtimeTable | null;
+  presence: boolean;
+  /** Attaches change/broadcast listeners; run again for every rebuilt channel */
+  bind: (channel: RealtimeChannel) => void;
+  options: RealtimeChannelOptions;
+  policy: RealtimeReconnectPolicy;
+  channel: RealtimeChannel | null;
+  /** Connected at least once, so the next SUBSCRIBED is a reconnection */
+  hasConnected: boolean;
+  /** When the current channel was opened, for join latency */
+  openedAt: number;
 };
 
 class RealtimeManager {
-  private channels = new Map<string, RealtimeChannel>();
+  private subscriptions = new Map<string, Subscription>();
   private connectionStatus = new Map<string, RealtimeConnectionStatus>();
-  private reconnectTimeouts = new Map<string, NodeJS.Timeout>();
+  private reconnectTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+  // What this client tracks on each presence channel, and who is listening for everyone's presence there
+  private presencePayloads = new Map<string, Record<string, unknown>>();
+  private presenceListeners = new Map<string, Set<PresenceListener>>();
+  private statusListeners = new Set<RealtimeStatusListener>();
+  private statusEmitTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  subscribe(
+    spec: RealtimeTableSubscription,
+    options: RealtimeChannelOptions,
+    onChange: RealtimeChangeHandler
+  ): () => void {
+    const channelName = spec.channelName ?? (spec.filter ? `${spec.table}-${spec.filter.value}` : spec.table);
+
+    return this.register(channelName, {
+      table: spec.table,
+      presence: spec.presence ?? false,
+      bind: (channel) => {
+        channel.on(
+          'postgres_changes',
+          {
+            event: spec.event ?? '*',
+            schema: 'public',
+            table: spec.table,
+            ...(spec.filter ? { filter: `${spec.filter.column}=eq.${spec.filter.value}` } : {}),
+          },
+          (payload) => {
+            console.log(`Real-time ${spec.table} change:`, payload.eventType);
+            this.recordMessage(channelName, payload.commit_timestamp);
+            onChange(payload);
+          }
+        );
+      },
+      options,
+      policy: { ...DEFAULT_RECONNECT_POLICY, ...TABLE_RECONNECT_POLICIES[spec.table], ...options.reconnect },
+    });
+  }
 
-  subscribeToAttendees(
-    options: RealtimeSubscriptionOptions,
-    onChange: (change: RealtimePostgresChangesPayload<any>) => void
+  subscribeToBroadcast(
+    spec: RealtimeBroadcastSubscription,
+    options: RealtimeChannelOptions,
+    onMessage: RealtimeBroadcastHandler
+  ): () => void {
+    return this.register(spec.channelName, {
+      table: null,
+      presence: false,
+      bind: (channel) => {
+        spec.events.forEach((event) => {
+          channel.on('broadcast', { event }, ({ payload }) => {
+            this.recordMessage(spec.channelName);
+            onMessage(event, (payload ?? {}) as Record<string, unknown>);
+          });
+        });
+      },
+      options,
+      policy: { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect },
+    });
+  }
+
+  /**
+   * Send a broadcast on a subscribed channel; false when the channel isn't connected (nothing is queued)
+   */
+  async sendBroadcast(channelName: string, event: string, payload: Record<string, unknown>): Promise<boolean> {
+    const subscription = this.subscriptions.get(channelName);
+    if (!subscription?.channel || !this.connectionStatus.get(channelName)?.isConnected) return false;
+
+    const result = await subscription.channel.send({ type: 'broadcast', event, payload });
+    return result === 'ok';
+  }
+
+  private register(
+    channelName: string,
+    fields: Omit<Subscription, 'channel' | 'hasConnected' | 'openedAt'>
   ): () => void {
-    const { eventId, onError, onStatusChange, reconnectAttempts = 3, reconnectDelay = 2000 } = options;
-    const channelName = `attendees-${eventId}`;
-    
     // Clean up existing subscription
     this.unsubscribe(channelName);
 
+    const subscription: Subscription = { ...fields, channel: null, hasConnected: false, openedAt: Date.now() };
+    this.subscriptions.set(channelName, subscription);
+    this.connectionStatus.set(channelName, {
+      table: subscription.table,
+      isConnected: false,
+      reconnectAttempts: 0,
+      messageCount: 0,
+      reconnectHistory: [],
+    });
+    this.emitStatus();
+    this.openChannel(channelName, subscription);
+
+    return () => {
+      // A later subscription under the same name replaced this one; leave it alone
+      if (this.subscriptions.get(channelName) === subscription) {
+        this.unsubscribe(channelName);
+      }
+    };
+  }
+
+  private openChannel(channelName: string, subscription: Subscription) {
+    const { options } = subscription;
     const supabase = getSupabaseClient();
-    const channel = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'attendees',
-          filter: `event_id=eq.${eventId}`,
-        },
-        (payload) => {
-          console.log('Real-time attendee change:', payload);
-          onChange(payload);
-        }
-      )
-      .subscribe((status) => {
-        console.log(`Real-time subscription status for ${channelName}:`, status);
-        
-        const previousStatus = this.connectionStatus.get(channelName);
-        const wasDisconnected = previousStatus && !previousStatus.isConnected;
-        
-        this.updateConnectionStatus(channelName, status);
-        onStatusChange?.(status);
-
-        // Trigger onReconnected callback when connection is restored
-        if (status === 'SUBSCRIBED' && wasDisconnected) {
+
+    if (subscription.channel) {
+      supabase.removeChannel(subscription.channel);
+    }
+
+    const channel = supabase.channel(channelName);
+    subscription.openedAt = Date.now();
+    subscription.bind(channel);
+    if (subscription.presence) {
+      channel.on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState();
+        this.presenceListeners.get(channelName)?.forEach((listener) => listener(state));
+      });
+    }
+    channel.subscribe((status) => {
+      // Ignore the old channel closing after a reconnect or unsubscribe replaced it
+      if (subscription.channel !== channel || this.subscriptions.get(channelName) !== subscription) return;
+      console.log(`Real-time subscription status for ${channelName}:`, status);
+
+      this.updateConnectionStatus(channelName, subscription, status);
+      options.onStatusChange?.(status);
+
+      if (status === 'SUBSCRIBED') {
+        if (subscription.hasConnected) {
           console.log(`✅ Reconnected to ${channelName}, triggering data refresh`);
+          this.addReconnectEvent(channelName, { at: new Date(), kind: 'reconnected' });
           options.onReconnected?.();
         }
+        subscription.hasConnected = true;
+        this.sendPresence(channelName);
+      }
 
-        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
-          this.handleReconnection(channelName, options, onChange);
-        }
-      });
-
-    this.channels.set(channelName, channel);
-    this.connectionStatus.set(channelName, {
-      isConnected: false,
-      reconnectAttempts: 0,
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        this.handleReconnection(channelName, subscription);
+      }
     });
 
-    return () => this.unsubscribe(channelName);
+    subscription.channel = channel;
   }
 
-  subscribeToEvents(
-    options: Omit<RealtimeSubscriptionOptions, 'eventId'> & { orgId: string },
-    onChange: (change: RealtimePostgresChangesPayload<any>) => void
-  ): () => void {
-    const { orgId, onError, onStatusChange, reconnectAttempts = 3, reconnectDelay = 2000 } = options;
-    const channelName = `events-${orgId}`;
-    
-    // Clean up existing subscription
-    this.unsubscribe(channelName);
+  /**
+   * Tell others on a presence channel about this client; replaces what was tracked before. Kept until untracked, so
+   * it can be set before the channel is subscribed and is sent again after every reconnect.
+   */
+  trackPresence(channelName: string, payload: Record<string, unknown>) {
+    this.presencePayloads.set(channelName, payload);
+    this.sendPresence(channelName);
+  }
 
-    const supabase = getSupabaseClient();
-    const channel = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'events',
-          filter: `org_id=eq.${orgId}`,
-        },
-        (payload) => {
-          console.log('Real-time event change:', payload);
-          onChange(payload);
-        }
-      )
-      .subscribe((status) => {
-        console.log(`Real-time subscription status for ${channelName}:`, status);
-        
-        this.updateConnectionStatus(channelName, status);
-        onStatusChange?.(status);
-
-        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
-          this.handleReconnection(channelName, { ...options, eventId: orgId }, onChange);
-        }
-      });
+  untrackPresence(channelName: string) {
+    this.presencePayloads.delete(channelName);
+    const subscription = this.subscriptions.get(channelName);
+    if (subscription?.channel && this.connectionStatus.get(channelName)?.isConnected) {
+      void subscription.channel.untrack();
+    }
+  }
 
-    this.channels.set(channelName, channel);
-    this.connectionStatus.set(channelName, {
-      isConnected: false,
-      reconnectAttempts: 0,
-    });
+  addPresenceListener(channelName: string, listener: PresenceListener): () => void {
+    const listeners = this.presenceListeners.get(channelName) ?? new Set<PresenceListener>();
+    listeners.add(listener);
+    this.presenceListeners.set(channelName, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.presenceListeners.delete(channelName);
+    };
+  }
+
+  private sendPresence(channelName: string) {
+    const payload = this.presencePayloads.get(channelName);
+    const subscription = this.subscriptions.get(channelName);
+    if (!payload || !subscription?.presence || !subscription.channel) return;
+    if (!this.connectionStatus.get(channelName)?.isConnected) return;
 
-    return () => this.unsubscribe(channelName);
+    subscription.channel.track(payload).catch((error) => {
+      console.error(`Failed to track presence on ${channelName}:`, error);
+    });
   }
 
-  private updateConnectionStatus(channelName: string, status: string) {
-    const current = this.connectionStatus.get(channelName) || {
-      isConnected: false,
-      reconnectAttempts: 0,
+  /**
+   * Listen for connection status and metric changes on every channel
+   */
+  addStatusListener(listener: RealtimeStatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getAllConnectionStatuses());
+    return () => {
+      this.statusListeners.delete(listener);
     };
+  }
+
+  private emitStatus() {
+    if (this.statusEmitTimeout) {
+      clearTimeout(this.statusEmitTimeout);
+      this.statusEmitTimeout = null;
+    }
+    const statuses = this.getAllConnectionStatuses();
+    this.statusListeners.forEach((listener) => {
+      try {
+        listener(statuses);
+      } catch (error) {
+        console.error('Realtime status listener error:', error);
+      }
+    });
+  }
+
+  private scheduleStatusEmit() {
+    if (this.statusEmitTimeout || this.statusListeners.size === 0) return;
+    this.statusEmitTimeout = setTimeout(() => {
+      this.statusEmitTimeout = null;
+      this.emitStatus();
+    }, MESSAGE_EMIT_INTERVAL);
+  }
+
+  private setConnectionStatus(channelName: string, update: Partial<RealtimeConnectionStatus>) {
+    const current = this.connectionStatus.get(channelName);
+    if (!current) return;
+    this.connectionStatus.set(channelName, { ...current, ...update });
+    this.emitStatus();
+  }
+
+  private addReconnectEvent(channelName: string, event: RealtimeReconnectEvent) {
+    const current = this.connectionStatus.get(channelName);
+    if (!current) return;
+    this.setConnectionStatus(channelName, {
+      reconnectHistory: [event, ...current.reconnectHistory].slice(0, MAX_RECONNECT_HISTORY),
+    });
+  }
+
+  private recordMessage(channelName: string, commitTimestamp?: string) {
+    const current = this.connectionStatus.get(channelName);
+    if (!current) return;
+
+    const now = Date.now();
+    let deliveryLatencyMs = current.deliveryLatencyMs;
+    const committedAt = commitTimestamp ? Date.parse(commitTimestamp) : NaN;
+    if (Number.isFinite(committedAt)) {
+      const sample = Math.max(0, now - committedAt);
+      // Exponential moving average, so one slow change doesn't swing the estimate
+      deliveryLatencyMs = deliveryLatencyMs === undefined ? sample : Math.round(deliveryLatencyMs * 0.8 + sample * 0.2);
+    }
 
     this.connectionStatus.set(channelName, {
       ...current,
-      isConnected: status === 'SUBSCRIBED',
-      lastConnectedAt: status === 'SUBSCRIBED' ? new Date() : current.lastConnectedAt,
-      lastError: status === 'CHANNEL_ERROR' ? new Error('Channel error') : current.lastError,
+      lastMessageAt: new Date(now),
+      messageCount: current.messageCount + 1,
+      deliveryLatencyMs,
     });
+    this.scheduleStatusEmit();
   }
 
-  private handleReconnection(
-    channelName: string,
-    options: RealtimeSubscriptionOptions,
-    onChange: (change: RealtimePostgresChangesPayload<any>) => void
-  ) {
+  private updateConnectionStatus(channelName: string, subscription: Subscription, status: RealtimeChannelStatus) {
     const current = this.connectionStatus.get(channelName);
     if (!current) return;
 
-    const { reconnectAttempts: maxAttempts, reconnectDelay } = options;
+    const connected = status === 'SUBSCRIBED';
+    this.setConnectionStatus(channelName, {
+      isConnected: connected,
+      reconnectAttempts: connected ? 0 : current.reconnectAttempts,
+      lastConnectedAt: connected ? new Date() : current.lastConnectedAt,
+      lastError: status === 'CHANNEL_ERROR' ? new Error('Channel error') : current.lastError,
+      joinLatencyMs: connected ? Date.now() - subscription.openedAt : current.joinLatencyMs,
+    });
+  }
+
+  private handleReconnection(channelName: string, subscription: Subscription) {
+    const current = this.connectionStatus.get(channelName);
+    if (!current || this.reconnectTimeouts.has(channelName)) return;
+
+    const { maxAttempts, initialDelay, maxDelay } = subscription.policy;
     const attempts = current.reconnectAttempts + 1;
 
     if (attempts > maxAttempts) {
       console.error(`Max reconnection attempts (${maxAttempts}) reached for ${channelName}`);
-      options.onError?.(new Error(`Failed to reconnect after ${maxAttempts} attempts`));
+      const error = new Error(`Failed to reconnect after ${maxAttempts} attempts`);
+      this.setConnectionStatus(channelName, { lastError: error });
+      this.addReconnectEvent(channelName, { at: new Date(), kind: 'gave-up' });
+      subscription.options.onError?.(error);
       return;
     }
 
     console.log(`Attempting to reconnect ${channelName} (attempt ${attempts}/${maxAttempts})`);
 
-    this.connectionStatus.set(channelName, {
-      ...current,
-      reconnectAttempts: attempts,
-    });
-
-    // Clear existing timeout
-    const existingTimeout = this.reconnectTimeouts.get(channelName);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
-    }
+    this.setConnectionStatus(channelName, { reconnectAttempts: attempts });
+    this.addReconnectEvent(channelName, { at: new Date(), kind: 'dropped', attempt: attempts });
 
-    // Schedule reconnection
+    // Exponential backoff with jitter, so devices dropped together don't all reconnect at once
+    const delay = Math.min(initialDelay * 2 ** (attempts - 1), maxDelay);
     const timeout = setTimeout(() => {
       this.reconnectTimeouts.delete(channelName);
-      this.subscribeToAttendees(options, onChange);
-    }, reconnectDelay * attempts); // Exponential backoff
+      if (this.subscriptions.get(channelName) === subscription) {
+        this.openChannel(channelName, subscription);
+      }
+    }, delay / 2 + Math.random() * (delay / 2));
 
     this.reconnectTimeouts.set(channelName, timeout);
   }
 
   private unsubscribe(channelName: string) {
-    const channel = this.channels.get(channelName);
-    if (channel) {
+    const subscription = this.subscriptions.get(channelName);
+    this.subscriptions.delete(channelName);
+    if (subscription?.channel) {
       const supabase = getSupabaseClient();
-      supabase.removeChannel(channel);
-      this.channels.delete(channelName);
+      supabase.removeChannel(subscription.channel);
     }
 
     const timeout = this.reconnectTimeouts.get(channelName);
@@ -198,7 +457,9 @@ class RealtimeManager {
       this.reconnectTimeouts.delete(channelName);
     }
 
-    this.connectionStatus.delete(channelName);
+    if (this.connectionStatus.delete(channelName)) {
+      this.emitStatus();
+    }
   }
 
   getConnectionStatus(channelName: string): RealtimeConnectionStatus | undefined {
@@ -211,7 +472,7 @@ class RealtimeManager {
 
   // Clean up all subscriptions
   cleanup() {
-    for (const channelName of this.channels.keys()) {
+    for (const channelName of Array.from(this.subscriptions.keys())) {
       this.unsubscribe(channelName);
     }
   }
@@ -221,21 +482,61 @@ class RealtimeManager {
 export const realtimeManager = new RealtimeManager();
 
 // Convenience functions
+export const subscribeToTable = (
+  spec: RealtimeTableSubscription,
+  options: RealtimeChannelOptions,
+  onChange: RealtimeChangeHandler
+) => realtimeManager.subscribe(spec, options, onChange);
+
+export const subscribeToBroadcast = (
+  spec: RealtimeBroadcastSubscription,
+  options: RealtimeChannelOptions,
+  onMessage: RealtimeBroadcastHandler
+) => realtimeManager.subscribeToBroadcast(spec, options, onMessage);
+
+export const sendBroadcast = (channelName: string, event: string, payload: Record<string, unknown>) =>
+  realtimeManager.sendBroadcast(channelName, event, payload);
+
+export const getAttendeesChannelName = (eventId: string) => `attendees-${eventId}`;
+
+// The attendee channel also carries staff presence for the event (services/staffPresence.ts)
 export const subscribeToAttendees = (
-  options: RealtimeSubscriptionOptions,
-  onChange: (change: RealtimePostgresChangesPayload<any>) => void
-) => realtimeManager.subscribeToAttendees(options, onChange);
+  { eventId, ...options }: RealtimeSubscriptionOptions,
+  onChange: RealtimeChangeHandler
+) =>
+  realtimeManager.subscribe(
+    {
+      table: 'attendees',
+      filter: { column: 'event_id', value: eventId },
+      channelName: getAttendeesChannelName(eventId),
+      presence: true,
+    },
+    options,
+    onChange
+  );
 
 export const subscribeToEvents = (
-  options: Omit<RealtimeSubscriptionOptions, 'eventId'> & { orgId: string },
-  onChange: (change: RealtimePostgresChangesPayload<any>) => void
-) => realtimeManager.subscribeToEvents(options, onChange);
+  { orgId, ...options }: RealtimeChannelOptions & { orgId: string },
+  onChange: RealtimeChangeHandler
+) => realtimeManager.subscribe({ table: 'events', filter: { column: 'org_id', value: orgId } }, options, onChange);
+
+export const trackPresence = (channelName: string, payload: Record<string, unknown>) =>
+  realtimeManager.trackPresence(channelName, payload);
+
+export const untrackPresence = (channelName: string) =>
+  realtimeManager.untrackPresence(channelName);
+
+export const addPresenceListener = (channelName: string, listener: PresenceListener) =>
+  realtimeManager.addPresenceListener(channelName, listener);
+
+export const addRealtimeStatusListener = (listener: RealtimeStatusListener) =>
+  realtimeManager.addStatusListener(listener);
 
-export const getRealtimeConnectionStatus = (channelName: string) => 
+export const getRealtimeConnectionStatus = (channelName: string) =>
   realtimeManager.getConnectionStatus(channelName);
 
-export const getAllRealtimeConnectionStatuses = () => 
+export const getAllRealtimeConnectionStatuses = () =>
   realtimeManager.getAllConnectionStatuses();
 
-export const cleanupRealtimeConnections = () => 
+export const cleanupRealtimeConnections = () =>
   realtimeManager.cleanup();
@@ -0,0 +1,418 @@
+/**
+ * Lintnotes
+ * - Purpose: Venue relay transport. When a staff laptop runs scripts/checkin-relay.mjs on a venue network with no
+ *            internet, devices share check-ins through it so every door sees who is already in. Sits next to
+ *            services/realtime.ts (Supabase) as the transport used without internet.
+ * - Exports: RelayConfig/RelayStatus/RelayCheckIn/RelayRejection (types), connectRelay, disconnectRelay,
+ *            startRelay, stopRelay, getRelayStatus, addRelayStatusListener, toRelayCheckIns, isLocalNetworkUrl,
+ *            reportRejectedCheckIns, refreshRejectedCheckIns
+ * - Major deps: services/offlineQueue (pending operations, queued listener), services/attendeeStore (applies other
+ *               devices' check-ins to the cache), services/attendees (fetchAttendee), services/secureStorage (relay
+ *               address and key), services/device
+ * - Side effects: Long-polls the relay while connected; pushes queued check-ins as they are made; writes other
+ *                 devices' check-ins into the local cache and asks the attendee list to refresh; re-fetches
+ *                 attendees whose relayed check-in the server rejected.
+ * - Notes: The relay only passes check-ins between devices and never gets a sign-in; queued operations stay queued
+ *          until the device syncs them itself, and every device applying the same op_id is harmless. Devices
+ *          reconcile with Supabase using the same op_ids: when the server rejects a check-in (conflict or attendee
+ *          gone), the device that made it passes the rejection through the relay, and devices that applied it from
+ *          the relay re-fetch that attendee instead of trusting their cache. Plain HTTP is only accepted for relays
+ *          on a private network address (app.config.js limits cleartext the same way).
+ */
+import { addOperationQueuedListener, getPendingOperations, type QueuedOperation } from './offlineQueue';
+import { removeCachedAttendee, setCachedCheckIn, upsertCachedAttendee } from './attendeeStore';
+import { fetchAttendee } from './attendees';
+import { emitRefreshAttendees } from './attendeeEvents';
+import { secureStorage } from './secureStorage';
+import { getDeviceId } from './device';
+
+const RELAY_CONFIG_KEY = '@checkin_relay';
+
+// Relay holds a poll open this long when nothing is new; the request timeout allows for it
+const POLL_WAIT_MS = 25000;
+const REQUEST_TIMEOUT_MS = POLL_WAIT_MS + 10000;
+const RETRY_DELAY_MS = 5000;
+
+export type RelayConfig = {
+  /** e.g. http://192.168.1.20:8787 */
+  url: string;
+  /** Pairing key the relay printed when it started */
+  key: string;
+};
+
+export type RelayStatus = {
+  url: string | null;
+  connected: boolean;
+  /** Devices that have talked to the relay recently, including this one */
+  devices: number;
+  lastError: string | null;
+  lastContactAt: number | null;
+};
+
+/** A check-in as the relay and apply_checkin_operations take it */
+export type RelayCheckIn = {
+  op_id: string;
+  event_id: string;
+  attendee_id: string;
+  checked: boolean;
+  occurred_at: string;
+  source?: 'group' | 'table';
+  device_id?: string;
+  seq?: number;
+  /** Set on entries that pass on a rejection of op_id rather than a check-in */
+  rejected?: boolean;
+};
+
+/** A check-in apply_checkin_operations rejected (conflict or attendee not found) */
+export type RelayRejection = Pick<RelayCheckIn, 'op_id' | 'event_id' | 'attendee_id'>;
+
+type RelayListener = (status: RelayStatus) => void;
+
+// Module state
+let config: RelayConfig | null = null;
+// Bumped on every start/stop so an old poll loop exits
+let generation = 0;
+let since = 0;
+let relayId: string | null = null;
+let queuedSubscription: (() => void) | null = null;
+let pushing: Promise<void> | null = null;
+const pushedOperationIds = new Set<string>();
+let pendingRejections: RelayRejection[] = [];
+// Other devices' check-ins written to the cache, by op_id, so a rejection of one can be undone
+const appliedFromRelay = new Map<string, RelayRejection>();
+// Attendees to re-fetch from Supabase because a check-in applied from the relay was rejected
+const staleAttendees = new Map<string, RelayRejection>();
+// Latest change per attendee seen from any device, so an older check-in arriving late doesn't win
+const latestChange = new Map<string, number>();
+
+let status: RelayStatus = { url: null, connected: false, devices: 0, lastError: null, lastContactAt: null };
+const relayListeners = new Set<RelayListener>();
+
+function setStatus(update: Partial<RelayStatus>): void {
+  status = { ...status, ...update };
+  relayListeners.forEach((listener) => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error('Relay listener error:', error);
+    }
+  });
+}
+
+export function addRelayStatusListener(listener: RelayListener): () => void {
+  relayListeners.add(listener);
+  listener(status);
+  return () => {
+    relayListeners.delete(listener);
+  };
+}
+
+export function getRelayStatus(): RelayStatus {
+  return status;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.name === 'AbortError' ? 'Relay did not respond' : error.message;
+  }
+  return 'Unknown error';
+}
+
+function normalizeUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+/**
+ * Whether a relay address may be used without TLS: loopback, private IPv4 ranges and .local names only
+ */
+export function isLocalNetworkUrl(url: string): boolean {
+  const match = /^https?:\/\/([^/:?#]+)/i.exec(url);
+  if (!match) return false;
+  const host = match[1].toLowerCase();
+  if (host === 'localhost' || host.endsWith('.local')) return true;
+
+  const octets = host.split('.').map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    return false;
+  }
+  const [a, b] = octets;
+  return a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+async function relayRequest<T>(relay: RelayConfig, path: string, init: RequestInit = {}): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${relay.url}${path}`, {
+      ...init,
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json', 'x-relay-key': relay.key, ...init.headers },
+    });
+    const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+    if (!response.ok) {
+      throw new Error(body.error ?? `Relay error (${response.status})`);
+    }
+    return body;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * The check-ins a queued operation carries (group/table check-ins are one per attendee). Walk-ins, edits and notes
+ * aren't shared: other devices can't act on a walk-in's local ID, and edits need the server's version checks.
+ */
+export function toRelayCheckIns(operation: QueuedOperation): RelayCheckIn[] {
+  const occurredAt = new Date(operation.occurredAt).toISOString();
+  const { payload } = operation;
+  if (payload.type === 'check_in') {
+    return [
+      {
+        op_id: operation.operationId,
+        event_id: operation.eventId,
+        attendee_id: payload.attendeeId,
+        checked: payload.checkedIn,
+        occurred_at: occurredAt,
+      },
+    ];
+  }
+  if (payload.type === 'bulk_check_in') {
+    return payload.targets.map((target) => ({
+      op_id: target.operationId,
+      event_id: operation.eventId,
+      attendee_id: target.attendeeId,
+      checked: payload.checkedIn,
+      occurred_at: occurredAt,
+      source: payload.scope,
+    }));
+  }
+  return [];
+}
+
+function noteChange(checkIn: RelayCheckIn): boolean {
+  const key = `${checkIn.event_id}:${checkIn.attendee_id}`;
+  const at = Date.parse(checkIn.occurred_at);
+  if ((latestChange.get(key) ?? -Infinity) > at) return false;
+  latestChange.set(key, at);
+  return true;
+}
+
+/**
+ * Send queued check-ins the relay hasn't seen yet, then any rejections the server returned for them
+ */
+async function pushPending(relay: RelayConfig): Promise<void> {
+  const operations = await getPendingOperations();
+  const checkIns = operations.flatMap(toRelayCheckIns).filter((checkIn) => !pushedOperationIds.has(checkIn.op_id));
+  if (checkIns.length > 0) {
+    // Our own changes count towards last-writer-wins before the relay echoes them back
+    checkIns.forEach(noteChange);
+
+    await relayRequest(relay, '/operations', {
+      method: 'POST',
+      body: JSON.stringify({ device_id: await getDeviceId(), operations: checkIns }),
+    });
+    checkIns.forEach((checkIn) => pushedOperationIds.add(checkIn.op_id));
+    console.log(`📡 Shared ${checkIns.length} check-ins with the venue relay`);
+  }
+
+  const rejections = pendingRejections;
+  if (rejections.length === 0) return;
+  await relayRequest(relay, '/rejections', {
+    method: 'POST',
+    body: JSON.stringify({ device_id: await getDeviceId(), rejections }),
+  });
+  pendingRejections = pendingRejections.filter((rejection) => !rejections.includes(rejection));
+  console.log(`📡 Told the venue relay about ${rejections.length} rejected check-ins`);
+}
+
+function sharePending(): Promise<void> {
+  const relay = config;
+  if (!relay) return Promise.resolve();
+  // One push at a time; a push requested meanwhile runs after it
+  const run = (pushing ?? Promise.resolve()).then(() => pushPending(relay));
+  pushing = run.catch((error) => {
+    setStatus({ connected: false, lastError: describeError(error) });
+  });
+  return run;
+}
+
+/**
+ * Pass on check-ins the server rejected when this device synced them, so devices that applied them from the relay
+ * re-fetch those attendees. Does nothing without a relay.
+ */
+export function reportRejectedCheckIns(rejections: RelayRejection[]): void {
+  if (!config || rejections.length === 0) return;
+  pendingRejections = [...pendingRejections, ...rejections];
+  void sharePending();
+}
+
+/**
+ * Re-fetch attendees whose check-in from the relay the server rejected, replacing the cached row. Any that can't be
+ * fetched (no internet yet) are tried again on the next call; the sync manager calls this after each sync.
+ */
+export async function refreshRejectedCheckIns(): Promise<void> {
+  let refreshed = 0;
+  for (const [key, stale] of staleAttendees) {
+    try {
+      const attendee = await fetchAttendee(stale.attendee_id);
+      if (attendee) {
+        await upsertCachedAttendee(attendee);
+      } else {
+        await removeCachedAttendee(stale.event_id, stale.attendee_id);
+      }
+    } catch (error) {
+      console.log('Could not re-fetch attendees with rejected relay check-ins yet:', describeError(error));
+      break;
+    }
+    staleAttendees.delete(key);
+    latestChange.delete(key);
+    refreshed++;
+  }
+  if (refreshed > 0) {
+    console.log(`📡 Re-fetched ${refreshed} attendees whose relayed check-ins were rejected`);
+    emitRefreshAttendees({ silent: true });
+  }
+}
+
+/**
+ * Write other devices' check-ins into the local cache (in relay order, skipping any older than a change already seen)
+ * and note which of the ones applied here were rejected by the server
+ */
+async function applyRemoteCheckIns(checkIns: RelayCheckIn[]): Promise<void> {
+  const ownId = await getDeviceId();
+  let applied = 0;
+  for (const checkIn of checkIns) {
+    if (checkIn.rejected) {
+      const rejected = appliedFromRelay.get(checkIn.op_id);
+      if (rejected) {
+        appliedFromRelay.delete(checkIn.op_id);
+        staleAttendees.set(`${rejected.event_id}:${rejected.attendee_id}`, rejected);
+      }
+      continue;
+    }
+    if (!noteChange(checkIn) || checkIn.device_id === ownId) continue;
+    await setCachedCheckIn(
+      checkIn.event_id,
+      checkIn.attendee_id,
+      checkIn.checked,
+      checkIn.checked ? checkIn.occurred_at : null
+    );
+    appliedFromRelay.set(checkIn.op_id, {
+      op_id: checkIn.op_id,
+      event_id: checkIn.event_id,
+      attendee_id: checkIn.attendee_id,
+    });
+    applied++;
+  }
+  if (applied > 0) {
+    console.log(`📡 Applied ${applied} check-ins from other devices`);
+    emitRefreshAttendees({ silent: true });
+  }
+  if (staleAttendees.size > 0) {
+    void refreshRejectedCheckIns();
+  }
+}
+
+async function pollLoop(loop: number): Promise<void> {
+  const ownId = await getDeviceId();
+  while (loop === generation && config) {
+    const relay = config;
+    try {
+      await sharePending();
+      const response = await relayRequest<{ operations: RelayCheckIn[]; last_seq: number; relay_id: string }>(
+        relay,
+        `/operations?since=${since}&wait=${POLL_WAIT_MS}&device_id=${encodeURIComponent(ownId)}`
+      );
+      if (loop !== generation) return;
+
+      if (relayId !== null && response.relay_id !== relayId) {
+        // The relay restarted and forgot everything: send our queue again and read from the start
+        console.log('📡 Venue relay restarted; sharing queued check-ins again');
+        pushedOperationIds.clear();
+        since = 0;
+        relayId = response.relay_id;
+        continue;
+      }
+      relayId = response.relay_id;
+
+      await applyRemoteCheckIns(response.operations);
+      since = response.last_seq;
+      if (!status.connected || status.lastError) {
+        const health = await relayRequest<{ devices: number }>(relay, '/health');
+        setStatus({ devices: health.devices });
+      }
+      setStatus({ connected: true, lastError: null, lastContactAt: Date.now() });
+    } catch (error) {
+      if (loop !== generation) return;
+      setStatus({ connected: false, lastError: describeError(error) });
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+}
+
+/**
+ * Start sharing through the saved relay, if one is set up. Safe to call more than once.
+ */
+export async function startRelay(): Promise<void> {
+  if (!config) {
+    const stored = await secureStorage.getItem(RELAY_CONFIG_KEY);
+    config = stored ? (JSON.parse(stored) as RelayConfig) : null;
+  }
+  if (!config) return;
+
+  generation++;
+  since = 0;
+  relayId = null;
+  pushedOperationIds.clear();
+  setStatus({ url: config.url, connected: false, lastError: null });
+
+  queuedSubscription?.();
+  queuedSubscription = addOperationQueuedListener(() => {
+    void sharePending();
+  });
+  void pollLoop(generation);
+  console.log(`📡 Using venue relay at ${config.url}`);
+}
+
+/**
+ * Stop talking to the relay (the saved relay is kept for the next start)
+ */
+export function stopRelay(): void {
+  generation++;
+  queuedSubscription?.();
+  queuedSubscription = null;
+  setStatus({ connected: false });
+}
+
+/**
+ * Check the relay answers with this key, save it and start sharing
+ */
+export async function connectRelay(url: string, key: string): Promise<void> {
+  const relay: RelayConfig = { url: normalizeUrl(url), key: key.trim().toUpperCase() };
+  if (relay.url.toLowerCase().startsWith('http://') && !isLocalNetworkUrl(relay.url)) {
+    throw new Error('A relay without https must be on the local network (e.g. 192.168.x.x or 10.x.x.x)');
+  }
+  try {
+    await relayRequest(relay, '/health');
+  } catch (error) {
+    throw new Error(`Could not reach the relay at ${relay.url}: ${describeError(error)}`);
+  }
+
+  await secureStorage.setItem(RELAY_CONFIG_KEY, JSON.stringify(relay));
+  config = relay;
+  await startRelay();
+}
+
+/**
+ * Stop using the relay and forget it
+ */
+export async function disconnectRelay(): Promise<void> {
+  stopRelay();
+  config = null;
+  latestChange.clear();
+  pendingRejections = [];
+  appliedFromRelay.clear();
+  await secureStorage.removeItem(RELAY_CONFIG_KEY);
+  setStatus({ url: null, connected: false, devices: 0, lastError: null, lastContactAt: null });
+}
@@ -0,0 +1,297 @@
+/**
+ * Lintnotes
+ * - Purpose: Attendance reporting: totals, check-in rate breakdowns (including pre-registered vs walk-in), arrival
+ *            histogram, no-shows, a projected finish time for the live dashboard, and CSV export of the roster and
+ *            summary via the share sheet.
+ * - Exports: BreakdownRow/BreakdownDimension/ArrivalBucket/AttendanceReport/ArrivalProjection (types),
+ *            buildAttendanceReport, getBreakdownLabel, projectArrivals, fetchAttendanceReport, buildAttendeeCsv,
+ *            buildSummaryCsv, exportAttendeeCsv, exportSummaryCsv
+ * - Major deps: services/attendees (fetchAttendees), expo-file-system (File/Paths), expo-sharing
+ * - Side effects: Export helpers write CSV files to the cache directory and open the OS share sheet.
+ */
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { fetchAttendees, type Attendee } from './attendees';
+
+const DEFAULT_BUCKET_MINUTES = 15;
+const DEFAULT_PROJECTION_WINDOW_MINUTES = 30;
+const NO_VALUE_LABEL = '(none)';
+const WALK_IN_LABEL = 'Walk-in';
+const PRE_REGISTERED_LABEL = 'Pre-registered';
+
+export type BreakdownRow = {
+  label: string;
+  total: number;
+  checkedIn: number;
+  rate: number;
+};
+
+export type BreakdownDimension = 'group' | 'table' | 'ticketType';
+
+export type ArrivalBucket = {
+  start: string;
+  count: number;
+};
+
+export type AttendanceReport = {
+  generatedAt: string;
+  total: number;
+  checkedIn: number;
+  pending: number;
+  rate: number;
+  walkIns: number;
+  byRegistration: BreakdownRow[];
+  byGroup: BreakdownRow[];
+  byTable: BreakdownRow[];
+  byTicketType: BreakdownRow[];
+  arrivals: ArrivalBucket[];
+  bucketMinutes: number;
+  noShows: Attendee[];
+};
+
+export type ArrivalProjection = {
+  /** Check-ins per hour over the recent window */
+  ratePerHour: number;
+  remaining: number;
+  /** When the remaining attendees would all be in at the recent pace; null when none are left or nobody has
+   *  arrived in the window */
+  finishAt: string | null;
+  windowMinutes: number;
+};
+
+const BREAKDOWN_KEYS: Record<BreakdownDimension, (attendee: Attendee) => string> = {
+  group: (attendee) => attendee.groupName,
+  table: (attendee) => attendee.tableNumber,
+  ticketType: (attendee) => attendee.ticketType,
+};
+
+const toRate = (checkedIn: number, total: number): number =>
+  total === 0 ? 0 : checkedIn / total;
+
+const formatPercent = (rate: number): string => `${Math.round(rate * 1000) / 10}%`;
+
+/**
+ * The breakdown row an attendee is counted in, e.g. their table number or "(none)"
+ */
+export const getBreakdownLabel = (attendee: Attendee, dimension: BreakdownDimension): string =>
+  BREAKDOWN_KEYS[dimension](attendee).trim() || NO_VALUE_LABEL;
+
+const buildBreakdown = (
+  attendees: Attendee[],
+  keyOf: (attendee: Attendee) => string
+): BreakdownRow[] => {
+  const rows = new Map<string, BreakdownRow>();
+
+  for (const attendee of attendees) {
+    const label = keyOf(attendee).trim() || NO_VALUE_LABEL;
+    const row = rows.get(label) ?? { label, total: 0, checkedIn: 0, rate: 0 };
+    row.total += 1;
+    if (attendee.checkedIn) row.checkedIn += 1;
+    rows.set(label, row);
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, rate: toRate(row.checkedIn, row.total) }))
+    .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true, sensitivity: 'base' }));
+};
+
+const buildArrivals = (attendees: Attendee[], bucketMinutes: number): ArrivalBucket[] => {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const counts = new Map<number, number>();
+
+  for (const attendee of attendees) {
+    if (!attendee.checkedIn || !attendee.checkedInAt) continue;
+    const time = Date.parse(attendee.checkedInAt);
+    if (Number.isNaN(time)) continue;
+    const bucket = Math.floor(time / bucketMs) * bucketMs;
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  }
+
+  if (counts.size === 0) return [];
+
+  // Fill gaps so the histogram has a continuous time axis
+  const first = Math.min(...counts.keys());
+  const last = Math.max(...counts.keys());
+  const buckets: ArrivalBucket[] = [];
+  for (let bucket = first; bucket <= last; bucket += bucketMs) {
+    buckets.push({ start: new Date(bucket).toISOString(), count: counts.get(bucket) ?? 0 });
+  }
+  return buckets;
+};
+
+/**
+ * Compute the attendance report from an attendee list (pure)
+ */
+export const buildAttendanceReport = (
+  attendees: Attendee[],
+  options?: { bucketMinutes?: number; now?: Date }
+): AttendanceReport => {
+  const bucketMinutes = options?.bucketMinutes ?? DEFAULT_BUCKET_MINUTES;
+  const checkedIn = attendees.filter((attendee) => attendee.checkedIn).length;
+
+  return {
+    generatedAt: (options?.now ?? new Date()).toISOString(),
+    total: attendees.length,
+    checkedIn,
+    pending: attendees.length - checkedIn,
+    rate: toRate(checkedIn, attendees.length),
+    walkIns: attendees.filter((attendee) => attendee.isWalkIn).length,
+    byRegistration: buildBreakdown(attendees, (attendee) => (attendee.isWalkIn ? WALK_IN_LABEL : PRE_REGISTERED_LABEL)),
+    byGroup: buildBreakdown(attendees, BREAKDOWN_KEYS.group),
+    byTable: buildBreakdown(attendees, BREAKDOWN_KEYS.table),
+    byTicketType: buildBreakdown(attendees, BREAKDOWN_KEYS.ticketType),
+    arrivals: buildArrivals(attendees, bucketMinutes),
+    bucketMinutes,
+    noShows: attendees
+      .filter((attendee) => !attendee.checkedIn)
+      .sort((a, b) => a.attendeeName.localeCompare(b.attendeeName, undefined, { sensitivity: 'base' })),
+  };
+};
+
+/**
+ * Project when everyone still expected will have arrived, from the check-in rate over the last `windowMinutes`
+ * (or since the first check-in, if that was more recent). Assumes every pending attendee is still coming.
+ */
+export const projectArrivals = (
+  attendees: Attendee[],
+  options?: { windowMinutes?: number; now?: Date }
+): ArrivalProjection => {
+  const windowMinutes = options?.windowMinutes ?? DEFAULT_PROJECTION_WINDOW_MINUTES;
+  const now = (options?.now ?? new Date()).getTime();
+  const windowStart = now - windowMinutes * 60 * 1000;
+
+  const arrivalTimes = attendees
+    .filter((attendee) => attendee.checkedIn && attendee.checkedInAt)
+    .map((attendee) => Date.parse(attendee.checkedInAt as string))
+    .filter((time) => !Number.isNaN(time) && time <= now);
+  const recent = arrivalTimes.filter((time) => time >= windowStart);
+  const remaining = attendees.filter((attendee) => !attendee.checkedIn).length;
+
+  if (recent.length === 0) {
+    return { ratePerHour: 0, remaining, finishAt: null, windowMinutes };
+  }
+
+  // Doors opened less than a window ago: measure from the first arrival, but over at least a minute
+  const spanMs = Math.max(now - Math.max(windowStart, Math.min(...arrivalTimes)), 60 * 1000);
+  const perMs = recent.length / spanMs;
+
+  return {
+    ratePerHour: Math.round(perMs * 60 * 60 * 1000),
+    remaining,
+    finishAt: remaining > 0 ? new Date(now + remaining / perMs).toISOString() : null,
+    windowMinutes,
+  };
+};
+
+export const fetchAttendanceReport = async (eventId: string): Promise<AttendanceReport> => {
+  const attendees = await fetchAttendees(eventId);
+  return buildAttendanceReport(attendees);
+};
+
+/**
+ * Escape a single CSV field per RFC 4180
+ */
+const escapeCsvField = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+const toCsvLine = (fields: Array<string | number | boolean | null | undefined>): string =>
+  fields.map(escapeCsvField).join(',');
+
+export const buildAttendeeCsv = (attendees: Attendee[]): string => {
+  const lines = [
+    toCsvLine(['Name', 'Group', 'Table', 'Ticket Type', 'Notes', 'Checked In', 'Checked In At', 'Walk-In']),
+    ...attendees.map((attendee) =>
+      toCsvLine([
+        attendee.attendeeName,
+        attendee.groupName,
+        attendee.tableNumber,
+        attendee.ticketType,
+        attendee.notes ?? '',
+        attendee.checkedIn ? 'Yes' : 'No',
+        attendee.checkedInAt ?? '',
+        attendee.isWalkIn ? 'Yes' : 'No',
+      ])
+    ),
+  ];
+  return lines.join('\r\n');
+};
+
+export const buildSummaryCsv = (report: AttendanceReport): string => {
+  const lines: string[] = [
+    toCsvLine(['Section', 'Label', 'Total', 'Checked In', 'Rate']),
+    toCsvLine(['Overall', 'All attendees', report.total, report.checkedIn, formatPercent(report.rate)]),
+  ];
+
+  const sections: Array<[string, BreakdownRow[]]> = [
+    ['Registration', report.byRegistration],
+    ['Group', report.byGroup],
+    ['Table', report.byTable],
+    ['Ticket Type', report.byTicketType],
+  ];
+  for (const [section, rows] of sections) {
+    for (const row of rows) {
+      lines.push(toCsvLine([section, row.label, row.total, row.checkedIn, formatPercent(row.rate)]));
+    }
+  }
+
+  for (const bucket of report.arrivals) {
+    lines.push(toCsvLine([`Arrivals (${report.bucketMinutes} min)`, bucket.start, bucket.count, '', '']));
+  }
+
+  for (const attendee of report.noShows) {
+    lines.push(toCsvLine(['No-show', attendee.attendeeName, attendee.groupName, attendee.tableNumber, attendee.ticketType]));
+  }
+
+  return lines.join('\r\n');
+};
+
+const buildFileName = (eventName: string, suffix: string): string => {
+  const slug = eventName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'event';
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug}-${suffix}-${date}.csv`;
+};
+
+const writeAndShareCsv = async (fileName: string, contents: string, dialogTitle: string): Promise<void> => {
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(contents);
+
+  const sharingAvailable = await Sharing.isAvailableAsync();
+  if (!sharingAvailable) {
+    throw new Error('Sharing is not supported on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle,
+  });
+};
+
+/**
+ * Export the full roster with check-in state as CSV and open the share sheet
+ */
+export const exportAttendeeCsv = async (eventId: string, eventName: string): Promise<void> => {
+  const attendees = await fetchAttendees(eventId);
+  await writeAndShareCsv(buildFileName(eventName, 'attendees'), buildAttendeeCsv(attendees), 'Export attendees');
+};
+
+/**
+ * Export the attendance summary (rates, arrivals, no-shows) as CSV and open the share sheet
+ */
+export const exportSummaryCsv = async (eventId: string, eventName: string): Promise<void> => {
+  const report = await fetchAttendanceReport(eventId);
+  await writeAndShareCsv(buildFileName(eventName, 'summary'), buildSummaryCsv(report), 'Export attendance summary');
+};
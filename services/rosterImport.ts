@@ -1,15 +1,32 @@
 /**
  * Lintnotes
- * - Purpose: Utilities to pick CSV files, parse rows, map to attendee records, and import from CSV or Google Sheets.
- * - Exports: ImportResult/CSVRow/ImportOptions (types), pickRosterFile, parseCSV, mapCSVRowToAttendee,
- *            importAttendeesFromCSV, importAttendeesFromGoogleSheet, validateCSVFormat
- * - Major deps: expo-document-picker, expo-file-system, services/supabase
- * - Side effects: File access and network fetch when importing; writes to Supabase.
+ * - Purpose: Utilities to pick CSV/Excel files, parse rows, map to attendee records, and merge them into an event
+ *            from CSV, Excel worksheets, or Google Sheets (dry-run diff, then apply).
+ * - Exports: ImportResult/CSVRow/ImportOptions (types), pickRosterFile, parseCSV, parseCSVWithLines,
+ *            mapCSVRowToAttendee, previewRosterMerge, applyRosterMerge, loadRosterFromFile, loadRosterFromGoogleSheet,
+ *            importParsedRoster, importAttendeesFromCSV, importAttendeesFromSpreadsheet,
+ *            importAttendeesFromGoogleSheet, validateCSVFormat
+ * - Major deps: expo-document-picker, expo-file-system (File), services/csvParser, services/spreadsheetImport,
+ *               services/rosterMerge, services/importBatches (batch source type)
+ * - Side effects: File access and network fetch when importing; writes to Supabase via merge_attendees, recording an
+ *                 import batch for each merge.
  */
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system';
-import { getSupabaseClient } from './supabase';
+import { File } from 'expo-file-system';
+import { decodeCsvBytes, parseCsvText, type CsvParseResult } from './csvParser';
+import { worksheetToParseResult, type SpreadsheetWorkbook } from './spreadsheetImport';
+import {
+  applyMergeDiff,
+  buildMergeDiff,
+  fetchMergeCandidates,
+  IMPORTED_FIELDS,
+  type ImportedField,
+  type IncomingAttendee,
+  type MatchKey,
+  type MergeDiff,
+} from './rosterMerge';
 import { buildGoogleSheetCsvUrl } from './sheets';
+import type { ImportBatchSource } from './importBatches';
 import type { Attendee } from './attendees';
 
 export type ImportResult = {
@@ -17,6 +34,11 @@ export type ImportResult = {
   imported: number;
   errors: string[];
   skipped: number;
+  updated?: number;
+  unchanged?: number;
+  archived?: number;
+  /** Import batch the merge was recorded as (used for rollback) */
+  batchId?: string | null;
 };
 
 export type CSVRow = {
@@ -32,7 +54,15 @@ export type ImportOptions = {
     table?: string;
     ticketType?: string;
     notes?: string;
+    externalId?: string;
+    email?: string;
   };
+  /** How rows are matched to existing attendees (default: name) */
+  matchKey?: MatchKey;
+  /** Archive existing attendees that are not in the source */
+  archiveMissing?: boolean;
+  /** Recorded with the import batch; defaults to the source of the import helper used */
+  batchSource?: ImportBatchSource;
 };
 
 const DEFAULT_COLUMN_MAPPING = {
@@ -41,6 +71,17 @@ const DEFAULT_COLUMN_MAPPING = {
   table: 'table',
   ticketType: 'ticket',
   notes: 'notes',
+  externalId: 'external_id',
+  email: 'email',
+};
+
+const MAPPING_KEYS: Record<ImportedField, keyof typeof DEFAULT_COLUMN_MAPPING> = {
+  groupName: 'group',
+  tableNumber: 'table',
+  ticketType: 'ticketType',
+  notes: 'notes',
+  externalId: 'externalId',
+  email: 'email',
 };
 
 export const pickRosterFile = async (): Promise<DocumentPicker.DocumentPickerResult> => {
@@ -56,26 +97,24 @@ export const pickRosterFile = async (): Promise<DocumentPicker.DocumentPickerRes
   }
 };
 
-export const parseCSV = (csvContent: string): CSVRow[] => {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  if (lines.length === 0) return [];
+/**
+ * Parse CSV content (RFC 4180, delimiter sniffed) keeping the source line number of every row
+ */
+export const parseCSVWithLines = (csvContent: string): CsvParseResult => parseCsvText(csvContent);
+
+export const parseCSV = (csvContent: string): CSVRow[] =>
+  parseCSVWithLines(csvContent).rows.map(row => row.values);
 
-  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-  const rows: CSVRow[] = [];
+const formatLineError = (line: number, message: string): string => `Line ${line}: ${message}`;
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-    const row: CSVRow = {};
-    
-    headers.forEach((header, index) => {
-      row[header] = values[index] || '';
-    });
-    
-    rows.push(row);
-  }
+const fileNameFromUri = (uri: string): string => decodeURIComponent(uri.split('/').pop() ?? uri);
 
-  return rows;
-};
+const failedImport = (error: unknown): ImportResult => ({
+  success: false,
+  imported: 0,
+  errors: [`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
+  skipped: 0,
+});
 
 export const mapCSVRowToAttendee = (
   row: CSVRow, 
@@ -92,179 +131,196 @@ export const mapCSVRowToAttendee = (
     tableNumber: row[mapping.table]?.trim() || '',
     ticketType: row[mapping.ticketType]?.trim() || '',
     notes: row[mapping.notes]?.trim() || null,
+    externalId: row[mapping.externalId]?.trim() || null,
+    email: row[mapping.email]?.trim() || null,
     checkedIn: false,
     checkedInAt: null,
     checkedInBy: null,
   };
 };
 
-export const importAttendeesFromCSV = async (
-  fileUri: string,
+/**
+ * Map parsed rows to incoming attendees, collecting tokenizer and row errors with their source line numbers.
+ * Also reports which fields are mapped to a header the source actually has.
+ */
+const buildIncomingAttendees = (
+  parsed: CsvParseResult,
   options: ImportOptions
-): Promise<ImportResult> => {
-  const result: ImportResult = {
-    success: false,
-    imported: 0,
-    errors: [],
-    skipped: 0,
-  };
-
-  try {
-    // Read file content
-    const fileContent = await FileSystem.readAsStringAsync(fileUri);
-    if (!fileContent) {
-      result.errors.push('File is empty or could not be read');
-      return result;
+): { rows: IncomingAttendee[]; errors: string[]; importedFields: ImportedField[] } => {
+  const mapping = { ...DEFAULT_COLUMN_MAPPING, ...options.columnMapping };
+  const importedFields = IMPORTED_FIELDS.filter(field => {
+    const header = mapping[MAPPING_KEYS[field]];
+    return Boolean(header) && parsed.headers.includes(header);
+  });
+  const rows: IncomingAttendee[] = [];
+  const errors = parsed.errors.map(error => formatLineError(error.line, error.message));
+
+  parsed.rows.forEach((row, index) => {
+    if (options.skipFirstRow && index === 0) return;
+
+    const attendee = mapCSVRowToAttendee(row.values, mapping, options.eventId);
+    if (!attendee) {
+      errors.push(formatLineError(row.line, 'Missing required name field'));
+      return;
     }
 
-    // Parse CSV
-    const csvRows = parseCSV(fileContent);
-    if (csvRows.length === 0) {
-      result.errors.push('No data found in CSV file');
-      return result;
-    }
-
-    // Apply column mapping
-    const mapping = { ...DEFAULT_COLUMN_MAPPING, ...options.columnMapping };
-    
-    // Map rows to attendees
-    const attendees: Partial<Attendee>[] = [];
-    const errors: string[] = [];
-
-    csvRows.forEach((row, index) => {
-      if (options.skipFirstRow && index === 0) return;
-      
-      const attendee = mapCSVRowToAttendee(row, mapping, options.eventId);
-      if (attendee) {
-        attendees.push(attendee);
-      } else {
-        errors.push(`Row ${index + 1}: Missing required name field`);
-      }
+    rows.push({
+      line: row.line,
+      attendeeName: attendee.attendeeName ?? '',
+      groupName: attendee.groupName ?? '',
+      tableNumber: attendee.tableNumber ?? '',
+      ticketType: attendee.ticketType ?? '',
+      notes: attendee.notes ?? null,
+      externalId: attendee.externalId ?? null,
+      email: attendee.email ?? null,
     });
+  });
 
-    if (attendees.length === 0) {
-      result.errors.push('No valid attendees found in file');
-      return result;
-    }
-
-    // Bulk insert to Supabase
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('attendees')
-      .insert(attendees.map(attendee => ({
-        event_id: attendee.eventId,
-        full_name: attendee.attendeeName,
-        group_name: attendee.groupName,
-        table_number: attendee.tableNumber,
-        ticket_type: attendee.ticketType,
-        notes: attendee.notes,
-        checked_in: attendee.checkedIn,
-      })));
-
-    if (error) {
-      result.errors.push(`Database error: ${error.message}`);
-      return result;
-    }
+  return { rows, errors, importedFields };
+};
 
-    result.success = true;
-    result.imported = attendees.length;
-    result.errors = errors;
-    result.skipped = errors.length;
+/**
+ * Dry run: compare parsed rows with the event's current attendees without writing anything
+ */
+export const previewRosterMerge = async (
+  parsed: CsvParseResult,
+  options: ImportOptions
+): Promise<MergeDiff> => {
+  const { rows, errors, importedFields } = buildIncomingAttendees(parsed, options);
+  const existing = await fetchMergeCandidates(options.eventId);
+  const diff = buildMergeDiff(existing, rows, options.matchKey ?? 'name', importedFields);
+  return { ...diff, errors: [...errors, ...diff.errors] };
+};
 
+/**
+ * Apply a reviewed merge diff and report it as an ImportResult
+ */
+export const applyRosterMerge = async (
+  eventId: string,
+  diff: MergeDiff,
+  options?: { archiveMissing?: boolean; batch?: ImportBatchSource }
+): Promise<ImportResult> => {
+  try {
+    const merged = await applyMergeDiff(eventId, diff, options);
+    return {
+      success: true,
+      imported: merged.added,
+      updated: merged.updated,
+      unchanged: diff.unchanged.length,
+      archived: merged.archived,
+      batchId: merged.batchId,
+      errors: diff.errors,
+      skipped: diff.errors.length,
+    };
   } catch (error) {
-    result.errors.push(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return failedImport(error);
   }
+};
 
-  return result;
+/**
+ * Read a CSV file from disk and parse it. Raw bytes are read so the encoding can be detected
+ * (Excel exports are often not UTF-8).
+ */
+export const loadRosterFromFile = async (fileUri: string): Promise<CsvParseResult> => {
+  const bytes = await new File(fileUri).bytes();
+  const { text } = decodeCsvBytes(bytes);
+  if (!text) {
+    throw new Error('File is empty or could not be read');
+  }
+  return parseCSVWithLines(text);
 };
 
-export const importAttendeesFromGoogleSheet = async (
-  sheetUrl: string,
-  options: ImportOptions
-): Promise<ImportResult> => {
-  const result: ImportResult = {
-    success: false,
-    imported: 0,
-    errors: [],
-    skipped: 0,
-  };
+/**
+ * Fetch a Google Sheet as CSV and parse it
+ */
+export const loadRosterFromGoogleSheet = async (sheetUrl: string): Promise<CsvParseResult> => {
+  // Normalize Google Sheets URL to CSV export URL (handles multiple formats)
+  const csvUrl = buildGoogleSheetCsvUrl(sheetUrl);
 
-  try {
-    // Normalize Google Sheets URL to CSV export URL (handles multiple formats)
-    const csvUrl = buildGoogleSheetCsvUrl(sheetUrl);
-    
-    // Fetch CSV content
-    const response = await fetch(csvUrl);
-    if (!response.ok) {
-      result.errors.push(`Failed to fetch sheet: ${response.statusText}`);
-      return result;
-    }
+  const response = await fetch(csvUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sheet: ${response.statusText}`);
+  }
 
-    const csvContent = await response.text();
-    if (!csvContent) {
-      result.errors.push('Sheet is empty or could not be read');
-      return result;
-    }
+  const { text } = decodeCsvBytes(new Uint8Array(await response.arrayBuffer()));
+  if (!text) {
+    throw new Error('Sheet is empty or could not be read');
+  }
+  return parseCSVWithLines(text);
+};
 
-    // Parse and import CSV content
-    const csvRows = parseCSV(csvContent);
-    if (csvRows.length === 0) {
-      result.errors.push('No data found in Google Sheet');
-      return result;
-    }
+/**
+ * Merge already-parsed rows into the event without a review step (no archiving unless requested)
+ */
+export const importParsedRoster = async (
+  parsed: CsvParseResult,
+  options: ImportOptions,
+  sourceLabel: string = 'file'
+): Promise<ImportResult> => {
+  if (parsed.rows.length === 0) {
+    return { success: false, imported: 0, errors: [`No data found in ${sourceLabel}`], skipped: 0 };
+  }
 
-    // Apply column mapping
-    const mapping = { ...DEFAULT_COLUMN_MAPPING, ...options.columnMapping };
-    
-    // Map rows to attendees
-    const attendees: Partial<Attendee>[] = [];
-    const errors: string[] = [];
-
-    csvRows.forEach((row, index) => {
-      if (options.skipFirstRow && index === 0) return;
-      
-      const attendee = mapCSVRowToAttendee(row, mapping, options.eventId);
-      if (attendee) {
-        attendees.push(attendee);
-      } else {
-        errors.push(`Row ${index + 1}: Missing required name field`);
-      }
+  try {
+    const diff = await previewRosterMerge(parsed, options);
+    if (diff.added.length + diff.updated.length + diff.unchanged.length === 0) {
+      return {
+        success: false,
+        imported: 0,
+        errors: [`No valid attendees found in ${sourceLabel}`, ...diff.errors],
+        skipped: diff.errors.length,
+      };
+    }
+    return await applyRosterMerge(options.eventId, diff, {
+      archiveMissing: options.archiveMissing,
+      batch: options.batchSource,
     });
+  } catch (error) {
+    return failedImport(error);
+  }
+};
 
-    if (attendees.length === 0) {
-      result.errors.push('No valid attendees found in sheet');
-      return result;
-    }
+export const importAttendeesFromCSV = async (
+  fileUri: string,
+  options: ImportOptions
+): Promise<ImportResult> => {
+  try {
+    const parsed = await loadRosterFromFile(fileUri);
+    const batchSource = options.batchSource ?? { kind: 'csv', name: fileNameFromUri(fileUri) };
+    return await importParsedRoster(parsed, { ...options, batchSource }, 'CSV file');
+  } catch (error) {
+    return failedImport(error);
+  }
+};
 
-    // Bulk insert to Supabase
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('attendees')
-      .insert(attendees.map(attendee => ({
-        event_id: attendee.eventId,
-        full_name: attendee.attendeeName,
-        group_name: attendee.groupName,
-        table_number: attendee.tableNumber,
-        ticket_type: attendee.ticketType,
-        notes: attendee.notes,
-        checked_in: attendee.checkedIn,
-      })));
-
-    if (error) {
-      result.errors.push(`Database error: ${error.message}`);
-      return result;
-    }
+export const importAttendeesFromSpreadsheet = async (
+  workbook: SpreadsheetWorkbook,
+  sheetName: string,
+  options: ImportOptions & { headerRowIndex?: number }
+): Promise<ImportResult> => {
+  const cells = workbook.cells[sheetName];
+  const summary = workbook.sheets.find(sheet => sheet.name === sheetName);
+  if (!cells || !summary) {
+    return failedImport(new Error(`Worksheet "${sheetName}" not found`));
+  }
 
-    result.success = true;
-    result.imported = attendees.length;
-    result.errors = errors;
-    result.skipped = errors.length;
+  // Header row was already detected when the workbook was read; skipFirstRow does not apply here
+  const parsed = worksheetToParseResult(cells, options.headerRowIndex ?? summary.headerRowIndex);
+  const batchSource = options.batchSource ?? { kind: 'excel', name: sheetName };
+  return importParsedRoster(parsed, { ...options, skipFirstRow: false, batchSource }, 'worksheet');
+};
 
+export const importAttendeesFromGoogleSheet = async (
+  sheetUrl: string,
+  options: ImportOptions
+): Promise<ImportResult> => {
+  try {
+    const parsed = await loadRosterFromGoogleSheet(sheetUrl);
+    const batchSource = options.batchSource ?? { kind: 'google_sheet', name: sheetUrl.trim() };
+    return await importParsedRoster(parsed, { ...options, batchSource }, 'Google Sheet');
   } catch (error) {
-    result.errors.push(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return failedImport(error);
   }
-
-  return result;
 };
 
 export const validateCSVFormat = (csvContent: string): { valid: boolean; errors: string[] } => {
@@ -275,16 +331,17 @@ export const validateCSVFormat = (csvContent: string): { valid: boolean; errors:
     return { valid: false, errors };
   }
 
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  if (lines.length < 2) {
+  const parsed = parseCSVWithLines(csvContent);
+  if (parsed.rows.length === 0) {
     errors.push('File must contain at least a header row and one data row');
     return { valid: false, errors };
   }
 
-  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-  if (!headers.some(h => h.toLowerCase().includes('name'))) {
+  if (!parsed.headers.some(h => h.toLowerCase().includes('name'))) {
     errors.push('CSV must contain a column with attendee names (look for "name", "full_name", etc.)');
   }
 
+  parsed.errors.forEach(error => errors.push(formatLineError(error.line, error.message)));
+
   return { valid: errors.length === 0, errors };
 };
@@ -0,0 +1,339 @@
+/**
+ * Lintnotes
+ * - Purpose: Merge roster imports into an event's existing attendees: dry-run diff by a configurable match key
+ *            (name, external ID, email) and applying the confirmed diff without touching check-in state.
+ * - Exports: MatchKey/IncomingAttendee/MergeCandidate/MergeField/ImportedField/AttendeeUpdate/MergeDiff/MergeResult
+ *            (types), IMPORTED_FIELDS, describeMatchKey, describeMergeField, normalizeMatchValue, buildMergeDiff,
+ *            fetchMergeCandidates, applyMergeDiff
+ * - Major deps: services/supabase client; merge_attendees RPC; services/importBatches (batch source type)
+ * - Side effects: fetchMergeCandidates reads attendees; applyMergeDiff writes attendees (and an import batch) via RPC.
+ * - Notes: Only the fields the source maps are compared and written; unmapped ones keep their stored values.
+ */
+import { getSupabaseClient } from './supabase';
+import type { ImportBatchSource } from './importBatches';
+
+export type MatchKey = 'name' | 'externalId' | 'email';
+
+export type IncomingAttendee = {
+  line: number;
+  attendeeName: string;
+  groupName: string;
+  tableNumber: string;
+  ticketType: string;
+  notes: string | null;
+  externalId: string | null;
+  email: string | null;
+};
+
+export type MergeCandidate = {
+  id: string;
+  attendeeName: string;
+  groupName: string;
+  tableNumber: string;
+  ticketType: string;
+  notes: string | null;
+  externalId: string | null;
+  email: string | null;
+  checkedIn: boolean;
+  archived: boolean;
+};
+
+export type MergeField = 'attendeeName' | 'groupName' | 'tableNumber' | 'ticketType' | 'notes' | 'externalId' | 'email' | 'restored';
+
+/** Fields a source may leave unmapped (the name is always mapped) */
+export type ImportedField = Exclude<MergeField, 'attendeeName' | 'restored'>;
+
+export type AttendeeUpdate = {
+  existing: MergeCandidate;
+  incoming: IncomingAttendee;
+  changedFields: MergeField[];
+};
+
+export type MergeDiff = {
+  matchKey: MatchKey;
+  /** Fields the source maps; the rest are neither compared nor written */
+  importedFields: ImportedField[];
+  added: IncomingAttendee[];
+  updated: AttendeeUpdate[];
+  unchanged: AttendeeUpdate[];
+  /** Active attendees with no matching row in the source */
+  missing: MergeCandidate[];
+  /** Rows excluded from the merge, with source line numbers */
+  errors: string[];
+};
+
+export type MergeResult = {
+  added: number;
+  updated: number;
+  archived: number;
+  /** Import batch recorded for this merge (null when no batch source was given or nothing was written) */
+  batchId: string | null;
+};
+
+type MergeCandidateRecord = {
+  id: string | number;
+  full_name: string | null;
+  group_name: string | null;
+  table_number: string | null;
+  ticket_type: string | null;
+  notes: string | null;
+  external_id: string | null;
+  email: string | null;
+  checked_in: boolean | null;
+  archived_at: string | null;
+};
+
+export const IMPORTED_FIELDS: ImportedField[] = [
+  'groupName',
+  'tableNumber',
+  'ticketType',
+  'notes',
+  'externalId',
+  'email',
+];
+
+const COMPARED_FIELDS: Array<Exclude<MergeField, 'externalId' | 'email' | 'restored'>> = [
+  'attendeeName',
+  'groupName',
+  'tableNumber',
+  'ticketType',
+  'notes',
+];
+
+const RPC_COLUMNS: Record<ImportedField, string> = {
+  groupName: 'group_name',
+  tableNumber: 'table_number',
+  ticketType: 'ticket_type',
+  notes: 'notes',
+  externalId: 'external_id',
+  email: 'email',
+};
+
+export const describeMatchKey = (matchKey: MatchKey): string => {
+  switch (matchKey) {
+    case 'name':
+      return 'Name';
+    case 'externalId':
+      return 'External ID';
+    case 'email':
+      return 'Email';
+    default:
+      return matchKey;
+  }
+};
+
+export const describeMergeField = (field: MergeField): string => {
+  switch (field) {
+    case 'attendeeName':
+      return 'Name';
+    case 'groupName':
+      return 'Group';
+    case 'tableNumber':
+      return 'Table';
+    case 'ticketType':
+      return 'Ticket type';
+    case 'notes':
+      return 'Notes';
+    case 'externalId':
+      return 'External ID';
+    case 'email':
+      return 'Email';
+    case 'restored':
+      return 'Restored from archive';
+    default:
+      return field;
+  }
+};
+
+/**
+ * Normalize a match key value so "Smith,  John" / "smith, john" and email casing compare equal
+ */
+export const normalizeMatchValue = (value: string | null | undefined): string =>
+  (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const matchValueOf = (
+  attendee: Pick<IncomingAttendee, 'attendeeName' | 'externalId' | 'email'>,
+  matchKey: MatchKey
+): string => {
+  switch (matchKey) {
+    case 'externalId':
+      return normalizeMatchValue(attendee.externalId);
+    case 'email':
+      return normalizeMatchValue(attendee.email);
+    default:
+      return normalizeMatchValue(attendee.attendeeName);
+  }
+};
+
+const sameValue = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  (a ?? '').trim() === (b ?? '').trim();
+
+/**
+ * Compare incoming rows against existing attendees (pure). Archived attendees can be matched (and restored)
+ * but are never reported as missing. Fields outside importedFields are not compared.
+ */
+export const buildMergeDiff = (
+  existing: MergeCandidate[],
+  incoming: IncomingAttendee[],
+  matchKey: MatchKey,
+  importedFields: ImportedField[] = IMPORTED_FIELDS
+): MergeDiff => {
+  const diff: MergeDiff = { matchKey, importedFields, added: [], updated: [], unchanged: [], missing: [], errors: [] };
+  const isImported = (field: MergeField): boolean =>
+    field === 'attendeeName' || importedFields.includes(field as ImportedField);
+
+  // Prefer active attendees when several share a key (e.g. duplicates from earlier blind imports)
+  const byKey = new Map<string, MergeCandidate>();
+  for (const candidate of [...existing].sort((a, b) => Number(a.archived) - Number(b.archived))) {
+    const key = matchValueOf(candidate, matchKey);
+    if (key && !byKey.has(key)) byKey.set(key, candidate);
+  }
+
+  const seenLines = new Map<string, number>();
+  const matchedIds = new Set<string>();
+
+  for (const row of incoming) {
+    const key = matchValueOf(row, matchKey);
+    if (!key) {
+      diff.errors.push(`Line ${row.line}: Missing ${describeMatchKey(matchKey).toLowerCase()}`);
+      continue;
+    }
+
+    const firstLine = seenLines.get(key);
+    if (firstLine !== undefined) {
+      diff.errors.push(`Line ${row.line}: Duplicate of line ${firstLine}`);
+      continue;
+    }
+    seenLines.set(key, row.line);
+
+    const match = byKey.get(key);
+    if (!match) {
+      diff.added.push(row);
+      continue;
+    }
+
+    matchedIds.add(match.id);
+    // The match key already compared equal (modulo case/spacing), so it is never reported as a change
+    const changedFields: MergeField[] = COMPARED_FIELDS.filter(
+      (field) =>
+        isImported(field) && !(field === 'attendeeName' && matchKey === 'name') && !sameValue(match[field], row[field])
+    );
+    // Blank external ID / email cells never erase stored values
+    if (
+      matchKey !== 'externalId' &&
+      isImported('externalId') &&
+      row.externalId &&
+      !sameValue(match.externalId, row.externalId)
+    ) {
+      changedFields.push('externalId');
+    }
+    if (matchKey !== 'email' && isImported('email') && row.email && !sameValue(match.email, row.email)) {
+      changedFields.push('email');
+    }
+    if (match.archived) changedFields.push('restored');
+
+    const update: AttendeeUpdate = { existing: match, incoming: row, changedFields };
+    if (changedFields.length > 0) {
+      diff.updated.push(update);
+    } else {
+      diff.unchanged.push(update);
+    }
+  }
+
+  diff.missing = existing.filter((candidate) => !candidate.archived && !matchedIds.has(candidate.id));
+  return diff;
+};
+
+/**
+ * Fetch all attendees for an event (including archived) in the shape used for merging
+ */
+export const fetchMergeCandidates = async (eventId: string): Promise<MergeCandidate[]> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('attendees')
+    .select('id, full_name, group_name, table_number, ticket_type, notes, external_id, email, checked_in, archived_at')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('fetchMergeCandidates failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  return (data ?? []).map((row) => {
+    const record = row as MergeCandidateRecord;
+    return {
+      id: String(record.id),
+      attendeeName: record.full_name?.trim() ?? '',
+      groupName: record.group_name?.trim() ?? '',
+      tableNumber: record.table_number?.trim() ?? '',
+      ticketType: record.ticket_type?.trim() ?? '',
+      notes: record.notes,
+      externalId: record.external_id,
+      email: record.email,
+      checkedIn: Boolean(record.checked_in),
+      archived: Boolean(record.archived_at),
+    };
+  });
+};
+
+const toRpcRow = (row: IncomingAttendee, id: string | null) => ({
+  id,
+  full_name: row.attendeeName,
+  group_name: row.groupName,
+  table_number: row.tableNumber,
+  ticket_type: row.ticketType,
+  notes: row.notes ?? '',
+  external_id: row.externalId ?? '',
+  email: row.email ?? '',
+});
+
+/**
+ * Apply a reviewed diff. Check-in state is never written; optionally archive attendees missing from the source.
+ * When a batch source is given the merge is recorded as an import batch and inserted attendees are tagged with it.
+ */
+export const applyMergeDiff = async (
+  eventId: string,
+  diff: MergeDiff,
+  options?: { archiveMissing?: boolean; batch?: ImportBatchSource }
+): Promise<MergeResult> => {
+  const supabase = getSupabaseClient();
+  const rows = [
+    ...diff.updated.map((update) => toRpcRow(update.incoming, update.existing.id)),
+    ...diff.added.map((row) => toRpcRow(row, null)),
+  ];
+  const archiveIds = options?.archiveMissing ? diff.missing.map((candidate) => candidate.id) : [];
+
+  if (rows.length === 0 && archiveIds.length === 0) {
+    return { added: 0, updated: 0, archived: 0, batchId: null };
+  }
+
+  const batch = options?.batch
+    ? {
+        source: options.batch.kind,
+        source_name: options.batch.name,
+        skipped_count: diff.errors.length,
+        errors: diff.errors,
+      }
+    : null;
+
+  const { data, error } = await supabase.rpc('merge_attendees', {
+    p_event_id: eventId,
+    p_rows: rows,
+    p_archive_ids: archiveIds,
+    p_batch: batch,
+    p_fields: diff.importedFields.map((field) => RPC_COLUMNS[field]),
+  });
+
+  if (error) {
+    console.error('applyMergeDiff failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  const result = (data ?? {}) as Partial<Omit<MergeResult, 'batchId'>> & { batch_id?: string | null };
+  return {
+    added: result.added ?? 0,
+    updated: result.updated ?? 0,
+    archived: result.archived ?? 0,
+    batchId: result.batch_id ? String(result.batch_id) : null,
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * Lintnotes
+ * - Purpose: AsyncStorage-shaped key/value storage backed by the platform secure store (Keychain/Keystore), used for
+ *            the auth session so tokens and the user's profile are never written in plaintext.
+ * - Exports: secureStorage
+ * - Major deps: expo-secure-store, AsyncStorage (legacy values are moved over on first read; web fallback)
+ * - Side effects: Reads/writes the secure store; deletes the plaintext AsyncStorage copy of a key once moved.
+ * - Notes: The secure store is meant for small values, so long ones (a session is a few KB) are split into chunks.
+ *          Web has no secure store and keeps using AsyncStorage.
+ */
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '../utils/safeAsyncStorage';
+
+// Stay under the size the secure store is reliable for on every platform
+const CHUNK_SIZE = 1800;
+
+const OPTIONS: SecureStore.SecureStoreOptions = {
+  // Background sync needs the session while the device is locked
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY
+};
+
+// Secure store keys may only contain letters, digits, '.', '-' and '_'
+const toSecureKey = (key: string): string => key.replace(/[^A-Za-z0-9._-]/g, '_');
+
+const chunkKey = (key: string, index: number): string => `${key}.${index}`;
+const countKey = (key: string): string => `${key}.chunks`;
+
+const readSecure = async (key: string): Promise<string | null> => {
+  const count = await SecureStore.getItemAsync(countKey(key), OPTIONS);
+  if (count === null) return null;
+
+  const chunks: string[] = [];
+  for (let index = 0; index < Number(count); index += 1) {
+    const chunk = await SecureStore.getItemAsync(chunkKey(key, index), OPTIONS);
+    // A partial write (e.g. the app was killed mid-save) is treated as missing
+    if (chunk === null) return null;
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+};
+
+const removeSecure = async (key: string): Promise<void> => {
+  const count = Number((await SecureStore.getItemAsync(countKey(key), OPTIONS)) ?? 0);
+  await SecureStore.deleteItemAsync(countKey(key), OPTIONS);
+  for (let index = 0; index < count; index += 1) {
+    await SecureStore.deleteItemAsync(chunkKey(key, index), OPTIONS);
+  }
+};
+
+const writeSecure = async (key: string, value: string): Promise<void> => {
+  await removeSecure(key);
+  const count = Math.max(1, Math.ceil(value.length / CHUNK_SIZE));
+  for (let index = 0; index < count; index += 1) {
+    await SecureStore.setItemAsync(
+      chunkKey(key, index),
+      value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE),
+      OPTIONS
+    );
+  }
+  // Written last so readers never see a count for chunks that aren't there yet
+  await SecureStore.setItemAsync(countKey(key), String(count), OPTIONS);
+};
+
+const isWeb = Platform.OS === 'web';
+
+export const secureStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    if (isWeb) return AsyncStorage.getItem(key);
+
+    const stored = await readSecure(toSecureKey(key));
+    if (stored !== null) return stored;
+
+    // Earlier versions kept this value in plaintext: move it into the secure store
+    const legacy = await AsyncStorage.getItem(key);
+    if (legacy !== null) {
+      await writeSecure(toSecureKey(key), legacy);
+      await AsyncStorage.removeItem(key);
+    }
+    return legacy;
+  },
+
+  setItem: async (key: string, value: string): Promise<void> => {
+    if (isWeb) return AsyncStorage.setItem(key, value);
+    await writeSecure(toSecureKey(key), value);
+  },
+
+  removeItem: async (key: string): Promise<void> => {
+    if (isWeb) return AsyncStorage.removeItem(key);
+    await removeSecure(toSecureKey(key));
+    // Also drop a plaintext copy that was never read (and so never moved)
+    await AsyncStorage.removeItem(key);
+  }
+};
@@ -3,7 +3,8 @@
  * - Purpose: Persistent app settings and feature flag management with listener pattern for reactive updates.
  * - Exports: FeatureFlags, UndoProtectionLevel, AppSettings (types),
  *            getSettings, updateSettings, addSettingsListener,
- *            getFeatureFlag, setFeatureFlag, getUndoProtectionLevel, setUndoProtectionLevel
+ *            getFeatureFlag, setFeatureFlag, getUndoProtectionLevel, setUndoProtectionLevel,
+ *            getOfflineRetentionDays, setOfflineRetentionDays
  * - Major deps: @react-native-async-storage/async-storage
  * - Side effects: Persists settings to AsyncStorage; stores listeners in module scope.
  */
@@ -19,11 +20,14 @@ export type FeatureFlags = {
 
 export type AppSettings = {
   autoRefreshInterval: number;
+  /** Days after an event ends before its cached roster is deleted from this device */
+  offlineRetentionDays: number;
   featureFlags: FeatureFlags;
 };
 
 const DEFAULT_SETTINGS: AppSettings = {
   autoRefreshInterval: 5000,
+  offlineRetentionDays: 7,
   featureFlags: {
     undoProtectionLevel: 'standard',
   },
@@ -146,6 +150,15 @@ export const setUndoProtectionLevel = async (
   await setFeatureFlag('undoProtectionLevel', level);
 };
 
+export const getOfflineRetentionDays = async (): Promise<number> => {
+  const settings = await getSettings();
+  return settings.offlineRetentionDays;
+};
+
+export const setOfflineRetentionDays = async (days: number): Promise<void> => {
+  await updateSettings({ offlineRetentionDays: days });
+};
+
 export const getSettingsSync = (): AppSettings => {
   return cachedSettings ?? DEFAULT_SETTINGS;
 };
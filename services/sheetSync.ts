@@ -0,0 +1,322 @@
+/**
+ * Lintnotes
+ * - Purpose: Scheduled Google Sheet sync for an event: linked sheet URL + interval stored on the event, periodic and
+ *            on-demand merges of the sheet into the roster, and a shared "last synced / N changes" status.
+ * - Exports: SheetSyncConfig/SheetSyncStatus (types), fetchSheetSyncConfig, saveSheetSyncConfig, disconnectSheetSync,
+ *            runSheetSync, startSheetSyncScheduler, addSheetSyncListener, getSheetSyncStatus
+ * - Major deps: services/supabase client; services/rosterImport (load/preview/apply merge), services/columnMapping,
+ *               services/attendeeEvents; set_event_sheet_sync / claim_event_sheet_sync / record_event_sheet_sync RPCs
+ * - Side effects: Network fetch of the sheet; writes attendees via merge_attendees; module-level timer and listeners.
+ * - Notes: Syncs never archive attendees missing from the sheet and never write check-in state. Each run claims the
+ *          event on the server first, so only one manager device syncs a sheet at a time.
+ */
+import { getSupabaseClient } from './supabase';
+import { emitRefreshAttendees } from './attendeeEvents';
+import { loadSavedColumnMapping, suggestColumnMapping } from './columnMapping';
+import {
+  applyRosterMerge,
+  loadRosterFromGoogleSheet,
+  previewRosterMerge,
+  type ImportResult
+} from './rosterImport';
+import type { MatchKey } from './rosterMerge';
+
+export type SheetSyncConfig = {
+  url: string;
+  /** 0 = on demand only */
+  intervalMinutes: number;
+  matchKey: MatchKey;
+  lastSyncedAt: string | null;
+  lastChanges: number | null;
+};
+
+export type SheetSyncStatus = {
+  eventId: string | null;
+  config: SheetSyncConfig | null;
+  syncing: boolean;
+  lastError: string | null;
+};
+
+type SheetSyncListener = (status: SheetSyncStatus) => void;
+
+type EventSheetSyncRecord = {
+  sheet_sync_url: string | null;
+  sheet_sync_interval_minutes: number | null;
+  sheet_sync_match_key: string | null;
+  sheet_last_synced_at: string | null;
+  sheet_last_sync_changes: number | null;
+};
+
+/** How long a run holds the event's sync before another device may take it over */
+const SHEET_SYNC_LEASE_SECONDS = 300;
+
+const sheetSyncListeners = new Set<SheetSyncListener>();
+
+let currentStatus: SheetSyncStatus = { eventId: null, config: null, syncing: false, lastError: null };
+let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+
+const toMatchKey = (value: string | null): MatchKey =>
+  value === 'externalId' || value === 'email' ? value : 'name';
+
+const emitStatus = (patch: Partial<SheetSyncStatus>): void => {
+  currentStatus = { ...currentStatus, ...patch };
+  sheetSyncListeners.forEach((listener) => {
+    try {
+      listener(currentStatus);
+    } catch (error) {
+      console.error('Sheet sync listener error:', error);
+    }
+  });
+};
+
+export const addSheetSyncListener = (listener: SheetSyncListener): (() => void) => {
+  sheetSyncListeners.add(listener);
+  listener(currentStatus);
+  return () => {
+    sheetSyncListeners.delete(listener);
+  };
+};
+
+export const getSheetSyncStatus = (): SheetSyncStatus => currentStatus;
+
+/**
+ * Load the linked sheet for an event (null when no sheet is linked)
+ */
+export const fetchSheetSyncConfig = async (eventId: string): Promise<SheetSyncConfig | null> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('events')
+    .select('sheet_sync_url, sheet_sync_interval_minutes, sheet_sync_match_key, sheet_last_synced_at, sheet_last_sync_changes')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('fetchSheetSyncConfig failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  const record = data as EventSheetSyncRecord | null;
+  if (!record?.sheet_sync_url) return null;
+
+  return {
+    url: record.sheet_sync_url,
+    intervalMinutes: record.sheet_sync_interval_minutes ?? 0,
+    matchKey: toMatchKey(record.sheet_sync_match_key),
+    lastSyncedAt: record.sheet_last_synced_at,
+    lastChanges: record.sheet_last_sync_changes
+  };
+};
+
+const clearSchedule = (): void => {
+  if (scheduleTimer) {
+    clearTimeout(scheduleTimer);
+    scheduleTimer = null;
+  }
+};
+
+// Schedule the next run from the last sync time so reopening the app doesn't reset the countdown
+const scheduleNext = (): void => {
+  clearSchedule();
+  const { eventId, config } = currentStatus;
+  if (!eventId || !config || config.intervalMinutes <= 0) return;
+
+  const intervalMs = config.intervalMinutes * 60 * 1000;
+  const lastSyncedMs = config.lastSyncedAt ? new Date(config.lastSyncedAt).getTime() : 0;
+  // Failed runs retry after a full interval rather than immediately
+  const dueMs = currentStatus.lastError ? Date.now() + intervalMs : lastSyncedMs + intervalMs;
+  const delay = Math.max(dueMs - Date.now(), 0);
+
+  scheduleTimer = setTimeout(() => {
+    scheduleTimer = null;
+    void runSheetSync(eventId);
+  }, delay);
+};
+
+// Another device is running the sync: pick up its result once its lease would have run out, and run it here only
+// if that device never finished
+const scheduleRefresh = (eventId: string): void => {
+  clearSchedule();
+  scheduleTimer = setTimeout(() => {
+    scheduleTimer = null;
+    fetchSheetSyncConfig(eventId)
+      .then((config) => {
+        if (currentStatus.eventId !== eventId) return;
+        emitStatus({ config });
+        scheduleNext();
+      })
+      .catch((error) => {
+        console.error('Failed to refresh sheet sync status:', error);
+        if (currentStatus.eventId === eventId) scheduleNext();
+      });
+  }, SHEET_SYNC_LEASE_SECONDS * 1000);
+};
+
+const claimSheetSync = async (eventId: string): Promise<boolean> => {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('claim_event_sheet_sync', {
+    p_event_id: eventId,
+    p_lease_seconds: SHEET_SYNC_LEASE_SECONDS
+  });
+
+  if (error) {
+    console.error('claim_event_sheet_sync failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+  return data === true;
+};
+
+// Give the claim back after a failed run instead of leaving other devices to wait out the lease
+const releaseSheetSync = async (eventId: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc('record_event_sheet_sync', { p_event_id: eventId, p_changes: null });
+  if (error) {
+    console.error('Failed to release sheet sync:', JSON.stringify(error, null, 2));
+  }
+};
+
+/**
+ * Link a sheet to the event (or update its interval / match key) and reschedule
+ */
+export const saveSheetSyncConfig = async (
+  eventId: string,
+  settings: { url: string; intervalMinutes: number; matchKey?: MatchKey }
+): Promise<SheetSyncConfig | null> => {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc('set_event_sheet_sync', {
+    p_event_id: eventId,
+    p_url: settings.url.trim(),
+    p_interval_minutes: settings.intervalMinutes,
+    p_match_key: settings.matchKey ?? 'name'
+  });
+
+  if (error) {
+    console.error('saveSheetSyncConfig failed:', JSON.stringify(error, null, 2));
+    throw error;
+  }
+
+  const config = await fetchSheetSyncConfig(eventId);
+  if (currentStatus.eventId === eventId) {
+    emitStatus({ config, lastError: null });
+    scheduleNext();
+  }
+  return config;
+};
+
+export const disconnectSheetSync = async (eventId: string): Promise<void> => {
+  await saveSheetSyncConfig(eventId, { url: '', intervalMinutes: 0 });
+};
+
+/**
+ * Merge the linked sheet into the roster now. New rows are added and changed details updated;
+ * attendees missing from the sheet are left alone and check-in state is never written.
+ * Skipped (unsuccessfully, without an error status) while another device's run holds the event.
+ */
+export const runSheetSync = async (eventId: string): Promise<ImportResult> => {
+  if (currentStatus.syncing && currentStatus.eventId === eventId) {
+    return { success: false, imported: 0, errors: ['A sync is already in progress'], skipped: 0 };
+  }
+
+  const isCurrent = () => currentStatus.eventId === eventId;
+  if (isCurrent()) emitStatus({ syncing: true });
+  let claimed = false;
+
+  try {
+    const config = await fetchSheetSyncConfig(eventId);
+    if (!config) {
+      throw new Error('No Google Sheet is linked to this event');
+    }
+
+    claimed = await claimSheetSync(eventId);
+    if (!claimed) {
+      if (isCurrent()) {
+        emitStatus({ config, syncing: false, lastError: null });
+        scheduleRefresh(eventId);
+      }
+      return { success: false, imported: 0, errors: ['Another device is syncing this sheet'], skipped: 0 };
+    }
+
+    const parsed = await loadRosterFromGoogleSheet(config.url);
+    if (parsed.rows.length === 0) {
+      throw new Error('No data found in Google Sheet');
+    }
+
+    const columnMapping =
+      (await loadSavedColumnMapping(eventId, parsed.headers)) ?? suggestColumnMapping(parsed.headers);
+    const diff = await previewRosterMerge(parsed, { eventId, columnMapping, matchKey: config.matchKey });
+    const result = await applyRosterMerge(eventId, diff, {
+      archiveMissing: false,
+      batch: { kind: 'sheet_sync', name: config.url }
+    });
+    if (!result.success) {
+      throw new Error(result.errors[0] ?? 'Sync failed');
+    }
+
+    const changes = result.imported + (result.updated ?? 0);
+    const supabase = getSupabaseClient();
+    const { data: syncedAt, error } = await supabase.rpc('record_event_sheet_sync', {
+      p_event_id: eventId,
+      p_changes: changes
+    });
+    if (error) {
+      console.error('record_event_sheet_sync failed:', JSON.stringify(error, null, 2));
+    }
+
+    if (changes > 0) {
+      emitRefreshAttendees({ silent: true });
+    }
+
+    if (isCurrent()) {
+      emitStatus({
+        config: {
+          ...config,
+          lastSyncedAt: (syncedAt as string | null) ?? new Date().toISOString(),
+          lastChanges: changes
+        },
+        syncing: false,
+        lastError: null
+      });
+      scheduleNext();
+    }
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('runSheetSync failed:', message);
+    if (claimed) await releaseSheetSync(eventId);
+    if (isCurrent()) {
+      emitStatus({ syncing: false, lastError: message });
+      scheduleNext();
+    }
+    return { success: false, imported: 0, errors: [message], skipped: 0 };
+  }
+};
+
+/**
+ * Run the linked sheet's sync on its interval for the given event. Only one event is scheduled at a time;
+ * returns a cleanup that stops the schedule.
+ */
+export const startSheetSyncScheduler = (eventId: string): (() => void) => {
+  clearSchedule();
+  emitStatus({ eventId, config: null, syncing: false, lastError: null });
+
+  fetchSheetSyncConfig(eventId)
+    .then((config) => {
+      if (currentStatus.eventId !== eventId) return;
+      emitStatus({ config });
+      scheduleNext();
+    })
+    .catch(async (error) => {
+      console.error('Failed to start sheet sync scheduler:', error);
+      // Offline: show the settings downloaded with the event, but don't schedule runs that can't succeed
+      const { getOfflineEventSettings } = await import('./offlineEvents');
+      const settings = await getOfflineEventSettings(eventId).catch(() => null);
+      if (settings && currentStatus.eventId === eventId) {
+        emitStatus({ config: settings.sheetSync });
+      }
+    });
+
+  return () => {
+    if (currentStatus.eventId !== eventId) return;
+    clearSchedule();
+    emitStatus({ eventId: null, config: null, syncing: false, lastError: null });
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Lintnotes
+ * - Purpose: Read Excel workbooks (.xlsx/.xls), list worksheets, detect the header row, and convert a worksheet
+ *            into header-keyed rows for the roster import pipeline.
+ * - Exports: WorksheetSummary/SpreadsheetWorkbook (types), isSpreadsheetFile, readSpreadsheetWorkbook,
+ *            detectHeaderRow, worksheetToParseResult
+ * - Major deps: xlsx (SheetJS), expo-file-system (File), services/csvParser (CsvParseResult)
+ * - Side effects: Reads the picked file from disk.
+ * - Notes: xlsx comes from the SheetJS CDN (package.json); the 0.18.x release on npm is abandoned and has known
+ *          vulnerabilities, so don't switch back to the registry version.
+ */
+import * as XLSX from 'xlsx';
+import { File } from 'expo-file-system';
+import type { CsvParseResult } from './csvParser';
+
+const SPREADSHEET_MIME_TYPES = [
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xlsm', '.xls'];
+
+// Header detection only looks at the top of the sheet (titles, logos, and blank rows usually precede it)
+const HEADER_SCAN_ROWS = 20;
+const KNOWN_HEADER_WORDS = ['name', 'first', 'last', 'guest', 'group', 'table', 'ticket', 'notes', 'email', 'company'];
+
+export type WorksheetSummary = {
+  name: string;
+  rowCount: number;
+  headerRowIndex: number;
+  headers: string[];
+};
+
+export type SpreadsheetWorkbook = {
+  sheets: WorksheetSummary[];
+  /** Raw cell values per worksheet, keyed by sheet name */
+  cells: Record<string, string[][]>;
+};
+
+export const isSpreadsheetFile = (fileName?: string | null, mimeType?: string | null): boolean => {
+  if (mimeType && SPREADSHEET_MIME_TYPES.includes(mimeType)) return true;
+  const lowerName = fileName?.toLowerCase() ?? '';
+  return SPREADSHEET_EXTENSIONS.some((extension) => lowerName.endsWith(extension));
+};
+
+const scoreHeaderCandidate = (row: string[]): number => {
+  const filled = row.map((cell) => cell.trim()).filter(Boolean);
+  if (filled.length < 2) return 0;
+
+  let score = 0;
+  for (const cell of filled) {
+    const lower = cell.toLowerCase();
+    // Headers are text labels, not numbers or dates
+    if (!/^[\d.,:/\s-]+$/.test(cell)) score += 1;
+    if (KNOWN_HEADER_WORDS.some((word) => lower.includes(word))) score += 3;
+  }
+  return score;
+};
+
+/**
+ * Pick the most header-like row near the top of a worksheet (0-based index)
+ */
+export const detectHeaderRow = (rows: string[][]): number => {
+  let bestIndex = 0;
+  let bestScore = 0;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const score = scoreHeaderCandidate(row);
+    if (score > bestScore) {
+      bestIndex = index;
+      bestScore = score;
+    }
+  });
+
+  return bestIndex;
+};
+
+/**
+ * Convert worksheet cells into header-keyed rows. Line numbers are the spreadsheet row numbers (1-based).
+ */
+export const worksheetToParseResult = (rows: string[][], headerRowIndex: number): CsvParseResult => {
+  const headerRow = rows[headerRowIndex] ?? [];
+  const headers = headerRow.map((header) => String(header ?? '').trim());
+  const parsedRows: CsvParseResult['rows'] = [];
+
+  rows.slice(headerRowIndex + 1).forEach((row, offset) => {
+    if (row.every((cell) => !String(cell ?? '').trim())) return;
+
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (!header) return;
+      values[header] = String(row[index] ?? '');
+    });
+    parsedRows.push({ line: headerRowIndex + offset + 2, values });
+  });
+
+  return { headers: headers.filter(Boolean), rows: parsedRows, errors: [], delimiter: '' };
+};
+
+/**
+ * Read an .xlsx/.xls file and summarize its worksheets with detected header rows
+ */
+export const readSpreadsheetWorkbook = async (fileUri: string): Promise<SpreadsheetWorkbook> => {
+  const bytes = await new File(fileUri).bytes();
+  const workbook = XLSX.read(bytes, { type: 'array', cellDates: true });
+
+  const sheets: WorksheetSummary[] = [];
+  const cells: Record<string, string[][]> = {};
+
+  for (const name of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: true,
+    });
+    const headerRowIndex = detectHeaderRow(rows);
+
+    cells[name] = rows;
+    sheets.push({
+      name,
+      rowCount: rows.filter((row) => row.some((cell) => String(cell ?? '').trim())).length,
+      headerRowIndex,
+      headers: (rows[headerRowIndex] ?? []).map((header) => String(header ?? '').trim()).filter(Boolean),
+    });
+  }
+
+  return { sheets, cells };
+};
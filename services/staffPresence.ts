@@ -0,0 +1,233 @@
+/**
+ * Lintnotes
+ * - Purpose: Staff presence for the selected event: who is on duty, their role, what they're looking at, whether
+ *            they're online and how many of their changes haven't synced.
+ * - Exports: StaffActivity/StaffIdentity/StaffMember (types), startStaffPresence, setStaffActivity, getStaffPresence,
+ *            addStaffPresenceListener
+ * - Major deps: services/realtime (presence on the event's attendee channel), services/offlineQueue (queue counts),
+ *               services/syncManager (sync status), services/device
+ * - Side effects: Tracks this device's presence on the attendee channel; subscribes to queue and sync changes while
+ *                 started.
+ * - Notes: Devices are keyed by device ID, so a device that reconnects replaces its old entry. A device that leaves
+ *          stays listed as offline with the last unsynced count it reported, since that's who to chase when check-ins
+ *          go missing.
+ */
+import type { RealtimePresenceState } from '@supabase/supabase-js';
+
+import { addPresenceListener, getAttendeesChannelName, trackPresence, untrackPresence } from './realtime';
+import { addOperationQueuedListener, getQueueStats } from './offlineQueue';
+import { addSyncListener } from './syncManager';
+import { getDeviceId } from './device';
+
+// Search text changes with every keystroke; wait for a pause before telling everyone
+const ACTIVITY_DEBOUNCE_MS = 1000;
+
+export type StaffActivity = {
+  tab: 'check-in' | 'admin';
+  /** Check-in list being shown, e.g. pending or checked-in */
+  filter?: string | null;
+  search?: string | null;
+};
+
+export type StaffIdentity = {
+  userId: string;
+  name: string;
+  role: string | null;
+};
+
+export type StaffMember = StaffIdentity &
+  StaffActivity & {
+    deviceId: string;
+    online: boolean;
+    /** Changes made on the device that haven't reached the server */
+    unsynced: number;
+    isSelf: boolean;
+    /** When the device last reported its state, or when it went offline */
+    updatedAt: number;
+  };
+
+type PresencePayload = {
+  device_id: string;
+  user_id: string;
+  name: string;
+  role: string | null;
+  tab: StaffActivity['tab'];
+  filter: string | null;
+  search: string | null;
+  unsynced: number;
+  updated_at: number;
+};
+
+type StaffPresenceListener = (members: StaffMember[]) => void;
+
+// Module state
+let current: { eventId: string; identity: StaffIdentity; deviceId: string } | null = null;
+let activity: StaffActivity = { tab: 'check-in' };
+let unsynced = 0;
+let publishTimer: ReturnType<typeof setTimeout> | null = null;
+const members = new Map<string, StaffMember>();
+const listeners = new Set<StaffPresenceListener>();
+
+const toMember = (payload: PresencePayload, online: boolean): StaffMember => ({
+  deviceId: payload.device_id,
+  userId: payload.user_id,
+  name: payload.name,
+  role: payload.role,
+  tab: payload.tab,
+  filter: payload.filter,
+  search: payload.search,
+  unsynced: payload.unsynced,
+  online,
+  isSelf: payload.device_id === current?.deviceId,
+  updatedAt: payload.updated_at,
+});
+
+const buildPayload = (): PresencePayload | null => {
+  if (!current) return null;
+  return {
+    device_id: current.deviceId,
+    user_id: current.identity.userId,
+    name: current.identity.name,
+    role: current.identity.role,
+    tab: activity.tab,
+    filter: activity.filter ?? null,
+    search: activity.search?.trim() || null,
+    unsynced,
+    updated_at: Date.now(),
+  };
+};
+
+/**
+ * Everyone seen on the event: this device first, then online staff, then offline, each by name
+ */
+export const getStaffPresence = (): StaffMember[] =>
+  Array.from(members.values()).sort(
+    (a, b) =>
+      Number(b.isSelf) - Number(a.isSelf) ||
+      Number(b.online) - Number(a.online) ||
+      a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+  );
+
+const emit = () => {
+  const snapshot = getStaffPresence();
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.error('Staff presence listener error:', error);
+    }
+  });
+};
+
+export const addStaffPresenceListener = (listener: StaffPresenceListener): (() => void) => {
+  listeners.add(listener);
+  listener(getStaffPresence());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const publish = () => {
+  const payload = buildPayload();
+  if (!current || !payload) return;
+  // Our own entry is kept from local state, so it's right even while the channel is down
+  members.set(payload.device_id, toMember(payload, true));
+  trackPresence(getAttendeesChannelName(current.eventId), payload);
+  emit();
+};
+
+const schedulePublish = () => {
+  if (publishTimer) clearTimeout(publishTimer);
+  publishTimer = setTimeout(() => {
+    publishTimer = null;
+    publish();
+  }, ACTIVITY_DEBOUNCE_MS);
+};
+
+const refreshUnsynced = async () => {
+  const eventId = current?.eventId;
+  if (!eventId) return;
+  const stats = await getQueueStats(eventId);
+  if (current?.eventId !== eventId) return;
+  unsynced = stats.pending + stats.failed;
+  publish();
+};
+
+const handlePresenceSync = (state: RealtimePresenceState) => {
+  if (!current) return;
+  const present = new Set<string>();
+  Object.values(state)
+    .flat()
+    .forEach((entry) => {
+      const payload = entry as unknown as PresencePayload;
+      if (!payload.device_id || payload.device_id === current?.deviceId) return;
+      present.add(payload.device_id);
+      const known = members.get(payload.device_id);
+      // A device that reconnected can briefly show up twice; keep its latest report
+      if (!known?.online || payload.updated_at >= known.updatedAt) {
+        members.set(payload.device_id, toMember(payload, true));
+      }
+    });
+
+  members.forEach((member, deviceId) => {
+    if (!member.isSelf && member.online && !present.has(deviceId)) {
+      members.set(deviceId, { ...member, online: false, updatedAt: Date.now() });
+    }
+  });
+  emit();
+};
+
+/**
+ * Share this device's presence on the event's attendee channel and follow everyone else's. The channel itself is
+ * opened by the check-in list (services/attendees.subscribeAttendees).
+ */
+export const startStaffPresence = (eventId: string, identity: StaffIdentity): (() => void) => {
+  let active = true;
+  let cleanup: (() => void) | null = null;
+  const channelName = getAttendeesChannelName(eventId);
+
+  void getDeviceId().then((deviceId) => {
+    if (!active) return;
+    current = { eventId, identity, deviceId };
+    members.clear();
+
+    const removePresence = addPresenceListener(channelName, handlePresenceSync);
+    const removeQueued = addOperationQueuedListener((queuedEventId) => {
+      if (queuedEventId === eventId) void refreshUnsynced();
+    });
+    const removeSync = addSyncListener(() => {
+      void refreshUnsynced();
+    });
+    cleanup = () => {
+      removePresence();
+      removeQueued();
+      removeSync();
+    };
+
+    publish();
+    void refreshUnsynced();
+  });
+
+  return () => {
+    active = false;
+    cleanup?.();
+    if (current?.eventId === eventId) {
+      untrackPresence(channelName);
+      current = null;
+      members.clear();
+      if (publishTimer) {
+        clearTimeout(publishTimer);
+        publishTimer = null;
+      }
+      emit();
+    }
+  };
+};
+
+/**
+ * Update what this device is doing (tab, list filter, search); shared after a short pause
+ */
+export const setStaffActivity = (update: Partial<StaffActivity>): void => {
+  activity = { ...activity, ...update };
+  if (current) schedulePublish();
+};
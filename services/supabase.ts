@@ -1,12 +1,13 @@
 /**
  * Lintnotes
- * - Purpose: Create and cache a configured Supabase client for React Native with AsyncStorage-backed auth.
+ * - Purpose: Create and cache a configured Supabase client for React Native with the auth session kept in the
+ *            platform secure store.
  * - Exports: getSupabaseClient, clearSupabaseClient
- * - Major deps: @supabase/supabase-js, @react-native-async-storage/async-storage, react-native-url-polyfill, config/env
+ * - Major deps: @supabase/supabase-js, services/secureStorage, react-native-url-polyfill, config/env
  * - Side effects: Imports URL polyfill globally; caches client instance in module scope.
  */
 import 'react-native-url-polyfill/auto';
-import AsyncStorage from '../utils/safeAsyncStorage';
+import { secureStorage } from './secureStorage';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_URL, SUPABASE_ANON_KEY, validateConfig } from '../config/env';
 
@@ -19,7 +20,7 @@ export const getSupabaseClient = (): SupabaseClient => {
   if (!client) {
     client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
       auth: {
-        storage: AsyncStorage,
+        storage: secureStorage,
         autoRefreshToken: true,
         persistSession: true,
         detectSessionInUrl: false
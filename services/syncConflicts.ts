@@ -0,0 +1,228 @@
+/**
+ * Lintnotes
+ * - Purpose: Offline changes the server rejected: check-ins older (by event time) than a change already made, and
+ *            edits/notes based on a version of the attendee that has since changed. Keeps them on the device until
+ *            someone reviews them, and resolves them by keeping the server state or re-applying the offline change.
+ * - Exports: SyncConflict/SyncConflictKind (types), recordSyncConflict, getSyncConflicts, resolveSyncConflict,
+ *            clearSyncConflicts, addSyncConflictListener, describeSyncConflict
+ * - Major deps: services/localStore (sync_conflicts table), services/attendees (toggleCheckin, fetchAttendee,
+ *               updateAttendee, updateAttendeeNotes)
+ * - Side effects: Reads/writes the sync_conflicts table; notifies listeners when the list changes.
+ */
+import { readLocalStore, writeLocalStore } from './localStore';
+import type { AttendeeDetails } from './attendees';
+
+export type SyncConflictKind = 'check_in' | 'edit' | 'notes';
+
+export type SyncConflict = {
+  operationId: string;
+  kind: SyncConflictKind;
+  eventId: string;
+  attendeeId: string;
+  attendeeName: string | null;
+  /** What this device tried to set (check-in state for check-ins, field values for edits/notes), and when */
+  localCheckedIn: boolean | null;
+  localDetails: Partial<AttendeeDetails> | null;
+  localOccurredAt: number;
+  /** The newer state the server kept */
+  serverCheckedIn: boolean | null;
+  serverChangedAt: string | null;
+  serverChangedBy: string | null;
+  detectedAt: number;
+};
+
+type SyncConflictRow = {
+  operation_id: string;
+  kind: SyncConflictKind;
+  event_id: string;
+  attendee_id: string;
+  attendee_name: string | null;
+  local_checked_in: number | null;
+  local_details: string | null;
+  local_occurred_at: number;
+  server_checked_in: number | null;
+  server_changed_at: string | null;
+  server_changed_by: string | null;
+  detected_at: number;
+};
+
+type SyncConflictListener = (conflicts: SyncConflict[]) => void;
+
+const conflictListeners = new Set<SyncConflictListener>();
+
+const mapRowToConflict = (row: SyncConflictRow): SyncConflict => ({
+  operationId: row.operation_id,
+  kind: row.kind,
+  eventId: row.event_id,
+  attendeeId: row.attendee_id,
+  attendeeName: row.attendee_name,
+  localCheckedIn: row.local_checked_in === null ? null : row.local_checked_in === 1,
+  localDetails: row.local_details ? (JSON.parse(row.local_details) as Partial<AttendeeDetails>) : null,
+  localOccurredAt: row.local_occurred_at,
+  serverCheckedIn: row.server_checked_in === null ? null : row.server_checked_in === 1,
+  serverChangedAt: row.server_changed_at,
+  serverChangedBy: row.server_changed_by,
+  detectedAt: row.detected_at
+});
+
+/**
+ * All unresolved conflicts, oldest first, optionally for one event
+ */
+export const getSyncConflicts = async (eventId?: string): Promise<SyncConflict[]> => {
+  try {
+    const rows = await readLocalStore((db) =>
+      eventId
+        ? db.getAllAsync<SyncConflictRow>(
+            'SELECT * FROM sync_conflicts WHERE event_id = ? ORDER BY detected_at',
+            [eventId]
+          )
+        : db.getAllAsync<SyncConflictRow>('SELECT * FROM sync_conflicts ORDER BY detected_at')
+    );
+    return rows.map(mapRowToConflict);
+  } catch (error) {
+    console.error('Failed to load sync conflicts:', error);
+    return [];
+  }
+};
+
+const emitConflicts = async (): Promise<void> => {
+  const conflicts = await getSyncConflicts();
+  conflictListeners.forEach((listener) => {
+    try {
+      listener(conflicts);
+    } catch (error) {
+      console.error('Sync conflict listener error:', error);
+    }
+  });
+};
+
+export const addSyncConflictListener = (listener: SyncConflictListener): (() => void) => {
+  conflictListeners.add(listener);
+  void getSyncConflicts().then((conflicts) => {
+    if (conflictListeners.has(listener)) listener(conflicts);
+  });
+  return () => {
+    conflictListeners.delete(listener);
+  };
+};
+
+/**
+ * Keep a conflict reported by the server for review
+ */
+export const recordSyncConflict = async (conflict: Omit<SyncConflict, 'detectedAt'>): Promise<void> => {
+  await writeLocalStore((db) =>
+    db.runAsync(
+      `INSERT OR REPLACE INTO sync_conflicts (
+        operation_id, kind, event_id, attendee_id, attendee_name, local_checked_in, local_details, local_occurred_at,
+        server_checked_in, server_changed_at, server_changed_by, detected_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        conflict.operationId,
+        conflict.kind,
+        conflict.eventId,
+        conflict.attendeeId,
+        conflict.attendeeName,
+        conflict.localCheckedIn === null ? null : conflict.localCheckedIn ? 1 : 0,
+        conflict.localDetails ? JSON.stringify(conflict.localDetails) : null,
+        conflict.localOccurredAt,
+        conflict.serverCheckedIn === null ? null : conflict.serverCheckedIn ? 1 : 0,
+        conflict.serverChangedAt,
+        conflict.serverChangedBy,
+        Date.now()
+      ]
+    )
+  );
+  await emitConflicts();
+};
+
+/**
+ * Re-apply an edit or note on top of the attendee's current server copy
+ */
+const reapplyAttendeeWrite = async (conflict: SyncConflict): Promise<{ success: boolean; error?: string }> => {
+  const { fetchAttendee, updateAttendee, updateAttendeeNotes } = await import('./attendees');
+  const current = await fetchAttendee(conflict.attendeeId);
+  if (!current) {
+    return { success: false, error: 'This attendee no longer exists' };
+  }
+
+  const result =
+    conflict.kind === 'notes'
+      ? await updateAttendeeNotes(current, conflict.localDetails?.notes ?? null)
+      : await updateAttendee(current, {
+          attendeeName: current.attendeeName,
+          groupName: current.groupName,
+          tableNumber: current.tableNumber,
+          ticketType: current.ticketType,
+          notes: current.notes ?? null,
+          ...conflict.localDetails
+        });
+  if (result.status === 'conflict') {
+    return { success: false, error: 'The attendee changed again. Please try again.' };
+  }
+  return { success: true };
+};
+
+/**
+ * Close a conflict. 'keep_server' accepts the newer server state; 'apply_mine' re-applies this device's change now,
+ * which makes it the latest change.
+ */
+export const resolveSyncConflict = async (
+  conflict: SyncConflict,
+  resolution: 'keep_server' | 'apply_mine'
+): Promise<{ success: boolean; error?: string }> => {
+  if (resolution === 'apply_mine') {
+    if (conflict.kind === 'check_in') {
+      const { toggleCheckin } = await import('./attendees');
+      const result = await toggleCheckin(
+        conflict.attendeeId,
+        conflict.localCheckedIn ?? true,
+        conflict.eventId,
+        'offline_sync'
+      );
+      if (!result.success) {
+        return { success: false, error: result.error ?? 'Unable to apply the change' };
+      }
+    } else {
+      try {
+        const result = await reapplyAttendeeWrite(conflict);
+        if (!result.success) return result;
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unable to apply the change' };
+      }
+    }
+  }
+
+  await writeLocalStore((db) =>
+    db.runAsync('DELETE FROM sync_conflicts WHERE operation_id = ?', [conflict.operationId])
+  );
+  await emitConflicts();
+  return { success: true };
+};
+
+/**
+ * Drop an event's conflicts without resolving them (its cached data is being deleted from the device)
+ */
+export const clearSyncConflicts = async (eventId: string): Promise<void> => {
+  await writeLocalStore((db) => db.runAsync('DELETE FROM sync_conflicts WHERE event_id = ?', [eventId]));
+  await emitConflicts();
+};
+
+const describeState = (checkedIn: boolean | null): string =>
+  checkedIn === null ? 'unknown' : checkedIn ? 'checked in' : 'not checked in';
+
+/**
+ * One-line summary, e.g. "Your undo (10:02 AM) was not applied — checked in at 10:05 AM by sam@example.com"
+ */
+export const describeSyncConflict = (conflict: SyncConflict): string => {
+  const formatTime = (value: number | string) =>
+    new Date(value).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  if (conflict.kind !== 'check_in') {
+    const action = conflict.kind === 'notes' ? 'note' : 'edit';
+    const changedAt = conflict.serverChangedAt ? ` at ${formatTime(conflict.serverChangedAt)}` : '';
+    return `Your ${action} (${formatTime(conflict.localOccurredAt)}) was not applied — the attendee was changed on another device${changedAt}`;
+  }
+  const action = conflict.localCheckedIn ? 'check-in' : 'undo';
+  const changedAt = conflict.serverChangedAt ? ` at ${formatTime(conflict.serverChangedAt)}` : '';
+  const changedBy = conflict.serverChangedBy ? ` by ${conflict.serverChangedBy}` : '';
+  return `Your ${action} (${formatTime(conflict.localOccurredAt)}) was not applied — ${describeState(conflict.serverCheckedIn)}${changedAt}${changedBy}`;
+};
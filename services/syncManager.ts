@@ -1,22 +1,57 @@
 /**
  * Lintnotes
- * - Purpose: Manage syncing of offline queue when connectivity returns.
- * - Exports: initSyncManager, syncAllPending, getSyncStatus, addSyncListener
- * - Major deps: expo-network, offlineQueue, supabase
- * - Side effects: Subscribes to network state changes; syncs queued operations.
+ * - Purpose: Manage syncing of the offline operation queue when connectivity returns: replays operations in the order
+ *            they were made through a handler per operation type.
+ * - Exports: initSyncManager, syncAllPending, runBackgroundSync, forceSync, getSyncStatus, addSyncListener,
+ *            retryOperations, discardOperations, forceApplyOperations, getRetryDelay
+ * - Major deps: expo-network, react-native AppState, offlineQueue, syncConflicts, attendees (apply_checkin_operations,
+ *               update_attendee, set_attendee_notes), supabase (register_walk_in)
+ * - Side effects: Subscribes to network state and app state changes; syncs queued operations and schedules retries
+ *                 with jittered exponential backoff; starts the venue relay (services/relay.ts) if one is set up and
+ *                 tells it which check-ins the server rejected.
+ * - Notes: When an operation fails, later operations for the same event wait for the next sync. Operations are flagged
+ *          in flight while being sent; any a killed session left flagged are put back before the first sync. The
+ *          background task in services/backgroundSync.ts drains the queue while the app is not open.
  */
+import { AppState, type AppStateStatus } from 'react-native';
 import * as Network from 'expo-network';
+import * as Crypto from 'expo-crypto';
 import {
   getPendingOperations,
+  getQueuedOperations,
+  markInFlight,
   markSynced,
   markFailed,
   clearOldSyncedOperations,
   getQueueStats,
-  type QueuedCheckIn,
+  recoverInterruptedOperations,
+  removeOperations,
+  resetAttempts,
+  resolveLocalAttendeeId,
+  type QueuedOperation,
+  type QueuedOperationPayload,
+  type QueuedOperationType,
   type QueueStats,
 } from './offlineQueue';
 import { getSupabaseClient } from './supabase';
+import { refreshRejectedCheckIns, reportRejectedCheckIns, startRelay, stopRelay, type RelayRejection } from './relay';
+import {
+  applyCheckinOperations,
+  fetchAttendee,
+  saveAttendeeDetails,
+  saveAttendeeNotes,
+  type Attendee,
+  type CheckinOperationResult,
+} from './attendees';
 import { emitRefreshAttendees } from './attendeeEvents';
+import { recordSyncConflict } from './syncConflicts';
+
+// Operations sent per apply_checkin_operations call
+const OPERATION_BATCH_SIZE = 100;
+
+// Automatic retries after a sync leaves changes unsent
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
 
 export type SyncStatus = {
   isSyncing: boolean;
@@ -34,7 +69,12 @@ let isSyncing = false;
 let lastSyncAt: number | null = null;
 let lastSyncResult: 'success' | 'partial' | 'failed' | null = null;
 let networkSubscription: (() => void) | null = null;
+let appStateSubscription: (() => void) | null = null;
 let wasOffline = false;
+let autoRetry = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryCount = 0;
+let recovery: Promise<void> | null = null;
 
 const syncListeners = new Set<SyncListener>();
 
@@ -71,40 +111,385 @@ async function emitSyncStatus(): Promise<void> {
   });
 }
 
+type OperationOf<T extends QueuedOperationType> = QueuedOperation<Extract<QueuedOperationPayload, { type: T }>>;
+
+type ReplayOutcome = { status: 'synced'; conflicts: number } | { status: 'failed'; error: string };
+
+type ReplayContext = {
+  /** updated_at moves (before → after) made by this device's own operations during this sync, per attendee */
+  versions: Map<string, Map<string | null, string>>;
+  /** Apply regardless of newer changes on the server (user-initiated from the sync center) */
+  force: boolean;
+};
+
+type ReplayHandler<T extends QueuedOperationType> = (
+  operations: OperationOf<T>[],
+  context: ReplayContext
+) => Promise<ReplayOutcome[]>;
+
+const SYNCED: ReplayOutcome = { status: 'synced', conflicts: 0 };
+
+function describeError(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return 'Unknown error';
+}
+
+function recordVersion(
+  context: ReplayContext,
+  attendeeId: string,
+  previous: string | null | undefined,
+  current: string | null | undefined
+): void {
+  if (previous === undefined || !current || previous === current) return;
+  const moves = context.versions.get(attendeeId) ?? new Map<string | null, string>();
+  moves.set(previous, current);
+  context.versions.set(attendeeId, moves);
+}
+
 /**
- * Sync a single queued check-in operation
+ * Edits queued offline are based on the version the device saw before its own earlier queued changes. Follow those
+ * changes forward so they don't conflict with ourselves; a change from another device still does.
  */
-async function syncOperation(item: QueuedCheckIn): Promise<boolean> {
-  const supabase = getSupabaseClient();
+function rebaseVersion(context: ReplayContext, attendeeId: string, expected: string | null): string | null {
+  const moves = context.versions.get(attendeeId);
+  const seen = new Set<string | null>();
+  let version = expected;
+  while (moves?.has(version) && !seen.has(version)) {
+    seen.add(version);
+    version = moves.get(version)!;
+  }
+  return version;
+}
 
+/**
+ * Record a lost check-in for review. Resolves to 1 so callers can count it.
+ */
+async function recordCheckInConflict(
+  eventId: string,
+  operationId: string,
+  attendeeId: string,
+  checkedIn: boolean,
+  occurredAt: number,
+  result: CheckinOperationResult
+): Promise<number> {
+  console.log(`Conflict for ${attendeeId}: a newer change exists on the server`);
+  await recordSyncConflict({
+    operationId,
+    kind: 'check_in',
+    eventId,
+    attendeeId,
+    attendeeName: result.attendee_name,
+    localCheckedIn: checkedIn,
+    localDetails: null,
+    localOccurredAt: occurredAt,
+    serverCheckedIn: result.server_checked_in,
+    serverChangedAt: result.server_changed_at,
+    serverChangedBy: result.server_changed_by,
+  }).catch((recordError) => {
+    console.error('Failed to record sync conflict:', recordError);
+  });
+  return 1;
+}
+
+/**
+ * Send queued check-ins to apply_checkin_operations in one call. The server applies each operation once (by
+ * operation ID) and keeps whichever change happened last; operations that lose are recorded as conflicts.
+ */
+const replayCheckIns: ReplayHandler<'check_in'> = async (operations, context) => {
+  let results: Map<string, CheckinOperationResult>;
+  const opIds = operations.map((operation) => (context.force ? Crypto.randomUUID() : operation.operationId));
   try {
-    // Call the toggle_checkin RPC
-    const { error } = await supabase.rpc('toggle_checkin', {
-      p_attendee_id: item.attendeeId,
-      p_checked: item.checkedIn,
-    });
+    results = await applyCheckinOperations(
+      operations.map((operation, position) => ({
+        opId: opIds[position],
+        attendeeId: operation.payload.attendeeId,
+        checkedIn: operation.payload.checkedIn,
+        occurredAt: context.force ? Date.now() : operation.occurredAt,
+      }))
+    );
+  } catch (error) {
+    const errorMessage = describeError(error);
+    console.error(`Failed to sync ${operations.length} check-ins:`, errorMessage);
+    return operations.map(() => ({ status: 'failed', error: errorMessage }));
+  }
 
-    if (error) {
-      // Check if it's a conflict (server state differs)
-      // In this case, we still mark as synced since server is source of truth
-      if (error.message.includes('already')) {
-        console.log(`Conflict for ${item.attendeeId}: server state differs, accepting server state`);
-        await markSynced(item.id);
-        return true;
+  const outcomes: ReplayOutcome[] = [];
+  const rejected: RelayRejection[] = [];
+  for (const [position, operation] of operations.entries()) {
+    const { attendeeId, checkedIn } = operation.payload;
+    const result = results.get(opIds[position]);
+    if (result?.status === 'conflict' || result?.status === 'not_found') {
+      rejected.push({ op_id: operation.operationId, event_id: operation.eventId, attendee_id: attendeeId });
+    }
+    if (!result) {
+      outcomes.push({ status: 'failed', error: 'No result returned for operation' });
+    } else if (result.status === 'conflict') {
+      const conflicts = await recordCheckInConflict(
+        operation.eventId,
+        operation.operationId,
+        attendeeId,
+        checkedIn,
+        operation.occurredAt,
+        result
+      );
+      outcomes.push({ status: 'synced', conflicts });
+    } else {
+      if (result.status === 'not_found') {
+        console.log(`Attendee ${attendeeId} no longer exists, dropping queued check-in`);
       }
+      recordVersion(context, attendeeId, result.previous_updated_at, result.server_updated_at);
+      outcomes.push(SYNCED);
+    }
+  }
+  reportRejectedCheckIns(rejected);
+  return outcomes;
+};
 
-      throw error;
+/**
+ * Replay handlers that take one operation at a time
+ */
+function oneAtATime<T extends QueuedOperationType>(
+  replay: (operation: OperationOf<T>, context: ReplayContext) => Promise<ReplayOutcome>
+): ReplayHandler<T> {
+  return async (operations, context) => {
+    const outcomes: ReplayOutcome[] = [];
+    for (const operation of operations) {
+      try {
+        outcomes.push(await replay(operation, context));
+      } catch (error) {
+        const errorMessage = describeError(error);
+        console.error(`Failed to sync ${operation.payload.type} operation ${operation.id}:`, errorMessage);
+        outcomes.push({ status: 'failed', error: errorMessage });
+      }
     }
+    return outcomes;
+  };
+}
 
-    await markSynced(item.id);
-    console.log(`Synced check-in for attendee ${item.attendeeId}`);
-    return true;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`Failed to sync check-in for ${item.attendeeId}:`, errorMessage);
-    await markFailed(item.id, errorMessage);
-    return false;
+/**
+ * A group/table check-in is one queued operation but one server operation per attendee, so each attendee is
+ * applied (or conflicts) on its own. The whole operation is retried with the same IDs if the call fails.
+ */
+const replayBulkCheckIn = oneAtATime<'bulk_check_in'>(async (operation, context) => {
+  const { scope, checkedIn } = operation.payload;
+  // Forcing sends fresh IDs stamped now, so the server treats them as the latest change
+  const targets = context.force
+    ? operation.payload.targets.map((target) => ({ ...target, operationId: Crypto.randomUUID() }))
+    : operation.payload.targets;
+  const results = await applyCheckinOperations(
+    targets.map((target) => ({
+      opId: target.operationId,
+      attendeeId: target.attendeeId,
+      checkedIn,
+      occurredAt: context.force ? Date.now() : operation.occurredAt,
+      source: scope,
+    }))
+  );
+
+  let conflicts = 0;
+  const rejected: RelayRejection[] = [];
+  for (const [position, target] of targets.entries()) {
+    const result = results.get(target.operationId);
+    if (result?.status === 'conflict' || result?.status === 'not_found') {
+      // The relay knows the check-in by its original operation ID
+      const { operationId } = operation.payload.targets[position];
+      rejected.push({ op_id: operationId, event_id: operation.eventId, attendee_id: target.attendeeId });
+    }
+    if (result?.status === 'conflict') {
+      conflicts += await recordCheckInConflict(
+        operation.eventId,
+        target.operationId,
+        target.attendeeId,
+        checkedIn,
+        operation.occurredAt,
+        result
+      );
+    } else if (result) {
+      recordVersion(context, target.attendeeId, result.previous_updated_at, result.server_updated_at);
+    }
+  }
+  reportRejectedCheckIns(rejected);
+  return { status: 'synced', conflicts };
+});
+
+/**
+ * Register a queued walk-in. The client ref makes retries idempotent. Later operations queued against the local
+ * placeholder are pointed at the server attendee; the placeholder itself is replaced when the list refreshes.
+ */
+const replayWalkIn = oneAtATime<'walk_in'>(async (operation) => {
+  const { walkIn, localAttendeeId, checkedIn } = operation.payload;
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc('register_walk_in', {
+    p_event_id: operation.eventId,
+    p_client_ref: walkIn.clientRef,
+    p_full_name: walkIn.attendeeName,
+    p_group_name: walkIn.groupName,
+    p_table_number: walkIn.tableNumber,
+    p_ticket_type: walkIn.ticketType,
+    p_notes: walkIn.notes,
+    p_checked_in: checkedIn,
+    p_checked_in_at: new Date(operation.occurredAt).toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  await resolveLocalAttendeeId(operation.eventId, localAttendeeId, String(data));
+  console.log(`Synced walk-in registration ${walkIn.clientRef}`);
+  return SYNCED;
+});
+
+/**
+ * True when the server copy already has the queued values, e.g. the edit landed but the app was killed before it
+ * was marked synced
+ */
+function isAlreadyApplied(operation: OperationOf<'edit_attendee'> | OperationOf<'notes'>, current: Attendee): boolean {
+  const same = (a: string | null | undefined, b: string | null | undefined) => (a ?? '').trim() === (b ?? '').trim();
+  if (operation.payload.type === 'notes') {
+    return same(current.notes, operation.payload.notes);
+  }
+  const { details } = operation.payload;
+  return (
+    same(current.attendeeName, details.attendeeName) &&
+    same(current.groupName, details.groupName) &&
+    same(current.tableNumber, details.tableNumber) &&
+    same(current.ticketType, details.ticketType) &&
+    same(current.notes, details.notes)
+  );
+}
+
+/**
+ * Shared handling for edits and notes: the server rejects them if the attendee changed since the version they were
+ * based on, and the rejected change is kept as a conflict. Forcing saves over the current server version instead.
+ */
+async function replayAttendeeWrite(
+  operation: OperationOf<'edit_attendee'> | OperationOf<'notes'>,
+  context: ReplayContext,
+  save: (expectedUpdatedAt: string | null) => Promise<Awaited<ReturnType<typeof saveAttendeeDetails>>>
+): Promise<ReplayOutcome> {
+  const { attendeeId } = operation.payload;
+  let expected = rebaseVersion(context, attendeeId, operation.payload.expectedUpdatedAt);
+  if (context.force) {
+    const latest = await fetchAttendee(attendeeId);
+    if (!latest) {
+      console.log(`Attendee ${attendeeId} no longer exists, dropping queued ${operation.payload.type}`);
+      return SYNCED;
+    }
+    expected = latest.updatedAt ?? null;
+  }
+  const result = await save(expected);
+
+  if (result.status === 'updated') {
+    recordVersion(context, attendeeId, expected, result.attendee.updatedAt);
+    return SYNCED;
+  }
+  if (!result.current) {
+    console.log(`Attendee ${attendeeId} no longer exists, dropping queued ${operation.payload.type}`);
+    return SYNCED;
+  }
+  if (isAlreadyApplied(operation, result.current)) {
+    console.log(`Queued ${operation.payload.type} for ${attendeeId} was already applied`);
+    return SYNCED;
+  }
+
+  console.log(`Conflict for ${attendeeId}: the attendee changed since this ${operation.payload.type} was made`);
+  await recordSyncConflict({
+    operationId: operation.operationId,
+    kind: operation.payload.type === 'notes' ? 'notes' : 'edit',
+    eventId: operation.eventId,
+    attendeeId,
+    attendeeName: result.current.attendeeName,
+    localCheckedIn: null,
+    localDetails:
+      operation.payload.type === 'notes' ? { notes: operation.payload.notes } : operation.payload.details,
+    localOccurredAt: operation.occurredAt,
+    serverCheckedIn: result.current.checkedIn,
+    serverChangedAt: result.current.updatedAt ?? null,
+    serverChangedBy: null,
+  }).catch((recordError) => {
+    console.error('Failed to record sync conflict:', recordError);
+  });
+  return { status: 'synced', conflicts: 1 };
+}
+
+const replayAttendeeEdit = oneAtATime<'edit_attendee'>((operation, context) =>
+  replayAttendeeWrite(operation, context, (expected) =>
+    saveAttendeeDetails(operation.payload.attendeeId, expected, operation.payload.details)
+  )
+);
+
+const replayNotes = oneAtATime<'notes'>((operation, context) =>
+  replayAttendeeWrite(operation, context, (expected) =>
+    saveAttendeeNotes(operation.payload.attendeeId, expected, operation.payload.notes)
+  )
+);
+
+const REPLAY_HANDLERS: { [T in QueuedOperationType]: ReplayHandler<T> } = {
+  check_in: replayCheckIns,
+  bulk_check_in: replayBulkCheckIn,
+  walk_in: replayWalkIn,
+  edit_attendee: replayAttendeeEdit,
+  notes: replayNotes,
+};
+
+/**
+ * Replay operations in order. Consecutive single check-ins are sent in one call; everything else goes one at a time.
+ */
+async function replayOperations(
+  operations: QueuedOperation[],
+  force: boolean
+): Promise<{ synced: number; failed: number; conflicts: number }> {
+  let synced = 0;
+  let failed = 0;
+  let conflicts = 0;
+  const context: ReplayContext = { versions: new Map(), force };
+  // Once an operation fails, later operations for the same event wait so they are never applied out of order
+  const blockedEvents = new Set<string>();
+
+  let index = 0;
+  while (index < operations.length) {
+    const first = operations[index];
+    index++;
+    if (blockedEvents.has(first.eventId)) continue;
+
+    // Consecutive single check-ins go to the server in one call
+    const run = [first];
+    if (first.payload.type === 'check_in') {
+      while (
+        index < operations.length &&
+        run.length < OPERATION_BATCH_SIZE &&
+        operations[index].payload.type === 'check_in'
+      ) {
+        if (!blockedEvents.has(operations[index].eventId)) run.push(operations[index]);
+        index++;
+      }
+    }
+
+    await markInFlight(run.map((operation) => operation.id)).catch((error) => {
+      console.error('Failed to save offline queue:', error);
+    });
+    const handler = REPLAY_HANDLERS[first.payload.type] as ReplayHandler<QueuedOperationType>;
+    const outcomes = await handler(run, context);
+
+    for (let position = 0; position < run.length; position++) {
+      const operation = run[position];
+      const outcome = outcomes[position];
+      if (outcome.status === 'synced') {
+        await markSynced(operation.id);
+        synced++;
+        conflicts += outcome.conflicts;
+      } else {
+        await markFailed(operation.id, outcome.error);
+        blockedEvents.add(operation.eventId);
+        failed++;
+      }
+    }
   }
+
+  return { synced, failed, conflicts };
 }
 
 /**
@@ -114,22 +499,25 @@ export async function syncAllPending(): Promise<{
   success: boolean;
   synced: number;
   failed: number;
+  conflicts: number;
   total: number;
 }> {
   if (isSyncing) {
     console.log('Sync already in progress, skipping');
-    return { success: false, synced: 0, failed: 0, total: 0 };
+    return { success: false, synced: 0, failed: 0, conflicts: 0, total: 0 };
   }
 
   // Check network connectivity first
   const networkState = await Network.getNetworkStateAsync();
   if (!networkState.isConnected || !networkState.isInternetReachable) {
     console.log('No network connectivity, skipping sync');
-    return { success: false, synced: 0, failed: 0, total: 0 };
+    return { success: false, synced: 0, failed: 0, conflicts: 0, total: 0 };
   }
 
   isSyncing = true;
   await emitSyncStatus();
+  // Online again: replace cached check-ins from the relay that the server has since rejected
+  void refreshRejectedCheckIns();
 
   const pending = await getPendingOperations();
   const total = pending.length;
@@ -140,27 +528,23 @@ export async function syncAllPending(): Promise<{
     lastSyncAt = Date.now();
     lastSyncResult = 'success';
     await emitSyncStatus();
-    return { success: true, synced: 0, failed: 0, total: 0 };
+    return { success: true, synced: 0, failed: 0, conflicts: 0, total: 0 };
   }
 
   console.log(`Starting sync of ${total} pending operations`);
 
   let synced = 0;
   let failed = 0;
+  let conflicts = 0;
+  try {
+    ({ synced, failed, conflicts } = await replayOperations(pending, false));
 
-  // Process operations sequentially to avoid race conditions
-  for (const item of pending) {
-    const success = await syncOperation(item);
-    if (success) {
-      synced++;
-    } else {
-      failed++;
-    }
+    // Cleanup old synced operations
+    await clearOldSyncedOperations();
+  } finally {
+    isSyncing = false;
   }
 
-  // Cleanup old synced operations
-  await clearOldSyncedOperations();
-
   // Determine result
   if (failed === 0) {
     lastSyncResult = 'success';
@@ -171,9 +555,14 @@ export async function syncAllPending(): Promise<{
   }
 
   lastSyncAt = Date.now();
-  isSyncing = false;
 
-  console.log(`Sync complete: ${synced} synced, ${failed} failed out of ${total}`);
+  console.log(`Sync complete: ${synced} synced (${conflicts} conflicts), ${failed} failed out of ${total}`);
+
+  if (failed === 0) {
+    retryCount = 0;
+  } else if (autoRetry) {
+    await scheduleRetry();
+  }
 
   // Refresh attendee list after sync
   if (synced > 0) {
@@ -186,35 +575,116 @@ export async function syncAllPending(): Promise<{
     success: failed === 0,
     synced,
     failed,
+    conflicts,
     total,
   };
 }
 
+/**
+ * Delay before automatic retry number `attempt` (0-based): doubles each time up to a cap, then picks a random point
+ * in the upper half so devices that went offline together don't all retry at the same moment
+ */
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+function cancelRetry(): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+function scheduleSync(delay: number): void {
+  cancelRetry();
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncAllPending().catch((error) => {
+      console.error('Scheduled sync failed:', error);
+    });
+  }, delay);
+}
+
+/**
+ * Retry after a run that left changes unsent, backing off further after each failed run. Operations that used up
+ * their attempts are left for the sync center.
+ */
+async function scheduleRetry(): Promise<void> {
+  const stats = await getQueueStats();
+  if (stats.pending === 0) {
+    cancelRetry();
+    return;
+  }
+
+  const delay = getRetryDelay(retryCount);
+  retryCount++;
+  console.log(`Retrying sync of ${stats.pending} pending operations in ${Math.round(delay / 1000)}s`);
+  scheduleSync(delay);
+}
+
+const isOnline = (state: Network.NetworkState) => Boolean(state.isConnected && state.isInternetReachable);
+
 /**
  * Handle network state change
  */
-async function handleNetworkChange(isConnected: boolean): Promise<void> {
+function handleNetworkChange(isConnected: boolean): void {
   if (wasOffline && isConnected) {
     console.log('Network reconnected, triggering sync');
-    // Small delay to ensure connection is stable
-    setTimeout(async () => {
-      const result = await syncAllPending();
-      if (result.synced > 0) {
-        console.log(`Auto-synced ${result.synced} check-ins on reconnect`);
-      }
-    }, 1000);
+    // Short jittered delay so the connection settles and devices at the same venue don't all sync at once
+    retryCount = 0;
+    scheduleSync(getRetryDelay(0));
+  } else if (!isConnected) {
+    cancelRetry();
   }
 
   wasOffline = !isConnected;
 }
 
 /**
- * Initialize the sync manager with network monitoring
+ * Sync when the app comes back to the foreground (e.g. a checker unlocks their phone)
+ */
+function handleAppStateChange(state: AppStateStatus): void {
+  if (state !== 'active' || wasOffline) return;
+  getQueueStats()
+    .then((stats) => {
+      if (stats.pending > 0) {
+        console.log(`App resumed with ${stats.pending} pending operations, syncing...`);
+        retryCount = 0;
+        scheduleSync(0);
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to load offline queue:', error);
+    });
+}
+
+/**
+ * Put back operations a killed session left in flight. Runs once per JavaScript runtime, whether the app was opened
+ * or woken in the background, so it never touches operations this runtime is still sending.
+ */
+function recoverOnce(): Promise<void> {
+  if (!recovery) {
+    recovery = recoverInterruptedOperations()
+      .then(() => undefined)
+      .catch((error) => {
+        console.error('Failed to recover interrupted operations:', error);
+      });
+  }
+  return recovery;
+}
+
+/**
+ * Initialize the sync manager with network and app state monitoring
  */
 export async function initSyncManager(): Promise<() => void> {
+  // Operations a force-quit left mid-sync go back in the queue before anything else touches it
+  await recoverOnce();
+  autoRetry = true;
+
   // Check initial network state
   const networkState = await Network.getNetworkStateAsync();
-  wasOffline = !networkState.isConnected || !networkState.isInternetReachable;
+  wasOffline = !isOnline(networkState);
 
   // If we're online, try to sync any pending operations from previous session
   if (!wasOffline) {
@@ -225,34 +695,51 @@ export async function initSyncManager(): Promise<() => void> {
     }
   }
 
-  // Set up network state polling (expo-network doesn't have a real-time listener)
-  // Poll every 5 seconds for network changes
-  let lastConnected = !wasOffline;
-  const pollInterval = setInterval(async () => {
-    try {
-      const state = await Network.getNetworkStateAsync();
-      const isConnected = state.isConnected && state.isInternetReachable;
+  const subscription = Network.addNetworkStateListener((state) => {
+    const isConnected = isOnline(state);
+    if (isConnected === !wasOffline) return;
+    console.log(`Network state changed: ${isConnected ? 'online' : 'offline'}`);
+    handleNetworkChange(isConnected);
+  });
+  networkSubscription = () => subscription.remove();
 
-      if (isConnected !== lastConnected) {
-        console.log(`Network state changed: ${isConnected ? 'online' : 'offline'}`);
-        await handleNetworkChange(isConnected ?? false);
-        lastConnected = isConnected ?? false;
-      }
-    } catch (error) {
-      console.error('Error polling network state:', error);
-    }
-  }, 5000);
+  const appState = AppState.addEventListener('change', handleAppStateChange);
+  appStateSubscription = () => appState.remove();
+
+  // Share check-ins with other devices through the venue relay, which works without internet
+  startRelay().catch((error) => console.error('Error starting venue relay:', error));
 
   // Return cleanup function
   return () => {
-    clearInterval(pollInterval);
+    autoRetry = false;
+    cancelRetry();
+    stopRelay();
     if (networkSubscription) {
       networkSubscription();
       networkSubscription = null;
     }
+    if (appStateSubscription) {
+      appStateSubscription();
+      appStateSubscription = null;
+    }
   };
 }
 
+/**
+ * Sync from a background task the OS woke the app for. The app may have been killed, so interrupted operations are
+ * recovered first; no retries are scheduled because the OS suspends the app again when the task returns.
+ */
+export async function runBackgroundSync(): Promise<{
+  success: boolean;
+  synced: number;
+  failed: number;
+  conflicts: number;
+  total: number;
+}> {
+  await recoverOnce();
+  return syncAllPending();
+}
+
 /**
  * Get current sync status
  */
@@ -276,25 +763,103 @@ export async function forceSync(): Promise<{
   success: boolean;
   synced: number;
   failed: number;
+  conflicts: number;
   message: string;
 }> {
   const result = await syncAllPending();
 
   let message: string;
   if (result.total === 0) {
-    message = 'No pending check-ins to sync';
+    message = 'No pending changes to sync';
   } else if (result.failed === 0) {
-    message = `Successfully synced ${result.synced} check-in${result.synced === 1 ? '' : 's'}`;
+    message = `Successfully synced ${result.synced} change${result.synced === 1 ? '' : 's'}`;
   } else if (result.synced > 0) {
-    message = `Synced ${result.synced} check-in${result.synced === 1 ? '' : 's'}, ${result.failed} failed`;
+    message = `Synced ${result.synced} change${result.synced === 1 ? '' : 's'}, ${result.failed} failed`;
   } else {
-    message = `Failed to sync ${result.failed} check-in${result.failed === 1 ? '' : 's'}`;
+    message = `Failed to sync ${result.failed} change${result.failed === 1 ? '' : 's'}`;
+  }
+  if (result.conflicts > 0) {
+    message += ` • ${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} to review`;
   }
 
   return {
     success: result.success,
     synced: result.synced,
     failed: result.failed,
+    conflicts: result.conflicts,
     message,
   };
 }
+
+/**
+ * Give operations (all failed ones when no IDs are given) a fresh set of retries and sync straight away
+ */
+export async function retryOperations(queueIds?: string[]): Promise<{
+  success: boolean;
+  synced: number;
+  failed: number;
+  conflicts: number;
+  message: string;
+}> {
+  await resetAttempts(queueIds);
+  await emitSyncStatus();
+  return forceSync();
+}
+
+/**
+ * Drop queued operations without sending them. Refreshes the list so optimistic changes are replaced by server state.
+ */
+export async function discardOperations(queueIds: string[]): Promise<number> {
+  const removed = await removeOperations(queueIds);
+  await emitSyncStatus();
+  if (removed > 0) {
+    emitRefreshAttendees({ silent: true });
+  }
+  return removed;
+}
+
+/**
+ * Apply operations now even if someone changed the same attendees since: check-ins are re-sent as new changes and
+ * edits are saved over the current server version. Ignores the retry limit and the event's queue order.
+ */
+export async function forceApplyOperations(queueIds: string[]): Promise<{
+  success: boolean;
+  synced: number;
+  failed: number;
+  conflicts: number;
+}> {
+  if (isSyncing) {
+    console.log('Sync already in progress, skipping force apply');
+    return { success: false, synced: 0, failed: 0, conflicts: 0 };
+  }
+
+  const networkState = await Network.getNetworkStateAsync();
+  if (!networkState.isConnected || !networkState.isInternetReachable) {
+    console.log('No network connectivity, skipping force apply');
+    return { success: false, synced: 0, failed: 0, conflicts: 0 };
+  }
+
+  const selected = new Set(queueIds);
+  const operations = (await getQueuedOperations()).filter((operation) => !operation.synced && selected.has(operation.id));
+  if (operations.length === 0) {
+    return { success: true, synced: 0, failed: 0, conflicts: 0 };
+  }
+
+  isSyncing = true;
+  await emitSyncStatus();
+
+  let result: { synced: number; failed: number; conflicts: number };
+  try {
+    result = await replayOperations(operations, true);
+  } finally {
+    isSyncing = false;
+  }
+
+  console.log(`Force apply complete: ${result.synced} applied, ${result.failed} failed`);
+  if (result.synced > 0) {
+    emitRefreshAttendees({ silent: true });
+  }
+  await emitSyncStatus();
+
+  return { success: result.failed === 0, ...result };
+}
@@ -0,0 +1,179 @@
+-- Check-in audit trail
+-- Append-only log of every check-in state change so undo/bulk/reset actions keep their history.
+
+-- 1) Log table
+create table if not exists public.checkin_events (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  attendee_id uuid references public.attendees(id) on delete set null,
+  actor_id uuid,
+  actor_email text,
+  action text not null check (action in ('check_in','undo','bulk_check_in','bulk_undo','reset')),
+  source text not null check (source in ('swipe','tap','group','table','offline_sync','admin')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_checkin_events_attendee on public.checkin_events(attendee_id, created_at desc);
+create index if not exists idx_checkin_events_event on public.checkin_events(event_id, created_at desc);
+
+-- 2) RLS: readable by anyone with access to the event; no insert/update/delete policies,
+--    rows are only written by the SECURITY DEFINER RPCs below.
+alter table public.checkin_events enable row level security;
+
+create policy "checkin_events_select_by_access"
+  on public.checkin_events for select
+  using (event_id in (select event_id from public.my_events));
+
+-- 3) Toggle a single attendee and log it
+drop function if exists public.toggle_checkin(uuid, boolean);
+
+create or replace function public.toggle_checkin(
+  p_attendee_id uuid,
+  p_checked boolean,
+  p_source text default 'tap'
+)
+returns void
+language plpgsql security definer
+as $$
+declare
+  v_event_id uuid;
+begin
+  update public.attendees
+  set checked_in = p_checked,
+      checked_in_at = case when p_checked then now() else null end,
+      checked_in_by = case when p_checked then auth.uid() else null end,
+      updated_at = now()
+  where id = p_attendee_id
+    and event_id in (select event_id from public.my_events)
+  returning event_id into v_event_id;
+
+  if v_event_id is null then
+    return;
+  end if;
+
+  insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source)
+  values (
+    v_event_id,
+    p_attendee_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case when p_checked then 'check_in' else 'undo' end,
+    p_source
+  );
+end;
+$$;
+
+-- 4) Bulk check-in by table
+drop function if exists public.bulk_checkin_by_table(uuid, text, boolean);
+
+create or replace function public.bulk_checkin_by_table(
+  p_event_id uuid,
+  p_table text,
+  p_checked boolean,
+  p_source text default 'table'
+)
+returns integer
+language plpgsql security definer
+as $$
+declare
+  v_count integer;
+begin
+  with updated as (
+    update public.attendees
+    set checked_in = p_checked,
+        checked_in_at = case when p_checked then now() else null end,
+        checked_in_by = case when p_checked then auth.uid() else null end,
+        updated_at = now()
+    where event_id = p_event_id
+      and table_number = p_table
+      and event_id in (select event_id from public.my_events)
+    returning id
+  )
+  insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source)
+  select p_event_id,
+         updated.id,
+         auth.uid(),
+         auth.jwt() ->> 'email',
+         case when p_checked then 'bulk_check_in' else 'bulk_undo' end,
+         p_source
+  from updated;
+
+  select count(*) into v_count from public.attendees
+  where event_id = p_event_id and table_number = p_table and checked_in = p_checked;
+
+  return v_count;
+end;
+$$;
+
+-- 5) Bulk check-in by group
+drop function if exists public.bulk_checkin_by_group(uuid, text, boolean);
+
+create or replace function public.bulk_checkin_by_group(
+  p_event_id uuid,
+  p_group text,
+  p_checked boolean,
+  p_source text default 'group'
+)
+returns integer
+language plpgsql security definer
+as $$
+declare
+  v_count integer;
+begin
+  with updated as (
+    update public.attendees
+    set checked_in = p_checked,
+        checked_in_at = case when p_checked then now() else null end,
+        checked_in_by = case when p_checked then auth.uid() else null end,
+        updated_at = now()
+    where event_id = p_event_id
+      and group_name = p_group
+      and event_id in (select event_id from public.my_events)
+    returning id
+  )
+  insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source)
+  select p_event_id,
+         updated.id,
+         auth.uid(),
+         auth.jwt() ->> 'email',
+         case when p_checked then 'bulk_check_in' else 'bulk_undo' end,
+         p_source
+  from updated;
+
+  select count(*) into v_count from public.attendees
+  where event_id = p_event_id and group_name = p_group and checked_in = p_checked;
+
+  return v_count;
+end;
+$$;
+
+-- 6) Reset all check-ins for an event; only attendees that were checked in get a log row
+drop function if exists public.reset_attendees(uuid);
+
+create or replace function public.reset_attendees(
+  p_event_id uuid,
+  p_source text default 'admin'
+)
+returns void
+language plpgsql security definer
+as $$
+begin
+  with updated as (
+    update public.attendees
+    set checked_in = false,
+        checked_in_at = null,
+        checked_in_by = null,
+        updated_at = now()
+    where event_id = p_event_id
+      and checked_in = true
+      and event_id in (select event_id from public.my_events)
+    returning id
+  )
+  insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source)
+  select p_event_id, updated.id, auth.uid(), auth.jwt() ->> 'email', 'reset', p_source
+  from updated;
+end;
+$$;
+
+comment on table public.checkin_events is
+  'Append-only audit log of check-in changes. Written by toggle_checkin, bulk_checkin_by_*, and reset_attendees.';
@@ -0,0 +1,86 @@
+-- Merge/upsert roster imports
+-- Adds optional match keys (external ID, email) and soft-archiving to attendees, plus an RPC that applies a
+-- client-reviewed merge diff without touching check-in state.
+
+-- 1) Match key columns and archive marker
+alter table public.attendees
+  add column if not exists external_id text,
+  add column if not exists email text,
+  add column if not exists archived_at timestamptz;
+
+create unique index if not exists idx_attendees_event_external_id
+  on public.attendees(event_id, external_id)
+  where external_id is not null;
+
+create index if not exists idx_attendees_event_email
+  on public.attendees(event_id, lower(email))
+  where email is not null;
+
+-- 2) Apply a merge diff
+-- p_rows: jsonb array of {id?, full_name, group_name, table_number, ticket_type, notes, external_id, email}.
+--   Rows with an id update that attendee's details; rows without an id are inserted.
+-- p_archive_ids: attendees missing from the source that the user chose to archive.
+-- checked_in / checked_in_at / checked_in_by are never written here.
+create or replace function public.merge_attendees(
+  p_event_id uuid,
+  p_rows jsonb,
+  p_archive_ids uuid[] default '{}'
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_archived integer := 0;
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can import attendees';
+  end if;
+
+  update public.attendees a
+  set full_name = r.full_name,
+      group_name = nullif(r.group_name, ''),
+      table_number = nullif(r.table_number, ''),
+      ticket_type = nullif(r.ticket_type, ''),
+      notes = nullif(r.notes, ''),
+      external_id = coalesce(nullif(r.external_id, ''), a.external_id),
+      email = coalesce(nullif(r.email, ''), a.email),
+      archived_at = null,
+      updated_at = now()
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is not null
+    and a.id = r.id
+    and a.event_id = p_event_id;
+  get diagnostics v_updated = row_count;
+
+  insert into public.attendees (event_id, full_name, group_name, table_number, ticket_type, notes, external_id, email)
+  select p_event_id,
+         r.full_name,
+         nullif(r.group_name, ''),
+         nullif(r.table_number, ''),
+         nullif(r.ticket_type, ''),
+         nullif(r.notes, ''),
+         nullif(r.external_id, ''),
+         nullif(r.email, '')
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is null;
+  get diagnostics v_added = row_count;
+
+  update public.attendees
+  set archived_at = now(),
+      updated_at = now()
+  where event_id = p_event_id
+    and id = any(p_archive_ids)
+    and archived_at is null;
+  get diagnostics v_archived = row_count;
+
+  return jsonb_build_object('added', v_added, 'updated', v_updated, 'archived', v_archived);
+end;
+$$;
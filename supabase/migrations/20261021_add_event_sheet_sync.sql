@@ -0,0 +1,66 @@
+-- Scheduled Google Sheet sync
+-- Stores a linked sheet URL and sync interval on the event, plus the outcome of the latest sync so every
+-- manager device shows the same "last synced" status. The sync itself runs client-side through merge_attendees.
+
+-- 1) Sync configuration and status
+alter table public.events
+  add column if not exists sheet_sync_url text,
+  add column if not exists sheet_sync_interval_minutes integer not null default 0,
+  add column if not exists sheet_sync_match_key text not null default 'name',
+  add column if not exists sheet_last_synced_at timestamptz,
+  add column if not exists sheet_last_sync_changes integer;
+
+alter table public.events
+  drop constraint if exists events_sheet_sync_match_key_check;
+alter table public.events
+  add constraint events_sheet_sync_match_key_check
+  check (sheet_sync_match_key in ('name', 'externalId', 'email'));
+
+-- 2) Link / unlink a sheet (null URL disconnects and clears the status)
+create or replace function public.set_event_sheet_sync(
+  p_event_id uuid,
+  p_url text,
+  p_interval_minutes integer,
+  p_match_key text default 'name'
+)
+returns void
+language plpgsql security definer
+as $$
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can configure sheet sync';
+  end if;
+
+  update public.events
+  set sheet_sync_url = nullif(trim(p_url), ''),
+      sheet_sync_interval_minutes = greatest(coalesce(p_interval_minutes, 0), 0),
+      sheet_sync_match_key = coalesce(p_match_key, 'name'),
+      sheet_last_synced_at = case when nullif(trim(p_url), '') is null then null else sheet_last_synced_at end,
+      sheet_last_sync_changes = case when nullif(trim(p_url), '') is null then null else sheet_last_sync_changes end
+  where id = p_event_id;
+end;
+$$;
+
+-- 3) Record the outcome of a sync run
+create or replace function public.record_event_sheet_sync(
+  p_event_id uuid,
+  p_changes integer
+)
+returns timestamptz
+language plpgsql security definer
+as $$
+declare
+  v_synced_at timestamptz := now();
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can sync sheets';
+  end if;
+
+  update public.events
+  set sheet_last_synced_at = v_synced_at,
+      sheet_last_sync_changes = p_changes
+  where id = p_event_id;
+
+  return v_synced_at;
+end;
+$$;
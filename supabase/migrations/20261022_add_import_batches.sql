@@ -0,0 +1,215 @@
+-- Import batches
+-- Every roster import that writes attendees is recorded as a batch (source, counts, errors, who ran it), and the
+-- attendees it inserted are tagged with the batch so a wrong import can be rolled back in one step.
+
+-- 1) Batch table
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  source text not null check (source in ('csv','excel','google_sheet','sheet_sync')),
+  source_name text,
+  added_count integer not null default 0,
+  updated_count integer not null default 0,
+  skipped_count integer not null default 0,
+  errors jsonb not null default '[]'::jsonb,
+  created_by uuid,
+  created_by_email text,
+  created_at timestamptz not null default now(),
+  rolled_back_at timestamptz,
+  rolled_back_by uuid
+);
+
+create index if not exists idx_import_batches_event on public.import_batches(event_id, created_at desc);
+
+alter table public.attendees
+  add column if not exists import_batch_id uuid references public.import_batches(id) on delete set null;
+
+create index if not exists idx_attendees_import_batch on public.attendees(import_batch_id)
+  where import_batch_id is not null;
+
+-- 2) RLS: readable by anyone with access to the event; rows are only written by the RPCs below.
+alter table public.import_batches enable row level security;
+
+create policy "import_batches_select_by_access"
+  on public.import_batches for select
+  using (event_id in (select event_id from public.my_events));
+
+-- 3) merge_attendees now records a batch and tags inserted rows
+-- p_batch: {source, source_name, skipped_count, errors}; null skips batch tracking.
+drop function if exists public.merge_attendees(uuid, jsonb, uuid[]);
+
+create or replace function public.merge_attendees(
+  p_event_id uuid,
+  p_rows jsonb,
+  p_archive_ids uuid[] default '{}',
+  p_batch jsonb default null
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_batch_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_archived integer := 0;
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can import attendees';
+  end if;
+
+  if p_batch is not null then
+    insert into public.import_batches (event_id, source, source_name, skipped_count, errors, created_by, created_by_email)
+    values (
+      p_event_id,
+      p_batch ->> 'source',
+      nullif(p_batch ->> 'source_name', ''),
+      coalesce((p_batch ->> 'skipped_count')::integer, 0),
+      coalesce(p_batch -> 'errors', '[]'::jsonb),
+      auth.uid(),
+      auth.jwt() ->> 'email'
+    )
+    returning id into v_batch_id;
+  end if;
+
+  update public.attendees a
+  set full_name = r.full_name,
+      group_name = nullif(r.group_name, ''),
+      table_number = nullif(r.table_number, ''),
+      ticket_type = nullif(r.ticket_type, ''),
+      notes = nullif(r.notes, ''),
+      external_id = coalesce(nullif(r.external_id, ''), a.external_id),
+      email = coalesce(nullif(r.email, ''), a.email),
+      archived_at = null,
+      updated_at = now()
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is not null
+    and a.id = r.id
+    and a.event_id = p_event_id;
+  get diagnostics v_updated = row_count;
+
+  insert into public.attendees (
+    event_id, full_name, group_name, table_number, ticket_type, notes, external_id, email, import_batch_id
+  )
+  select p_event_id,
+         r.full_name,
+         nullif(r.group_name, ''),
+         nullif(r.table_number, ''),
+         nullif(r.ticket_type, ''),
+         nullif(r.notes, ''),
+         nullif(r.external_id, ''),
+         nullif(r.email, ''),
+         v_batch_id
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is null;
+  get diagnostics v_added = row_count;
+
+  update public.attendees
+  set archived_at = now(),
+      updated_at = now()
+  where event_id = p_event_id
+    and id = any(p_archive_ids)
+    and archived_at is null;
+  get diagnostics v_archived = row_count;
+
+  if v_batch_id is not null then
+    update public.import_batches
+    set added_count = v_added,
+        updated_count = v_updated
+    where id = v_batch_id;
+  end if;
+
+  return jsonb_build_object(
+    'added', v_added,
+    'updated', v_updated,
+    'archived', v_archived,
+    'batch_id', v_batch_id
+  );
+end;
+$$;
+
+-- 4) Batch history with how many of each batch's attendees remain / are checked in
+create or replace function public.get_import_batches(p_event_id uuid)
+returns table (
+  id uuid,
+  source text,
+  source_name text,
+  added_count integer,
+  updated_count integer,
+  skipped_count integer,
+  errors jsonb,
+  created_by uuid,
+  created_by_email text,
+  created_at timestamptz,
+  rolled_back_at timestamptz,
+  remaining_count bigint,
+  checked_in_count bigint
+)
+language sql stable
+as $$
+  select b.id, b.source, b.source_name, b.added_count, b.updated_count, b.skipped_count, b.errors,
+         b.created_by, b.created_by_email, b.created_at, b.rolled_back_at,
+         count(a.id),
+         count(a.id) filter (where a.checked_in)
+  from public.import_batches b
+  left join public.attendees a on a.import_batch_id = b.id
+  where b.event_id = p_event_id
+  group by b.id
+  order by b.created_at desc;
+$$;
+
+-- 5) Roll back a batch: delete the attendees it inserted. Refuses when any of them are checked in
+-- unless p_include_checked_in is set. Updates the batch made to existing attendees are not reverted.
+create or replace function public.rollback_import_batch(
+  p_batch_id uuid,
+  p_include_checked_in boolean default false
+)
+returns integer
+language plpgsql security definer
+as $$
+declare
+  v_event_id uuid;
+  v_checked_in integer;
+  v_removed integer;
+begin
+  select event_id into v_event_id
+  from public.import_batches
+  where id = p_batch_id and rolled_back_at is null;
+
+  if v_event_id is null then
+    raise exception 'Import batch not found or already rolled back';
+  end if;
+
+  if not public.is_event_admin_or_manager(v_event_id) then
+    raise exception 'Only event managers can roll back imports';
+  end if;
+
+  select count(*) into v_checked_in
+  from public.attendees
+  where import_batch_id = p_batch_id and checked_in = true;
+
+  if v_checked_in > 0 and not p_include_checked_in then
+    raise exception '% attendee(s) from this import are already checked in', v_checked_in;
+  end if;
+
+  delete from public.attendees
+  where import_batch_id = p_batch_id
+    and event_id = v_event_id;
+  get diagnostics v_removed = row_count;
+
+  update public.import_batches
+  set rolled_back_at = now(),
+      rolled_back_by = auth.uid()
+  where id = p_batch_id;
+
+  return v_removed;
+end;
+$$;
+
+comment on table public.import_batches is
+  'One row per roster import. Written by merge_attendees; rolled back by rollback_import_batch.';
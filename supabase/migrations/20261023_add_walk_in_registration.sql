@@ -0,0 +1,86 @@
+-- Walk-in registration
+-- Lets checkers add unregistered guests from the check-in screen and check them in in one step. Walk-ins are
+-- flagged so reports can separate them, and carry a client-generated reference so offline registrations that are
+-- retried on sync never create duplicates.
+
+-- 1) Walk-in flag and idempotency key
+alter table public.attendees
+  add column if not exists is_walk_in boolean not null default false,
+  add column if not exists client_ref text;
+
+create unique index if not exists idx_attendees_event_client_ref
+  on public.attendees(event_id, client_ref)
+  where client_ref is not null;
+
+-- 2) Allow walk-in registrations in the check-in audit trail
+alter table public.checkin_events
+  drop constraint if exists checkin_events_source_check;
+alter table public.checkin_events
+  add constraint checkin_events_source_check
+  check (source in ('swipe','tap','group','table','offline_sync','admin','walk_in'));
+
+-- 3) Register (and optionally check in) a walk-in
+-- p_client_ref: generated on the device when the walk-in is created; a retry with the same ref returns the
+--   attendee created the first time instead of inserting another.
+-- p_checked_in_at: when the guest was checked in on the device (offline registrations sync later).
+create or replace function public.register_walk_in(
+  p_event_id uuid,
+  p_client_ref text,
+  p_full_name text,
+  p_group_name text default null,
+  p_table_number text default null,
+  p_ticket_type text default null,
+  p_notes text default null,
+  p_checked_in boolean default true,
+  p_checked_in_at timestamptz default null
+)
+returns uuid
+language plpgsql security definer
+as $$
+declare
+  v_attendee_id uuid;
+  v_checked_in_at timestamptz := coalesce(p_checked_in_at, now());
+begin
+  if p_event_id not in (select event_id from public.my_events) then
+    raise exception 'You do not have access to this event';
+  end if;
+
+  if nullif(trim(p_full_name), '') is null then
+    raise exception 'Walk-in name is required';
+  end if;
+
+  select id into v_attendee_id
+  from public.attendees
+  where event_id = p_event_id and client_ref = p_client_ref;
+
+  if v_attendee_id is not null then
+    return v_attendee_id;
+  end if;
+
+  insert into public.attendees (
+    event_id, full_name, group_name, table_number, ticket_type, notes,
+    is_walk_in, client_ref, checked_in, checked_in_at, checked_in_by
+  )
+  values (
+    p_event_id,
+    trim(p_full_name),
+    nullif(trim(p_group_name), ''),
+    nullif(trim(p_table_number), ''),
+    nullif(trim(p_ticket_type), ''),
+    nullif(trim(p_notes), ''),
+    true,
+    p_client_ref,
+    p_checked_in,
+    case when p_checked_in then v_checked_in_at else null end,
+    case when p_checked_in then auth.uid() else null end
+  )
+  returning id into v_attendee_id;
+
+  if p_checked_in then
+    insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source, created_at)
+    values (p_event_id, v_attendee_id, auth.uid(), auth.jwt() ->> 'email', 'check_in', 'walk_in', v_checked_in_at);
+  end if;
+
+  return v_attendee_id;
+end;
+$$;
@@ -0,0 +1,91 @@
+-- Attendee edit and delete
+-- Manager-only RPCs to correct an attendee's details or remove a duplicate. Both use optimistic concurrency: the
+-- caller passes the updated_at it last saw, and the write only happens if the row has not changed since. On a
+-- conflict the current row is returned so the client can show what changed.
+
+-- 1) Update details (check-in state is not editable here)
+-- Returns {status: 'updated' | 'conflict' | 'not_found', attendee: row or null}
+create or replace function public.update_attendee(
+  p_attendee_id uuid,
+  p_expected_updated_at timestamptz,
+  p_full_name text,
+  p_group_name text default null,
+  p_table_number text default null,
+  p_ticket_type text default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_current public.attendees;
+  v_updated public.attendees;
+begin
+  select * into v_current from public.attendees where id = p_attendee_id;
+
+  if v_current.id is null then
+    return jsonb_build_object('status', 'not_found', 'attendee', null);
+  end if;
+
+  if not public.is_event_admin_or_manager(v_current.event_id) then
+    raise exception 'Only event managers can edit attendees';
+  end if;
+
+  if nullif(trim(p_full_name), '') is null then
+    raise exception 'Attendee name is required';
+  end if;
+
+  update public.attendees
+  set full_name = trim(p_full_name),
+      group_name = nullif(trim(p_group_name), ''),
+      table_number = nullif(trim(p_table_number), ''),
+      ticket_type = nullif(trim(p_ticket_type), ''),
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_attendee_id
+    and updated_at is not distinct from p_expected_updated_at
+  returning * into v_updated;
+
+  if v_updated.id is null then
+    return jsonb_build_object('status', 'conflict', 'attendee', to_jsonb(v_current));
+  end if;
+
+  return jsonb_build_object('status', 'updated', 'attendee', to_jsonb(v_updated));
+end;
+$$;
+
+-- 2) Delete an attendee
+-- Returns {status: 'deleted' | 'conflict' | 'not_found', attendee: current row on conflict}
+create or replace function public.delete_attendee(
+  p_attendee_id uuid,
+  p_expected_updated_at timestamptz
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_current public.attendees;
+  v_deleted uuid;
+begin
+  select * into v_current from public.attendees where id = p_attendee_id;
+
+  if v_current.id is null then
+    return jsonb_build_object('status', 'not_found', 'attendee', null);
+  end if;
+
+  if not public.is_event_admin_or_manager(v_current.event_id) then
+    raise exception 'Only event managers can delete attendees';
+  end if;
+
+  delete from public.attendees
+  where id = p_attendee_id
+    and updated_at is not distinct from p_expected_updated_at
+  returning id into v_deleted;
+
+  if v_deleted is null then
+    return jsonb_build_object('status', 'conflict', 'attendee', to_jsonb(v_current));
+  end if;
+
+  return jsonb_build_object('status', 'deleted', 'attendee', null);
+end;
+$$;
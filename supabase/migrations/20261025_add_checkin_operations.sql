@@ -0,0 +1,163 @@
+-- Idempotent offline check-in operations
+-- Offline devices replay check-ins with a client-generated operation ID and the time the action happened. The server
+-- applies each operation once and resolves concurrent changes last-writer-wins on that event time (not arrival time),
+-- so a stale offline undo can no longer overwrite a newer check-in from another device. Operations that lose are
+-- reported back as conflicts.
+
+-- 1) When the attendee's check-in state last changed (event time)
+alter table public.attendees
+  add column if not exists checked_in_changed_at timestamptz;
+
+update public.attendees
+set checked_in_changed_at = coalesce(checked_in_at, updated_at, now())
+where checked_in_changed_at is null;
+
+-- Keep it current for every writer (toggle, bulk, reset, walk-ins) without changing each RPC. Writers that know the
+-- real event time (apply_checkin_operations) set it explicitly.
+create or replace function public.touch_checked_in_changed_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.checked_in_changed_at := coalesce(new.checked_in_changed_at, new.checked_in_at, now());
+  elsif new.checked_in is distinct from old.checked_in
+    and new.checked_in_changed_at is not distinct from old.checked_in_changed_at then
+    new.checked_in_changed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_attendees_checked_in_changed_at on public.attendees;
+create trigger trg_attendees_checked_in_changed_at
+  before insert or update on public.attendees
+  for each row execute function public.touch_checked_in_changed_at();
+
+-- 2) Applied operations, keyed by the client's operation ID. Replays return the stored result.
+create table if not exists public.checkin_operations (
+  op_id uuid primary key,
+  event_id uuid references public.events(id) on delete cascade,
+  attendee_id uuid references public.attendees(id) on delete set null,
+  checked boolean not null,
+  occurred_at timestamptz not null,
+  actor_id uuid,
+  result jsonb not null,
+  applied_at timestamptz not null default now()
+);
+
+create index if not exists idx_checkin_operations_event on public.checkin_operations(event_id, applied_at desc);
+
+alter table public.checkin_operations enable row level security;
+
+create policy "checkin_operations_select_by_access"
+  on public.checkin_operations for select
+  using (event_id in (select event_id from public.my_events));
+
+-- 3) Apply a batch of operations
+-- p_operations: [{op_id, attendee_id, checked, occurred_at}]
+-- Returns one result per operation:
+--   {op_id, status, attendee_id, attendee_name, server_checked_in, server_changed_at, server_changed_by}
+--   status: 'applied'   - the operation is the latest change and was written
+--           'unchanged' - the attendee was already in that state
+--           'conflict'  - a newer change (by event time) exists with a different state; server state kept
+--           'not_found' - the attendee no longer exists or is not accessible
+create or replace function public.apply_checkin_operations(p_operations jsonb)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_op jsonb;
+  v_op_id uuid;
+  v_checked boolean;
+  v_occurred_at timestamptz;
+  v_attendee public.attendees;
+  v_status text;
+  v_result jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_changed_by text;
+begin
+  for v_op in select * from jsonb_array_elements(coalesce(p_operations, '[]'::jsonb))
+  loop
+    v_op_id := (v_op ->> 'op_id')::uuid;
+    v_checked := (v_op ->> 'checked')::boolean;
+    -- Never trust a device clock that is ahead of the server
+    v_occurred_at := least(coalesce((v_op ->> 'occurred_at')::timestamptz, now()), now());
+
+    select result into v_result from public.checkin_operations where op_id = v_op_id;
+    if v_result is not null then
+      v_results := v_results || jsonb_build_array(v_result);
+      continue;
+    end if;
+
+    select * into v_attendee
+    from public.attendees
+    where id = (v_op ->> 'attendee_id')::uuid
+      and event_id in (select event_id from public.my_events)
+    for update;
+
+    if v_attendee.id is null then
+      v_result := jsonb_build_object(
+        'op_id', v_op_id, 'status', 'not_found', 'attendee_id', v_op ->> 'attendee_id',
+        'attendee_name', null, 'server_checked_in', null, 'server_changed_at', null, 'server_changed_by', null
+      );
+      v_results := v_results || jsonb_build_array(v_result);
+      continue;
+    end if;
+
+    if v_attendee.checked_in = v_checked then
+      v_status := 'unchanged';
+    elsif v_attendee.checked_in_changed_at is not null and v_attendee.checked_in_changed_at > v_occurred_at then
+      v_status := 'conflict';
+    else
+      v_status := 'applied';
+
+      update public.attendees
+      set checked_in = v_checked,
+          checked_in_at = case when v_checked then v_occurred_at else null end,
+          checked_in_by = case when v_checked then auth.uid() else null end,
+          checked_in_changed_at = v_occurred_at,
+          updated_at = now()
+      where id = v_attendee.id
+      returning * into v_attendee;
+
+      insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source, created_at)
+      values (
+        v_attendee.event_id,
+        v_attendee.id,
+        auth.uid(),
+        auth.jwt() ->> 'email',
+        case when v_checked then 'check_in' else 'undo' end,
+        'offline_sync',
+        v_occurred_at
+      );
+    end if;
+
+    select actor_email into v_changed_by
+    from public.checkin_events
+    where attendee_id = v_attendee.id
+    order by created_at desc
+    limit 1;
+
+    v_result := jsonb_build_object(
+      'op_id', v_op_id,
+      'status', v_status,
+      'attendee_id', v_attendee.id,
+      'attendee_name', v_attendee.full_name,
+      'server_checked_in', v_attendee.checked_in,
+      'server_changed_at', v_attendee.checked_in_changed_at,
+      'server_changed_by', v_changed_by
+    );
+
+    insert into public.checkin_operations (op_id, event_id, attendee_id, checked, occurred_at, actor_id, result)
+    values (v_op_id, v_attendee.event_id, v_attendee.id, v_checked, v_occurred_at, auth.uid(), v_result);
+
+    v_results := v_results || jsonb_build_array(v_result);
+  end loop;
+
+  return v_results;
+end;
+$$;
+
+comment on table public.checkin_operations is
+  'Offline check-in operations applied by apply_checkin_operations, keyed by client operation ID for idempotent replays.';
@@ -0,0 +1,157 @@
+-- Offline operation support
+-- The offline queue now carries group/table check-ins and attendee notes as single operations. Bulk check-ins are
+-- applied through apply_checkin_operations (one operation per attendee, so they get the same idempotency and
+-- last-writer-wins handling as single check-ins) and keep their own audit source. Notes get a lightweight RPC that
+-- checkers can use, with the same optimistic concurrency as update_attendee.
+
+-- 1) apply_checkin_operations: optional per-operation source ('offline_sync' when omitted); results also report the
+--    attendee's updated_at before and after the operation
+create or replace function public.apply_checkin_operations(p_operations jsonb)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_op jsonb;
+  v_op_id uuid;
+  v_checked boolean;
+  v_occurred_at timestamptz;
+  v_source text;
+  v_attendee public.attendees;
+  v_status text;
+  v_result jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_changed_by text;
+  v_previous_updated_at timestamptz;
+begin
+  for v_op in select * from jsonb_array_elements(coalesce(p_operations, '[]'::jsonb))
+  loop
+    v_op_id := (v_op ->> 'op_id')::uuid;
+    v_checked := (v_op ->> 'checked')::boolean;
+    -- Never trust a device clock that is ahead of the server
+    v_occurred_at := least(coalesce((v_op ->> 'occurred_at')::timestamptz, now()), now());
+    v_source := coalesce(v_op ->> 'source', 'offline_sync');
+
+    if v_source not in ('swipe','tap','group','table','offline_sync') then
+      raise exception 'Unsupported check-in source: %', v_source;
+    end if;
+
+    select result into v_result from public.checkin_operations where op_id = v_op_id;
+    if v_result is not null then
+      v_results := v_results || jsonb_build_array(v_result);
+      continue;
+    end if;
+
+    select * into v_attendee
+    from public.attendees
+    where id = (v_op ->> 'attendee_id')::uuid
+      and event_id in (select event_id from public.my_events)
+    for update;
+
+    if v_attendee.id is null then
+      v_result := jsonb_build_object(
+        'op_id', v_op_id, 'status', 'not_found', 'attendee_id', v_op ->> 'attendee_id',
+        'attendee_name', null, 'server_checked_in', null, 'server_changed_at', null, 'server_changed_by', null
+      );
+      v_results := v_results || jsonb_build_array(v_result);
+      continue;
+    end if;
+
+    v_previous_updated_at := v_attendee.updated_at;
+
+    if v_attendee.checked_in = v_checked then
+      v_status := 'unchanged';
+    elsif v_attendee.checked_in_changed_at is not null and v_attendee.checked_in_changed_at > v_occurred_at then
+      v_status := 'conflict';
+    else
+      v_status := 'applied';
+
+      update public.attendees
+      set checked_in = v_checked,
+          checked_in_at = case when v_checked then v_occurred_at else null end,
+          checked_in_by = case when v_checked then auth.uid() else null end,
+          checked_in_changed_at = v_occurred_at,
+          updated_at = now()
+      where id = v_attendee.id
+      returning * into v_attendee;
+
+      insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source, created_at)
+      values (
+        v_attendee.event_id,
+        v_attendee.id,
+        auth.uid(),
+        auth.jwt() ->> 'email',
+        case
+          when v_source in ('group','table') then case when v_checked then 'bulk_check_in' else 'bulk_undo' end
+          else case when v_checked then 'check_in' else 'undo' end
+        end,
+        v_source,
+        v_occurred_at
+      );
+    end if;
+
+    select actor_email into v_changed_by
+    from public.checkin_events
+    where attendee_id = v_attendee.id
+    order by created_at desc
+    limit 1;
+
+    v_result := jsonb_build_object(
+      'op_id', v_op_id,
+      'status', v_status,
+      'attendee_id', v_attendee.id,
+      'attendee_name', v_attendee.full_name,
+      'server_checked_in', v_attendee.checked_in,
+      'server_changed_at', v_attendee.checked_in_changed_at,
+      'server_changed_by', v_changed_by,
+      -- Lets the client rebase edits it queued against the version it saw before its own check-in
+      'previous_updated_at', v_previous_updated_at,
+      'server_updated_at', v_attendee.updated_at
+    );
+
+    insert into public.checkin_operations (op_id, event_id, attendee_id, checked, occurred_at, actor_id, result)
+    values (v_op_id, v_attendee.event_id, v_attendee.id, v_checked, v_occurred_at, auth.uid(), v_result);
+
+    v_results := v_results || jsonb_build_array(v_result);
+  end loop;
+
+  return v_results;
+end;
+$$;
+
+-- 2) Update an attendee's notes (any staff with access to the event)
+-- Returns {status: 'updated' | 'conflict' | 'not_found', attendee: row or null}
+create or replace function public.set_attendee_notes(
+  p_attendee_id uuid,
+  p_expected_updated_at timestamptz,
+  p_notes text
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_current public.attendees;
+  v_updated public.attendees;
+begin
+  select * into v_current
+  from public.attendees
+  where id = p_attendee_id
+    and event_id in (select event_id from public.my_events);
+
+  if v_current.id is null then
+    return jsonb_build_object('status', 'not_found', 'attendee', null);
+  end if;
+
+  update public.attendees
+  set notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_attendee_id
+    and updated_at is not distinct from p_expected_updated_at
+  returning * into v_updated;
+
+  if v_updated.id is null then
+    return jsonb_build_object('status', 'conflict', 'attendee', to_jsonb(v_current));
+  end if;
+
+  return jsonb_build_object('status', 'updated', 'attendee', to_jsonb(v_updated));
+end;
+$$;
@@ -0,0 +1,119 @@
+-- Incremental attendee sync
+-- Devices keep a per-event watermark (the server time of their last sync) and fetch only attendees changed since,
+-- instead of re-downloading the whole roster on every refresh. Hard deletes leave a tombstone so devices can drop
+-- rows that no longer exist; archived attendees come back as changed rows with archived_at set.
+
+-- 1) Keep updated_at current for every writer (older RPCs such as reset_attendees don't all set it)
+create or replace function public.touch_attendee_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.updated_at := coalesce(new.updated_at, now());
+  elsif new.updated_at is not distinct from old.updated_at then
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_attendees_touch_updated_at on public.attendees;
+create trigger trg_attendees_touch_updated_at
+  before insert or update on public.attendees
+  for each row execute function public.touch_attendee_updated_at();
+
+create index if not exists idx_attendees_event_updated_at on public.attendees(event_id, updated_at);
+
+-- 2) Tombstones for deleted attendees (no foreign keys: the attendee is gone, and deleting an event cascades here)
+create table if not exists public.attendee_tombstones (
+  attendee_id uuid primary key,
+  event_id uuid not null,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists idx_attendee_tombstones_event on public.attendee_tombstones(event_id, deleted_at);
+
+-- Only read through get_attendee_changes
+alter table public.attendee_tombstones enable row level security;
+
+create or replace function public.record_attendee_tombstone()
+returns trigger
+language plpgsql security definer
+as $$
+begin
+  insert into public.attendee_tombstones (attendee_id, event_id, deleted_at)
+  values (old.id, old.event_id, now())
+  on conflict (attendee_id) do update set deleted_at = excluded.deleted_at;
+
+  -- Tombstones are only needed until every device has synced past them
+  delete from public.attendee_tombstones
+  where event_id = old.event_id
+    and deleted_at < now() - interval '30 days';
+
+  return old;
+end;
+$$;
+
+drop trigger if exists trg_attendees_tombstone on public.attendees;
+create trigger trg_attendees_tombstone
+  after delete on public.attendees
+  for each row execute function public.record_attendee_tombstone();
+
+-- 3) Changes since a watermark
+-- p_since: server_time from the caller's previous call, or null for a full snapshot
+-- Returns {server_time, reset, attendees: [rows], deleted_ids: [uuid]}
+--   reset = true: attendees is the full active roster and replaces the device's copy (no watermark, or one older
+--                 than tombstones are kept)
+--   reset = false: attendees are rows changed since p_since, including archived ones, which the device removes
+-- Rows changed shortly before p_since are sent again so a write whose transaction committed after the previous call
+-- (but started before it) is not missed; applying a row twice is harmless.
+create or replace function public.get_attendee_changes(
+  p_event_id uuid,
+  p_since timestamptz default null
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_server_time timestamptz := now();
+  v_since timestamptz;
+begin
+  if p_event_id not in (select event_id from public.my_events) then
+    raise exception 'Not allowed to read attendees for this event';
+  end if;
+
+  if p_since is null or p_since < v_server_time - interval '30 days' then
+    return jsonb_build_object(
+      'server_time', v_server_time,
+      'reset', true,
+      'attendees', coalesce((
+        select jsonb_agg(to_jsonb(a) order by a.full_name)
+        from public.attendees a
+        where a.event_id = p_event_id
+          and a.archived_at is null
+      ), '[]'::jsonb),
+      'deleted_ids', '[]'::jsonb
+    );
+  end if;
+
+  v_since := p_since - interval '1 minute';
+
+  return jsonb_build_object(
+    'server_time', v_server_time,
+    'reset', false,
+    'attendees', coalesce((
+      select jsonb_agg(to_jsonb(a))
+      from public.attendees a
+      where a.event_id = p_event_id
+        and a.updated_at > v_since
+    ), '[]'::jsonb),
+    'deleted_ids', coalesce((
+      select jsonb_agg(t.attendee_id)
+      from public.attendee_tombstones t
+      where t.event_id = p_event_id
+        and t.deleted_at > v_since
+    ), '[]'::jsonb)
+  );
+end;
+$$;
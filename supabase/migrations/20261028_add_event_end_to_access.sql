@@ -0,0 +1,47 @@
+-- Event end time in get_my_access
+-- Devices delete their cached copy of an event's roster (guest names, notes, tables) a set time after the event
+-- ends, so they need to know when that is, including when they're offline later.
+
+-- 1) Adding a column changes the return type, which create or replace can't do
+drop function if exists public.get_my_access();
+
+create function public.get_my_access()
+returns table (
+  org_id uuid,
+  org_name text,
+  event_id uuid,
+  event_name text,
+  role text,
+  ends_at timestamptz
+) language sql stable security definer
+set search_path = public
+as $$
+  select
+    o.id as org_id,
+    o.name as org_name,
+    e.id as event_id,
+    e.name as event_name,
+    -- Decide role:
+    coalesce(
+      -- If event_membership exists, use that role
+      (select em.role
+         from public.event_members em
+        where em.event_id = e.id
+          and em.user_id = auth.uid()
+        limit 1),
+      -- Otherwise fall back to org role
+      (select m.role
+         from public.organization_members m
+        where m.org_id = o.id
+          and m.user_id = auth.uid()
+        limit 1)
+    ) as role,
+    e.ends_at
+  from public.events e
+  join public.organizations o on o.id = e.org_id
+  where e.id in (select event_id from public.my_events)
+  order by o.name, e.starts_at nulls first;
+$$;
+
+-- 2) Dropping the function dropped its grants
+grant execute on function public.get_my_access() to authenticated;
@@ -0,0 +1,23 @@
+-- Realtime tables
+-- The app subscribes to changes on these tables through services/realtime.ts. Realtime only sends changes for tables
+-- in the supabase_realtime publication, and only rows the subscriber can select under RLS.
+
+-- 1) Publish each table once (adding a table that's already published is an error)
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['attendees', 'events', 'event_members', 'event_access_codes', 'event_code_redemptions']
+  loop
+    if not exists (
+      select 1
+        from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
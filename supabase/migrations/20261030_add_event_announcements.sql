@@ -0,0 +1,137 @@
+-- Event announcements
+-- Short messages managers send to every device working an event ("VIP bus arriving", "close door 2"). Devices get
+-- them live over realtime broadcast; they're stored here so a device that was offline or reconnecting catches up,
+-- and so managers can see who has acknowledged each one.
+
+-- 1) Announcements
+create table if not exists public.event_announcements (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  message text not null check (char_length(message) between 1 and 200),
+  sender_id uuid references auth.users(id) on delete set null,
+  sender_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_event_announcements_event on public.event_announcements(event_id, created_at desc);
+
+-- 2) Acknowledgements, one per user per announcement
+create table if not exists public.event_announcement_acks (
+  announcement_id uuid not null references public.event_announcements(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  acknowledged_at timestamptz not null default now(),
+  primary key (announcement_id, user_id)
+);
+
+-- 3) RLS: readable by anyone with access to the event; rows are only written by the SECURITY DEFINER RPCs below
+alter table public.event_announcements enable row level security;
+alter table public.event_announcement_acks enable row level security;
+
+drop policy if exists event_announcements_select_by_access on public.event_announcements;
+create policy event_announcements_select_by_access
+  on public.event_announcements for select
+  using (event_id in (select event_id from public.my_events));
+
+drop policy if exists event_announcement_acks_select_by_access on public.event_announcement_acks;
+create policy event_announcement_acks_select_by_access
+  on public.event_announcement_acks for select
+  using (
+    announcement_id in (
+      select a.id from public.event_announcements a where a.event_id in (select event_id from public.my_events)
+    )
+  );
+
+-- 4) Send an announcement (managers only). The client picks the ID so it can broadcast the same message it stored;
+--    sending the same ID again is a no-op.
+create or replace function public.send_event_announcement(
+  p_id uuid,
+  p_event_id uuid,
+  p_message text,
+  p_sender_name text default null
+)
+returns public.event_announcements
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_row public.event_announcements;
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can send announcements';
+  end if;
+
+  if nullif(trim(p_message), '') is null then
+    raise exception 'Announcement message is required';
+  end if;
+
+  insert into public.event_announcements (id, event_id, message, sender_id, sender_name)
+  values (p_id, p_event_id, trim(p_message), auth.uid(), nullif(trim(p_sender_name), ''))
+  on conflict (id) do nothing;
+
+  select * into v_row from public.event_announcements where id = p_id;
+  return v_row;
+end;
+$$;
+
+-- 5) Acknowledge an announcement; returns how many people have
+create or replace function public.acknowledge_event_announcement(p_announcement_id uuid)
+returns integer
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if not exists (
+    select 1 from public.event_announcements
+     where id = p_announcement_id
+       and event_id in (select event_id from public.my_events)
+  ) then
+    raise exception 'Announcement not found';
+  end if;
+
+  insert into public.event_announcement_acks (announcement_id, user_id)
+  values (p_announcement_id, auth.uid())
+  on conflict do nothing;
+
+  select count(*) into v_count from public.event_announcement_acks where announcement_id = p_announcement_id;
+  return v_count;
+end;
+$$;
+
+-- 6) Recent announcements for an event with acknowledgement counts, newest first
+create or replace function public.get_event_announcements(p_event_id uuid, p_since timestamptz default null)
+returns table (
+  id uuid,
+  event_id uuid,
+  message text,
+  sender_id uuid,
+  sender_name text,
+  created_at timestamptz,
+  ack_count integer,
+  acknowledged boolean
+) language sql stable security definer
+set search_path = public
+as $$
+  select
+    a.id,
+    a.event_id,
+    a.message,
+    a.sender_id,
+    a.sender_name,
+    a.created_at,
+    (select count(*)::int from public.event_announcement_acks k where k.announcement_id = a.id) as ack_count,
+    exists (
+      select 1 from public.event_announcement_acks k where k.announcement_id = a.id and k.user_id = auth.uid()
+    ) as acknowledged
+  from public.event_announcements a
+  where a.event_id = p_event_id
+    and a.event_id in (select event_id from public.my_events)
+    and a.created_at >= coalesce(p_since, now() - interval '24 hours')
+  order by a.created_at desc
+  limit 50;
+$$;
+
+grant execute on function public.send_event_announcement(uuid, uuid, text, text) to authenticated;
+grant execute on function public.acknowledge_event_announcement(uuid) to authenticated;
+grant execute on function public.get_event_announcements(uuid, timestamptz) to authenticated;
@@ -0,0 +1,21 @@
+-- Attendee row versions
+-- updated_at is the writing transaction's start time, so two devices writing the same attendee can commit in the
+-- opposite order to their timestamps. Devices merging realtime changes need an order that matches commits: a
+-- counter bumped under the row lock on every update does.
+
+alter table public.attendees add column if not exists row_version bigint not null default 1;
+
+create or replace function public.bump_attendee_row_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.row_version := old.row_version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_attendees_bump_row_version on public.attendees;
+create trigger trg_attendees_bump_row_version
+  before update on public.attendees
+  for each row execute function public.bump_attendee_row_version();
@@ -0,0 +1,293 @@
+-- Import batch changes
+-- Rolling back an import used to delete only the attendees it inserted; rows it updated kept the imported values and
+-- rows it archived stayed archived. merge_attendees now records, per batch, each updated row's values before and
+-- after the import and the IDs it archived, and rollback_import_batch restores both.
+
+-- 1) What each batch changed on existing attendees
+create table if not exists public.import_batch_changes (
+  batch_id uuid not null references public.import_batches(id) on delete cascade,
+  attendee_id uuid not null references public.attendees(id) on delete cascade,
+  change text not null check (change in ('updated','archived')),
+  -- Imported fields before and after the update (null for archived rows)
+  previous jsonb,
+  imported jsonb,
+  primary key (batch_id, attendee_id, change)
+);
+
+-- Only the SECURITY DEFINER RPCs below read or write it
+alter table public.import_batch_changes enable row level security;
+
+alter table public.import_batches
+  add column if not exists archived_count integer not null default 0,
+  -- Batches from before this migration have no recorded changes and can't revert their updates
+  add column if not exists changes_recorded boolean not null default false;
+
+-- 2) The fields an import writes, as stored before/after
+create or replace function public.import_batch_fields(a public.attendees)
+returns jsonb
+language sql immutable
+as $$
+  select jsonb_build_object(
+    'full_name', a.full_name,
+    'group_name', a.group_name,
+    'table_number', a.table_number,
+    'ticket_type', a.ticket_type,
+    'notes', a.notes,
+    'external_id', a.external_id,
+    'email', a.email,
+    'archived_at', a.archived_at
+  );
+$$;
+
+-- 3) merge_attendees records what it changes when tracking a batch
+create or replace function public.merge_attendees(
+  p_event_id uuid,
+  p_rows jsonb,
+  p_archive_ids uuid[] default '{}',
+  p_batch jsonb default null
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_batch_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_archived integer := 0;
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can import attendees';
+  end if;
+
+  if p_batch is not null then
+    insert into public.import_batches (
+      event_id, source, source_name, skipped_count, errors, created_by, created_by_email, changes_recorded
+    )
+    values (
+      p_event_id,
+      p_batch ->> 'source',
+      nullif(p_batch ->> 'source_name', ''),
+      coalesce((p_batch ->> 'skipped_count')::integer, 0),
+      coalesce(p_batch -> 'errors', '[]'::jsonb),
+      auth.uid(),
+      auth.jwt() ->> 'email',
+      true
+    )
+    returning id into v_batch_id;
+
+    insert into public.import_batch_changes (batch_id, attendee_id, change, previous)
+    select distinct on (a.id) v_batch_id, a.id, 'updated', public.import_batch_fields(a)
+    from public.attendees a
+    join jsonb_to_recordset(p_rows) as r(id uuid) on r.id = a.id
+    where a.event_id = p_event_id;
+  end if;
+
+  update public.attendees a
+  set full_name = r.full_name,
+      group_name = nullif(r.group_name, ''),
+      table_number = nullif(r.table_number, ''),
+      ticket_type = nullif(r.ticket_type, ''),
+      notes = nullif(r.notes, ''),
+      external_id = coalesce(nullif(r.external_id, ''), a.external_id),
+      email = coalesce(nullif(r.email, ''), a.email),
+      archived_at = null,
+      updated_at = now()
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is not null
+    and a.id = r.id
+    and a.event_id = p_event_id;
+  get diagnostics v_updated = row_count;
+
+  insert into public.attendees (
+    event_id, full_name, group_name, table_number, ticket_type, notes, external_id, email, import_batch_id
+  )
+  select p_event_id,
+         r.full_name,
+         nullif(r.group_name, ''),
+         nullif(r.table_number, ''),
+         nullif(r.ticket_type, ''),
+         nullif(r.notes, ''),
+         nullif(r.external_id, ''),
+         nullif(r.email, ''),
+         v_batch_id
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is null;
+  get diagnostics v_added = row_count;
+
+  with archived as (
+    update public.attendees
+    set archived_at = now(),
+        updated_at = now()
+    where event_id = p_event_id
+      and id = any(p_archive_ids)
+      and archived_at is null
+    returning id
+  ), recorded as (
+    insert into public.import_batch_changes (batch_id, attendee_id, change)
+    select v_batch_id, archived.id, 'archived'
+    from archived
+    where v_batch_id is not null
+  )
+  select count(*) into v_archived from archived;
+
+  if v_batch_id is not null then
+    update public.import_batch_changes c
+    set imported = public.import_batch_fields(a)
+    from public.attendees a
+    where c.batch_id = v_batch_id
+      and c.change = 'updated'
+      and a.id = c.attendee_id;
+
+    update public.import_batches
+    set added_count = v_added,
+        updated_count = v_updated,
+        archived_count = v_archived
+    where id = v_batch_id;
+  end if;
+
+  return jsonb_build_object(
+    'added', v_added,
+    'updated', v_updated,
+    'archived', v_archived,
+    'batch_id', v_batch_id
+  );
+end;
+$$;
+
+-- 4) Batch history now says how many rows each batch archived and whether its changes can be reverted
+drop function if exists public.get_import_batches(uuid);
+
+create or replace function public.get_import_batches(p_event_id uuid)
+returns table (
+  id uuid,
+  source text,
+  source_name text,
+  added_count integer,
+  updated_count integer,
+  archived_count integer,
+  skipped_count integer,
+  errors jsonb,
+  created_by uuid,
+  created_by_email text,
+  created_at timestamptz,
+  rolled_back_at timestamptz,
+  changes_recorded boolean,
+  remaining_count bigint,
+  checked_in_count bigint
+)
+language sql stable
+as $$
+  select b.id, b.source, b.source_name, b.added_count, b.updated_count, b.archived_count, b.skipped_count, b.errors,
+         b.created_by, b.created_by_email, b.created_at, b.rolled_back_at, b.changes_recorded,
+         count(a.id),
+         count(a.id) filter (where a.checked_in)
+  from public.import_batches b
+  left join public.attendees a on a.import_batch_id = b.id
+  where b.event_id = p_event_id
+  group by b.id
+  order by b.created_at desc;
+$$;
+
+-- 5) Roll back a batch: delete the attendees it inserted, put back the imported fields of rows it updated (a field
+-- edited since keeps the edit) and unarchive rows it archived. Refuses when any inserted attendee is checked in
+-- unless p_include_checked_in is set, and refuses batches that updated rows before changes were recorded.
+drop function if exists public.rollback_import_batch(uuid, boolean);
+
+create or replace function public.rollback_import_batch(
+  p_batch_id uuid,
+  p_include_checked_in boolean default false
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_batch public.import_batches%rowtype;
+  v_checked_in integer;
+  v_removed integer;
+  v_restored integer;
+  v_unarchived integer;
+begin
+  select * into v_batch
+  from public.import_batches
+  where id = p_batch_id and rolled_back_at is null;
+
+  if v_batch.id is null then
+    raise exception 'Import batch not found or already rolled back';
+  end if;
+
+  if not public.is_event_admin_or_manager(v_batch.event_id) then
+    raise exception 'Only event managers can roll back imports';
+  end if;
+
+  if not v_batch.changes_recorded and v_batch.updated_count > 0 then
+    raise exception 'This import updated % existing attendee(s) before changes were recorded, so it can''t be rolled back',
+      v_batch.updated_count;
+  end if;
+
+  select count(*) into v_checked_in
+  from public.attendees
+  where import_batch_id = p_batch_id and checked_in = true;
+
+  if v_checked_in > 0 and not p_include_checked_in then
+    raise exception '% attendee(s) from this import are already checked in', v_checked_in;
+  end if;
+
+  delete from public.attendees
+  where import_batch_id = p_batch_id
+    and event_id = v_batch.event_id;
+  get diagnostics v_removed = row_count;
+
+  update public.attendees a
+  set full_name = case when a.full_name is not distinct from c.imported ->> 'full_name'
+                       then c.previous ->> 'full_name' else a.full_name end,
+      group_name = case when a.group_name is not distinct from c.imported ->> 'group_name'
+                        then c.previous ->> 'group_name' else a.group_name end,
+      table_number = case when a.table_number is not distinct from c.imported ->> 'table_number'
+                          then c.previous ->> 'table_number' else a.table_number end,
+      ticket_type = case when a.ticket_type is not distinct from c.imported ->> 'ticket_type'
+                         then c.previous ->> 'ticket_type' else a.ticket_type end,
+      notes = case when a.notes is not distinct from c.imported ->> 'notes'
+                   then c.previous ->> 'notes' else a.notes end,
+      external_id = case when a.external_id is not distinct from c.imported ->> 'external_id'
+                         then c.previous ->> 'external_id' else a.external_id end,
+      email = case when a.email is not distinct from c.imported ->> 'email'
+                   then c.previous ->> 'email' else a.email end,
+      -- The import unarchived the row; archive it again unless someone has since
+      archived_at = coalesce(a.archived_at, (c.previous ->> 'archived_at')::timestamptz),
+      updated_at = now()
+  from public.import_batch_changes c
+  where c.batch_id = p_batch_id
+    and c.change = 'updated'
+    and c.imported is not null
+    and a.id = c.attendee_id
+    and a.event_id = v_batch.event_id;
+  get diagnostics v_restored = row_count;
+
+  update public.attendees a
+  set archived_at = null,
+      updated_at = now()
+  from public.import_batch_changes c
+  where c.batch_id = p_batch_id
+    and c.change = 'archived'
+    and a.id = c.attendee_id
+    and a.event_id = v_batch.event_id
+    and a.archived_at is not null;
+  get diagnostics v_unarchived = row_count;
+
+  update public.import_batches
+  set rolled_back_at = now(),
+      rolled_back_by = auth.uid()
+  where id = p_batch_id;
+
+  return jsonb_build_object('removed', v_removed, 'restored', v_restored, 'unarchived', v_unarchived);
+end;
+$$;
+
+comment on table public.import_batch_changes is
+  'Attendees a roster import updated (with their values before and after) or archived, so rollback_import_batch can restore them.';
@@ -0,0 +1,18 @@
+-- Announcements over realtime
+-- Devices learned about new announcements only from a broadcast the sender made after saving one, so if that
+-- broadcast failed nobody saw the announcement until they reconnected. Publishing the table delivers every insert to
+-- devices that can read the event (RLS applies), and they refetch it through get_event_announcements.
+
+do $$
+begin
+  if not exists (
+    select 1
+      from pg_publication_tables
+     where pubname = 'supabase_realtime'
+       and schemaname = 'public'
+       and tablename = 'event_announcements'
+  ) then
+    alter publication supabase_realtime add table public.event_announcements;
+  end if;
+end;
+$$;
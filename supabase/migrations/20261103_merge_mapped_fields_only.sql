@@ -0,0 +1,133 @@
+-- Merge only mapped columns
+-- merge_attendees wrote every field on updated rows, so a column the import didn't map (a sheet without a Notes
+-- column, say) was cleared on each merge and scheduled sheet syncs wiped notes every interval. p_fields now lists
+-- the columns the source mapped; the rest keep their stored values. full_name is always mapped.
+
+drop function if exists public.merge_attendees(uuid, jsonb, uuid[], jsonb);
+
+create or replace function public.merge_attendees(
+  p_event_id uuid,
+  p_rows jsonb,
+  p_archive_ids uuid[] default '{}',
+  p_batch jsonb default null,
+  p_fields text[] default null
+)
+returns jsonb
+language plpgsql security definer
+as $$
+declare
+  v_batch_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_archived integer := 0;
+  -- null writes every field, as before
+  v_fields text[] := coalesce(
+    p_fields,
+    array['group_name', 'table_number', 'ticket_type', 'notes', 'external_id', 'email']
+  );
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can import attendees';
+  end if;
+
+  if p_batch is not null then
+    insert into public.import_batches (
+      event_id, source, source_name, skipped_count, errors, created_by, created_by_email, changes_recorded
+    )
+    values (
+      p_event_id,
+      p_batch ->> 'source',
+      nullif(p_batch ->> 'source_name', ''),
+      coalesce((p_batch ->> 'skipped_count')::integer, 0),
+      coalesce(p_batch -> 'errors', '[]'::jsonb),
+      auth.uid(),
+      auth.jwt() ->> 'email',
+      true
+    )
+    returning id into v_batch_id;
+
+    insert into public.import_batch_changes (batch_id, attendee_id, change, previous)
+    select distinct on (a.id) v_batch_id, a.id, 'updated', public.import_batch_fields(a)
+    from public.attendees a
+    join jsonb_to_recordset(p_rows) as r(id uuid) on r.id = a.id
+    where a.event_id = p_event_id;
+  end if;
+
+  update public.attendees a
+  set full_name = r.full_name,
+      group_name = case when 'group_name' = any(v_fields) then nullif(r.group_name, '') else a.group_name end,
+      table_number = case when 'table_number' = any(v_fields) then nullif(r.table_number, '') else a.table_number end,
+      ticket_type = case when 'ticket_type' = any(v_fields) then nullif(r.ticket_type, '') else a.ticket_type end,
+      notes = case when 'notes' = any(v_fields) then nullif(r.notes, '') else a.notes end,
+      external_id = case when 'external_id' = any(v_fields)
+                         then coalesce(nullif(r.external_id, ''), a.external_id) else a.external_id end,
+      email = case when 'email' = any(v_fields) then coalesce(nullif(r.email, ''), a.email) else a.email end,
+      archived_at = null,
+      updated_at = now()
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is not null
+    and a.id = r.id
+    and a.event_id = p_event_id;
+  get diagnostics v_updated = row_count;
+
+  insert into public.attendees (
+    event_id, full_name, group_name, table_number, ticket_type, notes, external_id, email, import_batch_id
+  )
+  select p_event_id,
+         r.full_name,
+         nullif(r.group_name, ''),
+         nullif(r.table_number, ''),
+         nullif(r.ticket_type, ''),
+         nullif(r.notes, ''),
+         nullif(r.external_id, ''),
+         nullif(r.email, ''),
+         v_batch_id
+  from jsonb_to_recordset(p_rows) as r(
+    id uuid, full_name text, group_name text, table_number text,
+    ticket_type text, notes text, external_id text, email text
+  )
+  where r.id is null;
+  get diagnostics v_added = row_count;
+
+  with archived as (
+    update public.attendees
+    set archived_at = now(),
+        updated_at = now()
+    where event_id = p_event_id
+      and id = any(p_archive_ids)
+      and archived_at is null
+    returning id
+  ), recorded as (
+    insert into public.import_batch_changes (batch_id, attendee_id, change)
+    select v_batch_id, archived.id, 'archived'
+    from archived
+    where v_batch_id is not null
+  )
+  select count(*) into v_archived from archived;
+
+  if v_batch_id is not null then
+    update public.import_batch_changes c
+    set imported = public.import_batch_fields(a)
+    from public.attendees a
+    where c.batch_id = v_batch_id
+      and c.change = 'updated'
+      and a.id = c.attendee_id;
+
+    update public.import_batches
+    set added_count = v_added,
+        updated_count = v_updated,
+        archived_count = v_archived
+    where id = v_batch_id;
+  end if;
+
+  return jsonb_build_object(
+    'added', v_added,
+    'updated', v_updated,
+    'archived', v_archived,
+    'batch_id', v_batch_id
+  );
+end;
+$$;
@@ -0,0 +1,61 @@
+-- Sheet sync lease
+-- Every manager device with the event open runs the scheduled sync, and two runs that read the roster before
+-- either writes both insert the sheet's new rows. A run now claims the event first: claim_event_sheet_sync only
+-- succeeds when no other run holds an unexpired lease, and record_event_sheet_sync releases it.
+
+-- 1) Lease
+alter table public.events
+  add column if not exists sheet_sync_started_at timestamptz;
+
+-- 2) Claim a run (false while another device's run holds the lease)
+create or replace function public.claim_event_sheet_sync(
+  p_event_id uuid,
+  p_lease_seconds integer default 300
+)
+returns boolean
+language plpgsql security definer
+as $$
+declare
+  v_claimed integer;
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can sync sheets';
+  end if;
+
+  -- A run that crashed or lost its connection gives the lease up once it expires
+  update public.events
+  set sheet_sync_started_at = now()
+  where id = p_event_id
+    and (sheet_sync_started_at is null
+         or sheet_sync_started_at < now() - make_interval(secs => greatest(coalesce(p_lease_seconds, 300), 1)));
+  get diagnostics v_claimed = row_count;
+
+  return v_claimed > 0;
+end;
+$$;
+
+-- 3) Record the outcome of a run and release the lease. A null p_changes releases it without recording a run
+-- (the run failed).
+create or replace function public.record_event_sheet_sync(
+  p_event_id uuid,
+  p_changes integer
+)
+returns timestamptz
+language plpgsql security definer
+as $$
+declare
+  v_synced_at timestamptz := now();
+begin
+  if not public.is_event_admin_or_manager(p_event_id) then
+    raise exception 'Only event managers can sync sheets';
+  end if;
+
+  update public.events
+  set sheet_last_synced_at = case when p_changes is null then sheet_last_synced_at else v_synced_at end,
+      sheet_last_sync_changes = coalesce(p_changes, sheet_last_sync_changes),
+      sheet_sync_started_at = null
+  where id = p_event_id;
+
+  return case when p_changes is null then null else v_synced_at end;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Senders' own announcements count as seen
+-- get_event_announcements reported an announcement as unacknowledged to the manager who sent it, so the refetch
+-- that follows every insert put the banner back on the sender's screens. The sender is now treated as having seen
+-- it; ack_count still counts only people who acknowledged it.
+
+create or replace function public.get_event_announcements(p_event_id uuid, p_since timestamptz default null)
+returns table (
+  id uuid,
+  event_id uuid,
+  message text,
+  sender_id uuid,
+  sender_name text,
+  created_at timestamptz,
+  ack_count integer,
+  acknowledged boolean
+) language sql stable security definer
+set search_path = public
+as $$
+  select
+    a.id,
+    a.event_id,
+    a.message,
+    a.sender_id,
+    a.sender_name,
+    a.created_at,
+    (select count(*)::int from public.event_announcement_acks k where k.announcement_id = a.id) as ack_count,
+    coalesce(a.sender_id = auth.uid(), false) or exists (
+      select 1 from public.event_announcement_acks k where k.announcement_id = a.id and k.user_id = auth.uid()
+    ) as acknowledged
+  from public.event_announcements a
+  where a.event_id = p_event_id
+    and a.event_id in (select event_id from public.my_events)
+    and a.created_at >= coalesce(p_since, now() - interval '24 hours')
+  order by a.created_at desc
+  limit 50;
+$$;
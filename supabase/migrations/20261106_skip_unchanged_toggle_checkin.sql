@@ -0,0 +1,43 @@
+-- Unchanged toggles are no-ops
+-- toggle_checkin rewrote the attendee and logged a check-in event even when the attendee was already in the
+-- requested state (a second tap, or two doors checking in the same guest), so the audit trail showed check-ins that
+-- changed nothing and every device refetched a row whose updated_at had moved. It now leaves the row alone and logs
+-- nothing in that case, as apply_checkin_operations does with 'unchanged'.
+
+create or replace function public.toggle_checkin(
+  p_attendee_id uuid,
+  p_checked boolean,
+  p_source text default 'tap'
+)
+returns void
+language plpgsql security definer
+as $$
+declare
+  v_event_id uuid;
+begin
+  update public.attendees
+  set checked_in = p_checked,
+      checked_in_at = case when p_checked then now() else null end,
+      checked_in_by = case when p_checked then auth.uid() else null end,
+      updated_at = now()
+  where id = p_attendee_id
+    and checked_in is distinct from p_checked
+    and event_id in (select event_id from public.my_events)
+  returning event_id into v_event_id;
+
+  -- Not found, or already in that state
+  if v_event_id is null then
+    return;
+  end if;
+
+  insert into public.checkin_events (event_id, attendee_id, actor_id, actor_email, action, source)
+  values (
+    v_event_id,
+    p_attendee_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case when p_checked then 'check_in' else 'undo' end,
+    p_source
+  );
+end;
+$$;